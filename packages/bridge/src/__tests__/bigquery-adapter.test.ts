@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from "vitest";
+import { BigQuery } from "@google-cloud/bigquery";
+import type { AdapterPool } from "../adapter.js";
+import { bigqueryAdapter, parseBigQueryConnectionString } from "../adapters/bigquery.js";
+
+describe("parseBigQueryConnectionString", () => {
+  it("should read the project, dataset and options", () => {
+    const key = Buffer.from(JSON.stringify({ client_email: "sa@proj.iam.gserviceaccount.com" })).toString("base64");
+    expect(
+      parseBigQueryConnectionString(
+        `bigquery://my-project/shop?location=EU&credentials=${encodeURIComponent(key)}&apiEndpoint=http://localhost:9050`,
+      ),
+    ).toEqual({
+      projectId: "my-project",
+      datasetId: "shop",
+      location: "EU",
+      credentials: { client_email: "sa@proj.iam.gserviceaccount.com" },
+      apiEndpoint: "http://localhost:9050",
+    });
+  });
+
+  it("should allow a connection without a default dataset", () => {
+    expect(parseBigQueryConnectionString("bigquery://my-project")).toMatchObject({
+      projectId: "my-project",
+      datasetId: undefined,
+    });
+  });
+
+  it("should reject other schemes and bad credentials", () => {
+    expect(() => parseBigQueryConnectionString("postgresql://host/db")).toThrow("bigquery://");
+    expect(() => parseBigQueryConnectionString("bigquery://p/d?credentials=not-json")).toThrow(
+      "Invalid BigQuery credentials",
+    );
+  });
+});
+
+describe("bigqueryAdapter.execute", () => {
+  let createQueryJob: ReturnType<typeof vi.fn>;
+  let getQueryResults: ReturnType<typeof vi.fn>;
+  let pool: AdapterPool;
+
+  /** Answer the dry run with `statementType`, then return `rows` for the query */
+  function respondWith(statementType: string, rows: Record<string, unknown>[], totalRows = rows.length) {
+    getQueryResults.mockResolvedValue([
+      rows,
+      null,
+      {
+        schema: {
+          fields: [
+            { name: "region", type: "STRING" },
+            { name: "revenue", type: "NUMERIC" },
+            { name: "month", type: "DATE" },
+          ],
+        },
+        totalRows: String(totalRows),
+      },
+    ]);
+    createQueryJob.mockImplementation(async (options: { dryRun?: boolean }) =>
+      options.dryRun
+        ? [{ metadata: { statistics: { query: { statementType } } } }]
+        : [{ getQueryResults }],
+    );
+  }
+
+  beforeEach(() => {
+    createQueryJob = vi.fn();
+    getQueryResults = vi.fn();
+    pool = {
+      id: "conn_1",
+      _pool: { client: { createQueryJob }, projectId: "proj", datasetId: "shop", location: "EU" },
+    };
+  });
+
+  it("should dry-run, then run the unwrapped query with a job timeout and page size", async () => {
+    const sql = "SELECT region, SUM(total) AS revenue, DATE_TRUNC(day, MONTH) AS month FROM shop.orders GROUP BY region, month ORDER BY revenue DESC";
+    respondWith("SELECT", [
+      { region: "EU", revenue: { toNumber: () => 1200.5 }, month: { value: "2024-01-01" } },
+    ]);
+
+    const result = await bigqueryAdapter.execute(pool, sql, undefined, { maxRows: 100, timeoutMs: 15000 });
+
+    expect(createQueryJob).toHaveBeenCalledTimes(2);
+    expect(createQueryJob.mock.calls[0]?.[0]).toMatchObject({ query: sql, dryRun: true });
+    expect(createQueryJob.mock.calls[1]?.[0]).toMatchObject({
+      query: sql,
+      location: "EU",
+      defaultDataset: { projectId: "proj", datasetId: "shop" },
+      useLegacySql: false,
+      jobTimeoutMs: 15000,
+    });
+    expect(getQueryResults.mock.calls[0]?.[0]).toMatchObject({ maxResults: 100, autoPaginate: false });
+
+    expect(result.rows).toEqual([{ region: "EU", revenue: 1200.5, month: "2024-01-01" }]);
+    expect(result.columns.map((c) => c.type)).toEqual(["string", "number", "date"]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it("should report truncation from the total row count", async () => {
+    respondWith("SELECT", [{ region: "EU", revenue: 1, month: null }, { region: "US", revenue: 2, month: null }], 5000);
+
+    const result = await bigqueryAdapter.execute(pool, "SELECT region FROM shop.orders", undefined, { maxRows: 2 });
+
+    expect(result.rowCount).toBe(2);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("should reject statements the dry run does not classify as SELECT", async () => {
+    respondWith("SCRIPT", []);
+
+    await expect(bigqueryAdapter.execute(pool, "SELECT 1")).rejects.toThrow("Forbidden SQL operation: SCRIPT");
+    expect(createQueryJob).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject forbidden SQL before calling BigQuery", async () => {
+    await expect(bigqueryAdapter.execute(pool, "DROP TABLE shop.orders")).rejects.toThrow("DROP");
+    expect(createQueryJob).not.toHaveBeenCalled();
+  });
+
+  it("should report job timeouts as QUERY_TIMEOUT", async () => {
+    respondWith("SELECT", []);
+    getQueryResults.mockRejectedValue(
+      Object.assign(new Error("Job timed out after 15 sec"), { errors: [{ reason: "timeout" }] }),
+    );
+
+    await expect(
+      bigqueryAdapter.execute(pool, "SELECT 1", undefined, { timeoutMs: 15000 }),
+    ).rejects.toMatchObject({ code: "QUERY_TIMEOUT" });
+  });
+});
+
+/**
+ * Runs against the open-source BigQuery emulator
+ * (https://github.com/goccy/bigquery-emulator):
+ *
+ *   docker run -p 9050:9050 ghcr.io/goccy/bigquery-emulator --project=test
+ *   BIGQUERY_EMULATOR_ENDPOINT=http://localhost:9050 pnpm test
+ */
+const emulatorEndpoint = process.env.BIGQUERY_EMULATOR_ENDPOINT;
+
+describe.skipIf(!emulatorEndpoint)("bigqueryAdapter against the BigQuery emulator", () => {
+  const datasetId = `heydata_test_${Date.now()}`;
+  let client: BigQuery;
+  let pool: AdapterPool;
+
+  beforeAll(async () => {
+    client = new BigQuery({ projectId: "test", apiEndpoint: emulatorEndpoint });
+    const [dataset] = await client.createDataset(datasetId);
+    const [orders] = await dataset.createTable("orders", {
+      schema: [
+        { name: "id", type: "INT64", mode: "REQUIRED" },
+        { name: "region", type: "STRING" },
+        { name: "total", type: "NUMERIC" },
+        { name: "ordered_at", type: "TIMESTAMP" },
+      ],
+    });
+    await orders.insert([
+      { id: 1, region: "EU", total: 10.5, ordered_at: "2024-01-05T10:00:00Z" },
+      { id: 2, region: "US", total: 20, ordered_at: "2024-01-20T10:00:00Z" },
+      { id: 3, region: "EU", total: 7, ordered_at: "2024-02-02T10:00:00Z" },
+    ]);
+
+    pool = await bigqueryAdapter.connect("bigquery_emulator", {
+      connectionString: `bigquery://test/${datasetId}?apiEndpoint=${encodeURIComponent(emulatorEndpoint!)}`,
+    });
+  });
+
+  afterAll(async () => {
+    await client?.dataset(datasetId).delete({ force: true });
+  });
+
+  it("passes the connection test", async () => {
+    await expect(bigqueryAdapter.testConnection(pool)).resolves.toBe(true);
+  });
+
+  it("introspects tables with dataset-qualified schemas", async () => {
+    const schema = await bigqueryAdapter.introspect(pool);
+    const orders = schema.tables.find((t) => t.name === "orders");
+    expect(orders?.schema).toBe(datasetId);
+    expect(orders?.columns.map((c) => [c.name, c.dataType, c.isNullable])).toEqual([
+      ["id", "INT64", false],
+      ["region", "STRING", true],
+      ["total", "NUMERIC", true],
+      ["ordered_at", "TIMESTAMP", true],
+    ]);
+  });
+
+  it("runs BigQuery SQL with TIMESTAMP_TRUNC and keeps ORDER BY under the row cap", async () => {
+    const result = await bigqueryAdapter.execute(
+      pool,
+      `SELECT region, SUM(total) AS revenue FROM ${datasetId}.orders WHERE ordered_at >= TIMESTAMP_TRUNC(TIMESTAMP '2024-01-10', MONTH) GROUP BY region ORDER BY revenue DESC`,
+      undefined,
+      { maxRows: 1 },
+    );
+    expect(result.rows).toEqual([{ region: "US", revenue: 20 }]);
+    expect(result.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,143 @@
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { DuckDBInstance } from "@duckdb/node-api";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { AdapterPool } from "../adapter.js";
+import { duckdbAdapter } from "../adapters/duckdb.js";
+
+describe("duckdbAdapter", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "heydata-duckdb-"));
+
+    writeFileSync(
+      path.join(dir, "daily-sales.csv"),
+      "day,region,amount\n2024-01-01,EU,10.5\n2024-01-01,US,20\n2024-01-02,EU,7\n",
+    );
+
+    const instance = await DuckDBInstance.create(path.join(dir, "shop.duckdb"));
+    const conn = await instance.connect();
+    await conn.run(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name VARCHAR);
+      CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users(id), total DECIMAL(10, 2));
+      INSERT INTO users VALUES (1, 'Alice');
+      INSERT INTO orders VALUES (1, 1, 9.5), (2, 1, 3.25);
+    `);
+    conn.closeSync();
+    instance.closeSync();
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("with a CSV file", () => {
+    let pool: AdapterPool;
+
+    beforeAll(async () => {
+      pool = await duckdbAdapter.connect("duckdb_csv", {
+        connectionString: path.join(dir, "daily-sales.csv"),
+        fileRoot: dir,
+      });
+    });
+
+    afterAll(async () => {
+      await duckdbAdapter.dispose(pool);
+    });
+
+    it("exposes the file as a view named after it", async () => {
+      const result = await duckdbAdapter.execute(
+        pool,
+        "SELECT region, SUM(amount) AS revenue FROM daily_sales GROUP BY region ORDER BY region",
+      );
+
+      expect(result.rows).toEqual([
+        { region: "EU", revenue: 17.5 },
+        { region: "US", revenue: 20 },
+      ]);
+      expect(result.columns.map((c) => c.type)).toEqual(["string", "number"]);
+    });
+
+    it("introspects the view's columns", async () => {
+      const schema = await duckdbAdapter.introspect(pool);
+      expect(schema.tables).toHaveLength(1);
+      expect(schema.tables[0]?.name).toBe("daily_sales");
+      expect(schema.tables[0]?.columns.map((c) => c.name)).toEqual(["day", "region", "amount"]);
+    });
+
+    it("blocks file-reading functions and other statements", async () => {
+      await expect(
+        duckdbAdapter.execute(pool, "SELECT * FROM read_csv_auto('/etc/passwd')"),
+      ).rejects.toThrow("function read_csv_auto()");
+      await expect(duckdbAdapter.execute(pool, "DROP VIEW daily_sales")).rejects.toThrow(
+        "Only SELECT queries are allowed",
+      );
+      await expect(duckdbAdapter.execute(pool, "SELECT 1; SELECT 2")).rejects.toThrow("Multiple statements");
+    });
+
+    it("keeps file access disabled even without the guard", async () => {
+      await expect(
+        duckdbAdapter.execute(pool, "SELECT * FROM read_text('/etc/hostname')", undefined, {
+          validateOperations: false,
+        }),
+      ).rejects.toThrow("disabled by configuration");
+    });
+  });
+
+  describe("with a database file", () => {
+    let pool: AdapterPool;
+
+    beforeAll(async () => {
+      pool = await duckdbAdapter.connect("duckdb_file", {
+        connectionString: path.join(dir, "shop.duckdb"),
+        fileRoot: dir,
+      });
+    });
+
+    afterAll(async () => {
+      await duckdbAdapter.dispose(pool);
+    });
+
+    it("caps rows and flags truncation", async () => {
+      const result = await duckdbAdapter.execute(pool, "SELECT id, total FROM orders ORDER BY id", undefined, {
+        maxRows: 1,
+      });
+      expect(result.rows).toEqual([{ id: 1, total: 9.5 }]);
+      expect(result.truncated).toBe(true);
+    });
+
+    it("interrupts queries that exceed the timeout", async () => {
+      await expect(
+        duckdbAdapter.execute(pool, "SELECT COUNT(*) FROM range(100000000000)", undefined, { timeoutMs: 100 }),
+      ).rejects.toMatchObject({ code: "QUERY_TIMEOUT" });
+    });
+
+    it("introspects keys and row estimates", async () => {
+      const schema = await duckdbAdapter.introspect(pool);
+      const orders = schema.tables.find((t) => t.name === "orders");
+
+      expect(orders?.rowCountEstimate).toBe(2);
+      expect(orders?.columns.find((c) => c.name === "id")).toMatchObject({ isPrimaryKey: true });
+      expect(orders?.columns.find((c) => c.name === "user_id")).toMatchObject({
+        isForeignKey: true,
+        foreignTable: "users",
+        foreignColumn: "id",
+      });
+    });
+  });
+
+  it("refuses folders that link to files outside the file root", async () => {
+    const root = mkdtempSync(path.join(tmpdir(), "heydata-duckdb-root-"));
+    try {
+      mkdirSync(path.join(root, "data"));
+      symlinkSync(path.join(dir, "daily-sales.csv"), path.join(root, "data", "sales.csv"));
+      await expect(
+        duckdbAdapter.connect("duckdb_symlink", { connectionString: "data", fileRoot: root }),
+      ).rejects.toThrow("outside the directory");
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -102,6 +102,30 @@ describe("executeQuery", () => {
     expect(queryArg?.text ?? queryCall?.[0]).toContain("LIMIT");
   });
 
+  it("should mark results truncated only when more than maxRows rows come back", async () => {
+    const rows = Array.from({ length: 4 }, (_, i) => ({ id: i }));
+
+    mockClient.query.mockResolvedValueOnce({});
+    mockClient.query.mockResolvedValueOnce({ fields: [{ name: "id", dataTypeID: 23 }], rows, rowCount: 4 });
+    const truncated = await executeQuery(mockPool, "SELECT id FROM users", undefined, { maxRows: 3 });
+
+    const queryArg = mockClient.query.mock.calls[1]?.[0] as { text: string };
+    expect(queryArg.text).toMatch(/LIMIT 4$/);
+    expect(truncated.rowCount).toBe(3);
+    expect(truncated.truncated).toBe(true);
+
+    mockClient.query.mockResolvedValueOnce({});
+    mockClient.query.mockResolvedValueOnce({
+      fields: [{ name: "id", dataTypeID: 23 }],
+      rows: rows.slice(0, 3),
+      rowCount: 3,
+    });
+    const exact = await executeQuery(mockPool, "SELECT id FROM users", undefined, { maxRows: 3 });
+
+    expect(exact.rowCount).toBe(3);
+    expect(exact.truncated).toBe(false);
+  });
+
   it("should reject forbidden operations", async () => {
     await expect(executeQuery(mockPool, "DROP TABLE users")).rejects.toThrow("DROP");
   });
@@ -114,6 +138,31 @@ describe("executeQuery", () => {
     expect(mockClient.release).toHaveBeenCalled();
   });
 
+  it("should run the query in a read-only transaction and roll it back", async () => {
+    mockClient.query.mockResolvedValueOnce({});
+    mockClient.query.mockResolvedValueOnce({ fields: [], rows: [], rowCount: 0 });
+
+    await executeQuery(mockPool, "SELECT * FROM users", undefined, { timeoutMs: 1000, role: "analytics_ro" });
+
+    const preamble = mockClient.query.mock.calls[0]?.[0] as string;
+    expect(preamble).toMatch(/^BEGIN READ ONLY; /);
+    expect(preamble).toContain("SET LOCAL statement_timeout = '1000ms'");
+    expect(preamble).toContain("SET LOCAL lock_timeout");
+    expect(preamble).toContain("SET LOCAL idle_in_transaction_session_timeout");
+    expect(preamble).toContain('SET LOCAL ROLE "analytics_ro"');
+    expect(mockClient.query.mock.calls[2]?.[0]).toBe("ROLLBACK");
+    expect(mockClient.release).toHaveBeenCalledWith(undefined);
+  });
+
+  it("should destroy the connection when the rollback fails", async () => {
+    mockClient.query.mockResolvedValueOnce({});
+    mockClient.query.mockRejectedValueOnce(new Error("Query failed"));
+    mockClient.query.mockRejectedValueOnce(new Error("Connection terminated"));
+
+    await expect(executeQuery(mockPool, "SELECT * FROM users")).rejects.toThrow("Query failed");
+    expect(mockClient.release).toHaveBeenCalledWith(expect.any(Error));
+  });
+
   it("should handle timeout errors", async () => {
     mockClient.query.mockResolvedValueOnce({});
     mockClient.query.mockRejectedValueOnce(
@@ -1,98 +1,353 @@
 import { describe, it, expect } from "vitest";
-import { validateSql, injectLimit, applySqlGuards } from "../guards.js";
+import {
+  validateSql,
+  injectLimit,
+  applySqlGuards,
+  queryRoleFromEnv,
+  readOnlyTransactionPreamble,
+} from "../guards.js";
 
 describe("validateSql", () => {
-  it("should allow SELECT queries", () => {
-    expect(() => validateSql("SELECT * FROM users")).not.toThrow();
-    expect(() => validateSql("SELECT id, name FROM users WHERE active = true")).not.toThrow();
+  it("should allow SELECT queries", async () => {
+    await expect(validateSql("SELECT * FROM users")).resolves.toBeUndefined();
+    await expect(validateSql("SELECT id, name FROM users WHERE active = true")).resolves.toBeUndefined();
   });
 
-  it("should allow WITH (CTE) queries", () => {
-    expect(() =>
+  it("should allow WITH (CTE) queries", async () => {
+    await expect(
       validateSql("WITH active_users AS (SELECT * FROM users WHERE active) SELECT * FROM active_users"),
-    ).not.toThrow();
+    ).resolves.toBeUndefined();
   });
 
-  it("should reject DROP statements", () => {
-    expect(() => validateSql("DROP TABLE users")).toThrow("DROP");
+  it("should reject DROP statements", async () => {
+    await expect(validateSql("DROP TABLE users")).rejects.toThrow("DROP");
   });
 
-  it("should reject DELETE statements", () => {
-    expect(() => validateSql("DELETE FROM users WHERE id = 1")).toThrow("DELETE");
+  it("should reject DELETE statements", async () => {
+    await expect(validateSql("DELETE FROM users WHERE id = 1")).rejects.toThrow("DELETE");
   });
 
-  it("should reject INSERT statements", () => {
-    expect(() => validateSql("INSERT INTO users (name) VALUES ('test')")).toThrow("INSERT");
+  it("should reject INSERT statements", async () => {
+    await expect(validateSql("INSERT INTO users (name) VALUES ('test')")).rejects.toThrow("INSERT");
   });
 
-  it("should reject UPDATE statements", () => {
-    expect(() => validateSql("UPDATE users SET name = 'test' WHERE id = 1")).toThrow("UPDATE");
+  it("should reject UPDATE statements", async () => {
+    await expect(validateSql("UPDATE users SET name = 'test' WHERE id = 1")).rejects.toThrow("UPDATE");
   });
 
-  it("should reject TRUNCATE statements", () => {
-    expect(() => validateSql("TRUNCATE TABLE users")).toThrow("TRUNCATE");
+  it("should reject TRUNCATE statements", async () => {
+    await expect(validateSql("TRUNCATE TABLE users")).rejects.toThrow("TRUNCATE");
   });
 
-  it("should reject multiple statements", () => {
-    expect(() => validateSql("SELECT 1; SELECT 2")).toThrow("Multiple statements");
+  it("should reject multiple statements", async () => {
+    await expect(validateSql("SELECT 1; SELECT 2")).rejects.toThrow("Multiple statements");
   });
 
-  it("should reject non-SELECT queries", () => {
-    expect(() => validateSql("EXPLAIN SELECT * FROM users")).toThrow("Only SELECT");
+  it("should reject non-SELECT queries", async () => {
+    await expect(validateSql("EXPLAIN SELECT * FROM users")).rejects.toThrow("Only SELECT");
   });
 
-  it("should not false-positive on column names containing keywords", () => {
+  it("should not false-positive on column names containing keywords", async () => {
     // "dropdown" contains "drop" but should be allowed
-    expect(() => validateSql("SELECT dropdown FROM ui_elements")).not.toThrow();
+    await expect(validateSql("SELECT dropdown FROM ui_elements")).resolves.toBeUndefined();
     // "updated_at" contains "update" but should be allowed
-    expect(() => validateSql("SELECT updated_at FROM users")).not.toThrow();
+    await expect(validateSql("SELECT updated_at FROM users")).resolves.toBeUndefined();
+    await expect(validateSql("SELECT last_update, created_by FROM audit_log")).resolves.toBeUndefined();
+  });
+
+  it("should not match keywords or semicolons inside string literals", async () => {
+    await expect(
+      validateSql("SELECT * FROM events WHERE action IN ('DELETE', 'UPDATE; DROP TABLE users')"),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should allow a trailing semicolon", async () => {
+    await expect(validateSql("SELECT 1;")).resolves.toBeUndefined();
+  });
+
+  it("should allow analytics syntax such as window frames and grouping sets", async () => {
+    await expect(
+      validateSql(
+        "SELECT day, SUM(revenue) OVER (ORDER BY day ROWS BETWEEN 6 PRECEDING AND CURRENT ROW) FROM daily",
+      ),
+    ).resolves.toBeUndefined();
+    await expect(
+      validateSql("SELECT region, product, SUM(x) FROM t GROUP BY GROUPING SETS ((region), (product))"),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should reject data-modifying CTEs", async () => {
+    await expect(
+      validateSql("WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone"),
+    ).rejects.toThrow("Data-modifying CTE (DELETE)");
+  });
+
+  it("should reject SELECT INTO", async () => {
+    await expect(validateSql("SELECT * INTO users_copy FROM users")).rejects.toThrow("SELECT ... INTO");
+  });
+
+  it("should reject row-locking clauses", async () => {
+    await expect(validateSql("SELECT * FROM users FOR UPDATE")).rejects.toThrow("FOR UPDATE");
+  });
+
+  it("should reject dangerous functions and report the offending node", async () => {
+    const error = await validateSql("SELECT pg_catalog.pg_read_file('/etc/passwd')").catch((e) => e);
+    expect(error).toMatchObject({
+      code: "SQL_FORBIDDEN_OPERATION",
+      details: { node: "FuncCall", location: 7 },
+    });
+    expect(error.message).toContain("pg_read_file()");
+
+    await expect(
+      validateSql("SELECT * FROM dblink('host=evil', 'SELECT 1') AS t(x int)"),
+    ).rejects.toThrow("dblink()");
+    for (const call of [
+      "lo_get(16401)",
+      "pg_ls_logdir()",
+      "pg_ls_waldir()",
+      "pg_try_advisory_lock(1)",
+      "pg_try_advisory_xact_lock_shared(1)",
+      "dblink_open('c', 'SELECT 1')",
+      "dblink_fetch('c', 10)",
+      "dblink_send_query('c', 'SELECT 1')",
+    ]) {
+      await expect(validateSql(`SELECT ${call}`)).rejects.toThrow(`${call.split("(")[0]}()`);
+    }
+  });
+
+  it("should report syntax errors", async () => {
+    await expect(validateSql("SELEC * FROM users")).rejects.toMatchObject({ code: "SQL_SYNTAX_ERROR" });
   });
 });
 
 describe("injectLimit", () => {
-  it("should add LIMIT when not present", () => {
-    const sql = "SELECT * FROM users";
-    const result = injectLimit(sql, 1000);
-    expect(result).toBe("SELECT * FROM users LIMIT 1000");
+  it("should wrap the query in a capped outer SELECT", () => {
+    const result = injectLimit("SELECT * FROM users", 1000);
+    expect(result).toBe("SELECT * FROM (\nSELECT * FROM users\n) AS heydata_limited LIMIT 1000");
   });
 
-  it("should not add LIMIT when already present", () => {
-    const sql = "SELECT * FROM users LIMIT 100";
-    const result = injectLimit(sql, 1000);
-    expect(result).toBe(sql);
+  it("should cap queries that already have a LIMIT", () => {
+    // The inner LIMIT still applies; the outer one enforces min(userLimit, maxRows)
+    const result = injectLimit("SELECT * FROM users LIMIT 50000", 1000);
+    expect(result).toContain("SELECT * FROM users LIMIT 50000");
+    expect(result).toMatch(/\) AS heydata_limited LIMIT 1000$/);
   });
 
-  it("should handle trailing semicolon", () => {
-    const sql = "SELECT * FROM users;";
-    const result = injectLimit(sql, 1000);
-    expect(result).toBe("SELECT * FROM users LIMIT 1000");
+  it("should cap the outer query when only a CTE has a LIMIT", () => {
+    const sql = "WITH top AS (SELECT * FROM users ORDER BY score DESC LIMIT 5) SELECT * FROM events";
+    expect(injectLimit(sql, 1000)).toMatch(/LIMIT 1000$/);
   });
 
-  it("should preserve existing LIMIT with different value", () => {
-    const sql = "SELECT * FROM users LIMIT 50";
-    const result = injectLimit(sql, 1000);
-    expect(result).toBe(sql);
+  it("should cap FETCH FIRST queries", () => {
+    const sql = "SELECT * FROM users FETCH FIRST 20000 ROWS ONLY";
+    expect(injectLimit(sql, 1000)).toMatch(/LIMIT 1000$/);
+  });
+
+  it("should handle trailing semicolons and comments", () => {
+    expect(injectLimit("SELECT * FROM users;", 1000)).toBe(
+      "SELECT * FROM (\nSELECT * FROM users\n) AS heydata_limited LIMIT 1000",
+    );
+    // A trailing line comment must not swallow the closing parenthesis
+    expect(injectLimit("SELECT 1 -- one", 10)).toContain("-- one\n) AS heydata_limited");
+  });
+
+  it("should produce SQL the guard accepts", async () => {
+    await expect(
+      validateSql(injectLimit("WITH x AS (SELECT 1 AS id LIMIT 5) SELECT * FROM x ORDER BY id", 10)),
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("readOnlyTransactionPreamble", () => {
+  it("should open a read-only transaction with default timeouts", () => {
+    expect(readOnlyTransactionPreamble()).toBe(
+      "BEGIN READ ONLY; SET LOCAL statement_timeout = '30000ms'; SET LOCAL lock_timeout = '5000ms'; " +
+        "SET LOCAL idle_in_transaction_session_timeout = '60000ms'",
+    );
+  });
+
+  it("should skip disabled timeouts and clamp values to integers", () => {
+    const preamble = readOnlyTransactionPreamble({
+      timeoutMs: 1500.7,
+      lockTimeoutMs: 0,
+      idleInTransactionTimeoutMs: 0,
+    });
+    expect(preamble).toBe("BEGIN READ ONLY; SET LOCAL statement_timeout = '1500ms'");
+  });
+
+  it("should switch to the role configured in QUERY_ROLE", () => {
+    expect(readOnlyTransactionPreamble({ role: queryRoleFromEnv({ QUERY_ROLE: " heydata_reader " }) })).toContain(
+      'SET LOCAL ROLE "heydata_reader"',
+    );
+    expect(readOnlyTransactionPreamble({ role: queryRoleFromEnv({ QUERY_ROLE: "" }) })).not.toContain("ROLE");
+    expect(queryRoleFromEnv({})).toBeUndefined();
+  });
+
+  it("should quote the role identifier", () => {
+    expect(readOnlyTransactionPreamble({ role: 'ro"; DROP ROLE x; --' })).toContain(
+      'SET LOCAL ROLE "ro""; DROP ROLE x; --"',
+    );
   });
 });
 
 describe("applySqlGuards", () => {
-  it("should validate and inject limit", () => {
+  it("should validate and inject limit", async () => {
     const sql = "SELECT * FROM users";
-    const result = applySqlGuards(sql, { maxRows: 500 });
+    const result = await applySqlGuards(sql, { maxRows: 500 });
 
-    expect(result.sql).toBe("SELECT * FROM users LIMIT 500");
+    // One extra row is fetched to detect truncation
+    expect(result.sql).toMatch(/LIMIT 501$/);
     expect(result.needsTimeout).toBe(true);
   });
 
-  it("should throw on forbidden operations", () => {
-    expect(() => applySqlGuards("DROP TABLE users")).toThrow();
+  it("should throw on forbidden operations", async () => {
+    await expect(applySqlGuards("DROP TABLE users")).rejects.toThrow();
   });
 
-  it("should skip validation when disabled", () => {
+  it("should skip validation when disabled", async () => {
     // This would normally throw, but validation is disabled
-    const result = applySqlGuards("EXPLAIN SELECT 1", {
+    const result = await applySqlGuards("EXPLAIN SELECT 1", {
       validateOperations: false,
     });
     expect(result.sql).toContain("EXPLAIN");
   });
 });
+
+describe("validateSql (mysql)", () => {
+  it("should allow MySQL analytics queries", async () => {
+    await expect(
+      validateSql(
+        "SELECT DATE_FORMAT(o.created_at, '%Y-%m-01') AS month, SUM(o.total) AS revenue FROM `orders` o WHERE o.created_at >= CURDATE() - INTERVAL 30 DAY GROUP BY month ORDER BY month",
+        "mysql",
+      ),
+    ).resolves.toBeUndefined();
+    await expect(
+      validateSql(
+        "WITH ranked AS (SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY created_at) AS rn FROM orders) SELECT * FROM ranked WHERE rn = 1",
+        "mysql",
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should not match keywords inside string literals", async () => {
+    await expect(
+      validateSql("SELECT * FROM logs WHERE message = 'DELETE FROM users'", "mysql"),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should reject data-modifying statements", async () => {
+    await expect(validateSql("DELETE FROM users", "mysql")).rejects.toThrow("DELETE");
+    await expect(validateSql("REPLACE INTO users (id) VALUES (1)", "mysql")).rejects.toThrow("REPLACE");
+    await expect(validateSql("DROP TABLE users", "mysql")).rejects.toThrow("DROP");
+  });
+
+  it("should reject multiple statements", async () => {
+    await expect(validateSql("SELECT 1; DROP TABLE users", "mysql")).rejects.toThrow("Multiple statements");
+  });
+
+  it("should reject SELECT ... INTO", async () => {
+    await expect(
+      validateSql("SELECT * FROM users INTO OUTFILE '/tmp/users.csv'", "mysql"),
+    ).rejects.toThrow("SELECT ... INTO");
+    await expect(validateSql("SELECT COUNT(*) INTO @n FROM users", "mysql")).rejects.toThrow(
+      "SELECT ... INTO",
+    );
+  });
+
+  it("should reject locking reads", async () => {
+    await expect(validateSql("SELECT * FROM users FOR UPDATE", "mysql")).rejects.toThrow("FOR UPDATE");
+    await expect(validateSql("SELECT * FROM users LOCK IN SHARE MODE", "mysql")).rejects.toThrow(
+      "FOR UPDATE/SHARE",
+    );
+  });
+
+  it("should reject dangerous functions with their position", async () => {
+    await expect(validateSql("SELECT LOAD_FILE('/etc/passwd')", "mysql")).rejects.toThrow(
+      "function load_file() [function at position 7]",
+    );
+    await expect(
+      validateSql("SELECT * FROM t WHERE EXISTS (SELECT BENCHMARK(1000000, MD5('a')))", "mysql"),
+    ).rejects.toThrow("benchmark");
+  });
+
+  it("should report syntax errors", async () => {
+    await expect(validateSql("SELEC 1", "mysql")).rejects.toMatchObject({
+      code: "SQL_SYNTAX_ERROR",
+    });
+  });
+});
+
+describe("applySqlGuards (mysql)", () => {
+  it("should leave the row cap to sql_select_limit when there is no top-level LIMIT", async () => {
+    const sql = "SELECT region, SUM(total) AS revenue FROM orders GROUP BY region ORDER BY revenue DESC";
+    const result = await applySqlGuards(sql, { maxRows: 500 }, "mysql");
+
+    expect(result.sql).toBe(sql);
+  });
+
+  it("should wrap queries whose own LIMIT would override sql_select_limit", async () => {
+    const result = await applySqlGuards("SELECT id FROM users LIMIT 100000", { maxRows: 500 }, "mysql");
+    expect(result.sql).toMatch(/LIMIT 501$/);
+
+    const union = await applySqlGuards(
+      "SELECT id FROM users UNION SELECT id FROM admins LIMIT 100000",
+      { maxRows: 500 },
+      "mysql",
+    );
+    expect(union.sql).toMatch(/LIMIT 501$/);
+  });
+
+  it("should not wrap for a LIMIT inside a subquery", async () => {
+    const sql = "SELECT * FROM (SELECT id FROM users ORDER BY id LIMIT 10) AS recent";
+    const result = await applySqlGuards(sql, { maxRows: 500 }, "mysql");
+    expect(result.sql).toBe(sql);
+  });
+});
+
+describe("validateSql (bigquery)", () => {
+  it("should allow BigQuery analytics queries", async () => {
+    await expect(
+      validateSql(
+        "SELECT DATE_TRUNC(o.created_at, MONTH) AS month, SUM(o.total) AS revenue FROM `proj.shop.orders` o WHERE o.created_at >= DATE_SUB(CURRENT_DATE(), INTERVAL 30 DAY) GROUP BY month ORDER BY month",
+        "bigquery",
+      ),
+    ).resolves.toBeUndefined();
+    await expect(
+      validateSql(
+        "WITH per_user AS (SELECT user_id, COUNTIF(total > 100) AS big_orders FROM shop.orders GROUP BY user_id) SELECT SAFE_DIVIDE(SUM(big_orders), COUNT(*)) AS share FROM per_user",
+        "bigquery",
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should reject data-modifying statements", async () => {
+    await expect(validateSql("INSERT INTO shop.users (id) VALUES (1)", "bigquery")).rejects.toThrow(
+      "INSERT",
+    );
+    await expect(validateSql("DROP TABLE shop.users", "bigquery")).rejects.toThrow("DROP");
+  });
+
+  it("should reject multiple statements", async () => {
+    await expect(validateSql("SELECT 1; SELECT 2", "bigquery")).rejects.toThrow("Multiple statements");
+  });
+
+  it("should reject federated queries", async () => {
+    await expect(
+      validateSql("SELECT * FROM EXTERNAL_QUERY('us.pg', 'SELECT * FROM users')", "bigquery"),
+    ).rejects.toThrow("function external_query()");
+  });
+
+  it("should report syntax errors", async () => {
+    await expect(validateSql("SELEC 1", "bigquery")).rejects.toMatchObject({
+      code: "SQL_SYNTAX_ERROR",
+    });
+  });
+});
+
+describe("applySqlGuards (bigquery)", () => {
+  it("should never wrap the query, so its ORDER BY is kept", async () => {
+    const sql = "SELECT region, SUM(total) AS revenue FROM shop.orders GROUP BY region ORDER BY revenue DESC";
+    const result = await applySqlGuards(sql, { maxRows: 500 }, "bigquery");
+    expect(result.sql).toBe(sql);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { AdapterPool } from "../adapter.js";
+import { mysqlAdapter } from "../adapters/mysql.js";
+
+describe("mysqlAdapter.execute", () => {
+  let mockConn: {
+    query: ReturnType<typeof vi.fn>;
+    release: ReturnType<typeof vi.fn>;
+    destroy: ReturnType<typeof vi.fn>;
+  };
+  let pool: AdapterPool;
+
+  /** Answer the version probe, then return `result` for the analytics query */
+  function respondWith(version: string, result: [unknown[], unknown[]] | Error) {
+    mockConn.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith("SELECT VERSION()")) return [[{ version }], []];
+      if (sql.startsWith("SET SESSION") || sql.startsWith("START TRANSACTION") || sql === "ROLLBACK") {
+        return [{}, undefined];
+      }
+      if (result instanceof Error) throw result;
+      return result;
+    });
+  }
+
+  function statements(): string[] {
+    return mockConn.query.mock.calls.map((call) => String(call[0]));
+  }
+
+  beforeEach(() => {
+    mockConn = {
+      query: vi.fn(),
+      release: vi.fn(),
+      destroy: vi.fn(),
+    };
+    pool = {
+      id: "conn_1",
+      _pool: { pool: { getConnection: vi.fn().mockResolvedValue(mockConn) } },
+    };
+  });
+
+  it("should run the query in a read-only transaction with session limits", async () => {
+    respondWith("8.0.36", [
+      [{ region: "EU", revenue: 1200.5, first_order: new Date("2024-01-15T00:00:00Z") }],
+      [
+        { name: "region", columnType: 253 },
+        { name: "revenue", columnType: 246 },
+        { name: "first_order", columnType: 10 },
+      ],
+    ]);
+
+    const result = await mysqlAdapter.execute(pool, "SELECT region, SUM(total) AS revenue FROM orders GROUP BY region", undefined, {
+      maxRows: 100,
+      timeoutMs: 15000,
+    });
+
+    expect(statements()).toEqual([
+      "SELECT VERSION() AS version",
+      "SET SESSION sql_select_limit = 101, max_execution_time = 15000, lock_wait_timeout = 5",
+      "START TRANSACTION READ ONLY",
+      "SELECT region, SUM(total) AS revenue FROM orders GROUP BY region",
+      "ROLLBACK",
+      "SET SESSION sql_select_limit = DEFAULT, max_execution_time = DEFAULT, lock_wait_timeout = DEFAULT",
+    ]);
+    expect(result.columns.map((c) => c.type)).toEqual(["string", "number", "date"]);
+    expect(result.rows[0]).toEqual({ region: "EU", revenue: 1200.5, first_order: "2024-01-15T00:00:00.000Z" });
+    expect(mockConn.release).toHaveBeenCalled();
+  });
+
+  it("should use max_statement_time on MariaDB", async () => {
+    respondWith("10.11.6-MariaDB", [[], []]);
+
+    await mysqlAdapter.execute(pool, "SELECT 1", undefined, { timeoutMs: 2500 });
+
+    expect(statements()[1]).toContain("max_statement_time = 2.500");
+  });
+
+  it("should flag truncation from the extra row", async () => {
+    respondWith("8.0.36", [[{ id: 1 }, { id: 2 }, { id: 3 }], [{ name: "id", columnType: 3 }]]);
+
+    const result = await mysqlAdapter.execute(pool, "SELECT id FROM users", undefined, { maxRows: 2 });
+
+    expect(result.rowCount).toBe(2);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("should map server timeouts to QUERY_TIMEOUT", async () => {
+    respondWith(
+      "8.0.36",
+      Object.assign(new Error("Query execution was interrupted, maximum statement execution time exceeded"), {
+        errno: 3024,
+      }),
+    );
+
+    await expect(
+      mysqlAdapter.execute(pool, "SELECT * FROM events", undefined, { timeoutMs: 1000 }),
+    ).rejects.toMatchObject({ code: "QUERY_TIMEOUT" });
+    expect(statements()).toContain("ROLLBACK");
+  });
+
+  it("should destroy the connection when the session cannot be reset", async () => {
+    mockConn.query.mockImplementation(async (sql: string) => {
+      if (sql.startsWith("SELECT VERSION()")) return [[{ version: "8.0.36" }], []];
+      if (sql === "ROLLBACK") throw new Error("Connection lost");
+      return [[], []];
+    });
+
+    await mysqlAdapter.execute(pool, "SELECT 1");
+
+    expect(mockConn.destroy).toHaveBeenCalled();
+    expect(mockConn.release).not.toHaveBeenCalled();
+  });
+
+  it("should reject forbidden statements before touching the database", async () => {
+    await expect(mysqlAdapter.execute(pool, "DELETE FROM users")).rejects.toThrow("DELETE");
+    expect(mockConn.query).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { AdapterPool } from "../adapter.js";
+import { postgresqlAdapter, summarizePostgresPlan } from "../adapters/postgresql.js";
+
+vi.mock("pg", () => {
+  return {
+    default: {
+      Pool: vi.fn(),
+    },
+  };
+});
+
+const plan = [
+  {
+    Plan: {
+      "Node Type": "Limit",
+      "Total Cost": 182340.5,
+      "Plan Rows": 10001,
+      Plans: [
+        {
+          "Node Type": "Hash Join",
+          "Total Cost": 182340.5,
+          "Plan Rows": 2400000,
+          Plans: [
+            { "Node Type": "Seq Scan", "Relation Name": "events", Schema: "app", "Total Cost": 98000, "Plan Rows": 2400000 },
+            {
+              "Node Type": "Hash",
+              "Plan Rows": 500,
+              Plans: [
+                { "Node Type": "Index Scan", "Relation Name": "users", Schema: "app", "Total Cost": 20, "Plan Rows": 500 },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  },
+];
+
+describe("summarizePostgresPlan", () => {
+  it("should report the root cost and rows and every sequential scan", () => {
+    expect(summarizePostgresPlan(plan)).toEqual({
+      totalCost: 182340.5,
+      estimatedRows: 10001,
+      seqScans: [{ table: "app.events", estimatedRows: 2400000 }],
+    });
+  });
+
+  it("should reject output without a plan", () => {
+    expect(() => summarizePostgresPlan([{}])).toThrow("unexpected EXPLAIN output");
+  });
+});
+
+describe("postgresqlAdapter.explain", () => {
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+  let pool: AdapterPool;
+
+  beforeEach(() => {
+    client = { query: vi.fn().mockResolvedValue({}), release: vi.fn() };
+    pool = { id: "conn_1", _pool: { connect: vi.fn().mockResolvedValue(client) } };
+  });
+
+  it("should EXPLAIN the guarded SQL inside a read-only transaction", async () => {
+    client.query.mockImplementation(async (query: unknown) =>
+      typeof query === "string" && query.startsWith("EXPLAIN") ? { rows: [{ "QUERY PLAN": plan }] } : {},
+    );
+
+    const estimate = await postgresqlAdapter.explain!(pool, "SELECT * FROM app.events", { maxRows: 100 });
+
+    expect(estimate.totalCost).toBe(182340.5);
+    const statements = client.query.mock.calls.map((call) => call[0] as string);
+    expect(statements[0]).toMatch(/^BEGIN READ ONLY/);
+    expect(statements[1]).toBe(
+      "EXPLAIN (FORMAT JSON, VERBOSE) SELECT * FROM (\nSELECT * FROM app.events\n) AS heydata_limited LIMIT 101",
+    );
+    expect(statements[2]).toBe("ROLLBACK");
+    expect(client.release).toHaveBeenCalledWith(undefined);
+  });
+
+  it("should reject forbidden SQL before planning it", async () => {
+    await expect(postgresqlAdapter.explain!(pool, "DELETE FROM app.events")).rejects.toThrow("DELETE");
+    expect(client.query).not.toHaveBeenCalled();
+  });
+});
+
+describe("postgresqlAdapter.introspect", () => {
+  const catalog: [string, unknown[]][] = [
+    [
+      "FROM pg_class c",
+      [
+        { table_schema: "app", table_name: "active_orders", relkind: "v", table_comment: null, partition_key: null },
+        { table_schema: "app", table_name: "orders", relkind: "p", table_comment: "One row per checkout", partition_key: "RANGE (created_at)" },
+      ],
+    ],
+    [
+      "FROM pg_attribute a",
+      [
+        { table_schema: "app", table_name: "active_orders", column_name: "id", data_type: "bigint", is_nullable: true, column_default: null, column_comment: null, enum_values: [] },
+        { table_schema: "app", table_name: "orders", column_name: "id", data_type: "bigint", is_nullable: false, column_default: null, column_comment: null, enum_values: [] },
+        { table_schema: "app", table_name: "orders", column_name: "status", data_type: "order_status", is_nullable: false, column_default: null, column_comment: "Set by billing", enum_values: ["paid", "refunded"] },
+        { table_schema: "app", table_name: "orders", column_name: "region", data_type: "text", is_nullable: false, column_default: null, column_comment: null, enum_values: [] },
+        { table_schema: "app", table_name: "orders", column_name: "store_code", data_type: "text", is_nullable: false, column_default: null, column_comment: null, enum_values: [] },
+        { table_schema: "app", table_name: "orders", column_name: "email", data_type: "text", is_nullable: true, column_default: null, column_comment: null, enum_values: [] },
+      ],
+    ],
+    ["information_schema.table_constraints", [{ table_schema: "app", table_name: "orders", column_name: "id" }]],
+    [
+      "FROM pg_constraint con",
+      [
+        {
+          table_schema: "app",
+          table_name: "orders",
+          column_names: ["region", "store_code"],
+          foreign_table_schema: "app",
+          foreign_table_name: "stores",
+          foreign_column_names: ["region", "code"],
+        },
+      ],
+    ],
+    ["FROM pg_index ix", [{ table_schema: "app", table_name: "orders", index_name: "orders_email_key", is_unique: true, column_names: ["email"] }]],
+    [
+      "FROM pg_inherits i",
+      [
+        { parent_schema: "app", parent_name: "orders", child_schema: "app", child_name: "orders_2025" },
+        { parent_schema: "app", parent_name: "orders", child_schema: "app", child_name: "orders_2026" },
+      ],
+    ],
+    [
+      "FROM pg_stat_user_tables",
+      [
+        { schemaname: "app", relname: "orders_2025", n_live_tup: "600" },
+        { schemaname: "app", relname: "orders_2026", n_live_tup: "400" },
+      ],
+    ],
+    [
+      "FROM pg_stats",
+      [
+        { schemaname: "app", tablename: "orders", attname: "region", null_frac: 0, n_distinct: 3, most_common_vals: ["eu", "us", "apac"] },
+        { schemaname: "app", tablename: "orders", attname: "email", null_frac: 0.12345, n_distinct: -0.9, most_common_vals: ["a@example.com"] },
+      ],
+    ],
+  ];
+
+  let client: { query: ReturnType<typeof vi.fn>; release: ReturnType<typeof vi.fn> };
+  let pool: AdapterPool;
+
+  beforeEach(() => {
+    client = {
+      query: vi.fn(async ({ text }: { text: string }) => ({
+        rows: catalog.find(([marker]) => text.includes(marker))?.[1] ?? [],
+      })),
+      release: vi.fn(),
+    };
+    pool = { id: "conn_1", _pool: { connect: vi.fn().mockResolvedValue(client) } };
+  });
+
+  it("should read views, comments, enums, composite keys, indexes, partitions and statistics", async () => {
+    const schema = await postgresqlAdapter.introspect(pool);
+    const [view, orders] = schema.tables;
+
+    expect(view).toMatchObject({ name: "active_orders", kind: "view" });
+    expect(orders).toMatchObject({
+      name: "orders",
+      schema: "app",
+      kind: "table",
+      comment: "One row per checkout",
+      rowCountEstimate: 1000,
+      partitionKey: "RANGE (created_at)",
+      partitionCount: 2,
+      indexes: [{ name: "orders_email_key", columns: ["email"], unique: true }],
+      foreignKeys: [{ columns: ["region", "store_code"], foreignSchema: "app", foreignTable: "stores", foreignColumns: ["region", "code"] }],
+    });
+
+    const column = (name: string) => orders!.columns.find((c) => c.name === name);
+    expect(column("id")).toMatchObject({ isPrimaryKey: true, isNullable: false });
+    expect(column("status")).toMatchObject({ comment: "Set by billing", enumValues: ["paid", "refunded"] });
+    expect(column("store_code")).toMatchObject({ isForeignKey: true, foreignTable: "stores", foreignColumn: "code" });
+    expect(column("region")!.stats).toEqual({ distinctCount: 3, nullFraction: 0, mostCommonValues: ["eu", "us", "apac"] });
+    // High-cardinality columns keep counts but not sampled values
+    expect(column("email")!.stats).toEqual({ distinctCount: 900, nullFraction: 0.123 });
+    expect(client.release).toHaveBeenCalled();
+  });
+});
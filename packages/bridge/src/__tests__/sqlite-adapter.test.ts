@@ -0,0 +1,111 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { AdapterPool } from "../adapter.js";
+import { sqliteAdapter } from "../adapters/sqlite.js";
+
+describe("sqliteAdapter", () => {
+  let dir: string;
+  let pool: AdapterPool;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "heydata-sqlite-"));
+    const file = path.join(dir, "shop.sqlite");
+
+    const db = new Database(file);
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, is_active BOOLEAN);
+      CREATE TABLE orders (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER REFERENCES users(id),
+        total REAL,
+        created_at DATE
+      );
+      INSERT INTO users VALUES (1, 'Alice', 1), (2, 'Bob', 0);
+      INSERT INTO orders VALUES (1, 1, 10.5, '2024-01-01'), (2, 1, 20, '2024-01-02'), (3, 2, 5, '2024-01-02');
+    `);
+    db.close();
+
+    pool = await sqliteAdapter.connect("sqlite_test", { connectionString: file, fileRoot: dir });
+  });
+
+  afterAll(async () => {
+    await sqliteAdapter.dispose(pool);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("runs read-only queries and maps column types", async () => {
+    const result = await sqliteAdapter.execute(
+      pool,
+      "SELECT created_at, SUM(total) AS revenue, COUNT(*) AS orders FROM orders GROUP BY created_at ORDER BY created_at",
+    );
+
+    expect(result.rows).toEqual([
+      { created_at: "2024-01-01", revenue: 10.5, orders: 1 },
+      { created_at: "2024-01-02", revenue: 25, orders: 2 },
+    ]);
+    expect(result.columns.map((c) => c.type)).toEqual(["date", "number", "number"]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it("converts declared booleans", async () => {
+    const result = await sqliteAdapter.execute(pool, "SELECT name, is_active FROM users ORDER BY id");
+    expect(result.rows[1]).toEqual({ name: "Bob", is_active: false });
+  });
+
+  it("caps rows and flags truncation", async () => {
+    const result = await sqliteAdapter.execute(pool, "SELECT id FROM orders ORDER BY id", undefined, {
+      maxRows: 2,
+    });
+    expect(result.rows).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("rejects writes, multiple statements and syntax errors", async () => {
+    await expect(sqliteAdapter.execute(pool, "DELETE FROM orders")).rejects.toThrow(
+      "Only SELECT queries are allowed",
+    );
+    await expect(sqliteAdapter.execute(pool, "ATTACH DATABASE 'other.db' AS other")).rejects.toThrow(
+      "Only SELECT queries are allowed",
+    );
+    await expect(sqliteAdapter.execute(pool, "SELECT 1; DROP TABLE orders")).rejects.toThrow(
+      "Multiple statements",
+    );
+    await expect(sqliteAdapter.execute(pool, "SELEC 1")).rejects.toMatchObject({
+      code: "SQL_SYNTAX_ERROR",
+    });
+  });
+
+  it("introspects tables, keys and foreign keys", async () => {
+    const schema = await sqliteAdapter.introspect(pool);
+    const orders = schema.tables.find((t) => t.name === "orders");
+
+    expect(schema.tables.map((t) => t.name)).toEqual(["orders", "users"]);
+    expect(orders?.columns.find((c) => c.name === "id")).toMatchObject({ isPrimaryKey: true });
+    expect(orders?.columns.find((c) => c.name === "user_id")).toMatchObject({
+      isForeignKey: true,
+      foreignTable: "users",
+      foreignColumn: "id",
+    });
+  });
+
+  it("only opens files inside the file root", async () => {
+    const file = path.join(dir, "shop.sqlite");
+    const other = mkdtempSync(path.join(tmpdir(), "heydata-sqlite-other-"));
+    try {
+      await expect(sqliteAdapter.connect("sqlite_no_root", { connectionString: file })).rejects.toThrow(
+        "File connections are disabled",
+      );
+      await expect(
+        sqliteAdapter.connect("sqlite_outside", { connectionString: file, fileRoot: other }),
+      ).rejects.toThrow("outside the directory");
+      await expect(
+        sqliteAdapter.connect("sqlite_relative", { connectionString: "../../etc/passwd", fileRoot: other }),
+      ).rejects.toThrow();
+    } finally {
+      rmSync(other, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import ExcelJS from "exceljs";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { AdapterPool } from "../adapter.js";
+import { uploadAdapter } from "../adapters/upload.js";
+
+describe("uploadAdapter", () => {
+  let dir: string;
+  let pool: AdapterPool;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "heydata-upload-"));
+
+    writeFileSync(
+      path.join(dir, "daily-sales.csv"),
+      "day,region,amount\n2024-01-01,EU,10.5\n2024-01-01,US,20\n2024-01-02,EU,7\n",
+    );
+    writeFileSync(path.join(dir, "notes.txt"), "ignored");
+
+    const workbook = new ExcelJS.Workbook();
+    const customers = workbook.addWorksheet("Customers");
+    customers.addRow(["id", "name", "active", "signed_up", ""]);
+    customers.addRow([1, "Alice", true, new Date(Date.UTC(2024, 0, 15)), "x"]);
+    customers.addRow([2, "Bob", false, new Date(Date.UTC(2024, 1, 1)), null]);
+    const targets = workbook.addWorksheet("Q1 Targets");
+    targets.addRow(["region", "target", "target"]);
+    targets.addRow(["EU", { formula: "10*2", result: 20 }, "n/a"]);
+    workbook.addWorksheet("Empty");
+    await workbook.xlsx.writeFile(path.join(dir, "crm.xlsx"));
+
+    pool = await uploadAdapter.connect("upload_test", { connectionString: dir, uploadRoot: path.dirname(dir) });
+  });
+
+  afterAll(async () => {
+    await uploadAdapter.dispose(pool);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads a table per CSV file and per non-empty sheet", async () => {
+    const schema = await uploadAdapter.introspect(pool);
+    expect(schema.tables.map((t) => t.name)).toEqual([
+      "crm_customers",
+      "crm_q1_targets",
+      "daily_sales",
+    ]);
+  });
+
+  it("infers column types from sheet values", async () => {
+    const schema = await uploadAdapter.introspect(pool);
+    const customers = schema.tables.find((t) => t.name === "crm_customers");
+    expect(customers?.columns.map((c) => [c.name, c.dataType])).toEqual([
+      ["id", "DOUBLE"],
+      ["name", "VARCHAR"],
+      ["active", "BOOLEAN"],
+      ["signed_up", "TIMESTAMP"],
+      ["column_5", "VARCHAR"],
+    ]);
+    expect(customers?.rowCountEstimate).toBe(2);
+
+    const targets = schema.tables.find((t) => t.name === "crm_q1_targets");
+    expect(targets?.columns.map((c) => c.name)).toEqual(["region", "target", "target_2"]);
+  });
+
+  it("queries loaded tables with DuckDB SQL", async () => {
+    const result = await uploadAdapter.execute(
+      pool,
+      "SELECT c.name, DATE_TRUNC('month', c.signed_up)::DATE AS month FROM crm_customers c WHERE c.active ORDER BY c.id",
+    );
+    expect(result.rows).toEqual([{ name: "Alice", month: "2024-01-01T00:00:00.000Z" }]);
+
+    const targets = await uploadAdapter.execute(pool, "SELECT target FROM crm_q1_targets");
+    expect(targets.rows).toEqual([{ target: 20 }]);
+
+    const sales = await uploadAdapter.execute(pool, "SELECT SUM(amount) AS total FROM daily_sales");
+    expect(sales.rows).toEqual([{ total: 37.5 }]);
+  });
+
+  it("disables file access once the files are loaded", async () => {
+    await expect(
+      uploadAdapter.execute(pool, "SELECT * FROM read_csv_auto('/etc/passwd')"),
+    ).rejects.toThrow("function read_csv_auto()");
+    await expect(
+      uploadAdapter.execute(pool, "SELECT * FROM '/etc/passwd'", [], { validateOperations: false }),
+    ).rejects.toThrow();
+  });
+
+  it("fails to connect to a directory without CSV or XLSX files", async () => {
+    const empty = mkdtempSync(path.join(tmpdir(), "heydata-upload-empty-"));
+    try {
+      await expect(
+        uploadAdapter.connect("upload_empty", { connectionString: empty, uploadRoot: path.dirname(empty) }),
+      ).rejects.toThrow("no CSV or XLSX files found");
+    } finally {
+      rmSync(empty, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses directories outside the upload root", async () => {
+    const root = mkdtempSync(path.join(tmpdir(), "heydata-upload-root-"));
+    try {
+      await expect(
+        uploadAdapter.connect("upload_outside", { connectionString: dir, uploadRoot: root }),
+      ).rejects.toThrow("is outside the directory");
+      await expect(
+        uploadAdapter.connect("upload_escape", { connectionString: `../${path.basename(dir)}`, uploadRoot: root }),
+      ).rejects.toThrow("is outside the directory");
+      await expect(uploadAdapter.connect("upload_unset", { connectionString: dir })).rejects.toThrow(
+        "File connections are disabled",
+      );
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
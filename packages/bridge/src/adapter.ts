@@ -1,4 +1,4 @@
-import type { ResultSet, IntrospectedSchema } from "@heydata/shared";
+import type { ResultSet, IntrospectedSchema, QueryCostEstimate, WarehouseDialect } from "@heydata/shared";
 import type { GuardConfig } from "./guards.js";
 
 /**
@@ -20,6 +20,10 @@ export interface AdapterConnectionConfig {
   maxPoolSize?: number;
   idleTimeoutMs?: number;
   connectionTimeoutMs?: number;
+  /** Directory SQLite and DuckDB connections must point inside; without it they are refused */
+  fileRoot?: string;
+  /** Directory upload connections must point inside; without it they are refused */
+  uploadRoot?: string;
 }
 
 /**
@@ -33,6 +37,9 @@ export interface DatabaseAdapter {
   /** Database type identifier */
   readonly dbType: string;
 
+  /** SQL dialect that generated queries must be written in */
+  readonly dialect: WarehouseDialect;
+
   /** Create a connection pool */
   connect(id: string, config: AdapterConnectionConfig): Promise<AdapterPool>;
 
@@ -44,6 +51,16 @@ export interface DatabaseAdapter {
     guards?: GuardConfig,
   ): Promise<ResultSet>;
 
+  /**
+   * Estimate a query's cost from the planner without running it. The SQL is
+   * guarded exactly as in execute. Omitted by adapters without a cost model.
+   */
+  explain?(
+    pool: AdapterPool,
+    sql: string,
+    guards?: GuardConfig,
+  ): Promise<QueryCostEstimate>;
+
   /** Introspect the database schema */
   introspect(pool: AdapterPool): Promise<IntrospectedSchema>;
 
@@ -0,0 +1,362 @@
+import { BigQuery } from "@google-cloud/bigquery";
+import type { Query, TableField, TableMetadata } from "@google-cloud/bigquery";
+import { HeyDataError } from "@heydata/shared";
+import type { ResultSet, IntrospectedTable, IntrospectedColumn } from "@heydata/shared";
+import type { DatabaseAdapter, AdapterPool } from "../adapter.js";
+import type { GuardConfig } from "../guards.js";
+import { applySqlGuards } from "../guards.js";
+import { connectionError, forbiddenOperationError, queryError, timeoutError } from "../errors.js";
+
+/**
+ * Client handle stored in AdapterPool._pool. BigQuery has no connections to
+ * pool; the client only carries the project, default dataset and location.
+ */
+interface BigQueryHandle {
+  client: BigQuery;
+  projectId: string;
+  /** Default dataset for unqualified table names; introspection is limited to it */
+  datasetId?: string;
+  location?: string;
+}
+
+/**
+ * Parse a connection string of the form
+ *
+ *   bigquery://<project>[/<dataset>][?location=US&credentials=<base64 key JSON>&apiEndpoint=<url>]
+ *
+ * `credentials` is a base64-encoded service account key; without it the
+ * client uses Application Default Credentials. `apiEndpoint` points the
+ * client at another endpoint, such as a local BigQuery emulator.
+ */
+export function parseBigQueryConnectionString(connectionString: string): {
+  projectId: string;
+  datasetId?: string;
+  location?: string;
+  credentials?: Record<string, unknown>;
+  apiEndpoint?: string;
+} {
+  let url: URL;
+  try {
+    url = new URL(connectionString.trim());
+  } catch {
+    throw connectionError("Invalid BigQuery connection string: expected bigquery://<project>/<dataset>");
+  }
+  if (url.protocol !== "bigquery:" || !url.hostname) {
+    throw connectionError("Invalid BigQuery connection string: expected bigquery://<project>/<dataset>");
+  }
+
+  const datasetId = decodeURIComponent(url.pathname.replace(/^\/+|\/+$/g, "")) || undefined;
+  const encodedCredentials = url.searchParams.get("credentials");
+  let credentials: Record<string, unknown> | undefined;
+  if (encodedCredentials) {
+    try {
+      credentials = JSON.parse(Buffer.from(encodedCredentials, "base64").toString("utf8")) as Record<
+        string,
+        unknown
+      >;
+    } catch {
+      throw connectionError("Invalid BigQuery credentials: expected a base64-encoded service account key");
+    }
+  }
+
+  return {
+    projectId: url.hostname,
+    datasetId,
+    location: url.searchParams.get("location") ?? undefined,
+    credentials,
+    apiEndpoint: url.searchParams.get("apiEndpoint") ?? undefined,
+  };
+}
+
+/**
+ * Map a BigQuery field type to our type system
+ */
+function mapBigQueryType(type: string | undefined): "string" | "number" | "date" | "boolean" | "null" {
+  switch (type?.toUpperCase()) {
+    case "INTEGER":
+    case "INT64":
+    case "FLOAT":
+    case "FLOAT64":
+    case "NUMERIC":
+    case "BIGNUMERIC":
+      return "number";
+    case "BOOLEAN":
+    case "BOOL":
+      return "boolean";
+    case "DATE":
+    case "DATETIME":
+    case "TIMESTAMP":
+      return "date";
+    default:
+      return "string";
+  }
+}
+
+const DEFAULT_GUARDS: Required<Omit<GuardConfig, "role">> = {
+  maxRows: 10000,
+  timeoutMs: 30000,
+  validateOperations: true,
+  lockTimeoutMs: 5000,
+  idleInTransactionTimeoutMs: 60000,
+};
+
+function handleOf(pool: AdapterPool): BigQueryHandle {
+  return pool._pool as BigQueryHandle;
+}
+
+/** Whether a BigQuery API error reports a job that ran out of time */
+function isTimeout(error: unknown): boolean {
+  const errors = (error as { errors?: { reason?: string }[] }).errors ?? [];
+  return (
+    errors.some((e) => e.reason === "timeout") ||
+    (error instanceof Error && /timed out|timeout/i.test(error.message))
+  );
+}
+
+/**
+ * Flatten a table schema into columns. Fields of a RECORD are listed as
+ * `parent.child`, which is how queries reference them.
+ */
+function flattenFields(fields: TableField[], prefix = ""): { name: string; field: TableField }[] {
+  return fields.flatMap((field) => {
+    const name = `${prefix}${field.name ?? ""}`;
+    const isRecord = field.type === "RECORD" || field.type === "STRUCT";
+    if (isRecord && field.mode !== "REPEATED" && field.fields?.length) {
+      return flattenFields(field.fields, `${name}.`);
+    }
+    return [{ name, field }];
+  });
+}
+
+function dataTypeOf(field: TableField): string {
+  const type = field.type === "RECORD" ? "STRUCT" : (field.type ?? "UNKNOWN");
+  return field.mode === "REPEATED" ? `ARRAY<${type}>` : type;
+}
+
+/**
+ * BigQuery adapter implementing the DatabaseAdapter interface.
+ *
+ * BigQuery has no read-only transactions, so every query is checked twice:
+ * by the BigQuery SQL guard, and by a dry run whose statement type must be
+ * SELECT. The service account should only hold BigQuery Data Viewer and Job
+ * User. Rows are capped with the results page size instead of a wrapping
+ * LIMIT, which BigQuery would apply after discarding the query's ORDER BY.
+ */
+export const bigqueryAdapter: DatabaseAdapter = {
+  name: "BigQuery",
+  dbType: "bigquery",
+  dialect: "bigquery",
+
+  async connect(id, config) {
+    const { projectId, datasetId, location, credentials, apiEndpoint } =
+      parseBigQueryConnectionString(config.connectionString);
+    try {
+      const client = new BigQuery({ projectId, location, credentials, apiEndpoint });
+      const handle: BigQueryHandle = { client, projectId, datasetId, location };
+      return { id, _pool: handle };
+    } catch (error) {
+      throw connectionError(
+        `Failed to create BigQuery client: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async execute(pool, sql, params, guards) {
+    const handle = handleOf(pool);
+    const mergedGuards = { ...DEFAULT_GUARDS, ...guards };
+    const { sql: guardedSql } = await applySqlGuards(sql, mergedGuards, "bigquery");
+
+    const options: Query = {
+      query: guardedSql,
+      params: params && params.length > 0 ? params : undefined,
+      location: handle.location,
+      defaultDataset: handle.datasetId
+        ? { projectId: handle.projectId, datasetId: handle.datasetId }
+        : undefined,
+      useLegacySql: false,
+      jobTimeoutMs: mergedGuards.timeoutMs > 0 ? mergedGuards.timeoutMs : undefined,
+    };
+
+    const startTime = Date.now();
+
+    try {
+      if (mergedGuards.validateOperations) {
+        // BigQuery's own parser decides the statement type; emulators may omit it
+        const [dryRun] = await handle.client.createQueryJob({ ...options, dryRun: true });
+        const statementType = dryRun.metadata?.statistics?.query?.statementType as string | undefined;
+        if (statementType && statementType !== "SELECT") {
+          throw forbiddenOperationError(statementType, { node: "statementType" });
+        }
+      }
+
+      const [job] = await handle.client.createQueryJob(options);
+      const [rows, , response] = await job.getQueryResults({
+        maxResults: mergedGuards.maxRows,
+        autoPaginate: false,
+        wrapIntegers: { integerTypeCastFunction: Number },
+      });
+
+      const executionTimeMs = Date.now() - startTime;
+      const fields = response?.schema?.fields ?? [];
+      const totalRows = response?.totalRows !== undefined ? Number(response.totalRows) : rows.length;
+      return toResultSet(fields, rows, executionTimeMs, mergedGuards.maxRows, totalRows);
+    } catch (error) {
+      if (error instanceof HeyDataError) {
+        throw error;
+      }
+      if (isTimeout(error)) {
+        throw timeoutError(mergedGuards.timeoutMs);
+      }
+      throw queryError(
+        `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async introspect(pool) {
+    const { client, datasetId } = handleOf(pool);
+
+    try {
+      const datasets = datasetId ? [client.dataset(datasetId)] : (await client.getDatasets())[0];
+
+      const tables: IntrospectedTable[] = [];
+      for (const dataset of datasets) {
+        const [datasetTables] = await dataset.getTables();
+        const metadata = await Promise.all(
+          datasetTables.map(async (table) => (await table.getMetadata())[0] as TableMetadata),
+        );
+
+        for (const meta of metadata) {
+          const constraints = meta.tableConstraints;
+          const pkSet = new Set(constraints?.primaryKey?.columns ?? []);
+          const fkMap = new Map<string, { foreignTable: string; foreignColumn: string }>();
+          for (const fk of constraints?.foreignKeys ?? []) {
+            for (const ref of fk.columnReferences ?? []) {
+              if (ref.referencingColumn && fk.referencedTable?.tableId) {
+                fkMap.set(ref.referencingColumn, {
+                  foreignTable: fk.referencedTable.tableId,
+                  foreignColumn: ref.referencedColumn ?? ref.referencingColumn,
+                });
+              }
+            }
+          }
+
+          const columns: IntrospectedColumn[] = flattenFields(meta.schema?.fields ?? []).map(
+            ({ name, field }) => {
+              const fk = fkMap.get(name);
+              return {
+                name,
+                dataType: dataTypeOf(field),
+                isNullable: field.mode !== "REQUIRED",
+                columnDefault: field.defaultValueExpression ?? null,
+                isPrimaryKey: pkSet.has(name),
+                isForeignKey: fk !== undefined,
+                foreignTable: fk?.foreignTable ?? null,
+                foreignColumn: fk?.foreignColumn ?? null,
+              };
+            },
+          );
+
+          tables.push({
+            name: String(meta.tableReference?.tableId ?? meta.id),
+            schema: String(meta.tableReference?.datasetId ?? dataset.id),
+            columns,
+            rowCountEstimate: meta.numRows !== undefined ? Number(meta.numRows) : undefined,
+          });
+        }
+      }
+
+      tables.sort((a, b) => `${a.schema}.${a.name}`.localeCompare(`${b.schema}.${b.name}`));
+      return {
+        tables,
+        introspectedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw queryError(
+        `Schema introspection failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async testConnection(pool) {
+    const { client, location } = handleOf(pool);
+    try {
+      await client.query({ query: "SELECT 1", location, useLegacySql: false });
+      return true;
+    } catch (error) {
+      throw connectionError(
+        `Connection test failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async dispose() {
+    // The client holds no open connections
+  },
+};
+
+/**
+ * Convert a BigQuery row value to a ResultSet cell. DATE, DATETIME, TIME
+ * and TIMESTAMP values arrive wrapped as `{ value }`, NUMERIC as Big.js
+ * numbers.
+ */
+function toCell(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "boolean" || typeof value === "number" || typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "bigint") return Number(value);
+  if (Buffer.isBuffer(value)) return value.toString("base64");
+  if (typeof value === "object") {
+    const obj = value as { value?: unknown; toNumber?: () => number };
+    if (typeof obj.toNumber === "function") return obj.toNumber();
+    if (typeof obj.value === "string") return obj.value;
+  }
+  // Arrays and structs
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v && typeof v === "object" && typeof (v as { value?: unknown }).value === "string") {
+      return (v as { value: string }).value;
+    }
+    return v;
+  });
+}
+
+/**
+ * Convert a BigQuery results page to ResultSet
+ */
+function toResultSet(
+  fields: TableField[],
+  result: Record<string, unknown>[],
+  executionTimeMs: number,
+  maxRows: number,
+  totalRows: number,
+): ResultSet {
+  const columns = fields.map((field) => ({
+    name: field.name ?? "",
+    type: field.mode === "REPEATED" ? ("string" as const) : mapBigQueryType(field.type),
+    displayName: field.name ?? "",
+  }));
+
+  // The first page holds at most maxRows rows; totalRows tells whether more exist
+  const truncated = totalRows > maxRows;
+
+  const rows = result.slice(0, maxRows).map((row) => {
+    const converted: Record<string, string | number | boolean | null> = {};
+    for (const col of columns) {
+      converted[col.name] = toCell(row[col.name]);
+    }
+    return converted;
+  });
+
+  return {
+    columns,
+    rows,
+    rowCount: rows.length,
+    truncated,
+    executionTimeMs,
+  };
+}
@@ -0,0 +1,450 @@
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+import { DuckDBInstance, DuckDBTypeId } from "@duckdb/node-api";
+import type { DuckDBConnection, DuckDBValue } from "@duckdb/node-api";
+import { HeyDataError } from "@heydata/shared";
+import type { ResultSet, IntrospectedTable, IntrospectedColumn } from "@heydata/shared";
+import type { DatabaseAdapter, AdapterPool } from "../adapter.js";
+import type { GuardConfig } from "../guards.js";
+import { injectLimit } from "../guards.js";
+import {
+  connectionError,
+  forbiddenOperationError,
+  queryError,
+  syntaxError,
+  timeoutError,
+} from "../errors.js";
+import { resolveInsideFileRoot } from "./file-root.js";
+
+/**
+ * Table functions that read files on their own or run SQL passed as a
+ * string. File access is also disabled in the engine; this makes the
+ * rejection explicit. Matched by name.
+ */
+const FORBIDDEN_FUNCTIONS = new Set([
+  "read_csv",
+  "read_csv_auto",
+  "read_parquet",
+  "parquet_scan",
+  "read_json",
+  "read_json_auto",
+  "read_ndjson",
+  "read_ndjson_auto",
+  "read_text",
+  "read_blob",
+  "glob",
+  "sniff_csv",
+  "query",
+  "query_table",
+]);
+
+/** Data file extensions opened as views, and the reader used for each */
+const DATA_FILE_READERS: Record<string, string> = {
+  ".csv": "read_csv_auto",
+  ".tsv": "read_csv_auto",
+  ".parquet": "read_parquet",
+  ".json": "read_json_auto",
+  ".jsonl": "read_json_auto",
+  ".ndjson": "read_json_auto",
+};
+
+/**
+ * Map a DuckDB type to our type system
+ */
+function mapDuckDbType(typeId: DuckDBTypeId): "string" | "number" | "date" | "boolean" | "null" {
+  switch (typeId) {
+    case DuckDBTypeId.BOOLEAN:
+      return "boolean";
+    case DuckDBTypeId.TINYINT:
+    case DuckDBTypeId.SMALLINT:
+    case DuckDBTypeId.INTEGER:
+    case DuckDBTypeId.BIGINT:
+    case DuckDBTypeId.HUGEINT:
+    case DuckDBTypeId.UTINYINT:
+    case DuckDBTypeId.USMALLINT:
+    case DuckDBTypeId.UINTEGER:
+    case DuckDBTypeId.UBIGINT:
+    case DuckDBTypeId.UHUGEINT:
+    case DuckDBTypeId.FLOAT:
+    case DuckDBTypeId.DOUBLE:
+    case DuckDBTypeId.DECIMAL:
+      return "number";
+    case DuckDBTypeId.DATE:
+    case DuckDBTypeId.TIMESTAMP:
+    case DuckDBTypeId.TIMESTAMP_S:
+    case DuckDBTypeId.TIMESTAMP_MS:
+    case DuckDBTypeId.TIMESTAMP_NS:
+    case DuckDBTypeId.TIMESTAMP_TZ:
+      return "date";
+    case DuckDBTypeId.SQLNULL:
+      return "null";
+    default:
+      return "string";
+  }
+}
+
+const DEFAULT_GUARDS: Required<Omit<GuardConfig, "role">> = {
+  maxRows: 10000,
+  timeoutMs: 30000,
+  validateOperations: true,
+  lockTimeoutMs: 5000,
+  idleInTransactionTimeoutMs: 60000,
+};
+
+function instanceOf(pool: AdapterPool): DuckDBInstance {
+  return pool._pool as DuckDBInstance;
+}
+
+export function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Turn a file or sheet name into a lowercase identifier that needs no quoting
+ */
+export function tableNameFor(name: string): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9_]+/g, "_");
+  return /^[a-z_]/.test(base) ? base : `t_${base}`;
+}
+
+/**
+ * View name for a data file: its base name as a lowercase identifier
+ */
+function viewNameFor(file: string): string {
+  return tableNameFor(path.basename(file, path.extname(file)));
+}
+
+/**
+ * Resolve a connection path to the data files it names: the file itself,
+ * every supported file in a directory, or none for a database file.
+ */
+async function dataFilesFor(target: string, fileRoot: string): Promise<string[]> {
+  const info = await stat(target);
+  if (info.isDirectory()) {
+    const entries = await readdir(target);
+    // Entries may be symlinks, so each is checked against the root too
+    return Promise.all(
+      entries
+        .filter((entry) => DATA_FILE_READERS[path.extname(entry).toLowerCase()])
+        .sort()
+        .map((entry) => resolveInsideFileRoot(path.join(target, entry), fileRoot)),
+    );
+  }
+  return DATA_FILE_READERS[path.extname(target).toLowerCase()] ? [target] : [];
+}
+
+/**
+ * Check a query with DuckDB's own parser: json_serialize_sql() accepts only
+ * SELECT statements, and its parse tree is searched for file-reading or
+ * dynamic-SQL table functions.
+ */
+async function validateDuckDbSql(conn: DuckDBConnection, sql: string): Promise<void> {
+  const reader = await conn.runAndReadAll("SELECT json_serialize_sql($1::VARCHAR)", [sql]);
+  const serialized = JSON.parse(String(reader.getRows()[0]?.[0])) as {
+    error: boolean;
+    error_type?: string;
+    error_message?: string;
+    position?: string;
+    statements?: unknown[];
+  };
+
+  if (serialized.error) {
+    if (serialized.error_type === "parser") {
+      const position = serialized.position !== undefined ? Number(serialized.position) : undefined;
+      throw syntaxError(serialized.error_message ?? "unknown parser error", position);
+    }
+    throw forbiddenOperationError("Only SELECT queries are allowed");
+  }
+
+  const statements = serialized.statements ?? [];
+  if (statements.length !== 1) {
+    throw forbiddenOperationError(statements.length === 0 ? "Only SELECT queries are allowed" : "Multiple statements");
+  }
+
+  const visit = (value: unknown, location?: number): void => {
+    if (Array.isArray(value)) {
+      for (const item of value) visit(item, location);
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+
+    const node = value as Record<string, unknown>;
+    const here = typeof node.query_location === "number" ? node.query_location : location;
+    if (typeof node.function_name === "string") {
+      const name = node.function_name.toLowerCase();
+      if (FORBIDDEN_FUNCTIONS.has(name)) {
+        throw forbiddenOperationError(`function ${name}()`, { node: String(node.class ?? "FUNCTION"), location: here });
+      }
+    }
+    for (const child of Object.values(node)) visit(child, here);
+  };
+  visit(statements[0]);
+}
+
+/**
+ * DuckDB adapter implementing the DatabaseAdapter interface.
+ *
+ * The connection string is a path inside the configured `fileRoot`: a
+ * DuckDB database file (opened read-only), or a CSV / Parquet / JSON file
+ * or a directory of them, each exposed as a view named after the file in
+ * an in-memory database. File access beyond those files is disabled and
+ * the configuration is locked.
+ */
+export const duckdbAdapter: DatabaseAdapter = {
+  name: "DuckDB",
+  dbType: "duckdb",
+  dialect: "duckdb",
+
+  async connect(id, config) {
+    const target = await resolveInsideFileRoot(config.connectionString.trim(), config.fileRoot);
+    try {
+      const dataFiles = await dataFilesFor(target, config.fileRoot!);
+      if (dataFiles.length === 0) {
+        const instance = await DuckDBInstance.create(target, {
+          access_mode: "READ_ONLY",
+          enable_external_access: "false",
+          lock_configuration: "true",
+        });
+        return { id, _pool: instance };
+      }
+
+      const instance = await DuckDBInstance.create(":memory:");
+      const setup = await instance.connect();
+      try {
+        for (const file of dataFiles) {
+          const readFn = DATA_FILE_READERS[path.extname(file).toLowerCase()]!;
+          await setup.run(
+            `CREATE VIEW ${quoteIdent(viewNameFor(file))} AS SELECT * FROM ${readFn}(${quoteLiteral(file)})`,
+          );
+        }
+        await setup.run(`SET allowed_paths = [${dataFiles.map(quoteLiteral).join(", ")}]`);
+        await setup.run("SET enable_external_access = false");
+        await setup.run("SET lock_configuration = true");
+      } finally {
+        setup.closeSync();
+      }
+      return { id, _pool: instance };
+    } catch (error) {
+      throw connectionError(
+        `Failed to open DuckDB database: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async execute(pool, sql, params, guards) {
+    const mergedGuards = { ...DEFAULT_GUARDS, ...guards };
+    const conn = await instanceOf(pool).connect();
+
+    try {
+      if (mergedGuards.validateOperations) {
+        await validateDuckDbSql(conn, sql);
+      }
+      // Fetch one extra row so truncation can be detected
+      const guardedSql = injectLimit(sql, mergedGuards.maxRows + 1);
+
+      const startTime = Date.now();
+      let timedOut = false;
+      const timer =
+        mergedGuards.timeoutMs > 0
+          ? setTimeout(() => {
+              timedOut = true;
+              conn.interrupt();
+            }, mergedGuards.timeoutMs)
+          : undefined;
+
+      try {
+        const reader = await conn.runAndReadAll(guardedSql, (params ?? []) as DuckDBValue[]);
+        const executionTimeMs = Date.now() - startTime;
+
+        const columns = reader.columnNames().map((name, i) => ({
+          name,
+          type: mapDuckDbType(reader.columnTypes()[i]!.typeId),
+          displayName: name,
+        }));
+        return toResultSet(columns, reader.getRowObjectsJS(), executionTimeMs, mergedGuards.maxRows);
+      } catch (error) {
+        if (timedOut) {
+          throw timeoutError(mergedGuards.timeoutMs);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+    } catch (error) {
+      if (error instanceof HeyDataError) {
+        throw error;
+      }
+      throw queryError(
+        `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    } finally {
+      conn.closeSync();
+    }
+  },
+
+  async introspect(pool) {
+    const conn = await instanceOf(pool).connect();
+
+    try {
+      // Tables and views (data files are exposed as views)
+      const tablesResult = await conn.runAndReadAll(`
+        SELECT table_schema, table_name
+        FROM information_schema.tables
+        WHERE table_schema NOT IN ('information_schema', 'pg_catalog')
+          AND table_type IN ('BASE TABLE', 'VIEW')
+        ORDER BY table_schema, table_name
+      `);
+
+      const columnsResult = await conn.runAndReadAll(`
+        SELECT table_schema, table_name, column_name, data_type, is_nullable, column_default
+        FROM information_schema.columns
+        WHERE table_schema NOT IN ('information_schema', 'pg_catalog')
+        ORDER BY table_schema, table_name, ordinal_position
+      `);
+
+      // Primary and foreign keys
+      const constraintsResult = await conn.runAndReadAll(`
+        SELECT schema_name, table_name, constraint_type, constraint_column_names,
+          referenced_table, referenced_column_names
+        FROM duckdb_constraints()
+        WHERE constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY')
+      `);
+
+      // Estimated row counts (base tables only)
+      const sizesResult = await conn.runAndReadAll(`
+        SELECT schema_name, table_name, estimated_size
+        FROM duckdb_tables()
+      `);
+
+      const pkSet = new Set<string>();
+      const fkMap = new Map<string, { foreignTable: string; foreignColumn: string }>();
+      for (const r of constraintsResult.getRowObjectsJS()) {
+        const columns = (r.constraint_column_names as string[] | null) ?? [];
+        const referenced = (r.referenced_column_names as string[] | null) ?? [];
+        columns.forEach((column, i) => {
+          const key = `${r.schema_name}.${r.table_name}.${column}`;
+          if (r.constraint_type === "PRIMARY KEY") {
+            pkSet.add(key);
+          } else if (r.referenced_table) {
+            fkMap.set(key, { foreignTable: String(r.referenced_table), foreignColumn: referenced[i] ?? column });
+          }
+        });
+      }
+
+      const rowCountMap = new Map<string, number>();
+      for (const r of sizesResult.getRowObjectsJS()) {
+        rowCountMap.set(`${r.schema_name}.${r.table_name}`, Number(r.estimated_size));
+      }
+
+      const columnRows = columnsResult.getRowObjectsJS();
+      const tables: IntrospectedTable[] = tablesResult.getRowObjectsJS().map((table) => {
+        const columns: IntrospectedColumn[] = columnRows
+          .filter((col) => col.table_schema === table.table_schema && col.table_name === table.table_name)
+          .map((col) => {
+            const key = `${col.table_schema}.${col.table_name}.${col.column_name}`;
+            const fk = fkMap.get(key);
+            return {
+              name: String(col.column_name),
+              dataType: String(col.data_type),
+              isNullable: col.is_nullable === "YES",
+              columnDefault: col.column_default === null ? null : String(col.column_default),
+              isPrimaryKey: pkSet.has(key),
+              isForeignKey: fk !== undefined,
+              foreignTable: fk?.foreignTable ?? null,
+              foreignColumn: fk?.foreignColumn ?? null,
+            };
+          });
+
+        return {
+          name: String(table.table_name),
+          schema: String(table.table_schema),
+          columns,
+          rowCountEstimate: rowCountMap.get(`${table.table_schema}.${table.table_name}`),
+        };
+      });
+
+      return {
+        tables,
+        introspectedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw queryError(
+        `Schema introspection failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    } finally {
+      conn.closeSync();
+    }
+  },
+
+  async testConnection(pool) {
+    try {
+      const conn = await instanceOf(pool).connect();
+      try {
+        await conn.run("SELECT 1");
+        return true;
+      } finally {
+        conn.closeSync();
+      }
+    } catch (error) {
+      throw connectionError(
+        `Connection test failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async dispose(pool) {
+    instanceOf(pool).closeSync();
+  },
+};
+
+/**
+ * Convert a DuckDB JS value to a ResultSet cell
+ */
+function toCell(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "boolean" || typeof value === "number" || typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "bigint") return Number(value);
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString();
+  // Lists, structs, maps and intervals
+  return JSON.stringify(value, (_key, v: unknown) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+/**
+ * Convert DuckDB rows to ResultSet
+ */
+function toResultSet(
+  columns: ResultSet["columns"],
+  result: Record<string, unknown>[],
+  executionTimeMs: number,
+  maxRows: number,
+): ResultSet {
+  // injectLimit fetches maxRows + 1 rows; the extra row only signals truncation
+  const truncated = result.length > maxRows;
+
+  const rows = result.slice(0, maxRows).map((row) => {
+    const converted: Record<string, string | number | boolean | null> = {};
+    for (const col of columns) {
+      converted[col.name] = toCell(row[col.name]);
+    }
+    return converted;
+  });
+
+  return {
+    columns,
+    rows,
+    rowCount: rows.length,
+    truncated,
+    executionTimeMs,
+  };
+}
@@ -0,0 +1,26 @@
+import { realpath } from "node:fs/promises";
+import path from "node:path";
+import { connectionError } from "../errors.js";
+
+/**
+ * Resolve the path of a file-based connection, following symlinks, and
+ * check it lies inside `fileRoot`. Without a root, file connections are
+ * disabled: the path comes from the user, and the server can read more
+ * than their own files.
+ */
+export async function resolveInsideFileRoot(target: string, fileRoot: string | undefined): Promise<string> {
+  if (!fileRoot) {
+    throw connectionError("File connections are disabled on this server");
+  }
+  const root = await realpath(fileRoot);
+  let resolved: string;
+  try {
+    resolved = await realpath(path.resolve(root, target));
+  } catch {
+    throw connectionError(`File not found: ${target}`);
+  }
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw connectionError(`${target} is outside the directory file connections may use`);
+  }
+  return resolved;
+}
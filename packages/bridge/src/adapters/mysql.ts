@@ -0,0 +1,323 @@
+import mysql from "mysql2/promise";
+import type { FieldPacket, PoolConnection, RowDataPacket } from "mysql2/promise";
+import type { ResultSet, IntrospectedTable, IntrospectedColumn } from "@heydata/shared";
+import type { DatabaseAdapter, AdapterPool } from "../adapter.js";
+import type { GuardConfig } from "../guards.js";
+import { applySqlGuards } from "../guards.js";
+import { connectionError, queryError, timeoutError } from "../errors.js";
+
+/**
+ * Pool handle stored in AdapterPool._pool. The server flavor is detected on
+ * first use because MySQL and MariaDB name their statement timeout differently.
+ */
+interface MySqlPoolHandle {
+  pool: mysql.Pool;
+  flavor?: "mysql" | "mariadb";
+}
+
+/** Server error numbers for a statement or lock wait that ran out of time */
+const ER_QUERY_TIMEOUT = 3024; // MySQL max_execution_time
+const ER_STATEMENT_TIMEOUT = 1969; // MariaDB max_statement_time
+const ER_LOCK_WAIT_TIMEOUT = 1205;
+
+/** Schemas that belong to the server rather than the application */
+const SYSTEM_SCHEMAS = "('mysql', 'information_schema', 'performance_schema', 'sys')";
+
+/**
+ * Map a MySQL column type code to our type system
+ */
+function mapMySqlType(typeId: number | undefined): "string" | "number" | "date" | "boolean" | "null" {
+  const typeMap: Record<number, "string" | "number" | "date" | "boolean"> = {
+    0: "number", 1: "number", 2: "number", 3: "number", 4: "number", 5: "number",
+    8: "number", 9: "number", 13: "number", 246: "number",
+    7: "date", 10: "date", 11: "date", 12: "date", 14: "date",
+  };
+  return typeId === undefined ? "string" : (typeMap[typeId] ?? "string");
+}
+
+const DEFAULT_GUARDS: Required<Omit<GuardConfig, "role">> = {
+  maxRows: 10000,
+  timeoutMs: 30000,
+  validateOperations: true,
+  lockTimeoutMs: 5000,
+  idleInTransactionTimeoutMs: 60000,
+};
+
+function handleOf(pool: AdapterPool): MySqlPoolHandle {
+  return pool._pool as MySqlPoolHandle;
+}
+
+async function detectFlavor(handle: MySqlPoolHandle, conn: PoolConnection): Promise<"mysql" | "mariadb"> {
+  if (!handle.flavor) {
+    const [rows] = await conn.query<RowDataPacket[]>("SELECT VERSION() AS version");
+    handle.flavor = String(rows[0]?.version ?? "").includes("MariaDB") ? "mariadb" : "mysql";
+  }
+  return handle.flavor;
+}
+
+/**
+ * Session variables that cap a query's rows and running time. Session
+ * variables outlive the transaction, so they are reset before the
+ * connection goes back to the pool.
+ */
+function sessionLimits(
+  flavor: "mysql" | "mariadb",
+  guards: Required<Omit<GuardConfig, "role">>,
+): { set: string; reset: string } {
+  const timeoutVar = flavor === "mariadb" ? "max_statement_time" : "max_execution_time";
+  // MariaDB takes seconds (fractional allowed), MySQL milliseconds; 0 disables both
+  const timeout =
+    flavor === "mariadb"
+      ? (Math.max(0, guards.timeoutMs) / 1000).toFixed(3)
+      : String(Math.max(0, Math.floor(guards.timeoutMs)));
+
+  const assignments = [
+    // Fetch one extra row so truncation can be detected
+    `sql_select_limit = ${Math.max(0, Math.floor(guards.maxRows)) + 1}`,
+    `${timeoutVar} = ${timeout}`,
+  ];
+  if (guards.lockTimeoutMs > 0) {
+    // lock_wait_timeout is whole seconds, minimum 1
+    assignments.push(`lock_wait_timeout = ${Math.max(1, Math.ceil(guards.lockTimeoutMs / 1000))}`);
+  }
+
+  return {
+    set: `SET SESSION ${assignments.join(", ")}`,
+    reset: `SET SESSION sql_select_limit = DEFAULT, ${timeoutVar} = DEFAULT, lock_wait_timeout = DEFAULT`,
+  };
+}
+
+/**
+ * MySQL / MariaDB adapter implementing the DatabaseAdapter interface.
+ */
+export const mysqlAdapter: DatabaseAdapter = {
+  name: "MySQL",
+  dbType: "mysql",
+  dialect: "mysql",
+
+  async connect(id, config) {
+    try {
+      const pool = mysql.createPool({
+        uri: config.connectionString,
+        ssl: config.sslEnabled ? { rejectUnauthorized: false } : undefined,
+        connectionLimit: config.maxPoolSize ?? 5,
+        idleTimeout: config.idleTimeoutMs ?? 30000,
+        connectTimeout: config.connectionTimeoutMs ?? 5000,
+        // Return DECIMAL columns as numbers and DATE/DATETIME as UTC instants
+        decimalNumbers: true,
+        timezone: "Z",
+      });
+      const handle: MySqlPoolHandle = { pool };
+      return { id, _pool: handle };
+    } catch (error) {
+      throw connectionError(
+        `Failed to create MySQL pool: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async execute(pool, sql, params, guards) {
+    const handle = handleOf(pool);
+    const mergedGuards = { ...DEFAULT_GUARDS, ...guards };
+    const { sql: guardedSql } = await applySqlGuards(sql, mergedGuards, "mysql");
+
+    const startTime = Date.now();
+
+    try {
+      const conn = await handle.pool.getConnection();
+      let reusable = true;
+      try {
+        const limits = sessionLimits(await detectFlavor(handle, conn), mergedGuards);
+        try {
+          // Row cap and timeouts, then a read-only transaction as defence in depth
+          await conn.query(limits.set);
+          await conn.query("START TRANSACTION READ ONLY");
+
+          const [rows, fields] = await conn.query<RowDataPacket[]>(guardedSql, params ?? []);
+
+          const executionTimeMs = Date.now() - startTime;
+          return toResultSet(rows, fields, executionTimeMs, mergedGuards.maxRows);
+        } finally {
+          // A connection whose transaction or session limits can't be reset
+          // must not be handed to the next query, so destroy it instead
+          try {
+            await conn.query("ROLLBACK");
+            await conn.query(limits.reset);
+          } catch {
+            reusable = false;
+          }
+        }
+      } finally {
+        if (reusable) {
+          conn.release();
+        } else {
+          conn.destroy();
+        }
+      }
+    } catch (error) {
+      const errno = (error as { errno?: number }).errno;
+      if (errno === ER_QUERY_TIMEOUT || errno === ER_STATEMENT_TIMEOUT) {
+        throw timeoutError(mergedGuards.timeoutMs);
+      }
+      if (errno === ER_LOCK_WAIT_TIMEOUT) {
+        throw timeoutError(mergedGuards.lockTimeoutMs);
+      }
+      throw queryError(
+        `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async introspect(pool) {
+    const conn = await handleOf(pool).pool.getConnection();
+
+    try {
+      // Get tables with estimated row counts (InnoDB statistics)
+      const [tablesRows] = await conn.query<RowDataPacket[]>(`
+        SELECT TABLE_SCHEMA AS table_schema, TABLE_NAME AS table_name, TABLE_ROWS AS table_rows
+        FROM information_schema.TABLES
+        WHERE TABLE_SCHEMA NOT IN ${SYSTEM_SCHEMAS}
+          AND TABLE_TYPE = 'BASE TABLE'
+        ORDER BY TABLE_SCHEMA, TABLE_NAME
+      `);
+
+      // Get columns; COLUMN_KEY = 'PRI' marks primary key columns
+      const [columnsRows] = await conn.query<RowDataPacket[]>(`
+        SELECT TABLE_SCHEMA AS table_schema, TABLE_NAME AS table_name, COLUMN_NAME AS column_name,
+          COLUMN_TYPE AS column_type, IS_NULLABLE AS is_nullable, COLUMN_DEFAULT AS column_default,
+          COLUMN_KEY AS column_key
+        FROM information_schema.COLUMNS
+        WHERE TABLE_SCHEMA NOT IN ${SYSTEM_SCHEMAS}
+        ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION
+      `);
+
+      // Get foreign keys
+      const [fksRows] = await conn.query<RowDataPacket[]>(`
+        SELECT TABLE_SCHEMA AS table_schema, TABLE_NAME AS table_name, COLUMN_NAME AS column_name,
+          REFERENCED_TABLE_NAME AS foreign_table_name, REFERENCED_COLUMN_NAME AS foreign_column_name
+        FROM information_schema.KEY_COLUMN_USAGE
+        WHERE TABLE_SCHEMA NOT IN ${SYSTEM_SCHEMAS}
+          AND REFERENCED_TABLE_NAME IS NOT NULL
+      `);
+
+      const fkMap = new Map<string, { foreignTable: string; foreignColumn: string }>();
+      for (const r of fksRows) {
+        fkMap.set(`${r.table_schema}.${r.table_name}.${r.column_name}`, {
+          foreignTable: String(r.foreign_table_name),
+          foreignColumn: String(r.foreign_column_name),
+        });
+      }
+
+      // Assemble tables
+      const tables: IntrospectedTable[] = tablesRows.map((table) => {
+        const tableColumns = columnsRows.filter(
+          (col) => col.table_schema === table.table_schema && col.table_name === table.table_name,
+        );
+
+        const columns: IntrospectedColumn[] = tableColumns.map((col) => {
+          const key = `${col.table_schema}.${col.table_name}.${col.column_name}`;
+          const fk = fkMap.get(key);
+          return {
+            name: String(col.column_name),
+            dataType: String(col.column_type),
+            isNullable: col.is_nullable === "YES",
+            columnDefault: col.column_default === null ? null : String(col.column_default),
+            isPrimaryKey: col.column_key === "PRI",
+            isForeignKey: fk !== undefined,
+            foreignTable: fk?.foreignTable ?? null,
+            foreignColumn: fk?.foreignColumn ?? null,
+          };
+        });
+
+        return {
+          name: String(table.table_name),
+          schema: String(table.table_schema),
+          columns,
+          rowCountEstimate: table.table_rows === null ? undefined : Number(table.table_rows),
+        };
+      });
+
+      return {
+        tables,
+        introspectedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw queryError(
+        `Schema introspection failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    } finally {
+      conn.release();
+    }
+  },
+
+  async testConnection(pool) {
+    try {
+      const conn = await handleOf(pool).pool.getConnection();
+      try {
+        await conn.query("SELECT 1");
+        return true;
+      } finally {
+        conn.release();
+      }
+    } catch (error) {
+      throw connectionError(
+        `Connection test failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async dispose(pool) {
+    await handleOf(pool).pool.end();
+  },
+};
+
+/**
+ * Convert mysql2 rows and field metadata to ResultSet
+ */
+function toResultSet(
+  result: RowDataPacket[],
+  fields: FieldPacket[],
+  executionTimeMs: number,
+  maxRows: number,
+): ResultSet {
+  const columns = fields.map((field) => ({
+    name: field.name,
+    type: mapMySqlType(field.columnType ?? field.type),
+    displayName: field.name,
+  }));
+
+  // Guards fetch maxRows + 1 rows; the extra row only signals truncation
+  const truncated = result.length > maxRows;
+
+  const rows = result.slice(0, maxRows).map((row) => {
+    const converted: Record<string, string | number | boolean | null> = {};
+    for (const col of columns) {
+      const value: unknown = row[col.name];
+      if (value === null || value === undefined) {
+        converted[col.name] = null;
+      } else if (typeof value === "boolean" || typeof value === "number") {
+        converted[col.name] = value;
+      } else if (value instanceof Date) {
+        converted[col.name] = value.toISOString();
+      } else if (typeof value === "object" && !Buffer.isBuffer(value)) {
+        // JSON columns arrive parsed
+        converted[col.name] = JSON.stringify(value);
+      } else {
+        converted[col.name] = String(value);
+      }
+    }
+    return converted;
+  });
+
+  return {
+    columns,
+    rows,
+    rowCount: rows.length,
+    truncated,
+    executionTimeMs,
+  };
+}
@@ -1,8 +1,18 @@
 import pg from "pg";
-import type { ResultSet, IntrospectedSchema, IntrospectedTable, IntrospectedColumn } from "@heydata/shared";
+import type {
+  ResultSet,
+  IntrospectedSchema,
+  IntrospectedTable,
+  IntrospectedColumn,
+  IntrospectedForeignKey,
+  IntrospectedIndex,
+  IntrospectedRelationKind,
+  ColumnStatistics,
+  QueryCostEstimate,
+} from "@heydata/shared";
 import type { DatabaseAdapter, AdapterPool, AdapterConnectionConfig } from "../adapter.js";
 import type { GuardConfig } from "../guards.js";
-import { applySqlGuards } from "../guards.js";
+import { applySqlGuards, readOnlyTransactionPreamble } from "../guards.js";
 import { connectionError, queryError, timeoutError } from "../errors.js";
 
 const { Pool } = pg;
@@ -23,18 +33,161 @@ function mapPgType(typeId: number): "string" | "number" | "date" | "boolean" | "
   return typeMap[typeId] ?? "string";
 }
 
-const DEFAULT_GUARDS: Required<GuardConfig> = {
+/** Schemas that hold user data rather than the catalog. Expects pg_namespace as `n` */
+const USER_NAMESPACES = `n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname NOT LIKE 'pg\\_%'`;
+
+/**
+ * Tables, partitioned tables, views and materialized views in user schemas,
+ * without partitions. Expects pg_class as `c` and pg_namespace as `n`.
+ */
+const USER_RELATIONS = `c.relkind IN ('r', 'p', 'v', 'm') AND NOT c.relispartition AND ${USER_NAMESPACES}`;
+
+const RELATION_KINDS: Record<string, IntrospectedRelationKind> = {
+  r: "table",
+  p: "table",
+  v: "view",
+  m: "materialized_view",
+};
+
+/** Most common values are only kept for columns with at most this many distinct values */
+const CATEGORICAL_MAX_DISTINCT = 50;
+const MAX_COMMON_VALUES = 20;
+const MAX_COMMON_VALUE_LENGTH = 100;
+
+function pushTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+/**
+ * Turn a pg_stats row into column statistics. A negative n_distinct is a
+ * fraction of the row count. Most common values are dropped for
+ * high-cardinality columns, where they would be samples of user data rather
+ * than a value set.
+ */
+function columnStatistics(
+  row: { null_frac: number | null; n_distinct: number | null; most_common_vals: string[] | null } | undefined,
+  rowCount: number | undefined,
+): ColumnStatistics | undefined {
+  if (!row) return undefined;
+
+  const nDistinct = row.n_distinct ?? 0;
+  const distinctCount =
+    nDistinct > 0 ? nDistinct : nDistinct < 0 && rowCount ? Math.round(-nDistinct * rowCount) : undefined;
+  const mostCommonValues =
+    distinctCount !== undefined && distinctCount <= CATEGORICAL_MAX_DISTINCT
+      ? (row.most_common_vals ?? [])
+          .filter((v) => typeof v === "string" && v.length <= MAX_COMMON_VALUE_LENGTH)
+          .slice(0, MAX_COMMON_VALUES)
+      : [];
+
+  return {
+    ...(distinctCount !== undefined ? { distinctCount } : {}),
+    ...(row.null_frac !== null ? { nullFraction: Math.round(row.null_frac * 1000) / 1000 } : {}),
+    ...(mostCommonValues.length > 0 ? { mostCommonValues } : {}),
+  };
+}
+
+const DEFAULT_GUARDS: Required<Omit<GuardConfig, "role">> = {
   maxRows: 10000,
   timeoutMs: 30000,
   validateOperations: true,
+  lockTimeoutMs: 5000,
+  idleInTransactionTimeoutMs: 60000,
 };
 
+/**
+ * Run `fn` on a pooled client inside a read-only transaction with the guard
+ * timeouts (and optional role) as defence in depth. Driver errors are mapped
+ * to HeyDataErrors, prefixed with `action`.
+ */
+async function inReadOnlyTransaction<T>(
+  pool: AdapterPool,
+  guards: typeof DEFAULT_GUARDS & GuardConfig,
+  action: string,
+  fn: (client: pg.PoolClient) => Promise<T>,
+): Promise<T> {
+  const pgPool = pool._pool as pg.Pool;
+  try {
+    const client = await pgPool.connect();
+    let releaseError: Error | undefined;
+    try {
+      await client.query(readOnlyTransactionPreamble(guards));
+      return await fn(client);
+    } finally {
+      // Nothing to commit in a read-only transaction; a failed rollback
+      // means the connection is unusable, so destroy it instead of pooling it
+      try {
+        await client.query("ROLLBACK");
+      } catch (error) {
+        releaseError = error instanceof Error ? error : new Error(String(error));
+      }
+      client.release(releaseError);
+    }
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("statement timeout")) {
+      throw timeoutError(guards.timeoutMs);
+    }
+    if (error instanceof Error && error.message.includes("lock timeout")) {
+      throw timeoutError(guards.lockTimeoutMs);
+    }
+    throw queryError(
+      `${action} failed: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/** A node of PostgreSQL's EXPLAIN (FORMAT JSON) output */
+interface PgPlanNode {
+  "Node Type"?: string;
+  "Relation Name"?: string;
+  Schema?: string;
+  "Total Cost"?: number;
+  "Plan Rows"?: number;
+  Plans?: PgPlanNode[];
+}
+
+/**
+ * Summarise `EXPLAIN (FORMAT JSON, VERBOSE)` output: the root node's total cost and
+ * row estimate, plus every sequential scan anywhere in the plan.
+ */
+export function summarizePostgresPlan(explainOutput: unknown): QueryCostEstimate {
+  const root = (Array.isArray(explainOutput) ? explainOutput[0] : undefined) as
+    | { Plan?: PgPlanNode }
+    | undefined;
+  const plan = root?.Plan;
+  if (!plan || typeof plan["Total Cost"] !== "number") {
+    throw queryError("Query planning failed: unexpected EXPLAIN output");
+  }
+
+  const seqScans: QueryCostEstimate["seqScans"] = [];
+  const visit = (node: PgPlanNode) => {
+    if (node["Node Type"] === "Seq Scan" && node["Relation Name"]) {
+      seqScans.push({
+        table: node.Schema ? `${node.Schema}.${node["Relation Name"]}` : node["Relation Name"],
+        estimatedRows: node["Plan Rows"] ?? 0,
+      });
+    }
+    for (const child of node.Plans ?? []) visit(child);
+  };
+  visit(plan);
+
+  return {
+    totalCost: plan["Total Cost"],
+    estimatedRows: plan["Plan Rows"] ?? 0,
+    seqScans,
+  };
+}
+
 /**
  * PostgreSQL adapter implementing the DatabaseAdapter interface.
  */
 export const postgresqlAdapter: DatabaseAdapter = {
   name: "PostgreSQL",
   dbType: "postgresql",
+  dialect: "postgresql",
 
   async connect(id, config) {
     try {
@@ -55,42 +208,29 @@ export const postgresqlAdapter: DatabaseAdapter = {
   },
 
   async execute(pool, sql, params, guards) {
-    const pgPool = pool._pool as pg.Pool;
     const mergedGuards = { ...DEFAULT_GUARDS, ...guards };
-    const { sql: guardedSql } = applySqlGuards(sql, mergedGuards);
+    const { sql: guardedSql } = await applySqlGuards(sql, mergedGuards);
 
     const startTime = Date.now();
+    const result = await inReadOnlyTransaction(pool, mergedGuards, "Query execution", (client) =>
+      client.query({
+        text: guardedSql,
+        values: params ?? [],
+      }),
+    );
 
-    try {
-      const client = await pgPool.connect();
-      try {
-        if (mergedGuards.timeoutMs > 0) {
-          await client.query({ text: `SET LOCAL statement_timeout = '${mergedGuards.timeoutMs}ms'` });
-        }
+    const executionTimeMs = Date.now() - startTime;
+    return toResultSet(result, executionTimeMs, mergedGuards.maxRows);
+  },
 
-        const result = await client.query({
-          text: guardedSql,
-          values: params ?? [],
-        });
+  async explain(pool, sql, guards) {
+    const mergedGuards = { ...DEFAULT_GUARDS, ...guards };
+    const { sql: guardedSql } = await applySqlGuards(sql, mergedGuards);
 
-        const executionTimeMs = Date.now() - startTime;
-        return toResultSet(result, executionTimeMs, mergedGuards.maxRows);
-      } finally {
-        client.release();
-      }
-    } catch (error) {
-      if (
-        error instanceof Error &&
-        (error.message.includes("canceling statement due to statement timeout") ||
-          error.message.includes("statement timeout"))
-      ) {
-        throw timeoutError(mergedGuards.timeoutMs);
-      }
-      throw queryError(
-        `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
-        error instanceof Error ? error : undefined,
-      );
-    }
+    const result = await inReadOnlyTransaction(pool, mergedGuards, "Query planning", (client) =>
+      client.query<{ "QUERY PLAN": unknown }>(`EXPLAIN (FORMAT JSON, VERBOSE) ${guardedSql}`),
+    );
+    return summarizePostgresPlan(result.rows[0]?.["QUERY PLAN"]);
   },
 
   async introspect(pool) {
@@ -98,34 +238,57 @@ export const postgresqlAdapter: DatabaseAdapter = {
     const client = await pgPool.connect();
 
     try {
-      // Get tables
+      // Get tables, partitioned tables, views and materialized views.
+      // information_schema has no materialized views, so read pg_catalog.
       const tablesResult = await client.query<{
         table_schema: string;
         table_name: string;
+        relkind: string;
+        table_comment: string | null;
+        partition_key: string | null;
       }>({
         text: `
-          SELECT table_schema, table_name
-          FROM information_schema.tables
-          WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
-            AND table_type = 'BASE TABLE'
-          ORDER BY table_schema, table_name
+          SELECT n.nspname AS table_schema, c.relname AS table_name, c.relkind,
+                 obj_description(c.oid, 'pg_class') AS table_comment,
+                 CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END AS partition_key
+          FROM pg_class c
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE ${USER_RELATIONS}
+            AND has_table_privilege(c.oid, 'SELECT')
+          ORDER BY n.nspname, c.relname
         `,
       });
 
-      // Get columns
+      // Get columns with comments and enum labels
       const columnsResult = await client.query<{
         table_schema: string;
         table_name: string;
         column_name: string;
         data_type: string;
-        is_nullable: string;
+        is_nullable: boolean;
         column_default: string | null;
+        column_comment: string | null;
+        enum_values: string[];
       }>({
         text: `
-          SELECT table_schema, table_name, column_name, data_type, is_nullable, column_default
-          FROM information_schema.columns
-          WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
-          ORDER BY table_schema, table_name, ordinal_position
+          SELECT n.nspname AS table_schema, c.relname AS table_name, a.attname AS column_name,
+                 format_type(a.atttypid, NULL) AS data_type,
+                 NOT a.attnotnull AS is_nullable,
+                 pg_get_expr(d.adbin, d.adrelid) AS column_default,
+                 col_description(c.oid, a.attnum) AS column_comment,
+                 ARRAY(
+                   SELECT e.enumlabel::text FROM pg_enum e
+                   WHERE e.enumtypid = a.atttypid
+                   ORDER BY e.enumsortorder
+                 ) AS enum_values
+          FROM pg_attribute a
+          JOIN pg_class c ON c.oid = a.attrelid
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+          WHERE ${USER_RELATIONS}
+            AND a.attnum > 0
+            AND NOT a.attisdropped
+          ORDER BY n.nspname, c.relname, a.attnum
         `,
       });
 
@@ -145,30 +308,86 @@ export const postgresqlAdapter: DatabaseAdapter = {
         `,
       });
 
-      // Get foreign keys
+      // Get foreign keys, with the columns of composite keys in order.
+      // Constraints cloned onto partitions have a parent and are skipped.
       const fksResult = await client.query<{
         table_schema: string;
         table_name: string;
-        column_name: string;
+        column_names: string[];
         foreign_table_schema: string;
         foreign_table_name: string;
-        foreign_column_name: string;
+        foreign_column_names: string[];
       }>({
         text: `
           SELECT
-            kcu.table_schema,
-            kcu.table_name,
-            kcu.column_name,
-            ccu.table_schema AS foreign_table_schema,
-            ccu.table_name AS foreign_table_name,
-            ccu.column_name AS foreign_column_name
-          FROM information_schema.table_constraints tc
-          JOIN information_schema.key_column_usage kcu
-            ON tc.constraint_name = kcu.constraint_name
-            AND tc.table_schema = kcu.table_schema
-          JOIN information_schema.constraint_column_usage ccu
-            ON tc.constraint_name = ccu.constraint_name
-          WHERE tc.constraint_type = 'FOREIGN KEY'
+            n.nspname AS table_schema,
+            c.relname AS table_name,
+            ARRAY(
+              SELECT a.attname::text
+              FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+              JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+              ORDER BY k.ord
+            ) AS column_names,
+            fn.nspname AS foreign_table_schema,
+            fc.relname AS foreign_table_name,
+            ARRAY(
+              SELECT a.attname::text
+              FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+              JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+              ORDER BY k.ord
+            ) AS foreign_column_names
+          FROM pg_constraint con
+          JOIN pg_class c ON c.oid = con.conrelid
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          JOIN pg_class fc ON fc.oid = con.confrelid
+          JOIN pg_namespace fn ON fn.oid = fc.relnamespace
+          WHERE con.contype = 'f'
+            AND con.conparentid = 0
+        `,
+      });
+
+      // Get secondary indexes (the primary key is already on the columns)
+      const indexesResult = await client.query<{
+        table_schema: string;
+        table_name: string;
+        index_name: string;
+        is_unique: boolean;
+        column_names: string[];
+      }>({
+        text: `
+          SELECT n.nspname AS table_schema, c.relname AS table_name, i.relname AS index_name,
+                 ix.indisunique AS is_unique,
+                 ARRAY(
+                   SELECT pg_get_indexdef(ix.indexrelid, k, true)
+                   FROM generate_series(1, ix.indnkeyatts) AS k
+                   ORDER BY k
+                 ) AS column_names
+          FROM pg_index ix
+          JOIN pg_class i ON i.oid = ix.indexrelid
+          JOIN pg_class c ON c.oid = ix.indrelid
+          JOIN pg_namespace n ON n.oid = c.relnamespace
+          WHERE NOT ix.indisprimary
+            AND ${USER_NAMESPACES}
+          ORDER BY n.nspname, c.relname, i.relname
+        `,
+      });
+
+      // Get partitions of partitioned tables
+      const partitionsResult = await client.query<{
+        parent_schema: string;
+        parent_name: string;
+        child_schema: string;
+        child_name: string;
+      }>({
+        text: `
+          SELECT pn.nspname AS parent_schema, p.relname AS parent_name,
+                 cn.nspname AS child_schema, ch.relname AS child_name
+          FROM pg_inherits i
+          JOIN pg_class p ON p.oid = i.inhparent
+          JOIN pg_namespace pn ON pn.oid = p.relnamespace
+          JOIN pg_class ch ON ch.oid = i.inhrelid
+          JOIN pg_namespace cn ON cn.oid = ch.relnamespace
+          WHERE ch.relispartition
         `,
       });
 
@@ -184,17 +403,61 @@ export const postgresqlAdapter: DatabaseAdapter = {
         `,
       });
 
+      // Get column statistics from the last ANALYZE. Partitioned tables only
+      // have statistics over all their partitions (inherited).
+      const statsResult = await client.query<{
+        schemaname: string;
+        tablename: string;
+        attname: string;
+        null_frac: number | null;
+        n_distinct: number | null;
+        most_common_vals: string[] | null;
+      }>({
+        text: `
+          SELECT schemaname, tablename, attname, null_frac, n_distinct,
+                 most_common_vals::text::text[] AS most_common_vals
+          FROM pg_stats
+          WHERE schemaname NOT IN ('pg_catalog', 'information_schema')
+          ORDER BY inherited
+        `,
+      });
+
       // Build lookup sets
       const pkSet = new Set(
         pksResult.rows.map((r) => `${r.table_schema}.${r.table_name}.${r.column_name}`),
       );
 
       const fkMap = new Map<string, { foreignTable: string; foreignColumn: string }>();
+      const compositeFkMap = new Map<string, IntrospectedForeignKey[]>();
       for (const r of fksResult.rows) {
-        fkMap.set(`${r.table_schema}.${r.table_name}.${r.column_name}`, {
-          foreignTable: r.foreign_table_name,
-          foreignColumn: r.foreign_column_name,
+        r.column_names.forEach((column, i) => {
+          fkMap.set(`${r.table_schema}.${r.table_name}.${column}`, {
+            foreignTable: r.foreign_table_name,
+            foreignColumn: r.foreign_column_names[i] ?? "",
+          });
         });
+        if (r.column_names.length > 1) {
+          pushTo(compositeFkMap, `${r.table_schema}.${r.table_name}`, {
+            columns: r.column_names,
+            foreignSchema: r.foreign_table_schema,
+            foreignTable: r.foreign_table_name,
+            foreignColumns: r.foreign_column_names,
+          });
+        }
+      }
+
+      const indexMap = new Map<string, IntrospectedIndex[]>();
+      for (const r of indexesResult.rows) {
+        pushTo(indexMap, `${r.table_schema}.${r.table_name}`, {
+          name: r.index_name,
+          columns: r.column_names,
+          unique: r.is_unique,
+        });
+      }
+
+      const partitionMap = new Map<string, string[]>();
+      for (const r of partitionsResult.rows) {
+        pushTo(partitionMap, `${r.parent_schema}.${r.parent_name}`, `${r.child_schema}.${r.child_name}`);
       }
 
       const rowCountMap = new Map<string, number>();
@@ -202,32 +465,62 @@ export const postgresqlAdapter: DatabaseAdapter = {
         rowCountMap.set(`${r.schemaname}.${r.relname}`, parseInt(r.n_live_tup, 10));
       }
 
+      // A partitioned table holds no rows itself; count its partitions'
+      const rowCount = (key: string): number | undefined => {
+        const partitions = partitionMap.get(key);
+        if (!partitions) return rowCountMap.get(key);
+        return partitions.reduce((sum, partition) => sum + (rowCount(partition) ?? 0), 0);
+      };
+
+      const statsMap = new Map<string, (typeof statsResult.rows)[number]>();
+      for (const r of statsResult.rows) {
+        const key = `${r.schemaname}.${r.tablename}.${r.attname}`;
+        if (!statsMap.has(key)) statsMap.set(key, r);
+      }
+
+      const columnsByTable = new Map<string, (typeof columnsResult.rows)[number][]>();
+      for (const col of columnsResult.rows) {
+        pushTo(columnsByTable, `${col.table_schema}.${col.table_name}`, col);
+      }
+
       // Assemble tables
       const tables: IntrospectedTable[] = tablesResult.rows.map((table) => {
-        const tableColumns = columnsResult.rows.filter(
-          (col) => col.table_schema === table.table_schema && col.table_name === table.table_name,
-        );
+        const tableKey = `${table.table_schema}.${table.table_name}`;
+        const rowCountEstimate = rowCount(tableKey);
 
-        const columns: IntrospectedColumn[] = tableColumns.map((col) => {
-          const key = `${col.table_schema}.${col.table_name}.${col.column_name}`;
+        const columns: IntrospectedColumn[] = (columnsByTable.get(tableKey) ?? []).map((col) => {
+          const key = `${tableKey}.${col.column_name}`;
           const fk = fkMap.get(key);
+          const stats = columnStatistics(statsMap.get(key), rowCountEstimate);
           return {
             name: col.column_name,
             dataType: col.data_type,
-            isNullable: col.is_nullable === "YES",
+            isNullable: col.is_nullable,
             columnDefault: col.column_default,
             isPrimaryKey: pkSet.has(key),
             isForeignKey: fk !== undefined,
             foreignTable: fk?.foreignTable ?? null,
             foreignColumn: fk?.foreignColumn ?? null,
+            ...(col.column_comment ? { comment: col.column_comment } : {}),
+            ...(col.enum_values.length > 0 ? { enumValues: col.enum_values } : {}),
+            ...(stats ? { stats } : {}),
           };
         });
 
+        const indexes = indexMap.get(tableKey);
+        const foreignKeys = compositeFkMap.get(tableKey);
         return {
           name: table.table_name,
           schema: table.table_schema,
           columns,
-          rowCountEstimate: rowCountMap.get(`${table.table_schema}.${table.table_name}`),
+          rowCountEstimate,
+          kind: RELATION_KINDS[table.relkind] ?? "table",
+          ...(table.table_comment ? { comment: table.table_comment } : {}),
+          ...(indexes ? { indexes } : {}),
+          ...(foreignKeys ? { foreignKeys } : {}),
+          ...(table.partition_key
+            ? { partitionKey: table.partition_key, partitionCount: partitionMap.get(tableKey)?.length ?? 0 }
+            : {}),
         };
       });
 
@@ -283,7 +576,10 @@ function toResultSet(
     displayName: field.name,
   }));
 
-  const rows = result.rows.map((row: Record<string, unknown>) => {
+  // Guards fetch maxRows + 1 rows; the extra row only signals truncation
+  const truncated = result.rows.length > maxRows;
+
+  const rows = result.rows.slice(0, maxRows).map((row: Record<string, unknown>) => {
     const converted: Record<string, string | number | boolean | null> = {};
     for (const col of columns) {
       const value = row[col.name];
@@ -302,7 +598,6 @@ function toResultSet(
     return converted;
   });
 
-  const truncated = result.rowCount !== null && result.rowCount >= maxRows;
 
   return {
     columns,
@@ -0,0 +1,261 @@
+import Database from "better-sqlite3";
+import type { ResultSet, IntrospectedTable, IntrospectedColumn } from "@heydata/shared";
+import type { DatabaseAdapter, AdapterPool } from "../adapter.js";
+import type { GuardConfig } from "../guards.js";
+import { injectLimit } from "../guards.js";
+import { connectionError, forbiddenOperationError, queryError, syntaxError } from "../errors.js";
+import { resolveInsideFileRoot } from "./file-root.js";
+
+/**
+ * Map a declared SQLite column type to our type system, following SQLite's
+ * type affinity rules. Expressions have no declared type and are inferred
+ * from their values instead.
+ */
+function mapSqliteType(declared: string | null): "string" | "number" | "date" | "boolean" | undefined {
+  if (!declared) return undefined;
+  const type = declared.toUpperCase();
+  if (type.includes("BOOL")) return "boolean";
+  if (type.includes("DATE") || type.includes("TIME")) return "date";
+  if (type.includes("CHAR") || type.includes("CLOB") || type.includes("TEXT")) return "string";
+  if (/INT|REAL|FLOA|DOUB|NUM|DEC/.test(type)) return "number";
+  return "string";
+}
+
+const DEFAULT_GUARDS: Required<Omit<GuardConfig, "role">> = {
+  maxRows: 10000,
+  timeoutMs: 30000,
+  validateOperations: true,
+  lockTimeoutMs: 5000,
+  idleInTransactionTimeoutMs: 60000,
+};
+
+function databaseOf(pool: AdapterPool): Database.Database {
+  return pool._pool as Database.Database;
+}
+
+/**
+ * Compile a statement with SQLite's own parser, translating its errors
+ */
+function prepare(db: Database.Database, sql: string): Database.Statement {
+  try {
+    return db.prepare(sql);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof RangeError) {
+      // better-sqlite3 refuses to prepare more than one statement
+      throw forbiddenOperationError("Multiple statements");
+    }
+    if (message.includes("syntax error") || message.includes("incomplete input")) {
+      throw syntaxError(message);
+    }
+    throw queryError(`Query execution failed: ${message}`, error instanceof Error ? error : undefined);
+  }
+}
+
+/**
+ * SQLite adapter implementing the DatabaseAdapter interface.
+ *
+ * The connection string is the path to a database file inside the
+ * configured `fileRoot`, opened read-only.
+ * Statements are validated by SQLite itself: the query must compile to a
+ * single statement that returns rows without writing. Queries run
+ * synchronously in-process, so `timeoutMs` cannot interrupt them; only the
+ * busy timeout (`lockTimeoutMs`) applies.
+ */
+export const sqliteAdapter: DatabaseAdapter = {
+  name: "SQLite",
+  dbType: "sqlite",
+  dialect: "sqlite",
+
+  async connect(id, config) {
+    const file = await resolveInsideFileRoot(config.connectionString.trim(), config.fileRoot);
+    try {
+      const db = new Database(file, {
+        readonly: true,
+        fileMustExist: true,
+        timeout: DEFAULT_GUARDS.lockTimeoutMs,
+      });
+      return { id, _pool: db };
+    } catch (error) {
+      throw connectionError(
+        `Failed to open SQLite database: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async execute(pool, sql, params, guards) {
+    const db = databaseOf(pool);
+    const mergedGuards = { ...DEFAULT_GUARDS, ...guards };
+
+    if (mergedGuards.validateOperations) {
+      const stmt = prepare(db, sql);
+      if (!stmt.reader || !stmt.readonly) {
+        throw forbiddenOperationError("Only SELECT queries are allowed");
+      }
+    }
+
+    // Fetch one extra row so truncation can be detected
+    const stmt = prepare(db, injectLimit(sql, mergedGuards.maxRows + 1));
+
+    const startTime = Date.now();
+    let rows: Record<string, unknown>[];
+    try {
+      db.pragma(`busy_timeout = ${Math.max(0, Math.floor(mergedGuards.lockTimeoutMs))}`);
+      rows = stmt.all(...(params ?? [])) as Record<string, unknown>[];
+    } catch (error) {
+      throw queryError(
+        `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+    const executionTimeMs = Date.now() - startTime;
+
+    return toResultSet(stmt.columns(), rows, executionTimeMs, mergedGuards.maxRows);
+  },
+
+  async introspect(pool) {
+    const db = databaseOf(pool);
+
+    try {
+      const tables = db
+        .prepare(
+          `SELECT name FROM sqlite_master
+           WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+           ORDER BY name`,
+        )
+        .all() as { name: string }[];
+
+      // Row estimates are only available after ANALYZE has populated sqlite_stat1
+      const rowCountMap = new Map<string, number>();
+      const hasStats = db
+        .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'sqlite_stat1'")
+        .get();
+      if (hasStats) {
+        // The first number of every stat row (table or index) is the table's row count
+        const stats = db.prepare("SELECT tbl, stat FROM sqlite_stat1").all() as {
+          tbl: string;
+          stat: string;
+        }[];
+        for (const s of stats) {
+          if (!rowCountMap.has(s.tbl)) rowCountMap.set(s.tbl, parseInt(s.stat, 10));
+        }
+      }
+
+      const result: IntrospectedTable[] = tables.map((table) => {
+        const columnsInfo = db.prepare("SELECT * FROM pragma_table_info(?)").all(table.name) as {
+          name: string;
+          type: string;
+          notnull: number;
+          dflt_value: string | null;
+          pk: number;
+        }[];
+        const foreignKeys = db.prepare("SELECT * FROM pragma_foreign_key_list(?)").all(table.name) as {
+          table: string;
+          from: string;
+          to: string | null;
+        }[];
+
+        const fkMap = new Map(foreignKeys.map((fk) => [fk.from, fk]));
+
+        const columns: IntrospectedColumn[] = columnsInfo.map((col) => {
+          const fk = fkMap.get(col.name);
+          return {
+            name: col.name,
+            dataType: col.type || "ANY",
+            // SQLite allows NULL in non-INTEGER primary keys unless declared NOT NULL
+            isNullable: col.notnull === 0 && col.pk === 0,
+            columnDefault: col.dflt_value,
+            isPrimaryKey: col.pk > 0,
+            isForeignKey: fk !== undefined,
+            foreignTable: fk?.table ?? null,
+            // A foreign key without a column list references the primary key
+            foreignColumn: fk ? (fk.to ?? null) : null,
+          };
+        });
+
+        return {
+          name: table.name,
+          schema: "main",
+          columns,
+          rowCountEstimate: rowCountMap.get(table.name),
+        };
+      });
+
+      return {
+        tables: result,
+        introspectedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      throw queryError(
+        `Schema introspection failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async testConnection(pool) {
+    try {
+      databaseOf(pool).prepare("SELECT 1").get();
+      return true;
+    } catch (error) {
+      throw connectionError(
+        `Connection test failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+
+  async dispose(pool) {
+    databaseOf(pool).close();
+  },
+};
+
+/**
+ * Convert better-sqlite3 rows and column metadata to ResultSet
+ */
+function toResultSet(
+  columnInfo: Database.ColumnDefinition[],
+  result: Record<string, unknown>[],
+  executionTimeMs: number,
+  maxRows: number,
+): ResultSet {
+  // injectLimit fetches maxRows + 1 rows; the extra row only signals truncation
+  const truncated = result.length > maxRows;
+  const kept = result.slice(0, maxRows);
+
+  const columns = columnInfo.map((col) => {
+    const sample = kept.find((row) => row[col.name] !== null && row[col.name] !== undefined)?.[col.name];
+    return {
+      name: col.name,
+      type: mapSqliteType(col.type) ?? (typeof sample === "number" ? "number" : "string"),
+      displayName: col.name,
+    };
+  });
+
+  const rows = kept.map((row) => {
+    const converted: Record<string, string | number | boolean | null> = {};
+    for (const col of columns) {
+      const value = row[col.name];
+      if (value === null || value === undefined) {
+        converted[col.name] = null;
+      } else if (typeof value === "number") {
+        // SQLite stores booleans as 0 / 1
+        converted[col.name] = col.type === "boolean" ? value !== 0 : value;
+      } else if (typeof value === "bigint") {
+        converted[col.name] = Number(value);
+      } else {
+        converted[col.name] = String(value);
+      }
+    }
+    return converted;
+  });
+
+  return {
+    columns,
+    rows,
+    rowCount: rows.length,
+    truncated,
+    executionTimeMs,
+  };
+}
@@ -0,0 +1,215 @@
+import { readdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { DuckDBInstance, timestampValue } from "@duckdb/node-api";
+import type { DuckDBConnection } from "@duckdb/node-api";
+import ExcelJS from "exceljs";
+import type { DatabaseAdapter } from "../adapter.js";
+import { connectionError } from "../errors.js";
+import { duckdbAdapter, quoteIdent, quoteLiteral, tableNameFor } from "./duckdb.js";
+import { resolveInsideFileRoot } from "./file-root.js";
+
+/** File extensions accepted for uploaded connections */
+export const UPLOAD_FILE_EXTENSIONS = [".csv", ".xlsx"] as const;
+
+/**
+ * Root directory for uploaded connection files. Set UPLOAD_DIR to a
+ * persistent volume in production; the default lives in the OS temp dir.
+ */
+export function uploadRoot(): string {
+  return process.env["UPLOAD_DIR"] || path.join(tmpdir(), "heydata-uploads");
+}
+
+type CellValue = string | number | boolean | Date | null;
+
+type ColumnType = "DOUBLE" | "BOOLEAN" | "TIMESTAMP" | "VARCHAR";
+
+/**
+ * Reduce an ExcelJS cell value to a plain value: formulas yield their cached
+ * result, rich text and hyperlinks their text, and errors become null.
+ */
+function plainCellValue(value: ExcelJS.CellValue): CellValue {
+  if (value === null || value === undefined) return null;
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+  if ("formula" in value || "sharedFormula" in value) {
+    const result = (value as ExcelJS.CellFormulaValue).result;
+    return result === undefined || (typeof result === "object" && !(result instanceof Date))
+      ? null
+      : result;
+  }
+  if ("richText" in value) return value.richText.map((part) => part.text).join("");
+  if ("text" in value) return typeof value.text === "string" ? value.text : null;
+  return null;
+}
+
+/**
+ * Pick the narrowest column type that holds every non-null value
+ */
+function inferColumnType(values: CellValue[]): ColumnType {
+  const present = values.filter((v) => v !== null && v !== "");
+  if (present.length === 0) return "VARCHAR";
+  if (present.every((v) => typeof v === "number")) return "DOUBLE";
+  if (present.every((v) => typeof v === "boolean")) return "BOOLEAN";
+  if (present.every((v) => v instanceof Date)) return "TIMESTAMP";
+  return "VARCHAR";
+}
+
+/**
+ * Column names from a header row: blanks become column_N and duplicates get
+ * a numeric suffix.
+ */
+function columnNamesFor(header: CellValue[], width: number): string[] {
+  const used = new Set<string>();
+  return Array.from({ length: width }, (_, i) => {
+    const raw = header[i];
+    const text = raw instanceof Date ? raw.toISOString() : raw === null ? "" : String(raw).trim();
+    let name = text || `column_${i + 1}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${text || `column_${i + 1}`}_${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Create a table from a worksheet: the first row is the header, the rest is
+ * data. Returns false for sheets without a header row.
+ */
+async function loadWorksheet(
+  conn: DuckDBConnection,
+  table: string,
+  sheet: ExcelJS.Worksheet,
+): Promise<boolean> {
+  const rows: CellValue[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    // row.values is 1-based
+    const values = (row.values as ExcelJS.CellValue[]).slice(1).map(plainCellValue);
+    rows.push(values);
+  });
+  const [header, ...data] = rows;
+  if (!header) return false;
+
+  const width = Math.max(header.length, ...data.map((r) => r.length));
+  const names = columnNamesFor(header, width);
+  const types = names.map((_, i) => inferColumnType(data.map((r) => r[i] ?? null)));
+
+  await conn.run(
+    `CREATE TABLE ${quoteIdent(table)} (${names.map((n, i) => `${quoteIdent(n)} ${types[i]}`).join(", ")})`,
+  );
+
+  const appender = await conn.createAppender(table);
+  try {
+    for (const row of data) {
+      types.forEach((type, i) => {
+        const value = row[i] ?? null;
+        if (value === null || (value === "" && type !== "VARCHAR")) {
+          appender.appendNull();
+        } else if (type === "DOUBLE") {
+          appender.appendDouble(value as number);
+        } else if (type === "BOOLEAN") {
+          appender.appendBoolean(value as boolean);
+        } else if (type === "TIMESTAMP") {
+          appender.appendTimestamp(timestampValue(BigInt((value as Date).getTime()) * 1000n));
+        } else {
+          appender.appendVarchar(value instanceof Date ? value.toISOString() : String(value));
+        }
+      });
+      appender.endRow();
+    }
+    appender.flushSync();
+  } finally {
+    appender.closeSync();
+  }
+  return true;
+}
+
+/**
+ * Load one uploaded file into tables. A CSV file becomes one table named
+ * after the file; each sheet of a workbook becomes a table named after the
+ * file and the sheet, or after the file alone when there is a single sheet.
+ */
+async function loadFile(conn: DuckDBConnection, file: string, used: Set<string>): Promise<void> {
+  const ext = path.extname(file).toLowerCase();
+  const base = path.basename(file, path.extname(file));
+  const uniqueName = (name: string): string => {
+    let table = tableNameFor(name);
+    for (let n = 2; used.has(table); n++) table = `${tableNameFor(name)}_${n}`;
+    used.add(table);
+    return table;
+  };
+
+  if (ext === ".csv") {
+    await conn.run(
+      `CREATE TABLE ${quoteIdent(uniqueName(base))} AS SELECT * FROM read_csv_auto(${quoteLiteral(file)})`,
+    );
+    return;
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(file);
+  const sheets = workbook.worksheets.filter((sheet) => sheet.actualRowCount > 0);
+  for (const sheet of sheets) {
+    const name = sheets.length === 1 ? base : `${base}_${sheet.name}`;
+    const table = uniqueName(name);
+    if (!(await loadWorksheet(conn, table, sheet))) used.delete(table);
+  }
+}
+
+/**
+ * Adapter for CSV / Excel files uploaded through the setup wizard.
+ *
+ * The connection string is the directory holding the uploaded files, which
+ * must lie inside `uploadRoot`. On connect every file is loaded into tables of an in-memory DuckDB database,
+ * after which external access is disabled and the configuration locked.
+ * Queries, introspection and disposal are the DuckDB adapter's.
+ */
+export const uploadAdapter: DatabaseAdapter = {
+  ...duckdbAdapter,
+  name: "CSV / Excel upload",
+  dbType: "upload",
+  dialect: "duckdb",
+
+  async connect(id, config) {
+    let instance: DuckDBInstance | undefined;
+    try {
+      const dir = await resolveInsideFileRoot(config.connectionString.trim(), config.uploadRoot);
+      const files = (await readdir(dir))
+        .filter((entry) =>
+          (UPLOAD_FILE_EXTENSIONS as readonly string[]).includes(path.extname(entry).toLowerCase()),
+        )
+        .sort()
+        .map((entry) => path.join(dir, entry));
+      if (files.length === 0) {
+        throw new Error("no CSV or XLSX files found");
+      }
+
+      instance = await DuckDBInstance.create(":memory:");
+      const setup = await instance.connect();
+      try {
+        const used = new Set<string>();
+        for (const file of files) {
+          await loadFile(setup, file, used);
+        }
+        await setup.run("SET enable_external_access = false");
+        await setup.run("SET lock_configuration = true");
+      } finally {
+        setup.closeSync();
+      }
+      return { id, _pool: instance };
+    } catch (error) {
+      instance?.closeSync();
+      throw connectionError(
+        `Failed to load uploaded files: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  },
+};
@@ -0,0 +1,63 @@
+import { forbiddenOperationError } from "./errors.js";
+import { parseSingleSelect, walkAst, type AstObject } from "./sql-ast.js";
+
+/**
+ * Statement types (as reported by node-sql-parser) that are rejected
+ * outright, with the operation name reported to the caller. Any other
+ * non-SELECT statement is rejected as "Only SELECT queries are allowed".
+ */
+const FORBIDDEN_STATEMENTS: Record<string, string> = {
+  insert: "INSERT",
+  replace: "REPLACE",
+  update: "UPDATE",
+  delete: "DELETE",
+  merge: "MERGE",
+  truncate: "TRUNCATE",
+  drop: "DROP",
+  create: "CREATE",
+  alter: "ALTER",
+  grant: "GRANT",
+  revoke: "REVOKE",
+  call: "CALL",
+  set: "SET",
+  declare: "DECLARE",
+  transaction: "Transaction control",
+};
+
+/**
+ * Functions that reach outside the warehouse. EXTERNAL_QUERY runs SQL on a
+ * federated Cloud SQL / Spanner database through a stored connection.
+ */
+const FORBIDDEN_FUNCTIONS = new Set(["external_query"]);
+
+/**
+ * Function name from a BigQuery AST function node. The grammar puts
+ * built-ins it knows under `name.schema` and other names under `name.name`.
+ */
+function functionName(node: AstObject): string {
+  const name = node.name as { name?: AstObject[]; schema?: AstObject } | undefined;
+  const parts = name?.name ?? [];
+  const last = parts.length > 0 ? parts[parts.length - 1]?.value : name?.schema?.value;
+  return typeof last === "string" ? last.toLowerCase() : "";
+}
+
+/**
+ * Check BigQuery Standard SQL for forbidden operations using node-sql-parser.
+ *
+ * Mirrors the PostgreSQL guard: allows exactly one SELECT (including
+ * WITH ... SELECT and UNION); rejects DML, DDL, scripting statements and
+ * EXTERNAL_QUERY(). The BigQuery adapter also dry-runs every query, so the
+ * engine itself confirms the statement type.
+ */
+export function validateBigQuerySql(sql: string): void {
+  const statement = parseSingleSelect(sql, "BigQuery", FORBIDDEN_STATEMENTS);
+
+  walkAst(statement, (node, location) => {
+    if (node.type === "function") {
+      const name = functionName(node);
+      if (FORBIDDEN_FUNCTIONS.has(name)) {
+        throw forbiddenOperationError(`function ${name}()`, { node: "function", location });
+      }
+    }
+  });
+}
@@ -32,12 +32,30 @@ export function timeoutError(timeoutMs: number): HeyDataError {
 }
 
 /**
- * Create a forbidden operation error
+ * Create a forbidden operation error.
+ * `node` is the offending parse-tree node type and `location` its character offset.
  */
-export function forbiddenOperationError(operation: string): HeyDataError {
+export function forbiddenOperationError(
+  operation: string,
+  offending?: { node: string; location?: number },
+): HeyDataError {
+  const where = offending
+    ? ` [${offending.node}${offending.location !== undefined ? ` at position ${offending.location}` : ""}]`
+    : "";
   return new HeyDataError(
     "SQL_FORBIDDEN_OPERATION",
-    `Forbidden SQL operation: ${operation}`,
-    { agent: "bridge" },
+    `Forbidden SQL operation: ${operation}${where}`,
+    { agent: "bridge", details: offending ? { ...offending } : undefined },
+  );
+}
+
+/**
+ * Create a SQL syntax error
+ */
+export function syntaxError(message: string, position?: number): HeyDataError {
+  return new HeyDataError(
+    "SQL_SYNTAX_ERROR",
+    `SQL syntax error: ${message}${position !== undefined ? ` at position ${position}` : ""}`,
+    { agent: "bridge", details: position !== undefined ? { position } : undefined },
   );
 }
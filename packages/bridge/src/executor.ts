@@ -1,7 +1,7 @@
 import type pg from "pg";
 import type { ResultSet, ColumnMetadata, Row } from "@heydata/shared";
 import { queryError, timeoutError } from "./errors.js";
-import { applySqlGuards, type GuardConfig } from "./guards.js";
+import { applySqlGuards, readOnlyTransactionPreamble, type GuardConfig } from "./guards.js";
 
 /**
  * Executor configuration
@@ -11,10 +11,12 @@ export interface ExecutorConfig extends GuardConfig {
   markTruncated?: boolean;
 }
 
-const DEFAULT_EXECUTOR_CONFIG: Required<ExecutorConfig> = {
+const DEFAULT_EXECUTOR_CONFIG: Required<Omit<ExecutorConfig, "role">> = {
   maxRows: 10000,
   timeoutMs: 30000,
   validateOperations: true,
+  lockTimeoutMs: 5000,
+  idleInTransactionTimeoutMs: 60000,
   markTruncated: true,
 };
 
@@ -76,7 +78,10 @@ function toResultSet(
   // Convert rows – use column type metadata to coerce values.
   // node-pg returns bigint (int8) and numeric as JS strings, so we must
   // parse them into numbers when the column type is known to be "number".
-  const rows: Row[] = result.rows.map((row: Record<string, unknown>) => {
+  // Guards fetch maxRows + 1 rows; the extra row only signals truncation
+  const truncated = markTruncated && result.rows.length > maxRows;
+
+  const rows: Row[] = result.rows.slice(0, maxRows).map((row: Record<string, unknown>) => {
     const converted: Row = {};
     for (const col of columns) {
       const value = row[col.name];
@@ -96,7 +101,6 @@ function toResultSet(
     return converted;
   });
 
-  const truncated = markTruncated && result.rowCount !== null && result.rowCount >= maxRows;
 
   return {
     columns,
@@ -119,19 +123,18 @@ export async function executeQuery(
   const mergedConfig = { ...DEFAULT_EXECUTOR_CONFIG, ...config };
 
   // Apply SQL guards
-  const { sql: guardedSql } = applySqlGuards(sql, mergedConfig);
+  const { sql: guardedSql } = await applySqlGuards(sql, mergedConfig);
 
   const startTime = Date.now();
 
   try {
     // Get a client from the pool
     const client = await pool.connect();
+    let releaseError: Error | undefined;
 
     try {
-      // Set statement timeout
-      if (mergedConfig.timeoutMs > 0) {
-        await client.query({ text: `SET LOCAL statement_timeout = '${mergedConfig.timeoutMs}ms'` });
-      }
+      // Open a read-only transaction with statement/lock timeouts
+      await client.query(readOnlyTransactionPreamble(mergedConfig));
 
       // Execute the query. Use object form without "name" so we don't use named prepared
       // statements, which are incompatible with Supabase Transaction mode (port 6543)
@@ -150,17 +153,21 @@ export async function executeQuery(
         mergedConfig.markTruncated,
       );
     } finally {
-      client.release();
+      try {
+        await client.query("ROLLBACK");
+      } catch (error) {
+        releaseError = error instanceof Error ? error : new Error(String(error));
+      }
+      client.release(releaseError);
     }
   } catch (error) {
     // Check for timeout error
-    if (
-      error instanceof Error &&
-      (error.message.includes("canceling statement due to statement timeout") ||
-        error.message.includes("statement timeout"))
-    ) {
+    if (error instanceof Error && error.message.includes("statement timeout")) {
       throw timeoutError(mergedConfig.timeoutMs);
     }
+    if (error instanceof Error && error.message.includes("lock timeout")) {
+      throw timeoutError(mergedConfig.lockTimeoutMs);
+    }
 
     throw queryError(
       `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
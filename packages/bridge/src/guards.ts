@@ -1,89 +1,243 @@
-import { forbiddenOperationError } from "./errors.js";
+import { hasSqlDetails, parse } from "libpg-query";
+import { forbiddenOperationError, syntaxError } from "./errors.js";
+import { hasTopLevelLimit, validateMySql } from "./mysql-guards.js";
+import { validateBigQuerySql } from "./bigquery-guards.js";
 
 /**
- * SQL keywords that are forbidden for security
+ * SQL dialects the guards can parse
  */
-const FORBIDDEN_KEYWORDS = [
-  "DROP",
-  "DELETE",
-  "TRUNCATE",
-  "INSERT",
-  "UPDATE",
-  "ALTER",
-  "CREATE",
-  "GRANT",
-  "REVOKE",
-  "EXEC",
-  "EXECUTE",
-  "CALL",
-  "INTO OUTFILE",
-  "INTO DUMPFILE",
-  "LOAD_FILE",
-  "LOAD DATA",
-  "COPY",
-  "VACUUM",
-  "ANALYZE",
-  "REINDEX",
-  "CLUSTER",
+export type GuardDialect = "postgresql" | "mysql" | "bigquery";
+
+/**
+ * Statement node types that are rejected outright, with the operation name
+ * reported to the caller. Any other non-SELECT statement is rejected as
+ * "Only SELECT queries are allowed".
+ */
+const FORBIDDEN_STATEMENTS: Record<string, string> = {
+  InsertStmt: "INSERT",
+  UpdateStmt: "UPDATE",
+  DeleteStmt: "DELETE",
+  MergeStmt: "MERGE",
+  TruncateStmt: "TRUNCATE",
+  DropStmt: "DROP",
+  CreateStmt: "CREATE",
+  CreateTableAsStmt: "CREATE TABLE AS",
+  CreateFunctionStmt: "CREATE FUNCTION",
+  ViewStmt: "CREATE VIEW",
+  IndexStmt: "CREATE INDEX",
+  AlterTableStmt: "ALTER",
+  RenameStmt: "ALTER ... RENAME",
+  GrantStmt: "GRANT",
+  GrantRoleStmt: "GRANT",
+  CopyStmt: "COPY",
+  VacuumStmt: "VACUUM",
+  ReindexStmt: "REINDEX",
+  ClusterStmt: "CLUSTER",
+  CallStmt: "CALL",
+  ExecuteStmt: "EXECUTE",
+  DoStmt: "DO",
+  LockStmt: "LOCK",
+  VariableSetStmt: "SET",
+  TransactionStmt: "Transaction control",
+};
+
+/**
+ * Functions that read server files, open outbound connections, run dynamic
+ * SQL, change server state or stall the backend. Matched by name regardless
+ * of schema qualification.
+ */
+const FORBIDDEN_FUNCTIONS = new Set([
+  "pg_stat_file",
+  "pg_logdir_ls",
+  "pg_current_logfile",
+  "loread",
+  "lowrite",
+  "query_to_xml",
+  "query_to_xml_and_xmlschema",
+  "query_to_xmlschema",
+  "cursor_to_xml",
+  "cursor_to_xmlschema",
+  "set_config",
+  "setval",
+  "nextval",
+  "pg_terminate_backend",
+  "pg_cancel_backend",
+  "pg_reload_conf",
+  "pg_rotate_logfile",
+  "pg_notify",
+  "pg_promote",
+  "pg_switch_wal",
+  "pg_log_backend_memory_contexts",
+  "pg_import_system_collations",
+  "pg_replication_slot_advance",
+]);
+
+/**
+ * Families of the same: large objects (lo_get, lo_import, ...), file access
+ * (pg_read_file, pg_ls_waldir, ...), dblink, sleeps, advisory locks, backups,
+ * replication slots and statistics resets.
+ */
+const FORBIDDEN_FUNCTION_PREFIXES = [
+  "lo_",
+  "pg_read_",
+  "pg_file_",
+  "pg_ls_",
+  "dblink",
+  "pg_sleep",
+  "pg_advisory",
+  "pg_try_advisory",
+  "pg_backup_",
+  "pg_start_backup",
+  "pg_stop_backup",
+  "pg_create_",
+  "pg_drop_replication",
+  "pg_logical_",
+  "pg_replication_origin_",
+  "pg_stat_reset",
+  "pg_wal_replay_",
 ];
 
+function isForbiddenFunction(name: string): boolean {
+  return FORBIDDEN_FUNCTIONS.has(name) || FORBIDDEN_FUNCTION_PREFIXES.some((prefix) => name.startsWith(prefix));
+}
+
+type AstObject = Record<string, unknown>;
+
 /**
- * Check SQL for forbidden operations
+ * Visit every parse-tree node (objects keyed by their PascalCase node type),
+ * passing the nearest known source location.
  */
-export function validateSql(sql: string): void {
-  const upperSql = sql.toUpperCase();
-
-  for (const keyword of FORBIDDEN_KEYWORDS) {
-    // Use word boundary to avoid false positives
-    const regex = new RegExp(`\\b${keyword}\\b`, "i");
-    if (regex.test(sql)) {
-      throw forbiddenOperationError(keyword);
-    }
+function walkAst(
+  value: unknown,
+  visit: (nodeType: string, node: AstObject, location: number | undefined) => void,
+  location?: number,
+): void {
+  if (Array.isArray(value)) {
+    for (const item of value) walkAst(item, visit, location);
+    return;
   }
+  if (!value || typeof value !== "object") return;
 
-  // Check for multiple statements (potential SQL injection)
-  const statements = sql
-    .split(";")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
+  const obj = value as AstObject;
+  const here = typeof obj.location === "number" ? obj.location : location;
 
-  if (statements.length > 1) {
-    throw forbiddenOperationError("Multiple statements");
+  for (const [key, child] of Object.entries(obj)) {
+    if (/^[A-Z]/.test(key) && child && typeof child === "object" && !Array.isArray(child)) {
+      const node = child as AstObject;
+      visit(key, node, typeof node.location === "number" ? node.location : here);
+    } else {
+      // Clause-level checks on SELECT bodies (including UNION arms, which
+      // appear unwrapped as larg/rarg)
+      if (key === "intoClause" && child) {
+        throw forbiddenOperationError("SELECT ... INTO", { node: "IntoClause", location: here });
+      }
+      if (key === "lockingClause" && Array.isArray(child) && child.length > 0) {
+        throw forbiddenOperationError("SELECT ... FOR UPDATE/SHARE", { node: "LockingClause", location: here });
+      }
+    }
+    walkAst(child, visit, here);
   }
+}
 
-  // Must start with SELECT or WITH (for CTEs)
-  const trimmed = sql.trim().toUpperCase();
-  if (!trimmed.startsWith("SELECT") && !trimmed.startsWith("WITH")) {
-    throw forbiddenOperationError("Only SELECT queries are allowed");
+function functionName(node: AstObject): string {
+  const parts = (node.funcname as AstObject[] | undefined) ?? [];
+  const last = parts[parts.length - 1]?.String as { sval?: string } | undefined;
+  return (last?.sval ?? "").toLowerCase();
+}
+
+/**
+ * Check SQL for forbidden operations using the parser for its dialect
+ * (PostgreSQL by default).
+ */
+export async function validateSql(sql: string, dialect: GuardDialect = "postgresql"): Promise<void> {
+  if (dialect === "mysql") {
+    validateMySql(sql);
+    return;
   }
+  if (dialect === "bigquery") {
+    validateBigQuerySql(sql);
+    return;
+  }
+  await validatePostgresSql(sql);
 }
 
 /**
- * Inject a LIMIT clause if not present
+ * Check SQL for forbidden operations using the PostgreSQL parser.
+ *
+ * Allows exactly one SELECT (including WITH ... SELECT, UNION and VALUES);
+ * rejects other statements, data-modifying CTEs, SELECT INTO, row-locking
+ * clauses and dangerous functions. Errors name the offending parse-tree node
+ * and its position. Keywords inside string literals or identifiers (e.g. a
+ * `last_update` column) are not matched.
  */
-export function injectLimit(sql: string, maxRows: number): string {
-  const upperSql = sql.toUpperCase();
+async function validatePostgresSql(sql: string): Promise<void> {
+  let tree: Awaited<ReturnType<typeof parse>>;
+  try {
+    tree = await parse(sql);
+  } catch (error) {
+    if (hasSqlDetails(error)) {
+      throw syntaxError(error.message, error.sqlDetails?.cursorPosition);
+    }
+    throw syntaxError(error instanceof Error ? error.message : String(error));
+  }
 
-  // Check if LIMIT already exists
-  if (upperSql.includes("LIMIT")) {
-    return sql;
+  const statements = tree.stmts ?? [];
+  if (statements.length === 0) {
+    throw forbiddenOperationError("Only SELECT queries are allowed");
+  }
+  if (statements.length > 1) {
+    throw forbiddenOperationError("Multiple statements", {
+      node: "RawStmt",
+      location: statements[1]?.stmt_location ?? undefined,
+    });
   }
 
-  // Remove trailing semicolon if present
-  let cleanSql = sql.trim();
-  if (cleanSql.endsWith(";")) {
-    cleanSql = cleanSql.slice(0, -1);
+  const stmt = (statements[0]?.stmt ?? {}) as AstObject;
+  const [stmtType] = Object.keys(stmt);
+  if (stmtType !== "SelectStmt") {
+    const operation = stmtType ? FORBIDDEN_STATEMENTS[stmtType] : undefined;
+    if (operation) {
+      const node = stmt[stmtType!] as AstObject;
+      const label =
+        stmtType === "GrantStmt" && !node.is_grant ? "REVOKE"
+          : stmtType === "VacuumStmt" && !node.is_vacuumcmd ? "ANALYZE"
+            : operation;
+      throw forbiddenOperationError(label, { node: stmtType!, location: 0 });
+    }
+    throw forbiddenOperationError("Only SELECT queries are allowed", {
+      node: stmtType ?? "unknown",
+      location: 0,
+    });
   }
 
-  return `${cleanSql} LIMIT ${maxRows}`;
+  walkAst(stmt, (nodeType, node, location) => {
+    const operation = FORBIDDEN_STATEMENTS[nodeType];
+    if (operation) {
+      // Nested statements can only be data-modifying CTEs
+      throw forbiddenOperationError(`Data-modifying CTE (${operation})`, { node: nodeType, location });
+    }
+    if (nodeType === "FuncCall") {
+      const name = functionName(node);
+      if (isForbiddenFunction(name)) {
+        throw forbiddenOperationError(`function ${name}()`, { node: nodeType, location });
+      }
+    }
+  });
 }
 
 /**
- * Wrap query with timeout (PostgreSQL-specific)
+ * Cap the rows a query can return by wrapping it in an outer SELECT.
+ *
+ * Wrapping (instead of appending LIMIT) applies the cap no matter what
+ * LIMIT / FETCH FIRST clauses appear in CTEs, subqueries or the statement
+ * itself, so the effective limit is always min(userLimit, maxRows).
+ * PostgreSQL and MySQL keep the inner ORDER BY for a plain derived table
+ * (MySQL rejects duplicate column names in one, though).
  */
-export function wrapWithTimeout(sql: string, timeoutMs: number): string {
-  // PostgreSQL uses statement_timeout in milliseconds
-  return `SET LOCAL statement_timeout = '${timeoutMs}ms'; ${sql}`;
+export function injectLimit(sql: string, maxRows: number): string {
+  // Remove trailing semicolons; the newline before ")" ends any trailing -- comment
+  const body = sql.trim().replace(/(\s*;)+$/, "");
+  return `SELECT * FROM (\n${body}\n) AS heydata_limited LIMIT ${maxRows}`;
 }
 
 /**
@@ -96,30 +250,93 @@ export interface GuardConfig {
   timeoutMs?: number;
   /** Whether to validate SQL for forbidden operations */
   validateOperations?: boolean;
+  /** Maximum wait for a lock before the query is cancelled, in milliseconds */
+  lockTimeoutMs?: number;
+  /** Server-side cap on an idle open transaction, in milliseconds */
+  idleInTransactionTimeoutMs?: number;
+  /** Low-privilege role to switch to for the query (SET LOCAL ROLE; PostgreSQL only) */
+  role?: string;
 }
 
-const DEFAULT_CONFIG: Required<GuardConfig> = {
+const DEFAULT_CONFIG: Required<Omit<GuardConfig, "role">> = {
   maxRows: 10000,
   timeoutMs: 30000,
   validateOperations: true,
+  lockTimeoutMs: 5000,
+  idleInTransactionTimeoutMs: 60000,
 };
 
 /**
- * Apply all guards to a SQL query
+ * Role for `GuardConfig.role` from the QUERY_ROLE environment variable.
+ * Unset, queries run as the connection's own user.
+ */
+export function queryRoleFromEnv(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return env["QUERY_ROLE"]?.trim() || undefined;
+}
+
+/**
+ * Quote a PostgreSQL identifier
+ */
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Statements that open a read-only transaction for an analytics query
+ * (PostgreSQL-specific). Sent as one simple-protocol round trip before the
+ * query; the caller must ROLLBACK afterwards. Read-only mode is enforced by
+ * the database, so even a guard bug cannot mutate data.
+ */
+export function readOnlyTransactionPreamble(config: GuardConfig = {}): string {
+  const merged = { ...DEFAULT_CONFIG, ...config };
+  const ms = (value: number) => `'${Math.max(0, Math.floor(value))}ms'`;
+
+  const statements = ["BEGIN READ ONLY"];
+  if (merged.timeoutMs > 0) {
+    statements.push(`SET LOCAL statement_timeout = ${ms(merged.timeoutMs)}`);
+  }
+  if (merged.lockTimeoutMs > 0) {
+    statements.push(`SET LOCAL lock_timeout = ${ms(merged.lockTimeoutMs)}`);
+  }
+  if (merged.idleInTransactionTimeoutMs > 0) {
+    statements.push(
+      `SET LOCAL idle_in_transaction_session_timeout = ${ms(merged.idleInTransactionTimeoutMs)}`,
+    );
+  }
+  if (config.role) {
+    statements.push(`SET LOCAL ROLE ${quoteIdent(config.role)}`);
+  }
+  return statements.join("; ");
+}
+
+/**
+ * Apply all guards to a SQL query.
+ *
+ * For MySQL the row cap is normally enforced by the adapter through
+ * `sql_select_limit` (a derived table may lose its ORDER BY on MariaDB and
+ * rejects duplicate column names), so the query is only wrapped when its own
+ * top-level LIMIT would override that setting.
+ *
+ * BigQuery ignores ORDER BY inside a derived table, so its queries are never
+ * wrapped; the adapter caps rows with the `maxResults` of the results page.
  */
-export function applySqlGuards(
+export async function applySqlGuards(
   sql: string,
   config: GuardConfig = {},
-): { sql: string; needsTimeout: boolean } {
+  dialect: GuardDialect = "postgresql",
+): Promise<{ sql: string; needsTimeout: boolean }> {
   const mergedConfig = { ...DEFAULT_CONFIG, ...config };
 
   // Validate for forbidden operations
   if (mergedConfig.validateOperations) {
-    validateSql(sql);
+    await validateSql(sql, dialect);
   }
 
-  // Inject LIMIT if needed
-  let guardedSql = injectLimit(sql, mergedConfig.maxRows);
+  // Fetch one extra row so the adapter can tell whether the result was truncated
+  const guardedSql =
+    dialect === "bigquery" || (dialect === "mysql" && !hasTopLevelLimit(sql))
+      ? sql
+      : injectLimit(sql, mergedConfig.maxRows + 1);
 
   return {
     sql: guardedSql,
@@ -10,9 +10,11 @@ export {
 export {
   validateSql,
   injectLimit,
-  wrapWithTimeout,
+  readOnlyTransactionPreamble,
+  queryRoleFromEnv,
   applySqlGuards,
   type GuardConfig,
+  type GuardDialect,
 } from "./guards.js";
 
 // Executor (legacy — kept for backward compat)
@@ -38,7 +40,12 @@ export {
 } from "./adapter.js";
 
 // Adapters
-export { postgresqlAdapter } from "./adapters/postgresql.js";
+export { postgresqlAdapter, summarizePostgresPlan } from "./adapters/postgresql.js";
+export { mysqlAdapter } from "./adapters/mysql.js";
+export { sqliteAdapter } from "./adapters/sqlite.js";
+export { duckdbAdapter } from "./adapters/duckdb.js";
+export { uploadAdapter, uploadRoot, UPLOAD_FILE_EXTENSIONS } from "./adapters/upload.js";
+export { bigqueryAdapter, parseBigQueryConnectionString } from "./adapters/bigquery.js";
 
 // Pool manager
 export { PoolManager, getPoolManager } from "./pool-manager.js";
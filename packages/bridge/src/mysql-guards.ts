@@ -0,0 +1,107 @@
+import { forbiddenOperationError } from "./errors.js";
+import { parseSingleSelect, parser, walkAst, type AstObject } from "./sql-ast.js";
+
+/**
+ * Statement types (as reported by node-sql-parser) that are rejected
+ * outright, with the operation name reported to the caller. Any other
+ * non-SELECT statement is rejected as "Only SELECT queries are allowed".
+ */
+const FORBIDDEN_STATEMENTS: Record<string, string> = {
+  insert: "INSERT",
+  replace: "REPLACE",
+  update: "UPDATE",
+  delete: "DELETE",
+  truncate: "TRUNCATE",
+  drop: "DROP",
+  create: "CREATE",
+  alter: "ALTER",
+  rename: "RENAME",
+  grant: "GRANT",
+  revoke: "REVOKE",
+  call: "CALL",
+  load_data: "LOAD DATA",
+  lock: "LOCK",
+  unlock: "UNLOCK",
+  set: "SET",
+  use: "USE",
+  transaction: "Transaction control",
+};
+
+/**
+ * Functions that read server files, stall the connection or take named
+ * locks. Matched by name regardless of schema qualification.
+ */
+const FORBIDDEN_FUNCTIONS = new Set([
+  "load_file",
+  "sleep",
+  "benchmark",
+  "get_lock",
+  "release_lock",
+  "release_all_locks",
+  "master_pos_wait",
+  "source_pos_wait",
+  "sys_exec",
+  "sys_eval",
+]);
+
+function functionName(node: AstObject): string {
+  const parts = ((node.name as AstObject | undefined)?.name as AstObject[] | undefined) ?? [];
+  const last = parts[parts.length - 1]?.value;
+  return typeof last === "string" ? last.toLowerCase() : "";
+}
+
+/**
+ * Check MySQL / MariaDB SQL for forbidden operations using node-sql-parser.
+ *
+ * Mirrors the PostgreSQL guard: allows exactly one SELECT (including
+ * WITH ... SELECT and UNION); rejects other statements (MySQL has no
+ * data-modifying CTEs, so nested statements are all SELECTs), SELECT ... INTO
+ * (variables, OUTFILE, DUMPFILE), row-locking reads and dangerous functions.
+ */
+export function validateMySql(sql: string): void {
+  const statement = parseSingleSelect(sql, "MySQL", FORBIDDEN_STATEMENTS);
+
+  walkAst(statement, (node, location) => {
+    const type = node.type;
+    if (typeof type !== "string") return;
+
+    if (type === "select") {
+      const into = node.into as AstObject | undefined;
+      if (into?.position) {
+        throw forbiddenOperationError("SELECT ... INTO", { node: "into", location });
+      }
+      if (node.locking_read) {
+        throw forbiddenOperationError("SELECT ... FOR UPDATE/SHARE", { node: "locking_read", location });
+      }
+    }
+    if (type === "function") {
+      const name = functionName(node);
+      if (FORBIDDEN_FUNCTIONS.has(name)) {
+        throw forbiddenOperationError(`function ${name}()`, { node: type, location });
+      }
+    }
+  });
+}
+
+/**
+ * Whether the outermost SELECT (or the last arm of a top-level UNION) has
+ * its own LIMIT clause, which would take precedence over the session's
+ * sql_select_limit. Unparseable SQL counts as limited so callers fall back
+ * to wrapping.
+ */
+export function hasTopLevelLimit(sql: string): boolean {
+  let ast: unknown;
+  try {
+    ast = parser.astify(sql, { database: "MySQL" });
+  } catch {
+    return true;
+  }
+
+  let stmt = (Array.isArray(ast) ? ast[0] : ast) as AstObject | undefined;
+  while (stmt) {
+    const limit = stmt.limit as { value?: unknown[] } | null | undefined;
+    if (limit?.value && limit.value.length > 0) return true;
+    stmt = stmt._next as AstObject | undefined;
+  }
+  return false;
+}
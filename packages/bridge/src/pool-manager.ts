@@ -1,5 +1,10 @@
 import type { DatabaseAdapter, AdapterPool, AdapterConnectionConfig } from "./adapter.js";
 import { postgresqlAdapter } from "./adapters/postgresql.js";
+import { mysqlAdapter } from "./adapters/mysql.js";
+import { sqliteAdapter } from "./adapters/sqlite.js";
+import { duckdbAdapter } from "./adapters/duckdb.js";
+import { uploadAdapter, uploadRoot } from "./adapters/upload.js";
+import { bigqueryAdapter } from "./adapters/bigquery.js";
 import { connectionError } from "./errors.js";
 
 interface ManagedPool {
@@ -18,13 +23,24 @@ export class PoolManager {
 
   /** How long an idle pool stays alive before being disposed (default: 10 min) */
   private idleTimeoutMs: number;
+  /** Passed to every adapter as `fileRoot` */
+  private fileRoot: string | undefined;
+  /** Passed to every adapter as `uploadRoot` */
+  private uploadRoot: string | undefined;
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
 
-  constructor(opts?: { idleTimeoutMs?: number }) {
+  constructor(opts?: { idleTimeoutMs?: number; fileRoot?: string; uploadRoot?: string }) {
     this.idleTimeoutMs = opts?.idleTimeoutMs ?? 10 * 60 * 1000;
+    this.fileRoot = opts?.fileRoot;
+    this.uploadRoot = opts?.uploadRoot;
 
     // Register built-in adapters
     this.registerAdapter(postgresqlAdapter);
+    this.registerAdapter(mysqlAdapter);
+    this.registerAdapter(sqliteAdapter);
+    this.registerAdapter(duckdbAdapter);
+    this.registerAdapter(uploadAdapter);
+    this.registerAdapter(bigqueryAdapter);
   }
 
   /** Register a database adapter */
@@ -57,7 +73,7 @@ export class PoolManager {
     }
 
     const adapter = this.getAdapter(dbType);
-    const pool = await adapter.connect(connectionId, config);
+    const pool = await adapter.connect(connectionId, { ...config, fileRoot: this.fileRoot, uploadRoot: this.uploadRoot });
 
     this.pools.set(connectionId, {
       pool,
@@ -123,9 +139,17 @@ export class PoolManager {
 /** Singleton pool manager */
 let _poolManager: PoolManager | null = null;
 
+/**
+ * The shared pool manager. SQLite and DuckDB connections are limited to
+ * LOCAL_FILES_DIR, and refused when it is not set. Upload connections are
+ * limited to the upload root.
+ */
 export function getPoolManager(): PoolManager {
   if (!_poolManager) {
-    _poolManager = new PoolManager();
+    _poolManager = new PoolManager({
+      fileRoot: process.env["LOCAL_FILES_DIR"] || undefined,
+      uploadRoot: uploadRoot(),
+    });
   }
   return _poolManager;
 }
@@ -0,0 +1,77 @@
+import sqlParser from "node-sql-parser";
+import { forbiddenOperationError, syntaxError } from "./errors.js";
+
+const { Parser } = sqlParser;
+
+/** Shared node-sql-parser instance for the MySQL and BigQuery guards */
+export const parser = new Parser();
+
+export type AstObject = Record<string, unknown>;
+
+interface AstLocation {
+  start?: { offset?: number };
+}
+
+function locationOf(node: AstObject): number | undefined {
+  return (node.loc as AstLocation | undefined)?.start?.offset;
+}
+
+/**
+ * Visit every object in the AST, passing the nearest known source location.
+ */
+export function walkAst(
+  value: unknown,
+  visit: (node: AstObject, location: number | undefined) => void,
+  location?: number,
+): void {
+  if (Array.isArray(value)) {
+    for (const item of value) walkAst(item, visit, location);
+    return;
+  }
+  if (!value || typeof value !== "object") return;
+
+  const node = value as AstObject;
+  const here = locationOf(node) ?? location;
+  visit(node, here);
+  for (const [key, child] of Object.entries(node)) {
+    if (key !== "loc") walkAst(child, visit, here);
+  }
+}
+
+/**
+ * Parse SQL with locations and return its only statement, which must be a
+ * SELECT (including WITH ... SELECT and UNION). Other statement types are
+ * reported by their name in `forbiddenStatements`, or as "Only SELECT
+ * queries are allowed".
+ */
+export function parseSingleSelect(
+  sql: string,
+  database: string,
+  forbiddenStatements: Record<string, string>,
+): AstObject {
+  let ast: unknown;
+  try {
+    ast = parser.astify(sql, { database, parseOptions: { includeLocations: true } });
+  } catch (error) {
+    const offset = (error as { location?: AstLocation }).location?.start?.offset;
+    throw syntaxError(error instanceof Error ? error.message : String(error), offset);
+  }
+
+  const statements = (Array.isArray(ast) ? ast : [ast]) as AstObject[];
+  if (statements.length === 0) {
+    throw forbiddenOperationError("Only SELECT queries are allowed");
+  }
+  if (statements.length > 1) {
+    throw forbiddenOperationError("Multiple statements", { node: String(statements[1]?.type) });
+  }
+
+  const stmtType = String(statements[0]?.type);
+  if (stmtType !== "select") {
+    const operation = forbiddenStatements[stmtType];
+    throw forbiddenOperationError(operation ?? "Only SELECT queries are allowed", {
+      node: stmtType,
+      location: 0,
+    });
+  }
+  return statements[0]!;
+}
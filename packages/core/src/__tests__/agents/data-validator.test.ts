@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import type Anthropic from "@anthropic-ai/sdk";
+import { validateData } from "../../agents/data-validator.js";
+import { createMockContext } from "../setup.js";
+import type { IntentObject, ResultSet } from "@heydata/shared";
+
+describe("Data Validator Agent", () => {
+  const context = createMockContext({} as Anthropic);
+
+  const trendIntent: IntentObject = {
+    queryType: "trend",
+    metrics: ["revenue"],
+    adHocMetrics: [],
+    dimensions: ["month"],
+    filters: [],
+    timeRange: { start: "2024-01-01", end: "2024-12-31", grain: "monthly" },
+    comparisonMode: "none",
+    isFollowUp: false,
+    clarificationNeeded: false,
+    confidence: 0.9,
+  };
+
+  function dateResultSet(dates: string[]): ResultSet {
+    return {
+      columns: [
+        { name: "month", type: "date", semanticRole: "time" },
+        { name: "revenue", type: "number", semanticRole: "metric" },
+      ],
+      rows: dates.map((d, i) => ({ month: d, revenue: 1000 + i })),
+      rowCount: dates.length,
+      truncated: false,
+      executionTimeMs: 5,
+    };
+  }
+
+  const months = Array.from({ length: 12 }, (_, i) => `2024-${String(i + 1).padStart(2, "0")}-01`);
+
+  it("should flag an empty result as blocking when an intent is given", async () => {
+    const result = await validateData({ context, resultSet: dateResultSet([]), intent: trendIntent });
+
+    expect(result.data.qualityFlags).toContainEqual(
+      expect.objectContaining({ type: "missing_values", severity: "error" }),
+    );
+  });
+
+  it("should only warn about an empty result without an intent", async () => {
+    const result = await validateData({ context, resultSet: dateResultSet([]) });
+
+    expect(result.data.qualityFlags).toContainEqual(
+      expect.objectContaining({ type: "missing_values", severity: "warning" }),
+    );
+  });
+
+  it("should accept monthly buckets for a monthly trend", async () => {
+    const result = await validateData({ context, resultSet: dateResultSet(months), intent: trendIntent });
+
+    expect(result.data.qualityFlags.filter((f) => f.severity === "error")).toEqual([]);
+  });
+
+  it("should flag daily buckets for a monthly trend as a grain mismatch", async () => {
+    const days = Array.from({ length: 31 }, (_, i) => `2024-01-${String(i + 1).padStart(2, "0")}`);
+    const result = await validateData({
+      context,
+      resultSet: dateResultSet(days),
+      intent: { ...trendIntent, timeRange: { start: "2024-01-01", end: "2024-01-31", grain: "monthly" } },
+    });
+
+    expect(result.data.qualityFlags).toContainEqual(
+      expect.objectContaining({ type: "grain_mismatch", severity: "error", column: "month" }),
+    );
+  });
+
+  it("should treat many time gaps as blocking only for trends", async () => {
+    const sparse = ["2024-01-01", "2024-01-02", "2024-01-03", "2024-01-05", "2024-01-06", "2024-01-08",
+      "2024-01-09", "2024-01-11", "2024-01-12", "2024-01-14"];
+    const dailyTrend = { ...trendIntent, timeRange: { start: "2024-01-01", end: "2024-01-14", grain: "daily" as const } };
+
+    const trend = await validateData({ context, resultSet: dateResultSet(sparse), intent: dailyTrend });
+    expect(trend.data.qualityFlags).toContainEqual(
+      expect.objectContaining({ type: "time_gap", severity: "error" }),
+    );
+
+    const ranking = await validateData({
+      context,
+      resultSet: dateResultSet(sparse),
+      intent: { ...dailyTrend, queryType: "ranking" },
+    });
+    expect(ranking.data.qualityFlags).toContainEqual(
+      expect.objectContaining({ type: "time_gap", severity: "warning" }),
+    );
+  });
+});
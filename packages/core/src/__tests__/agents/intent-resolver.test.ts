@@ -98,6 +98,7 @@ describe("Intent Resolver Agent", () => {
     const callArgs = createSpy.mock.calls[0]?.[0] as { messages: Array<{ content: string }> };
     expect(callArgs.messages[0]?.content).toContain("RECENT CONVERSATION CONTEXT");
     expect(callArgs.messages[0]?.content).toContain("Show me revenue");
+    expect(callArgs.messages[0]?.content).toContain("ACTIVE ANALYSIS STATE");
   });
 
   it("should track token usage in trace", async () => {
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from "vitest";
+import type Anthropic from "@anthropic-ai/sdk";
+import type { IntrospectedSchema } from "@heydata/shared";
+import { generateSemantic, refreshSemantic } from "../../agents/semantic-generator.js";
+import { createMockClient, createMockContext } from "../setup.js";
+
+const semanticMarkdown = [
+  "# Semantic Layer",
+  "",
+  "## Physical Tables",
+  "",
+  "### public.customers",
+  "- Key columns: id, region",
+  "",
+  "## Domain Knowledge",
+  "",
+  "Fiscal year starts in February.",
+  "",
+].join("\n");
+
+const introspectedSchema: IntrospectedSchema = {
+  introspectedAt: "2026-10-19T00:00:00.000Z",
+  tables: ["customers", "orders"].map((name) => ({
+    name,
+    schema: "public",
+    columns: [
+      {
+        name: "id",
+        dataType: "integer",
+        isNullable: false,
+        columnDefault: null,
+        isPrimaryKey: true,
+        isForeignKey: false,
+        foreignTable: null,
+        foreignColumn: null,
+      },
+    ],
+  })),
+};
+
+function toolClient(input: unknown) {
+  const createSpy = vi.fn().mockResolvedValue({
+    id: "msg_mock_123",
+    type: "message",
+    role: "assistant",
+    content: [{ type: "tool_use", id: "toolu_1", name: "propose_semantic_patch", input }],
+    model: "claude-haiku-4-5-20251001",
+    stop_reason: "tool_use",
+    stop_sequence: null,
+    usage: { input_tokens: 300, output_tokens: 80, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+  });
+  return { client: { messages: { create: createSpy } } as unknown as Anthropic, createSpy };
+}
+
+describe("Semantic Generator Agent — refresh", () => {
+  it("should patch the affected sections and keep manual text", async () => {
+    const { client, createSpy } = toolClient({
+      summary: "customers.region was dropped.",
+      edits: [
+        { find: "- Key columns: id, region", replace: "- Key columns: id", reason: "Column removed: public.customers.region" },
+        { find: "not in the document", replace: "x", reason: "hallucinated" },
+      ],
+    });
+
+    const result = await refreshSemantic({
+      context: createMockContext(client),
+      semanticMarkdown,
+      introspectedSchema,
+      changes: [{ kind: "column_removed", table: "public.customers", column: "region" }],
+    });
+
+    const prompt = createSpy.mock.calls[0]![0].messages[0].content as string;
+    expect(prompt).toContain("- Column removed: public.customers.region");
+    expect(prompt).toContain("Table: public.customers");
+    expect(prompt).not.toContain("Table: public.orders");
+
+    expect(result.data.edits).toHaveLength(1);
+    expect(result.data.rejectedEdits.map((e) => e.reason)).toEqual(["hallucinated"]);
+    expect(result.data.proposedMarkdown).toContain("- Key columns: id\n");
+    expect(result.data.proposedMarkdown).toContain("Fiscal year starts in February.");
+    expect(result.trace.agent).toBe("semantic_generator");
+  });
+
+  it("should not call the LLM when the schema has not changed", async () => {
+    const { client, createSpy } = toolClient({ summary: "", edits: [] });
+
+    const result = await refreshSemantic({
+      context: createMockContext(client),
+      semanticMarkdown,
+      introspectedSchema,
+      changes: [],
+    });
+
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(result.data.edits).toEqual([]);
+    expect(result.data.proposedMarkdown).toBe(semanticMarkdown);
+  });
+});
+
+describe("Semantic Generator Agent — generate", () => {
+  it("should give the LLM comments, enum values, statistics, keys and indexes", async () => {
+    const { client, createSpy } = createMockClient("# Semantic Layer\n");
+    const [customers] = introspectedSchema.tables;
+
+    await generateSemantic({
+      context: createMockContext(client),
+      introspectedSchema: {
+        introspectedAt: introspectedSchema.introspectedAt,
+        tables: [
+          {
+            ...customers!,
+            kind: "materialized_view",
+            comment: "Refreshed nightly",
+            rowCountEstimate: 1200,
+            columns: [
+              {
+                ...customers!.columns[0]!,
+                name: "tier",
+                dataType: "customer_tier",
+                isPrimaryKey: false,
+                comment: "Billing plan",
+                enumValues: ["free", "pro"],
+                stats: { distinctCount: 2, nullFraction: 0.25, mostCommonValues: ["free", "pro"] },
+              },
+            ],
+            foreignKeys: [{ columns: ["region", "code"], foreignSchema: "public", foreignTable: "stores", foreignColumns: ["region", "code"] }],
+            indexes: [{ name: "customers_tier_idx", columns: ["tier"], unique: false }],
+          },
+        ],
+      },
+    });
+
+    const prompt = createSpy.mock.calls[0]![0].messages[0].content as string;
+    expect(prompt).toContain("Table: public.customers (materialized view)\n  Comment: Refreshed nightly\n  Rows: ~1200");
+    expect(prompt).toContain("- tier (customer_tier) — Billing plan\n      enum values: free, pro");
+    expect(prompt).toContain("stats: ~2 distinct; 25% null; most common: free, pro");
+    expect(prompt).toContain("Composite FK: (region, code) → public.stores(region, code)");
+    expect(prompt).toContain("Indexes: (tier)");
+  });
+});
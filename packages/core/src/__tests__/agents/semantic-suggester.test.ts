@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest";
+import type Anthropic from "@anthropic-ai/sdk";
+import type { OrchestratorResponse } from "@heydata/shared";
+import { applySemanticEdits, suggestSemanticEdits } from "../../agents/semantic-suggester.js";
+import { createMockContext } from "../setup.js";
+
+const semanticMarkdown = [
+  "# Semantic Layer",
+  "",
+  "## Metrics",
+  "",
+  "### revenue",
+  "- Formula: SUM(orders.amount)",
+  "",
+].join("\n");
+
+const response: OrchestratorResponse = {
+  requestId: "req_1",
+  intent: {
+    queryType: "aggregation",
+    metrics: ["revenue"],
+    adHocMetrics: [],
+    dimensions: [],
+    filters: [],
+    comparisonMode: "none",
+    isFollowUp: false,
+    clarificationNeeded: false,
+    confidence: 0.9,
+  },
+  sql: {
+    sql: "SELECT SUM(amount) FROM orders",
+    dialect: "postgresql",
+    tablesTouched: ["orders"],
+    estimatedComplexity: "low",
+  },
+  narrative: "Revenue was $1.2M.",
+  trace: {
+    requestId: "req_1",
+    startedAt: "2026-10-19T00:00:00.000Z",
+    completedAt: "2026-10-19T00:00:01.000Z",
+    totalDurationMs: 1000,
+    totalInputTokens: 0,
+    totalOutputTokens: 0,
+    agentTraces: [],
+  },
+};
+
+function toolClient(input: unknown) {
+  const createSpy = vi.fn().mockResolvedValue({
+    id: "msg_mock_123",
+    type: "message",
+    role: "assistant",
+    content: [{ type: "tool_use", id: "toolu_1", name: "propose_semantic_edits", input }],
+    model: "claude-haiku-4-5-20251001",
+    stop_reason: "tool_use",
+    stop_sequence: null,
+    usage: { input_tokens: 300, output_tokens: 80, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+  });
+  return { client: { messages: { create: createSpy } } as unknown as Anthropic, createSpy };
+}
+
+describe("applySemanticEdits", () => {
+  it("should replace unique passages and append when find is empty", () => {
+    const { markdown, applied, rejected } = applySemanticEdits(semanticMarkdown, [
+      { find: "- Formula: SUM(orders.amount)", replace: "- Formula: SUM(orders.amount) - SUM(refunds.amount)", reason: "net" },
+      { find: "", replace: "## Notes\n\nRevenue is net of refunds.", reason: "doc" },
+    ]);
+
+    expect(rejected).toEqual([]);
+    expect(applied).toHaveLength(2);
+    expect(markdown).toContain("- Formula: SUM(orders.amount) - SUM(refunds.amount)");
+    expect(markdown.endsWith("## Notes\n\nRevenue is net of refunds.\n")).toBe(true);
+  });
+
+  it("should reject edits whose passage is missing or ambiguous", () => {
+    const { markdown, rejected } = applySemanticEdits(semanticMarkdown, [
+      { find: "SUM(orders.total)", replace: "x", reason: "missing" },
+      { find: "#", replace: "x", reason: "ambiguous" },
+    ]);
+
+    expect(markdown).toBe(semanticMarkdown);
+    expect(rejected.map((e) => e.reason)).toEqual(["missing", "ambiguous"]);
+  });
+});
+
+describe("Semantic Suggester Agent", () => {
+  it("should send the flagged answers and return the applicable edits", async () => {
+    const { client, createSpy } = toolClient({
+      summary: "Revenue should exclude refunds.",
+      edits: [
+        { find: "- Formula: SUM(orders.amount)", replace: "- Formula: SUM(orders.amount) - SUM(refunds.amount)", reason: "Users expect net revenue" },
+        { find: "not in the document", replace: "x", reason: "hallucinated" },
+        { find: "", replace: "", reason: "", extra: 1 },
+        { replace: "missing find" },
+      ],
+    });
+
+    const result = await suggestSemanticEdits({
+      context: createMockContext(client),
+      semanticMarkdown,
+      flagged: [{ question: "What was revenue?", correction: "Refunds should be subtracted", response }],
+    });
+
+    const prompt = createSpy.mock.calls[0]![0].messages[0].content as string;
+    expect(prompt).toContain("User's correction: Refunds should be subtracted");
+    expect(prompt).toContain("SELECT SUM(amount) FROM orders");
+
+    expect(result.data.summary).toBe("Revenue should exclude refunds.");
+    expect(result.data.edits).toHaveLength(1);
+    expect(result.data.rejectedEdits.map((e) => e.reason)).toEqual(["hallucinated"]);
+    expect(result.data.proposedMarkdown).toContain("SUM(refunds.amount)");
+    expect(result.trace.agent).toBe("semantic_suggester");
+  });
+
+  it("should refuse to run without flagged answers", async () => {
+    const { client, createSpy } = toolClient({ summary: "", edits: [] });
+
+    await expect(
+      suggestSemanticEdits({ context: createMockContext(client), semanticMarkdown, flagged: [] }),
+    ).rejects.toMatchObject({ code: "SEMANTIC_SUGGESTION_FAILED" });
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { generateSql } from "../../agents/sql-generator.js";
+import { mockSemanticMetadata } from "../../mocks/semantic.mock.js";
+import { createMockClient, createMockContext } from "../setup.js";
+import type { IntentObject } from "@heydata/shared";
+
+describe("SQL Generator Agent", () => {
+  const intent: IntentObject = {
+    queryType: "trend",
+    metrics: ["revenue"],
+    adHocMetrics: [],
+    dimensions: ["date"],
+    filters: [],
+    comparisonMode: "none",
+    isFollowUp: false,
+    clarificationNeeded: false,
+    confidence: 0.95,
+  };
+
+  function systemPrompt(createSpy: ReturnType<typeof createMockClient>["createSpy"]): string {
+    const request = createSpy.mock.calls[0]?.[0] as { system: { text: string }[] };
+    return request.system[0]!.text;
+  }
+
+  it("should ask for PostgreSQL and list what cannot be transpiled to the target", async () => {
+    const { client, createSpy } = createMockClient(
+      JSON.stringify({
+        sql: "SELECT DATE_TRUNC('day', order_date) AS date, SUM(total_amount) AS revenue FROM shop.orders GROUP BY 1 ORDER BY 1",
+        dialect: "postgresql",
+        tablesTouched: ["shop.orders"],
+        estimatedComplexity: "low",
+      }),
+    );
+
+    const result = await generateSql({
+      context: createMockContext(client, { dialect: "bigquery" }),
+      intent,
+      semanticMetadata: mockSemanticMetadata,
+    });
+
+    expect(result.data.dialect).toBe("postgresql");
+    const prompt = systemPrompt(createSpy);
+    expect(prompt).toContain("SQL dialect: PostgreSQL");
+    expect(prompt).toContain("translated from PostgreSQL to BigQuery");
+    expect(prompt).toContain("DISTINCT ON");
+    expect(prompt).toContain("Qualify every table with its dataset");
+  });
+
+  it("should not mention transpilation for PostgreSQL", async () => {
+    const { client, createSpy } = createMockClient(
+      JSON.stringify({
+        sql: "SELECT 1",
+        dialect: "postgresql",
+        tablesTouched: [],
+        estimatedComplexity: "low",
+      }),
+    );
+
+    await generateSql({
+      context: createMockContext(client),
+      intent,
+      semanticMetadata: mockSemanticMetadata,
+    });
+
+    expect(systemPrompt(createSpy)).not.toContain("translated");
+  });
+
+  it("should give verified queries as examples in the user message, not the cached system prompt", async () => {
+    const { client, createSpy } = createMockClient(
+      JSON.stringify({ sql: "SELECT 1", dialect: "postgresql", tablesTouched: [] }),
+    );
+
+    await generateSql({
+      context: createMockContext(client),
+      intent,
+      semanticMetadata: mockSemanticMetadata,
+      verifiedExamples: [
+        {
+          query: { id: "vq_1", question: "Daily revenue", sql: "SELECT order_date, SUM(total_amount) FROM orders GROUP BY 1" },
+          similarity: 0.9,
+        },
+        {
+          query: { id: "vq_2", question: "Revenue by region", sql: "SELECT region, SUM(total_amount) FROM orders GROUP BY 1" },
+          similarity: 0.4,
+        },
+      ],
+    });
+
+    const request = createSpy.mock.calls[0]?.[0] as { messages: { content: string }[] };
+    const message = request.messages[0]!.content;
+    expect(message).toContain('Example 1 (close match): "Daily revenue"');
+    expect(message).toContain('Example 2: "Revenue by region"');
+    expect(message).toContain("SELECT region, SUM(total_amount) FROM orders GROUP BY 1");
+    expect(systemPrompt(createSpy)).not.toContain("VERIFIED");
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import { validateSql } from "../../agents/sql-validator.js";
+import { mockSemanticMetadata } from "../../mocks/semantic.mock.js";
+import { createMockClient, createMockContext } from "../setup.js";
+import type { GeneratedSQL, IntentObject, SemanticMetadata } from "@heydata/shared";
+
+describe("SQL Validator Agent", () => {
+  const intent: IntentObject = {
+    queryType: "aggregation",
+    metrics: ["revenue"],
+    adHocMetrics: [],
+    dimensions: ["region"],
+    filters: [],
+    comparisonMode: "none",
+    isFollowUp: false,
+    clarificationNeeded: false,
+    confidence: 0.9,
+  };
+
+  const semanticMetadata: SemanticMetadata = {
+    ...mockSemanticMetadata,
+    rawSchema: {
+      introspectedAt: "2024-01-01T00:00:00.000Z",
+      tables: [
+        {
+          name: "customers",
+          schema: "shop",
+          columns: ["id", "region", "revenue"].map((name) => ({
+            name,
+            dataType: "text",
+            isNullable: true,
+            columnDefault: null,
+            isPrimaryKey: name === "id",
+            isForeignKey: false,
+            foreignTable: null,
+            foreignColumn: null,
+          })),
+        },
+      ],
+    },
+  };
+
+  function generated(sql: string, extra: Partial<GeneratedSQL> = {}): GeneratedSQL {
+    return {
+      sql,
+      dialect: "postgresql",
+      tablesTouched: ["shop.customers"],
+      estimatedComplexity: "medium",
+      ...extra,
+    };
+  }
+
+  it("should fail on schema errors without calling the LLM", async () => {
+    const { client, createSpy } = createMockClient("{}");
+
+    const result = await validateSql({
+      context: createMockContext(client),
+      generatedSql: generated("SELECT regoin, SUM(revenue) FROM shop.customers GROUP BY regoin LIMIT 10"),
+      intent,
+      semanticMetadata,
+    });
+
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(result.data.valid).toBe(false);
+    expect(result.data.issues).toContainEqual(
+      expect.objectContaining({ type: "semantic", suggestion: 'Did you mean "region"?' }),
+    );
+  });
+
+  it("should not mistake keywords in string literals for forbidden operations", async () => {
+    const { client } = createMockClient(JSON.stringify({ valid: true, issues: [], confidence: 0.9 }));
+
+    const result = await validateSql({
+      context: createMockContext(client),
+      generatedSql: generated(
+        `SELECT region AS "update" FROM shop.customers WHERE region = 'delete' OR region = E'drop\\'s' LIMIT 10`,
+        { estimatedComplexity: "low" },
+      ),
+      intent,
+      semanticMetadata,
+    });
+
+    expect(result.data.valid).toBe(true);
+    expect(result.data.issues.filter((i) => i.type === "security")).toEqual([]);
+  });
+
+  it("should reject forbidden operations outside string literals", async () => {
+    const { client, createSpy } = createMockClient("{}");
+
+    const result = await validateSql({
+      context: createMockContext(client),
+      generatedSql: generated("DELETE FROM shop.customers WHERE region = 'north'"),
+      intent,
+    });
+
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(result.data.valid).toBe(false);
+    expect(result.data.issues).toContainEqual(
+      expect.objectContaining({ type: "security", message: "Forbidden SQL operation detected: DELETE" }),
+    );
+  });
+
+  it("should check the PostgreSQL source of transpiled SQL", async () => {
+    const { client, createSpy } = createMockClient("{}");
+
+    const result = await validateSql({
+      context: createMockContext(client, { dialect: "mysql" }),
+      generatedSql: generated("SELECT `region` FROM shop.customers GROUP BY `regin` LIMIT 10", {
+        dialect: "mysql",
+        sourceSql: `SELECT "region" FROM shop.customers GROUP BY "regin" LIMIT 10`,
+      }),
+      intent,
+      semanticMetadata,
+    });
+
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(result.data.issues.map((i) => i.message)).toContain('Column "regin" does not exist on "shop.customers"');
+  });
+
+  it("should only ask the LLM about intent once the schema checks pass", async () => {
+    const { client, createSpy } = createMockClient(JSON.stringify({ valid: true, issues: [], confidence: 0.9 }));
+
+    const result = await validateSql({
+      context: createMockContext(client),
+      generatedSql: generated("SELECT region, SUM(revenue) AS revenue FROM shop.customers GROUP BY region LIMIT 10"),
+      intent,
+      semanticMetadata,
+    });
+
+    expect(result.data.valid).toBe(true);
+    const request = createSpy.mock.calls[0]?.[0] as { system: string };
+    expect(request.system).toContain("Check only for");
+    expect(request.system).not.toContain("Syntax errors");
+  });
+
+  it("should leave schema findings it cannot prove to the LLM", async () => {
+    const { client, createSpy } = createMockClient(JSON.stringify({ valid: true, issues: [], confidence: 0.8 }));
+
+    const result = await validateSql({
+      context: createMockContext(client),
+      generatedSql: generated(
+        "WITH t AS (SELECT UPPER(region) FROM shop.customers) SELECT region_upper FROM t LIMIT 10",
+      ),
+      intent,
+      semanticMetadata,
+    });
+
+    expect(createSpy).toHaveBeenCalled();
+    expect(result.data.valid).toBe(true);
+    expect(result.data.issues).toContainEqual(
+      expect.objectContaining({ type: "semantic", severity: "warning" }),
+    );
+    const request = createSpy.mock.calls[0]?.[0] as { system: string };
+    expect(request.system).toContain("Syntax errors");
+  });
+
+  it("should accept compiled SQL that passes the schema checks without calling the LLM", async () => {
+    const { client, createSpy } = createMockClient("{}");
+
+    const result = await validateSql({
+      context: createMockContext(client),
+      generatedSql: generated("SELECT region, SUM(revenue) AS revenue FROM shop.customers GROUP BY 1", { compiled: true }),
+      intent,
+      semanticMetadata,
+    });
+
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(result.data.valid).toBe(true);
+  });
+});
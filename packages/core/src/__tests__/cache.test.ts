@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import type { IntentObject, ResultSet } from "@heydata/shared";
+import { QueryCache, intentFingerprint, normalizeSql, type CacheStore } from "../cache.js";
+
+const intent: IntentObject = {
+  queryType: "aggregation",
+  metrics: ["revenue", "orders"],
+  adHocMetrics: [],
+  dimensions: ["country", "plan"],
+  filters: [
+    { dimension: "country", operator: "eq", value: "US" },
+    { dimension: "plan", operator: "in", value: ["pro", "team"] },
+  ],
+  comparisonMode: "none",
+  isFollowUp: false,
+  clarificationNeeded: false,
+  confidence: 0.9,
+};
+
+const resultSet: ResultSet = {
+  columns: [{ name: "value", type: "number" }],
+  rows: [{ value: 1 }],
+  rowCount: 1,
+  truncated: false,
+  executionTimeMs: 10,
+};
+
+const scope = { connectionId: "conn_1", semanticVersion: "v1" };
+
+describe("normalizeSql", () => {
+  it("should collapse whitespace and drop trailing semicolons", () => {
+    expect(normalizeSql("SELECT  id,\n\tname\nFROM users ;\n")).toBe("SELECT id, name FROM users");
+  });
+
+  it("should leave quoted text alone", () => {
+    expect(normalizeSql(`SELECT "First  Name" FROM t WHERE note = 'a  b;'`)).toBe(
+      `SELECT "First  Name" FROM t WHERE note = 'a  b;'`,
+    );
+  });
+});
+
+describe("intentFingerprint", () => {
+  it("should ignore ordering and resolver bookkeeping", () => {
+    const reordered: IntentObject = {
+      ...intent,
+      metrics: ["orders", "revenue"],
+      dimensions: ["plan", "country"],
+      filters: [...intent.filters].reverse(),
+      isFollowUp: true,
+      clarificationNeeded: true,
+      clarificationQuestion: "Which plans?",
+      confidence: 0.6,
+    };
+    expect(intentFingerprint(reordered)).toBe(intentFingerprint(intent));
+  });
+
+  it("should change when the request changes", () => {
+    expect(intentFingerprint({ ...intent, limit: 10 })).not.toBe(intentFingerprint(intent));
+    expect(intentFingerprint({ ...intent, sortBy: "revenue", sortOrder: "desc" })).not.toBe(intentFingerprint(intent));
+    expect(intentFingerprint({ ...intent, metrics: ["revenue"] })).not.toBe(intentFingerprint(intent));
+  });
+});
+
+describe("QueryCache", () => {
+  it("should reuse results for equivalent SQL within a scope", async () => {
+    const cache = new QueryCache();
+    await cache.setResult(scope, "SELECT 1;", resultSet);
+
+    expect(await cache.getResult(scope, "SELECT   1")).toEqual(resultSet);
+    expect(await cache.getResult({ ...scope, semanticVersion: "v2" }, "SELECT 1")).toBeUndefined();
+    expect(await cache.getResult({ ...scope, connectionId: "conn_2" }, "SELECT 1")).toBeUndefined();
+  });
+
+  it("should key responses by dialect", async () => {
+    const cache = new QueryCache();
+    const response = { requestId: "req_1", intent, trace: {} } as never;
+    await cache.setResponse(scope, intent, "postgresql", response);
+
+    expect(await cache.getResponse(scope, intent, "postgresql")).toEqual(response);
+    expect(await cache.getResponse(scope, intent, "mysql")).toBeUndefined();
+  });
+
+  it("should drop only the invalidated connection's entries", async () => {
+    const cache = new QueryCache();
+    await cache.setResult(scope, "SELECT 1", resultSet);
+    await cache.setResult({ ...scope, connectionId: "conn_2" }, "SELECT 1", resultSet);
+
+    await cache.invalidateConnection("conn_1");
+
+    expect(await cache.getResult(scope, "SELECT 1")).toBeUndefined();
+    expect(await cache.getResult({ ...scope, connectionId: "conn_2" }, "SELECT 1")).toEqual(resultSet);
+  });
+
+  it("should expire entries after the TTL", async () => {
+    const cache = new QueryCache({ ttlMs: -1 });
+    await cache.setResult(scope, "SELECT 1", resultSet);
+
+    expect(await cache.getResult(scope, "SELECT 1")).toBeUndefined();
+  });
+
+  it("should pass the connection and TTL to the store", async () => {
+    const writes: Array<{ key: string; connectionId: string; ttlMs: number }> = [];
+    const store: CacheStore = {
+      get: async () => undefined,
+      set: async (key, _value, options) => {
+        writes.push({ key, ...options });
+      },
+      invalidateConnection: async () => {},
+      clear: async () => {},
+    };
+    const cache = new QueryCache({ store, ttlMs: 1000 });
+
+    await cache.setResult(scope, "SELECT 1", resultSet);
+
+    expect(writes).toHaveLength(1);
+    expect(writes[0]).toMatchObject({ connectionId: "conn_1", ttlMs: 1000 });
+    expect(writes[0]!.key).toMatch(/^result:conn_1:v1:[0-9a-f]{64}$/);
+  });
+});
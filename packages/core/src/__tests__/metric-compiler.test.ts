@@ -0,0 +1,167 @@
+import type { IntentObject, SemanticDefinitions } from "@heydata/shared";
+import { describe, expect, it } from "vitest";
+import { compileMetricQuery } from "../metric-compiler.js";
+
+const definitions: SemanticDefinitions = {
+  metrics: [
+    {
+      name: "revenue",
+      displayName: "Revenue",
+      description: "Value of completed orders",
+      formula: "SUM(orders.amount)",
+      timeDimension: "order_date",
+      dimensions: ["order_date", "region"],
+      defaultFilters: ["orders.status = 'completed'"],
+      synonyms: ["sales"],
+    },
+    {
+      name: "order_count",
+      displayName: "Orders",
+      description: "Number of orders",
+      formula: "COUNT(orders.id)",
+      dimensions: ["order_date", "region"],
+    },
+    {
+      name: "items_sold",
+      displayName: "Items sold",
+      description: "Units across order lines",
+      formula: "SUM(order_items.quantity)",
+      dimensions: ["product_category"],
+    },
+  ],
+  dimensions: [
+    { name: "order_date", displayName: "Order date", description: "", table: "orders", column: "created_at", type: "date" },
+    { name: "region", displayName: "Region", description: "", table: "customers", column: "region", type: "string" },
+    { name: "product_category", displayName: "Category", description: "", table: "products", column: "category", type: "string" },
+  ],
+  entities: [
+    {
+      name: "orders",
+      table: "orders",
+      primaryKey: "id",
+      relationships: [
+        { target: "customers", foreignKey: "customer_id", targetKey: "id", type: "many-to-one" },
+        { target: "order_items", foreignKey: "id", targetKey: "order_id", type: "one-to-many" },
+      ],
+    },
+    { name: "customers", table: "customers", primaryKey: "id" },
+    {
+      name: "order_items",
+      table: "order_items",
+      primaryKey: "id",
+      relationships: [{ target: "products", foreignKey: "product_id", targetKey: "id", type: "many-to-one" }],
+    },
+    { name: "products", table: "products", primaryKey: "id" },
+  ],
+};
+
+function intent(overrides: Partial<IntentObject>): IntentObject {
+  return {
+    queryType: "aggregation",
+    metrics: [],
+    adHocMetrics: [],
+    dimensions: [],
+    filters: [],
+    comparisonMode: "none",
+    isFollowUp: false,
+    clarificationNeeded: false,
+    confidence: 0.9,
+    ...overrides,
+  } as IntentObject;
+}
+
+describe("compileMetricQuery", () => {
+  it("should compile a metric with its default filters", () => {
+    const result = compileMetricQuery(intent({ metrics: ["revenue"] }), definitions);
+
+    expect(result).toEqual({
+      compiled: true,
+      sql: "SELECT SUM(orders.amount) AS revenue\nFROM orders\nWHERE (orders.status = 'completed')",
+      tablesTouched: ["orders"],
+    });
+  });
+
+  it("should produce the same SQL for the same intent every time", () => {
+    const trend = intent({
+      queryType: "trend",
+      metrics: ["sales"],
+      dimensions: ["order_date", "region"],
+      timeRange: { start: "2026-01-01", end: "2026-03-31", grain: "monthly" },
+    });
+
+    const first = compileMetricQuery(trend, definitions);
+    expect(compileMetricQuery(structuredClone(trend), definitions)).toEqual(first);
+    expect(first.compiled && first.sql).toBe(
+      [
+        "SELECT DATE_TRUNC('month', orders.created_at) AS order_date, customers.region AS region, SUM(orders.amount) AS revenue",
+        "FROM orders",
+        "LEFT JOIN customers ON orders.customer_id = customers.id",
+        "WHERE (orders.status = 'completed')",
+        "  AND orders.created_at >= '2026-01-01'",
+        "  AND orders.created_at < '2026-04-01'",
+        "GROUP BY 1, 2",
+        "ORDER BY order_date ASC",
+      ].join("\n"),
+    );
+  });
+
+  it("should join several metrics on their dimensions", () => {
+    const result = compileMetricQuery(
+      intent({ metrics: ["revenue", "order_count"], dimensions: ["region"], sortBy: "revenue", limit: 5 }),
+      definitions,
+    );
+
+    expect(result.compiled && result.sql).toContain("FROM metric_1\nFULL JOIN metric_2 USING (region)");
+    expect(result.compiled && result.sql).toMatch(/ORDER BY revenue DESC\nLIMIT 5$/);
+  });
+
+  it("should map filters to escaped predicates", () => {
+    const result = compileMetricQuery(
+      intent({
+        metrics: ["order_count"],
+        filters: [
+          { dimension: "region", operator: "in", value: ["EMEA", "O'Hare"] },
+          { dimension: "region", operator: "like", value: "north" },
+        ],
+      }),
+      definitions,
+    );
+
+    expect(result.compiled && result.sql).toContain(
+      "WHERE customers.region IN ('EMEA', 'O''Hare')\n  AND customers.region ILIKE '%north%'",
+    );
+  });
+
+  it("should follow many-to-one joins from the metric's table", () => {
+    const result = compileMetricQuery(intent({ metrics: ["items_sold"], dimensions: ["product_category"] }), definitions);
+
+    expect(result.compiled && result.sql).toContain("FROM order_items\nLEFT JOIN products ON order_items.product_id = products.id");
+  });
+
+  it.each([
+    ["ad-hoc metrics", { metrics: [], adHocMetrics: [{ name: "aov", displayName: "AOV", formula: "AVG(orders.amount)", tables: ["orders"] }] }, "ad-hoc"],
+    ["an unknown metric", { metrics: ["churn"] }, "Unknown metric churn"],
+    ["a dimension the metric is not split by", { metrics: ["revenue"], dimensions: ["product_category"] }, "cannot be split by"],
+    ["a comparison", { metrics: ["revenue"], comparisonMode: "year_over_year" as const }, "Comparison mode"],
+    ["relative time ranges", { metrics: ["revenue"], timeRange: { start: "last month", end: "today" } }, "not a pair of dates"],
+  ])("should leave intents with %s to the SQL generator", (_, overrides, reason) => {
+    const result = compileMetricQuery(intent(overrides as Partial<IntentObject>), definitions);
+
+    expect(result.compiled).toBe(false);
+    expect(!result.compiled && result.reason).toContain(reason);
+  });
+
+  it("should refuse joins that would repeat the metric's rows", () => {
+    const fanOut: SemanticDefinitions = {
+      ...definitions,
+      metrics: [{ ...definitions.metrics[1]!, dimensions: ["product_category"] }],
+    };
+
+    const result = compileMetricQuery(intent({ metrics: ["order_count"], dimensions: ["product_category"] }), fanOut);
+
+    expect(result).toEqual({
+      compiled: false,
+      reason: "No join from orders to products that keeps one row per orders row",
+    });
+  });
+});
@@ -1,4 +1,13 @@
-import type { GeneratedSQL, InsightAnnotation, IntentObject, ResultSet, VisualizationSpec } from "@heydata/shared";
+import type {
+  GeneratedSQL,
+  InsightAnnotation,
+  IntentObject,
+  PipelineProgressEvent,
+  ResultSet,
+  SemanticDefinitions,
+  VisualizationSpec,
+} from "@heydata/shared";
+import { HeyDataError } from "@heydata/shared";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { mockSemanticMetadata } from "../mocks/semantic.mock.js";
 import { Orchestrator } from "../orchestrator.js";
@@ -93,21 +102,37 @@ describe("Orchestrator", () => {
       mockNarrativeResponse,                 // [4] Narrative
     ];
 
+    const nextMessage = () => {
+      const response = responses[callCount] ?? responses[responses.length - 1];
+      callCount++;
+      return {
+        id: `msg_${callCount}`,
+        type: "message",
+        role: "assistant",
+        content: [{ type: "text", text: response }],
+        model: "claude-haiku-4-5-20251001",
+        stop_reason: "end_turn",
+        stop_sequence: null,
+        usage: { input_tokens: 100, output_tokens: 50 },
+      };
+    };
+
     MockAnthropic.mockImplementation(() => ({
       messages: {
-        create: vi.fn().mockImplementation(() => {
-          const response = responses[callCount] ?? responses[responses.length - 1];
-          callCount++;
-          return Promise.resolve({
-            id: `msg_${callCount}`,
-            type: "message",
-            role: "assistant",
-            content: [{ type: "text", text: response }],
-            model: "claude-haiku-4-5-20251001",
-            stop_reason: "end_turn",
-            stop_sequence: null,
-            usage: { input_tokens: 100, output_tokens: 50 },
-          });
+        create: vi.fn().mockImplementation(() => Promise.resolve(nextMessage())),
+        // Streaming is used by the narrative agent when progress events are requested
+        stream: vi.fn().mockImplementation(() => {
+          const message = nextMessage();
+          const stream = {
+            on: (event: string, listener: (text: string) => void) => {
+              if (event === "text") {
+                for (const word of (message.content[0]!.text ?? "").split(/(?<= )/)) listener(word);
+              }
+              return stream;
+            },
+            finalMessage: () => Promise.resolve(message),
+          };
+          return stream;
         }),
       },
     }));
@@ -225,6 +250,527 @@ describe("Orchestrator", () => {
 
     expect(mockExecuteQuery).toHaveBeenCalledTimes(1);
   });
+
+  it("should badge answers that run a verified query unchanged", async () => {
+    const verifiedQueries = [
+      { id: "vq_1", question: "Revenue by day", sql: `${mockSqlResponse.sql.replace(" FROM", "\n  FROM")};` },
+      { id: "vq_2", question: "Orders by status", sql: "SELECT status, COUNT(*) FROM orders GROUP BY status" },
+    ];
+
+    const result = await orchestrator.process({
+      question: "Show me revenue by day",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery: mockExecuteQuery,
+      verifiedQueries,
+    });
+
+    expect(result.verifiedQuery).toEqual({ id: "vq_1", question: "Revenue by day" });
+  });
+
+  it("should record the semantic layer version on the response", async () => {
+    const result = await orchestrator.process({
+      question: "Show me revenue by day",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery: mockExecuteQuery,
+      cacheScope: { connectionId: "conn_1", semanticVersion: "version_42" },
+    });
+
+    expect(result.semanticVersion).toBe("version_42");
+  });
+
+  it("should not badge answers whose SQL differs from every verified query", async () => {
+    const result = await orchestrator.process({
+      question: "Show me revenue by day",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery: mockExecuteQuery,
+      verifiedQueries: [
+        { id: "vq_1", question: "Revenue by day", sql: "SELECT date, SUM(amount) AS revenue FROM payments GROUP BY date" },
+      ],
+    });
+
+    expect(result.verifiedQuery).toBeUndefined();
+  });
+
+  it("should emit progress events as the pipeline runs", async () => {
+    const events: PipelineProgressEvent[] = [];
+
+    const result = await orchestrator.process({
+      question: "Show me revenue",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery: mockExecuteQuery,
+      onProgress: (event) => events.push(event),
+    });
+
+    const started = events.filter((e) => e.type === "step_started").map((e) => e.step);
+    expect(started).toEqual(
+      expect.arrayContaining(["intent", "sql", "execution", "data_validation", "analysis", "visualization", "narrative"]),
+    );
+    expect(started[0]).toBe("intent");
+    expect(started.at(-1)).toBe("narrative");
+
+    const finished = events.filter((e) => e.type === "step_finished");
+    expect(finished).toHaveLength(started.length);
+    expect(finished.every((e) => e.success)).toBe(true);
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "sql_generated", sql: mockSqlResponse.sql, attempt: 1 }),
+    );
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "rows_fetched", rowCount: 3, truncated: false }),
+    );
+
+    const narrative = events
+      .filter((e) => e.type === "narrative_delta")
+      .map((e) => e.text)
+      .join("");
+    expect(narrative).toBe(mockNarrativeResponse);
+    expect(result.narrative).toBe(mockNarrativeResponse);
+  });
+
+  it("should not fail the pipeline when a progress listener throws", async () => {
+    const result = await orchestrator.process({
+      question: "Show me revenue",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery: mockExecuteQuery,
+      onProgress: () => {
+        throw new Error("listener failed");
+      },
+    });
+
+    expect(result.narrative).toBe(mockNarrativeResponse);
+  });
+
+  it("should report a failed execution step", async () => {
+    const events: PipelineProgressEvent[] = [];
+    mockExecuteQuery.mockRejectedValueOnce(
+      new HeyDataError("CONNECTION_FAILED", "connection refused", { agent: "bridge" }),
+    );
+
+    await expect(
+      orchestrator.process({
+        question: "Show me revenue",
+        semanticMetadata: mockSemanticMetadata,
+        executeQuery: mockExecuteQuery,
+        onProgress: (event) => events.push(event),
+      }),
+    ).rejects.toThrow("Query execution failed");
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "step_finished", step: "execution", success: false }),
+    );
+  });
+});
+
+describe("Orchestrator SQL feedback loops", () => {
+  const intent: IntentObject = {
+    queryType: "aggregation",
+    metrics: ["revenue"],
+    adHocMetrics: [],
+    dimensions: [],
+    filters: [],
+    comparisonMode: "none",
+    isFollowUp: false,
+    clarificationNeeded: false,
+    confidence: 0.9,
+  };
+
+  const brokenSql: GeneratedSQL = {
+    sql: "SELECT SUM(totl_amount) AS revenue FROM orders",
+    dialect: "postgresql",
+    tablesTouched: ["orders"],
+    estimatedComplexity: "low",
+  };
+
+  const fixedSql: GeneratedSQL = { ...brokenSql, sql: "SELECT SUM(total_amount) AS revenue FROM orders" };
+
+  const resultSet: ResultSet = {
+    columns: [{ name: "revenue", type: "number" }],
+    rows: [{ revenue: 1000 }],
+    rowCount: 1,
+    truncated: false,
+    executionTimeMs: 5,
+  };
+
+  let create: ReturnType<typeof vi.fn>;
+  let responses: string[];
+
+  beforeEach(async () => {
+    const AnthropicModule = await import("@anthropic-ai/sdk");
+    const MockAnthropic = AnthropicModule.default as unknown as ReturnType<typeof vi.fn>;
+
+    responses = [
+      JSON.stringify(intent),
+      JSON.stringify(brokenSql),
+      JSON.stringify(fixedSql),
+      JSON.stringify({ insights: [] }),
+      JSON.stringify({ chartType: "table", series: [] }),
+      "Revenue was **$1,000**.",
+    ];
+    let callCount = 0;
+    create = vi.fn().mockImplementation(() => {
+      const text = responses[Math.min(callCount, responses.length - 1)];
+      callCount++;
+      return Promise.resolve({
+        id: `msg_${callCount}`,
+        type: "message",
+        role: "assistant",
+        content: [{ type: "text", text }],
+        model: "claude-haiku-4-5-20251001",
+        stop_reason: "end_turn",
+        stop_sequence: null,
+        usage: { input_tokens: 100, output_tokens: 50 },
+      });
+    });
+    MockAnthropic.mockImplementation(() => ({ messages: { create } }));
+  });
+
+  it("should regenerate SQL from the database error and retry", async () => {
+    const orchestrator = new Orchestrator({ apiKey: "test-api-key", enableCache: false });
+    const executeQuery = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('column "totl_amount" does not exist'))
+      .mockResolvedValueOnce(resultSet);
+
+    const result = await orchestrator.process({
+      question: "What is total revenue?",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery,
+    });
+
+    expect(executeQuery).toHaveBeenNthCalledWith(1, brokenSql.sql);
+    expect(executeQuery).toHaveBeenNthCalledWith(2, fixedSql.sql);
+    expect(result.sql?.sql).toBe(fixedSql.sql);
+
+    // The second generator call sees the previous SQL and the database error
+    const retryMessage = create.mock.calls[2]?.[0]?.messages[0]?.content as string;
+    expect(retryMessage).toContain(brokenSql.sql);
+    expect(retryMessage).toContain('column "totl_amount" does not exist');
+
+    const executorTraces = result.trace.agentTraces.filter((t) => t.agent === "query_executor");
+    expect(executorTraces.map((t) => t.success)).toEqual([false, true]);
+    expect(executorTraces[1]?.retryCount).toBe(1);
+  });
+
+  it("should give up after maxExecutionRetries", async () => {
+    const orchestrator = new Orchestrator({
+      apiKey: "test-api-key",
+      enableCache: false,
+      maxExecutionRetries: 0,
+    });
+    const executeQuery = vi.fn().mockRejectedValue(new Error('column "totl_amount" does not exist'));
+
+    await expect(
+      orchestrator.process({
+        question: "What is total revenue?",
+        semanticMetadata: mockSemanticMetadata,
+        executeQuery,
+      }),
+    ).rejects.toMatchObject({ code: "QUERY_EXECUTION_FAILED" });
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("should re-plan SQL when data validation finds an empty result", async () => {
+    const orchestrator = new Orchestrator({ apiKey: "test-api-key", enableCache: false });
+    const emptyResult: ResultSet = { ...resultSet, rows: [], rowCount: 0 };
+    const executeQuery = vi
+      .fn()
+      .mockResolvedValueOnce(emptyResult)
+      .mockResolvedValueOnce(resultSet);
+
+    const result = await orchestrator.process({
+      question: "What is total revenue?",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery,
+    });
+
+    expect(executeQuery).toHaveBeenCalledTimes(2);
+    expect(result.results?.rowCount).toBe(1);
+
+    const retryMessage = create.mock.calls[2]?.[0]?.messages[0]?.content as string;
+    expect(retryMessage).toContain("Query returned no results");
+
+    const dataTraces = result.trace.agentTraces.filter((t) => t.agent === "data_validator");
+    expect(dataTraces.map((t) => t.retryCount)).toEqual([0, 1]);
+  });
+
+  it("should show the generator its own SQL when a transpiled query fails a data check", async () => {
+    const postgresSql = "SELECT SUM(total_amount)::numeric AS revenue FROM orders";
+    responses[1] = JSON.stringify({ ...brokenSql, sql: postgresSql });
+    const orchestrator = new Orchestrator({ apiKey: "test-api-key", enableCache: false, dialect: "mysql" });
+    const executeQuery = vi
+      .fn()
+      .mockResolvedValueOnce({ ...resultSet, rows: [], rowCount: 0 })
+      .mockResolvedValueOnce(resultSet);
+
+    await orchestrator.process({
+      question: "What is total revenue?",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery,
+    });
+
+    const retryMessage = create.mock.calls[2]?.[0]?.messages[0]?.content as string;
+    expect(retryMessage).toContain(postgresSql);
+    expect(retryMessage).not.toContain("CAST(SUM(total_amount)");
+  });
+
+  it("should continue with flagged results once data retries are exhausted", async () => {
+    const orchestrator = new Orchestrator({
+      apiKey: "test-api-key",
+      enableCache: false,
+      maxDataRetries: 0,
+    });
+    const executeQuery = vi.fn().mockResolvedValue({ ...resultSet, rows: [], rowCount: 0 });
+
+    const result = await orchestrator.process({
+      question: "What is total revenue?",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery,
+    });
+
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+    expect(result.results?.qualityFlags).toContainEqual(
+      expect.objectContaining({ type: "missing_values", severity: "error" }),
+    );
+    expect(result.narrative).toContain("No data found");
+  });
+
+  it("should not retry timeouts", async () => {
+    const orchestrator = new Orchestrator({ apiKey: "test-api-key", enableCache: false });
+    const executeQuery = vi
+      .fn()
+      .mockRejectedValue(new HeyDataError("QUERY_TIMEOUT", "Query exceeded timeout of 30000ms"));
+
+    await expect(
+      orchestrator.process({
+        question: "What is total revenue?",
+        semanticMetadata: mockSemanticMetadata,
+        executeQuery,
+      }),
+    ).rejects.toThrow("Query execution failed");
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it("should transpile the generated PostgreSQL to the target dialect", async () => {
+    const postgresSql = "SELECT SUM(total_amount)::numeric AS revenue FROM orders WHERE status ILIKE 'paid'";
+    responses[1] = JSON.stringify({ ...brokenSql, sql: postgresSql });
+    const orchestrator = new Orchestrator({ apiKey: "test-api-key", enableCache: false, dialect: "mysql" });
+    const executeQuery = vi.fn().mockResolvedValue(resultSet);
+
+    const result = await orchestrator.process({
+      question: "What is total revenue?",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery,
+    });
+
+    const mysqlSql = "SELECT CAST(SUM(total_amount) AS DECIMAL(38, 10)) AS revenue FROM orders WHERE LOWER(status) LIKE LOWER('paid')";
+    expect(executeQuery).toHaveBeenCalledWith(mysqlSql);
+    expect(result.sql).toMatchObject({ sql: mysqlSql, dialect: "mysql", sourceSql: postgresSql });
+  });
+
+  it("should regenerate SQL the transpiler cannot express in the target dialect", async () => {
+    const fullJoinSql = "SELECT COALESCE(a.revenue, 0) FROM a FULL JOIN b USING (day)";
+    responses[1] = JSON.stringify({ ...brokenSql, sql: fullJoinSql });
+    const orchestrator = new Orchestrator({ apiKey: "test-api-key", enableCache: false, dialect: "mysql" });
+    const executeQuery = vi.fn().mockResolvedValue(resultSet);
+
+    await orchestrator.process({
+      question: "What is total revenue?",
+      semanticMetadata: mockSemanticMetadata,
+      executeQuery,
+    });
+
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+    expect(executeQuery).toHaveBeenCalledWith(fixedSql.sql);
+    const retryMessage = create.mock.calls[2]?.[0]?.messages[0]?.content as string;
+    expect(retryMessage).toContain(fullJoinSql);
+    expect(retryMessage).toContain("FULL JOIN is not supported by MySQL");
+  });
+
+  describe("governed metrics", () => {
+    const definitions: SemanticDefinitions = {
+      metrics: [
+        {
+          name: "revenue",
+          displayName: "Revenue",
+          description: "Total order value",
+          formula: "SUM(orders.total_amount)",
+          dimensions: [],
+        },
+      ],
+      dimensions: [],
+      entities: [],
+    };
+    const compiledSql = "SELECT SUM(orders.total_amount) AS revenue\nFROM orders";
+
+    it("should compile governed metrics without the SQL generator", async () => {
+      responses = [
+        JSON.stringify(intent),
+        JSON.stringify({ insights: [] }),
+        JSON.stringify({ chartType: "table", series: [] }),
+        "Revenue was **$1,000**.",
+      ];
+      const orchestrator = new Orchestrator({ apiKey: "test-api-key", enableCache: false });
+      const executeQuery = vi.fn().mockResolvedValue(resultSet);
+
+      const result = await orchestrator.process({
+        question: "What is total revenue?",
+        semanticMetadata: { ...mockSemanticMetadata, definitions },
+        executeQuery,
+      });
+
+      expect(executeQuery).toHaveBeenCalledWith(compiledSql);
+      expect(result.sql).toMatchObject({ sql: compiledSql, compiled: true });
+      const agents = result.trace.agentTraces.map((t) => t.agent);
+      expect(agents).toContain("metric_compiler");
+      expect(agents).not.toContain("sql_generator");
+    });
+
+    it("should not re-plan compiled SQL when data validation finds an empty result", async () => {
+      responses = [JSON.stringify(intent), JSON.stringify({ insights: [] })];
+      const orchestrator = new Orchestrator({ apiKey: "test-api-key", enableCache: false });
+      const executeQuery = vi.fn().mockResolvedValue({ ...resultSet, rows: [], rowCount: 0 });
+
+      const result = await orchestrator.process({
+        question: "What is total revenue?",
+        semanticMetadata: { ...mockSemanticMetadata, definitions },
+        executeQuery,
+      });
+
+      expect(executeQuery).toHaveBeenCalledTimes(1);
+      expect(result.sql?.compiled).toBe(true);
+    });
+
+    it("should fall back to the SQL generator for metrics without a definition", async () => {
+      const orchestrator = new Orchestrator({ apiKey: "test-api-key", enableCache: false });
+      const executeQuery = vi.fn().mockResolvedValue(resultSet);
+
+      const result = await orchestrator.process({
+        question: "What is total revenue?",
+        semanticMetadata: {
+          ...mockSemanticMetadata,
+          definitions: { ...definitions, metrics: [{ ...definitions.metrics[0]!, name: "order_value" }] },
+        },
+        executeQuery,
+      });
+
+      expect(executeQuery).toHaveBeenCalledWith(brokenSql.sql);
+      expect(result.sql?.compiled).toBeUndefined();
+    });
+  });
+
+  describe("query budget", () => {
+    const expensive = { totalCost: 250_000, estimatedRows: 10_001, seqScans: [{ table: "public.orders", estimatedRows: 3_000_000 }] };
+    const cheap = { totalCost: 120, estimatedRows: 1, seqScans: [] };
+
+    it("should ask the generator for a cheaper query when the plan is over budget", async () => {
+      const orchestrator = new Orchestrator({
+        apiKey: "test-api-key",
+        enableCache: false,
+        queryBudget: { confirmAboveCost: 50_000 },
+      });
+      const executeQuery = vi.fn().mockResolvedValue(resultSet);
+      const explainQuery = vi.fn().mockResolvedValueOnce(expensive).mockResolvedValueOnce(cheap);
+
+      const result = await orchestrator.process({
+        question: "What is total revenue?",
+        semanticMetadata: mockSemanticMetadata,
+        executeQuery,
+        explainQuery,
+      });
+
+      expect(explainQuery).toHaveBeenNthCalledWith(1, brokenSql.sql);
+      expect(executeQuery).toHaveBeenCalledTimes(1);
+      expect(executeQuery).toHaveBeenCalledWith(fixedSql.sql);
+      expect(result.sql).toMatchObject({ costEstimate: cheap, estimatedComplexity: "low" });
+
+      const retryMessage = create.mock.calls[2]?.[0]?.messages[0]?.content as string;
+      expect(retryMessage).toContain("confirmation threshold of 50,000");
+      expect(retryMessage).toContain("The plan reads all of public.orders (~3,000,000 rows)");
+    });
+
+    it("should ask the user before running a query still over the confirmation threshold", async () => {
+      const orchestrator = new Orchestrator({
+        apiKey: "test-api-key",
+        enableCache: false,
+        maxExecutionRetries: 0,
+        queryBudget: { confirmAboveCost: 50_000 },
+      });
+      const executeQuery = vi.fn().mockResolvedValue(resultSet);
+      const explainQuery = vi.fn().mockResolvedValue(expensive);
+
+      const result = await orchestrator.process({
+        question: "What is total revenue?",
+        semanticMetadata: mockSemanticMetadata,
+        executeQuery,
+        explainQuery,
+      });
+
+      expect(executeQuery).not.toHaveBeenCalled();
+      expect(result.results).toBeUndefined();
+      expect(result.sql?.estimatedComplexity).toBe("medium");
+      expect(result.costConfirmationQuestion).toMatch(/^The estimated query cost of 250,000 .* Run it anyway\?$/);
+    });
+
+    it("should run a query over the confirmation threshold once the user has confirmed", async () => {
+      const orchestrator = new Orchestrator({
+        apiKey: "test-api-key",
+        enableCache: false,
+        queryBudget: { confirmAboveCost: 50_000 },
+      });
+      const executeQuery = vi.fn().mockResolvedValue(resultSet);
+
+      const result = await orchestrator.process({
+        question: "What is total revenue?",
+        semanticMetadata: mockSemanticMetadata,
+        executeQuery,
+        explainQuery: vi.fn().mockResolvedValue(expensive),
+        costConfirmed: true,
+      });
+
+      expect(executeQuery).toHaveBeenCalledWith(brokenSql.sql);
+      expect(result.costConfirmationQuestion).toBeUndefined();
+    });
+
+    it("should refuse queries over the maximum cost", async () => {
+      const orchestrator = new Orchestrator({
+        apiKey: "test-api-key",
+        enableCache: false,
+        maxExecutionRetries: 0,
+        queryBudget: { maxCost: 100_000 },
+      });
+      const executeQuery = vi.fn().mockResolvedValue(resultSet);
+
+      await expect(
+        orchestrator.process({
+          question: "What is total revenue?",
+          semanticMetadata: mockSemanticMetadata,
+          executeQuery,
+          explainQuery: vi.fn().mockResolvedValue(expensive),
+          costConfirmed: true,
+        }),
+      ).rejects.toMatchObject({ code: "QUERY_BUDGET_EXCEEDED" });
+      expect(executeQuery).not.toHaveBeenCalled();
+    });
+
+    it("should run the query unchecked when the estimate fails", async () => {
+      const orchestrator = new Orchestrator({
+        apiKey: "test-api-key",
+        enableCache: false,
+        queryBudget: { maxCost: 100_000 },
+      });
+      const executeQuery = vi.fn().mockResolvedValue(resultSet);
+
+      const result = await orchestrator.process({
+        question: "What is total revenue?",
+        semanticMetadata: mockSemanticMetadata,
+        executeQuery,
+        explainQuery: vi.fn().mockRejectedValue(new Error("permission denied")),
+      });
+
+      expect(executeQuery).toHaveBeenCalledWith(brokenSql.sql);
+      expect(result.sql?.costEstimate).toBeUndefined();
+    });
+  });
 });
 
 describe("Orchestrator Cache", () => {
@@ -295,18 +841,25 @@ describe("Orchestrator Cache", () => {
 
     const callsBeforeCache = callCount;
 
-    // Second call with same question - should use cache
+    // Second call with same question - the intent is resolved again, then
+    // the cached response for it is reused
     const result2 = await orchestrator.process({
       question: "Show me revenue",
       semanticMetadata: mockSemanticMetadata,
       executeQuery,
     });
 
-    // No additional API calls should have been made
-    expect(callCount).toBe(callsBeforeCache);
-    expect(result1.requestId).toBe(result2.requestId);
+    expect(callCount).toBe(callsBeforeCache + 1);
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+    expect(result2.requestId).not.toBe(result1.requestId);
+    expect(result2.narrative).toBe(result1.narrative);
+    expect(result2.results?.rows).toEqual(result1.results?.rows);
+
+    // One cached result set and one cached response
+    expect(orchestrator.getCacheStats().size).toBe(2);
 
-    // Cache stats should show 1 entry
-    expect(orchestrator.getCacheStats().size).toBe(1);
+    // Saving the semantic layer drops both
+    await orchestrator.invalidateCache("default");
+    expect(orchestrator.getCacheStats().size).toBe(0);
   });
 });
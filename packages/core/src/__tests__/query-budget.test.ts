@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { IntrospectedSchema, QueryCostEstimate } from "@heydata/shared";
+import { checkQueryCost, complexityFromCost, planHints } from "../query-budget.js";
+
+const schema: IntrospectedSchema = {
+  introspectedAt: "2024-01-01T00:00:00.000Z",
+  tables: [
+    { name: "events", schema: "app", columns: [], rowCountEstimate: 40_000_000 },
+    { name: "plans", schema: "app", columns: [], rowCountEstimate: 12 },
+  ],
+};
+
+function estimate(totalCost: number, extra: Partial<QueryCostEstimate> = {}): QueryCostEstimate {
+  return { totalCost, estimatedRows: 100, seqScans: [], ...extra };
+}
+
+describe("complexityFromCost", () => {
+  it("should bucket planner cost", () => {
+    expect(complexityFromCost(estimate(500))).toBe("low");
+    expect(complexityFromCost(estimate(50_000))).toBe("medium");
+    expect(complexityFromCost(estimate(5_000_000))).toBe("high");
+  });
+});
+
+describe("planHints", () => {
+  it("should flag full scans of tables the introspection knows are large", () => {
+    const hints = planHints(
+      estimate(1, {
+        seqScans: [
+          // The planner's scan estimate is post-filter; the table size comes from introspection
+          { table: "app.events", estimatedRows: 20 },
+          { table: "app.events", estimatedRows: 20 },
+          { table: "app.plans", estimatedRows: 12 },
+        ],
+      }),
+      schema,
+    );
+    expect(hints).toEqual([expect.stringContaining("all of app.events (~40,000,000 rows)")]);
+  });
+
+  it("should fall back to the result size when no large table is scanned", () => {
+    expect(planHints(estimate(1, { estimatedRows: 2_000_000 }))).toEqual([
+      expect.stringContaining("~2,000,000 rows"),
+    ]);
+    expect(planHints(estimate(1))).toEqual([]);
+  });
+});
+
+describe("checkQueryCost", () => {
+  const budget = { confirmAboveCost: 10_000, maxCost: 1_000_000 };
+
+  it("should compare the cost to the confirmation and refusal limits", () => {
+    expect(checkQueryCost(estimate(9_000), budget).verdict).toBe("ok");
+    expect(checkQueryCost(estimate(20_000), budget)).toMatchObject({
+      verdict: "confirm",
+      message: "The estimated query cost of 20,000 is above this connection's confirmation threshold of 10,000",
+    });
+    expect(checkQueryCost(estimate(2_000_000), budget).verdict).toBe("refuse");
+  });
+
+  it("should allow anything without a budget", () => {
+    expect(checkQueryCost(estimate(1e12), undefined).verdict).toBe("ok");
+  });
+});
@@ -0,0 +1,166 @@
+import type {
+  IntentObject,
+  IntrospectedColumn,
+  IntrospectedSchema,
+  IntrospectedTable,
+} from "@heydata/shared";
+import { introspectedSchemaToDDL } from "@heydata/shared";
+import { describe, expect, it } from "vitest";
+import { selectSchemaContext } from "../schema-context.js";
+
+function column(name: string, overrides: Partial<IntrospectedColumn> = {}): IntrospectedColumn {
+  return {
+    name,
+    dataType: "text",
+    isNullable: true,
+    columnDefault: null,
+    isPrimaryKey: false,
+    isForeignKey: false,
+    foreignTable: null,
+    foreignColumn: null,
+    ...overrides,
+  };
+}
+
+function id(): IntrospectedColumn {
+  return column("id", { dataType: "uuid", isNullable: false, isPrimaryKey: true });
+}
+
+function fk(name: string, table: string): IntrospectedColumn {
+  return column(name, { dataType: "uuid", isForeignKey: true, foreignTable: table, foreignColumn: "id" });
+}
+
+function table(name: string, columns: IntrospectedColumn[], overrides: Partial<IntrospectedTable> = {}): IntrospectedTable {
+  return { name, schema: "public", columns, ...overrides };
+}
+
+const shop: IntrospectedTable[] = [
+  table("customers", [id(), column("email"), column("country")]),
+  table("orders", [
+    id(),
+    fk("customer_id", "customers"),
+    column("status", { enumValues: ["pending", "paid", "refunded"] }),
+    column("total_amount", { dataType: "numeric" }),
+    column("created_at", { dataType: "timestamptz" }),
+  ]),
+  table("shipments", [id(), fk("order_id", "orders"), column("carrier"), column("weight_kg", { dataType: "numeric" })]),
+];
+
+/** The shop tables among many unrelated ones, far over a small budget */
+function largeSchema(): IntrospectedSchema {
+  const filler = Array.from({ length: 60 }, (_, i) =>
+    table(`audit_log_${String(i).padStart(2, "0")}`, [
+      id(),
+      column("actor"),
+      column("action"),
+      column("payload", { dataType: "jsonb" }),
+      column("recorded_at", { dataType: "timestamptz" }),
+    ]),
+  );
+  return { tables: [...filler, ...shop], introspectedAt: "2024-01-01T00:00:00Z" };
+}
+
+const intent: IntentObject = {
+  queryType: "aggregation",
+  metrics: [],
+  adHocMetrics: [
+    {
+      name: "avg_shipment_weight",
+      displayName: "Average shipment weight",
+      formula: "AVG(shipments.weight_kg)",
+      tables: ["shipments"],
+    },
+  ],
+  dimensions: [],
+  filters: [],
+  comparisonMode: "none",
+  isFollowUp: false,
+  clarificationNeeded: false,
+  confidence: 0.9,
+};
+
+describe("selectSchemaContext", () => {
+  it("should show a schema that fits whole and in order", () => {
+    const schema: IntrospectedSchema = { tables: shop, introspectedAt: "2024-01-01T00:00:00Z" };
+    const { ddl, selection } = selectSchemaContext(
+      schema,
+      { question: "How many refunded orders?" },
+      { agent: "intent_resolver" },
+    );
+
+    expect(ddl).toBe(introspectedSchemaToDDL(schema));
+    expect(selection.pruned).toBe(false);
+    expect(selection.totalTables).toBe(3);
+    expect(selection.tables[0]).toMatchObject({ table: "public.orders", reason: "match" });
+  });
+
+  it("should keep matched tables and their foreign key neighbours in a large schema", () => {
+    const { ddl, selection } = selectSchemaContext(
+      largeSchema(),
+      { question: "How many refunded orders did each customer place?" },
+      { agent: "intent_resolver", maxLength: 1000 },
+    );
+
+    expect(selection.pruned).toBe(true);
+    expect(selection.totalTables).toBe(63);
+    expect(ddl.split("\n")[0]).toBe(`-- ${selection.tables.length} of 63 tables, selected for this question`);
+    expect(ddl).not.toContain("audit_log");
+
+    const tables = selection.tables.map((t) => t.table);
+    expect(tables.slice(0, 2)).toEqual(["public.orders", "public.customers"]);
+    expect(selection.tables.find((t) => t.table === "public.shipments")).toMatchObject({
+      reason: "foreign_key",
+    });
+    // Neighbours are shown with keys only
+    expect(ddl).toContain("shipments");
+    expect(ddl).not.toContain("carrier");
+    expect(selection.length).toBe(ddl.length);
+  });
+
+  it("should put tables the intent refers to first", () => {
+    const { selection } = selectSchemaContext(
+      largeSchema(),
+      { question: "What is the average order weight?", intent },
+      { agent: "sql_generator", maxLength: 1000 },
+    );
+
+    expect(selection.agent).toBe("sql_generator");
+    expect(selection.tables[0]).toMatchObject({ table: "public.shipments", reason: "intent" });
+  });
+
+  it("should count tables in the verified examples for the question", () => {
+    const { selection } = selectSchemaContext(
+      largeSchema(),
+      {
+        question: "Who did the most?",
+        verifiedExamples: [
+          {
+            query: { id: "vq-1", question: "Most active actor", sql: "SELECT actor FROM audit_log_07" },
+            similarity: 0.5,
+          },
+        ],
+      },
+      { agent: "intent_resolver", maxLength: 1000 },
+    );
+
+    expect(selection.tables[0]).toMatchObject({ table: "public.audit_log_07", reason: "usage" });
+  });
+
+  it("should fill the budget with the most used tables when nothing matches", () => {
+    const { ddl, selection } = selectSchemaContext(
+      largeSchema(),
+      {
+        question: "Anything interesting?",
+        verifiedQueries: [
+          { id: "vq-1", question: "Refunds", sql: "SELECT COUNT(*) FROM orders WHERE status = 'refunded'" },
+        ],
+      },
+      { agent: "intent_resolver", maxLength: 1000 },
+    );
+
+    expect(selection.pruned).toBe(true);
+    expect(selection.tables[0]).toMatchObject({ table: "public.orders", reason: "default", score: 0 });
+    expect(selection.tables.every((t) => t.reason === "default")).toBe(true);
+    expect(ddl.length).toBeLessThanOrEqual(1000 + ddl.split("\n")[0]!.length + 1);
+  });
+});
@@ -0,0 +1,70 @@
+import type { IntrospectedColumn, IntrospectedSchema } from "@heydata/shared";
+import { describe, expect, it } from "vitest";
+import { describeSchemaChange, diffSchemas } from "../schema-diff.js";
+
+function column(name: string, dataType = "integer", foreign?: string): IntrospectedColumn {
+  const [foreignTable, foreignColumn] = foreign?.split(".") ?? [null, null];
+  return {
+    name,
+    dataType,
+    isNullable: true,
+    columnDefault: null,
+    isPrimaryKey: name === "id",
+    isForeignKey: Boolean(foreign),
+    foreignTable: foreignTable ?? null,
+    foreignColumn: foreignColumn ?? null,
+  };
+}
+
+function schema(tables: Record<string, IntrospectedColumn[]>): IntrospectedSchema {
+  return {
+    introspectedAt: "2026-10-19T00:00:00.000Z",
+    tables: Object.entries(tables).map(([name, columns]) => ({ name, schema: "public", columns })),
+  };
+}
+
+describe("diffSchemas", () => {
+  const previous = schema({
+    orders: [column("id"), column("customer_id", "integer", "customers.id"), column("amount", "integer")],
+    legacy_events: [column("id")],
+    customers: [column("id"), column("region", "text")],
+  });
+
+  it("should find no changes between identical schemas", () => {
+    expect(diffSchemas(previous, structuredClone(previous))).toEqual([]);
+  });
+
+  it("should report added, removed and changed tables and columns", () => {
+    const current = schema({
+      orders: [column("id"), column("customer_id", "integer", "accounts.id"), column("amount", "numeric"), column("currency", "text")],
+      customers: [column("id")],
+      refunds: [column("id"), column("order_id", "integer", "orders.id")],
+    });
+
+    expect(diffSchemas(previous, current)).toEqual([
+      { kind: "table_removed", table: "public.legacy_events" },
+      { kind: "foreign_key_changed", table: "public.orders", column: "customer_id", before: "customers.id", after: "accounts.id" },
+      { kind: "column_type_changed", table: "public.orders", column: "amount", before: "integer", after: "numeric" },
+      { kind: "column_added", table: "public.orders", column: "currency", after: "text" },
+      { kind: "column_removed", table: "public.customers", column: "region" },
+      { kind: "table_added", table: "public.refunds" },
+    ]);
+  });
+});
+
+describe("describeSchemaChange", () => {
+  it.each([
+    [{ kind: "table_added" as const, table: "public.refunds" }, "Table added: public.refunds"],
+    [{ kind: "column_removed" as const, table: "public.customers", column: "region" }, "Column removed: public.customers.region"],
+    [
+      { kind: "column_type_changed" as const, table: "public.orders", column: "amount", before: "integer", after: "numeric" },
+      "Column type changed: public.orders.amount from integer to numeric",
+    ],
+    [
+      { kind: "foreign_key_changed" as const, table: "public.orders", column: "customer_id", before: "customers.id", after: null },
+      "Foreign key changed: public.orders.customer_id → customers.id is now (none)",
+    ],
+  ])("should describe %o", (change, expected) => {
+    expect(describeSchemaChange(change)).toBe(expected);
+  });
+});
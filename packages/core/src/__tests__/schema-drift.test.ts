@@ -0,0 +1,105 @@
+import type { IntrospectedColumn, IntrospectedSchema } from "@heydata/shared";
+import { describe, expect, it } from "vitest";
+import { checkSchemaDrift } from "../schema-drift.js";
+
+function column(name: string, dataType = "integer"): IntrospectedColumn {
+  return {
+    name,
+    dataType,
+    isNullable: true,
+    columnDefault: null,
+    isPrimaryKey: name === "id",
+    isForeignKey: false,
+    foreignTable: null,
+    foreignColumn: null,
+  };
+}
+
+function schema(tables: Record<string, IntrospectedColumn[]>): IntrospectedSchema {
+  return {
+    introspectedAt: "2026-10-19T00:00:00.000Z",
+    tables: Object.entries(tables).map(([name, columns]) => ({ name, schema: "public", columns })),
+  };
+}
+
+const previousSchema = schema({
+  orders: [column("id"), column("amount"), column("signup_source", "text")],
+  customers: [column("id"), column("region", "text")],
+  legacy_events: [column("id")],
+});
+
+const currentSchema = schema({
+  orders: [column("id"), column("amount")],
+  customers: [column("id"), column("sales_region", "text")],
+});
+
+const semanticMarkdown = [
+  "# Semantic Layer",
+  "",
+  "### Customer.region",
+  "- Physical: customers.region",
+  "- Sales by region are reported monthly",
+  "",
+  "Old activity lives in `public.legacy_events`.",
+  "Attribution uses signup_source.",
+].join("\n");
+
+describe("checkSchemaDrift", () => {
+  it("should flag prose that refers to removed tables and columns", () => {
+    const report = checkSchemaDrift({
+      previousSchema,
+      currentSchema,
+      semanticMarkdown,
+      commands: [{ id: "cmd_1", slashCommand: "regions", prompt: "Revenue by customers.region last month" }],
+      verifiedQueries: [],
+      now: new Date("2026-10-19T12:00:00.000Z"),
+    });
+
+    expect(report.checkedAt).toBe("2026-10-19T12:00:00.000Z");
+    expect(report.changes).toHaveLength(4);
+    expect(report.brokenReferences).toEqual([
+      {
+        source: "semantic_layer",
+        label: "line 7",
+        message: "Refers to the removed table public.legacy_events",
+        suggestion: undefined,
+      },
+      {
+        source: "semantic_layer",
+        label: "line 8",
+        message: "Refers to the removed column public.orders.signup_source",
+        suggestion: undefined,
+      },
+      {
+        source: "semantic_layer",
+        label: "line 4",
+        message: "Refers to the removed column public.customers.region",
+        suggestion: "Was it renamed to customers.sales_region?",
+      },
+      {
+        source: "command",
+        sourceId: "cmd_1",
+        label: "/regions",
+        message: "Prompt refers to the removed column public.customers.region",
+        suggestion: "Was it renamed to customers.sales_region?",
+      },
+    ]);
+  });
+
+  it("should check verified SQL against the current schema even without a stored schema", () => {
+    const report = checkSchemaDrift({
+      currentSchema,
+      semanticMarkdown,
+      commands: [],
+      verifiedQueries: [
+        { id: "vq_1", question: "Revenue by region", sql: "SELECT region, SUM(amount) FROM customers JOIN orders ON orders.id = customers.id GROUP BY region" },
+        { id: "vq_2", question: "Total revenue", sql: "SELECT SUM(amount) FROM orders" },
+      ],
+    });
+
+    expect(report.changes).toEqual([]);
+    expect(report.brokenReferences).toEqual([
+      expect.objectContaining({ source: "verified_query", sourceId: "vq_1", label: "Revenue by region" }),
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import type { ConversationTurn, IntentObject } from "@heydata/shared";
+import { describe, expect, it } from "vitest";
+import {
+  buildSessionContext,
+  estimateTokens,
+  selectTurnsWithinBudget,
+  type SessionMessage,
+} from "../session-context.js";
+
+const revenueIntent: IntentObject = {
+  queryType: "trend",
+  metrics: ["revenue"],
+  adHocMetrics: [],
+  dimensions: ["order_date"],
+  filters: [{ dimension: "status", operator: "eq", value: "completed" }],
+  timeRange: { start: "2024-01-01", end: "2024-01-31", grain: "daily" },
+  comparisonMode: "none",
+  isFollowUp: false,
+  clarificationNeeded: false,
+  confidence: 0.95,
+};
+
+function assistantMessage(intent: IntentObject, narrative: string): SessionMessage {
+  return {
+    role: "assistant",
+    content: "[Query result]",
+    createdAt: "2024-02-01T10:00:05Z",
+    toolResults: [
+      {
+        toolCallId: "tc_1",
+        toolName: "query_data",
+        args: { question: "Show me revenue" },
+        result: { requestId: "req_1", intent, narrative },
+      },
+    ],
+  };
+}
+
+describe("buildSessionContext", () => {
+  it("rebuilds turns and intent from persisted messages", () => {
+    const context = buildSessionContext("session_1", [
+      { role: "user", content: "Show me revenue for January", createdAt: "2024-02-01T10:00:00Z" },
+      assistantMessage(revenueIntent, "Revenue was **$1.2M** in January."),
+    ]);
+
+    expect(context.sessionId).toBe("session_1");
+    expect(context.turns).toHaveLength(2);
+    expect(context.turns[0]).toMatchObject({ role: "user", content: "Show me revenue for January" });
+    expect(context.turns[1]?.content).toBe("Revenue was **$1.2M** in January.");
+    expect(context.turns[1]?.intent?.metrics).toEqual(["revenue"]);
+  });
+
+  it("carries forward metrics, dimensions and filters from the latest answered intent", () => {
+    const clarification: IntentObject = {
+      ...revenueIntent,
+      metrics: ["orders"],
+      clarificationNeeded: true,
+      clarificationQuestion: "Which orders?",
+    };
+
+    const context = buildSessionContext("session_1", [
+      { role: "user", content: "Show me revenue" },
+      assistantMessage(revenueIntent, "Revenue is up."),
+      { role: "user", content: "and orders?" },
+      assistantMessage(clarification, "Which orders?"),
+    ]);
+
+    expect(context.activeMetrics).toEqual(["revenue"]);
+    expect(context.activeDimensions).toEqual(["order_date"]);
+    expect(context.activeFilters).toEqual([
+      { dimension: "status", operator: "eq", value: "completed" },
+    ]);
+  });
+
+  it("drops the pending question when requested", () => {
+    const context = buildSessionContext(
+      "session_1",
+      [
+        { role: "user", content: "Show me revenue" },
+        assistantMessage(revenueIntent, "Revenue is up."),
+        { role: "user", content: "Now break that down by region" },
+      ],
+      { excludePendingQuestion: true },
+    );
+
+    expect(context.turns).toHaveLength(2);
+    expect(context.turns.at(-1)?.role).toBe("assistant");
+  });
+
+  it("ignores unparseable tool results", () => {
+    const context = buildSessionContext("session_1", [
+      { role: "user", content: "hi" },
+      { role: "assistant", content: "Hello!", toolResults: [{ result: "oops" }] },
+    ]);
+
+    expect(context.turns[1]).toMatchObject({ role: "assistant", content: "Hello!" });
+    expect(context.turns[1]?.intent).toBeUndefined();
+    expect(context.activeMetrics).toEqual([]);
+  });
+});
+
+describe("selectTurnsWithinBudget", () => {
+  const turn = (content: string): ConversationTurn => ({
+    role: "user",
+    content,
+    timestamp: "2024-01-01T00:00:00Z",
+  });
+
+  it("keeps the most recent turns that fit", () => {
+    const turns = [turn("a".repeat(400)), turn("b".repeat(400)), turn("c".repeat(400))];
+    const selected = selectTurnsWithinBudget(turns, 250);
+
+    expect(selected).toHaveLength(2);
+    expect(selected[0]?.content.startsWith("b")).toBe(true);
+    expect(selected[1]?.content.startsWith("c")).toBe(true);
+  });
+
+  it("always keeps the newest turn even if it exceeds the budget", () => {
+    const selected = selectTurnsWithinBudget([turn("x".repeat(1000))], 10);
+    expect(selected).toHaveLength(1);
+  });
+
+  it("estimates roughly four characters per token", () => {
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
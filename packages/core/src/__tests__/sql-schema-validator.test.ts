@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import type { IntrospectedColumn, IntrospectedSchema } from "@heydata/shared";
+import { checkSqlAgainstSchema } from "../sql-schema-validator.js";
+
+function column(name: string, extra: Partial<IntrospectedColumn> = {}): IntrospectedColumn {
+  return {
+    name,
+    dataType: "text",
+    isNullable: true,
+    columnDefault: null,
+    isPrimaryKey: false,
+    isForeignKey: false,
+    foreignTable: null,
+    foreignColumn: null,
+    ...extra,
+  };
+}
+
+const schema: IntrospectedSchema = {
+  introspectedAt: "2024-01-01T00:00:00.000Z",
+  tables: [
+    {
+      name: "orders",
+      schema: "shop",
+      columns: [
+        column("id", { isPrimaryKey: true }),
+        column("customer_id", { isForeignKey: true, foreignTable: "customers", foreignColumn: "id" }),
+        column("total_amount"),
+        column("order_date"),
+        column("status"),
+      ],
+    },
+    {
+      name: "customers",
+      schema: "shop",
+      columns: [column("id", { isPrimaryKey: true }), column("name"), column("region")],
+    },
+  ],
+};
+
+function messages(sql: string, dialect: Parameters<typeof checkSqlAgainstSchema>[1] = "postgresql"): string[] {
+  return checkSqlAgainstSchema(sql, dialect, schema).map((issue) => issue.message);
+}
+
+describe("checkSqlAgainstSchema", () => {
+  it("should accept queries that match the schema", () => {
+    expect(
+      messages(`
+        WITH monthly AS (
+          SELECT c.region, DATE_TRUNC('month', o.order_date) AS month, SUM(o.total_amount) AS revenue
+          FROM shop.orders o JOIN shop.customers c ON c.id = o.customer_id
+          WHERE o.status = 'paid' AND o.order_date >= CURRENT_DATE - INTERVAL '90 days'
+          GROUP BY c.region, DATE_TRUNC('month', o.order_date)
+        )
+        SELECT region, month, revenue, SUM(revenue) OVER (PARTITION BY region ORDER BY month) AS running
+        FROM monthly
+        WHERE revenue > (SELECT AVG(total_amount) FROM shop.orders WHERE customer_id IS NOT NULL)
+        ORDER BY month, revenue DESC
+        LIMIT 100`),
+    ).toEqual([]);
+  });
+
+  it("should report unknown tables and columns with suggestions", () => {
+    const issues = checkSqlAgainstSchema(
+      "SELECT o.totl_amount, c.name FROM shop.orders o JOIN shop.customer c ON c.id = o.customer_id",
+      "postgresql",
+      schema,
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({
+        type: "semantic",
+        severity: "error",
+        message: 'Table "shop.customer" does not exist in the database schema',
+        suggestion: 'Did you mean "customers"?',
+      }),
+      expect.objectContaining({
+        message: 'Column "o.totl_amount" does not exist on "shop.orders"',
+        suggestion: 'Did you mean "total_amount"?',
+      }),
+    ]);
+  });
+
+  it("should resolve aliases, CTE and subquery columns", () => {
+    expect(messages("SELECT x.id FROM shop.orders o")).toEqual(['Missing FROM-clause entry for table "x"']);
+    expect(messages("WITH t AS (SELECT id AS order_id FROM shop.orders) SELECT id FROM t")).toEqual([
+      'Column "id" does not exist on "t"',
+    ]);
+    expect(messages("SELECT s.n FROM (SELECT COUNT(*) AS n FROM shop.orders) s")).toEqual([]);
+    expect(messages("SELECT * FROM shop.orders o WHERE EXISTS (SELECT 1 FROM shop.customers c WHERE c.id = o.customer_id)")).toEqual([]);
+  });
+
+  it("should read column lists on table function and subquery aliases", () => {
+    expect(
+      messages(
+        "SELECT g.d, COUNT(o.id) FROM generate_series(DATE '2024-01-01', DATE '2024-02-01', INTERVAL '1 day') AS g(d) LEFT JOIN shop.orders o ON o.order_date = g.d GROUP BY g.d",
+      ),
+    ).toEqual([]);
+    expect(messages("SELECT t.v, v FROM unnest(ARRAY[1, 2]) AS t(v)")).toEqual([]);
+    expect(messages("SELECT s.total FROM (SELECT SUM(total_amount) FROM shop.orders) AS s(total)")).toEqual([]);
+    expect(messages("SELECT t.x FROM unnest(ARRAY[1, 2]) AS t(v)")).toEqual(['Column "t.x" does not exist on "t"']);
+  });
+
+  it("should let LATERAL subqueries see the FROM items to their left", () => {
+    expect(
+      messages(
+        "SELECT c.name, x.total FROM shop.customers c, LATERAL (SELECT SUM(o.total_amount) AS total FROM shop.orders o WHERE o.customer_id = c.id) x",
+      ),
+    ).toEqual([]);
+    expect(
+      messages(
+        "SELECT c.name, x.total FROM shop.customers c LEFT JOIN LATERAL (SELECT o.total_amount AS total FROM shop.orders o WHERE o.customer_id = c.id ORDER BY o.order_date DESC LIMIT 1) x ON true",
+      ),
+    ).toEqual([]);
+    expect(
+      messages("SELECT x.total FROM shop.customers c, (SELECT o.total_amount AS total FROM shop.orders o WHERE o.customer_id = c.id) x"),
+    ).toEqual(['Missing FROM-clause entry for table "c"']);
+    expect(
+      messages(
+        "SELECT c.name FROM shop.customers c WHERE EXISTS (SELECT 1 FROM (SELECT o.id FROM shop.orders o WHERE o.customer_id = c.id) x)",
+      ),
+    ).toEqual([]);
+  });
+
+  it("should group by the columns inside ROLLUP and CUBE", () => {
+    expect(messages("SELECT region, name, COUNT(*) FROM shop.customers GROUP BY ROLLUP(region, name)")).toEqual([]);
+    expect(messages("SELECT region, name, COUNT(*) FROM shop.customers GROUP BY CUBE((region, name))")).toEqual([]);
+    expect(messages("SELECT region, name, COUNT(*) FROM shop.customers GROUP BY ROLLUP(region)")).toEqual([
+      'Column "name" must appear in the GROUP BY clause or be used in an aggregate function',
+    ]);
+  });
+
+  it("should only warn about what the schema cannot prove", () => {
+    const severities = (sql: string) =>
+      checkSqlAgainstSchema(sql, "postgresql", schema).map((issue) => [issue.severity, issue.message]);
+
+    // Unaliased expressions may be named differently than the checker infers
+    expect(severities("WITH t AS (SELECT COALESCE(status, 'none') FROM shop.orders) SELECT state FROM t")).toEqual([
+      ["warning", 'Column "state" does not exist on "t"'],
+    ]);
+    // An equivalent grouped expression may be written differently
+    expect(
+      severities("SELECT order_date::date + 1, COUNT(*) FROM shop.orders GROUP BY CAST(order_date AS date)"),
+    ).toEqual([
+      ["warning", 'Column "order_date" must appear in the GROUP BY clause or be used in an aggregate function'],
+    ]);
+    // Schemas outside the introspection
+    expect(severities("SELECT relname FROM pg_catalog.pg_class")).toEqual([
+      ["warning", 'Table "pg_catalog.pg_class" does not exist in the database schema'],
+    ]);
+  });
+
+  it("should report ambiguous unqualified columns unless joined with USING", () => {
+    expect(messages("SELECT id FROM shop.orders JOIN shop.customers ON customers.id = orders.customer_id")).toEqual([
+      'Column reference "id" is ambiguous (orders, customers)',
+    ]);
+    expect(messages("SELECT id FROM shop.orders JOIN shop.customers USING (id)")).toEqual([]);
+  });
+
+  it("should require non-aggregated columns in GROUP BY", () => {
+    expect(messages("SELECT c.region, c.name, COUNT(*) FROM shop.customers c GROUP BY c.region")).toEqual([
+      'Column "c.name" must appear in the GROUP BY clause or be used in an aggregate function',
+    ]);
+    expect(messages("SELECT status, SUM(total_amount) FROM shop.orders")).toEqual([
+      'Column "status" must appear in the GROUP BY clause or be used in an aggregate function',
+    ]);
+  });
+
+  it("should accept GROUP BY ordinals, output aliases and primary keys", () => {
+    expect(
+      messages("SELECT DATE_TRUNC('week', order_date) AS week, COUNT(*) FROM shop.orders GROUP BY 1 ORDER BY 1"),
+    ).toEqual([]);
+    expect(
+      messages("SELECT DATE_TRUNC('week', o.order_date) AS week, COUNT(*) FROM shop.orders o GROUP BY week"),
+    ).toEqual([]);
+    expect(
+      messages("SELECT c.id, c.name, SUM(o.total_amount) FROM shop.customers c JOIN shop.orders o ON o.customer_id = c.id GROUP BY c.id"),
+    ).toEqual([]);
+  });
+
+  it("should report misplaced and nested aggregates", () => {
+    expect(messages("SELECT status FROM shop.orders WHERE SUM(total_amount) > 10 GROUP BY status")).toEqual([
+      "Aggregate functions are not allowed in WHERE",
+    ]);
+    expect(messages("SELECT AVG(COUNT(id)) FROM shop.orders")).toEqual(["Aggregate function calls cannot be nested"]);
+    expect(messages("SELECT status, SUM(COUNT(*)) OVER () FROM shop.orders GROUP BY status")).toEqual([]);
+  });
+
+  it("should parse the target dialect's grammar", () => {
+    expect(messages("SELECT `region`, COUNT(*) FROM customers GROUP BY `region`", "mysql")).toEqual([]);
+    expect(messages("SELECT `regio` FROM customers", "mysql")).toEqual([
+      'Column "regio" does not exist on "customers"',
+    ]);
+  });
+
+  it("should accept SQL it cannot parse or dialects it has no grammar for", () => {
+    expect(messages("SELECT FROM WHERE nonsense ((")).toEqual([]);
+    expect(messages("SELECT nope FROM missing", "databricks")).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import { transpileSql, transpilerLimitations } from "../sql-transpiler.js";
+
+function sqlFor(sql: string, dialect: Parameters<typeof transpileSql>[1]): string {
+  const result = transpileSql(sql, dialect);
+  expect(result.issues.filter((i) => i.severity === "error")).toEqual([]);
+  return result.sql;
+}
+
+describe("transpileSql", () => {
+  it("should return PostgreSQL unchanged", () => {
+    const sql = `SELECT "Name"::text FROM t WHERE a ILIKE 'x%' FETCH FIRST 5 ROWS ONLY`;
+    expect(transpileSql(sql, "postgresql")).toEqual({ sql, dialect: "postgresql", issues: [] });
+  });
+
+  it("should leave strings and comments alone", () => {
+    expect(sqlFor(`SELECT 'a::int ILIKE "x"' AS s -- NOW()::date\nFROM t`, "mysql")).toBe(
+      `SELECT 'a::int ILIKE "x"' AS s -- NOW()::date\nFROM t`,
+    );
+  });
+
+  describe("casts", () => {
+    it("should rewrite :: into CAST with target type names", () => {
+      expect(sqlFor("SELECT SUM(o.total)::numeric, o.id::text, (a + b)::int8 FROM o", "bigquery")).toBe(
+        "SELECT CAST(SUM(o.total) AS NUMERIC), CAST(o.id AS STRING), CAST((a + b) AS INT64) FROM o",
+      );
+      expect(sqlFor("SELECT x::double precision::text FROM t", "mysql")).toBe(
+        "SELECT CAST(CAST(x AS DOUBLE) AS CHAR) FROM t",
+      );
+    });
+
+    it("should keep :: where the target supports it and give NUMERIC a scale", () => {
+      expect(sqlFor("SELECT AVG(x)::numeric, y::numeric(10,2) FROM t", "snowflake")).toBe(
+        "SELECT AVG(x)::NUMBER(38, 10), y::numeric(10,2) FROM t",
+      );
+    });
+
+    it("should map types inside CAST()", () => {
+      expect(sqlFor("SELECT CAST(created_at AS timestamp with time zone) FROM t", "databricks")).toBe(
+        "SELECT CAST(created_at AS TIMESTAMP) FROM t",
+      );
+      expect(sqlFor("SELECT CAST(created_at AS date), ts::timestamp FROM t", "sqlite")).toBe(
+        "SELECT date(created_at), datetime(ts) FROM t",
+      );
+    });
+
+    it("should report casts the target cannot express", () => {
+      const result = transpileSql("SELECT active::boolean FROM t", "mysql");
+      expect(result.issues).toEqual([
+        expect.objectContaining({ severity: "error", message: "Casting to boolean is not supported by MySQL" }),
+      ]);
+    });
+  });
+
+  describe("date functions", () => {
+    it("should translate DATE_TRUNC per engine", () => {
+      const sql = "SELECT DATE_TRUNC('week', created_at) AS w FROM orders";
+      expect(sqlFor(sql, "bigquery")).toBe("SELECT DATE_TRUNC(created_at, WEEK(MONDAY)) AS w FROM orders");
+      expect(sqlFor(sql, "mysql")).toBe(
+        "SELECT DATE_SUB(DATE(created_at), INTERVAL WEEKDAY(created_at) DAY) AS w FROM orders",
+      );
+      expect(sqlFor(sql, "sqlite")).toBe("SELECT date(created_at, 'weekday 0', '-6 days') AS w FROM orders");
+      expect(sqlFor(sql, "snowflake")).toBe(sql);
+    });
+
+    it("should translate nested date functions", () => {
+      expect(sqlFor("SELECT DATE_PART('year', DATE_TRUNC('month', d)) FROM t", "mysql")).toBe(
+        "SELECT EXTRACT(YEAR FROM CAST(DATE_FORMAT(d, '%Y-%m-01') AS DATE)) FROM t",
+      );
+    });
+
+    it("should keep PostgreSQL's day-of-week numbering", () => {
+      expect(sqlFor("SELECT EXTRACT(dow FROM d) FROM t", "bigquery")).toBe(
+        "SELECT (EXTRACT(DAYOFWEEK FROM d) - 1) FROM t",
+      );
+      expect(sqlFor("SELECT EXTRACT(DOW FROM d) FROM t", "sqlite")).toBe(
+        "SELECT CAST(strftime('%w', d) AS INTEGER) FROM t",
+      );
+    });
+
+    it("should report units without an equivalent", () => {
+      expect(transpileSql("SELECT DATE_TRUNC('decade', d) FROM t", "mysql").issues).toEqual([
+        expect.objectContaining({ message: "DATE_TRUNC with unit 'decade' is not supported by MySQL" }),
+      ]);
+    });
+  });
+
+  describe("intervals", () => {
+    const sql = "SELECT * FROM orders WHERE d >= CURRENT_DATE - INTERVAL '30 days' AND ts > NOW() - INTERVAL '2 weeks'";
+
+    it("should write numeric interval literals", () => {
+      expect(sqlFor(sql, "mysql")).toBe(
+        "SELECT * FROM orders WHERE d >= CURRENT_DATE - INTERVAL 30 DAY AND ts > NOW() - INTERVAL 2 WEEK",
+      );
+    });
+
+    it("should keep DATE arithmetic typed as DATE on BigQuery", () => {
+      expect(sqlFor(sql, "bigquery")).toBe(
+        "SELECT * FROM orders WHERE d >= DATE_SUB(CURRENT_DATE(), INTERVAL 30 DAY) AND ts > CURRENT_TIMESTAMP() - INTERVAL 2 WEEK",
+      );
+    });
+
+    it("should use date modifiers on SQLite", () => {
+      expect(sqlFor(sql, "sqlite")).toBe(
+        "SELECT * FROM orders WHERE d >= date('now', '-30 days') AND ts > datetime('now', '-14 days')",
+      );
+      expect(sqlFor("SELECT created_at + INTERVAL '1 month' FROM t", "sqlite")).toBe(
+        "SELECT datetime(created_at, '+1 months') FROM t",
+      );
+    });
+
+    it("should report intervals it cannot translate", () => {
+      expect(transpileSql("SELECT d - INTERVAL '1 year 2 months' FROM t", "bigquery").issues).toEqual([
+        expect.objectContaining({ severity: "error", message: "INTERVAL '1 year 2 months' is not supported by BigQuery" }),
+      ]);
+      expect(transpileSql("SELECT a + b - INTERVAL '1 day' FROM t", "sqlite").issues).toHaveLength(1);
+    });
+  });
+
+  describe("ILIKE and FILTER", () => {
+    it("should lower both sides of ILIKE where it is missing", () => {
+      expect(sqlFor(`SELECT * FROM c WHERE c."Name" NOT ILIKE '%acme%'`, "bigquery")).toBe(
+        "SELECT * FROM c WHERE LOWER(c.`Name`) NOT LIKE LOWER('%acme%')",
+      );
+      expect(sqlFor("SELECT * FROM c WHERE name ILIKE 'a%'", "redshift")).toBe(
+        "SELECT * FROM c WHERE name ILIKE 'a%'",
+      );
+    });
+
+    it("should turn aggregate FILTER clauses into CASE", () => {
+      expect(
+        sqlFor(
+          "SELECT COUNT(*) FILTER (WHERE paid), COUNT(DISTINCT user_id) FILTER (WHERE total > 10), SUM(total) FILTER (WHERE paid) FROM o",
+          "snowflake",
+        ),
+      ).toBe(
+        "SELECT COUNT(CASE WHEN paid THEN 1 END), COUNT(DISTINCT CASE WHEN total > 10 THEN user_id END), SUM(CASE WHEN paid THEN total END) FROM o",
+      );
+    });
+  });
+
+  describe("limits and quoting", () => {
+    it("should rewrite FETCH FIRST into LIMIT after OFFSET", () => {
+      expect(sqlFor("SELECT * FROM t ORDER BY a OFFSET 20 ROWS FETCH NEXT 10 ROWS ONLY", "mysql")).toBe(
+        "SELECT * FROM t ORDER BY a LIMIT 10 OFFSET 20",
+      );
+    });
+
+    it("should quote identifiers with backticks where double quotes are strings", () => {
+      expect(sqlFor(`SELECT "Order Id" FROM "Sales"."Orders"`, "databricks")).toBe(
+        "SELECT `Order Id` FROM `Sales`.`Orders`",
+      );
+      expect(sqlFor(`SELECT "Order Id" FROM t`, "snowflake")).toBe(`SELECT "Order Id" FROM t`);
+    });
+
+    it("should escape string literals where a backslash escapes", () => {
+      const sql = String.raw`SELECT 'it''s', 'C:\dir', E'two\nlines', $$a'b$$ FROM t`;
+      expect(sqlFor(sql, "bigquery")).toBe(String.raw`SELECT 'it\'s', 'C:\\dir', 'two\nlines', 'a\'b' FROM t`);
+      expect(sqlFor(sql, "mysql")).toBe(String.raw`SELECT 'it\'s', 'C:\\dir', 'two\nlines', 'a\'b' FROM t`);
+      expect(sqlFor(sql, "sqlite")).toBe(`SELECT 'it''s', 'C:\\dir', 'two\nlines', 'a''b' FROM t`);
+    });
+  });
+
+  describe("STRING_AGG", () => {
+    it("should become GROUP_CONCAT on MySQL", () => {
+      expect(sqlFor("SELECT STRING_AGG(DISTINCT name, ', ' ORDER BY name) FROM t", "mysql")).toBe(
+        "SELECT GROUP_CONCAT(DISTINCT name ORDER BY name SEPARATOR ', ') FROM t",
+      );
+      expect(sqlFor("SELECT string_agg(code::text, '|') FROM t", "mysql")).toBe(
+        "SELECT GROUP_CONCAT(CAST(code AS CHAR) SEPARATOR '|') FROM t",
+      );
+    });
+
+    it("should report forms MySQL cannot express", () => {
+      expect(transpileSql("SELECT STRING_AGG(a, sep) FROM t", "mysql").issues).toEqual([
+        expect.objectContaining({ severity: "error", message: "STRING_AGG without a literal separator is not supported by MySQL" }),
+      ]);
+      expect(transpileSql("SELECT STRING_AGG(a, ',') OVER (PARTITION BY b) FROM t", "mysql").issues).toEqual([
+        expect.objectContaining({ severity: "error" }),
+      ]);
+    });
+  });
+
+  describe("unsupported constructs", () => {
+    it("should report constructs with no equivalent", () => {
+      const result = transpileSql(
+        "SELECT DISTINCT ON (a) a || b FROM x FULL JOIN y ON x.id = y.id",
+        "mysql",
+      );
+      expect(result.issues.map((i) => i.message)).toEqual([
+        "DISTINCT ON is not supported by MySQL",
+        "|| string concatenation is not supported by MySQL",
+        "FULL JOIN is not supported by MySQL",
+      ]);
+      expect(result.issues.every((i) => i.severity === "error" && i.suggestion)).toBe(true);
+    });
+
+    it("should drop NULLS LAST on MySQL with a warning", () => {
+      const result = transpileSql("SELECT a FROM t ORDER BY a DESC NULLS LAST", "mysql");
+      expect(result.sql).toBe("SELECT a FROM t ORDER BY a DESC");
+      expect(result.issues).toEqual([expect.objectContaining({ severity: "warning" })]);
+    });
+  });
+});
+
+describe("transpilerLimitations", () => {
+  it("should list the constructs each dialect cannot express", () => {
+    expect(transpilerLimitations("postgresql")).toEqual([]);
+    expect(transpilerLimitations("mysql")).toContainEqual(expect.stringMatching(/^FULL JOIN: /));
+    expect(transpilerLimitations("duckdb")).toEqual([]);
+  });
+});
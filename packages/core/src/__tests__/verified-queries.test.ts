@@ -0,0 +1,71 @@
+import type { GeneratedSQL, VerifiedQuery } from "@heydata/shared";
+import { describe, expect, it } from "vitest";
+import {
+  findVerifiedQuery,
+  questionSimilarity,
+  selectVerifiedQueries,
+} from "../verified-queries.js";
+
+const queries: VerifiedQuery[] = [
+  { id: "vq_1", question: "What was monthly recurring revenue last quarter?", sql: "SELECT SUM(mrr) FROM subscriptions" },
+  { id: "vq_2", question: "Number of new signups per week", sql: "SELECT date_trunc('week', created_at), COUNT(*) FROM users GROUP BY 1" },
+  { id: "vq_3", question: "Top 10 customers by lifetime value", sql: "SELECT customer_id, SUM(total) FROM orders GROUP BY 1 ORDER BY 2 DESC LIMIT 10" },
+];
+
+describe("questionSimilarity", () => {
+  it("should score identical questions 1 regardless of case and punctuation", () => {
+    expect(questionSimilarity("Revenue by region?", "revenue BY region")).toBe(1);
+  });
+
+  it("should ignore filler words", () => {
+    expect(questionSimilarity("Show me the revenue by region", "revenue by region")).toBe(1);
+  });
+
+  it("should tolerate plurals and word order", () => {
+    expect(questionSimilarity("signups per week", "weekly signups")).toBeGreaterThan(0.5);
+  });
+
+  it("should score unrelated questions near 0", () => {
+    expect(questionSimilarity("churned accounts in March", "top products by units sold")).toBeLessThan(0.15);
+  });
+});
+
+describe("selectVerifiedQueries", () => {
+  it("should return the most similar verified queries, best first", () => {
+    const matches = selectVerifiedQueries("How many new signups did we get per week?", queries);
+
+    expect(matches.map((m) => m.query.id)).toEqual(["vq_2"]);
+    expect(matches[0]!.similarity).toBeGreaterThan(0.5);
+  });
+
+  it("should respect the limit and minimum similarity", () => {
+    expect(selectVerifiedQueries("revenue", queries, { minSimilarity: 0 })).toHaveLength(3);
+    expect(selectVerifiedQueries("revenue", queries, { minSimilarity: 0, limit: 1 })).toHaveLength(1);
+    expect(selectVerifiedQueries("warehouse stock levels", queries)).toEqual([]);
+  });
+});
+
+describe("findVerifiedQuery", () => {
+  const generated = (sql: string, sourceSql?: string): GeneratedSQL => ({
+    sql,
+    sourceSql,
+    dialect: sourceSql ? "mysql" : "postgresql",
+    tablesTouched: [],
+  });
+
+  it("should match SQL that differs only in whitespace and trailing semicolons", () => {
+    expect(findVerifiedQuery(generated("SELECT SUM(mrr)\n  FROM subscriptions;"), queries)?.id).toBe("vq_1");
+  });
+
+  it("should match on the generator's PostgreSQL when the query was transpiled", () => {
+    const found = findVerifiedQuery(
+      generated("SELECT SUM(`mrr`) FROM `subscriptions`", "SELECT SUM(mrr) FROM subscriptions"),
+      queries,
+    );
+    expect(found?.id).toBe("vq_1");
+  });
+
+  it("should not match a different query", () => {
+    expect(findVerifiedQuery(generated("SELECT SUM(mrr) FROM subscriptions WHERE active"), queries)).toBeUndefined();
+  });
+});
@@ -4,6 +4,7 @@ import type {
   IntentObject,
   ResultSet,
   Row,
+  TimeRange,
 } from "@heydata/shared";
 import type { AgentContext, AgentInput, AgentResult } from "../types.js";
 import { createSuccessTrace } from "../types.js";
@@ -78,27 +79,60 @@ function detectOutliers(values: number[]): { count: number; threshold: number }
   return { count: outlierCount, threshold: 1.5 * iqr };
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
- * Check for time gaps in datetime columns
+ * Approximate spacing between consecutive rows for each time grain
  */
-function detectTimeGaps(
-  values: Date[],
-  expectedGrain?: string,
-): { hasGaps: boolean; gapCount: number } {
-  if (values.length < 2) {
-    return { hasGaps: false, gapCount: 0 };
-  }
+const GRAIN_INTERVAL_MS: Record<NonNullable<TimeRange["grain"]>, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS,
+  quarterly: 91 * DAY_MS,
+  yearly: 365 * DAY_MS,
+};
 
-  const sorted = [...values].sort((a, b) => a.getTime() - b.getTime());
+/**
+ * Intervals between consecutive distinct timestamps
+ */
+function timeIntervals(values: Date[]): number[] {
+  const sorted = [...new Set(values.map((v) => v.getTime()))].sort((a, b) => a - b);
   const intervals: number[] = [];
-
   for (let i = 1; i < sorted.length; i++) {
-    const prevDate = sorted[i - 1];
-    const currDate = sorted[i];
-    if (prevDate && currDate) {
-      intervals.push(currDate.getTime() - prevDate.getTime());
-    }
+    intervals.push(sorted[i]! - sorted[i - 1]!);
   }
+  return intervals;
+}
+
+/**
+ * Check whether the spacing of time buckets matches the requested grain.
+ * A monthly question answered with daily rows (or vice versa) means the
+ * SQL truncated dates to the wrong unit.
+ */
+function detectGrainMismatch(
+  values: Date[],
+  grain: NonNullable<TimeRange["grain"]>,
+): { mismatch: boolean; observedDays: number } {
+  const intervals = timeIntervals(values).sort((a, b) => a - b);
+  if (intervals.length === 0) {
+    return { mismatch: false, observedDays: 0 };
+  }
+
+  // Use the smallest typical spacing — gaps only make intervals larger
+  const observed = intervals[Math.floor(intervals.length / 4)]!;
+  const expected = GRAIN_INTERVAL_MS[grain];
+  return {
+    mismatch: observed < expected * 0.5 || observed > expected * 1.5,
+    observedDays: observed / DAY_MS,
+  };
+}
+
+/**
+ * Check for time gaps in datetime columns
+ */
+function detectTimeGaps(values: Date[]): { hasGaps: boolean; gapCount: number } {
+  const intervals = timeIntervals(values);
 
   if (intervals.length === 0) {
     return { hasGaps: false, gapCount: 0 };
@@ -139,11 +173,12 @@ export async function validateData(
   const qualityFlags: DataQualityFlag[] = [];
   const columnStats: ColumnStats[] = [];
 
-  // Check for empty results
+  // Check for empty results — blocking when we know a question was asked,
+  // since an empty answer is usually a wrong filter value or join
   if (resultSet.rowCount === 0) {
     qualityFlags.push({
       type: "missing_values",
-      severity: "warning",
+      severity: intent ? "error" : "warning",
       message: "Query returned no results",
       affectedRows: 0,
     });
@@ -278,12 +313,28 @@ export async function validateData(
         stats.min = sorted[0]?.toISOString();
         stats.max = sorted[sorted.length - 1]?.toISOString();
 
-        // Check for time gaps
+        const isTrend = intent?.queryType === "trend";
+
+        // Check that buckets match the requested grain
+        const grain = intent?.timeRange?.grain;
+        if (isTrend && grain) {
+          const grainInfo = detectGrainMismatch(dateValues, grain);
+          if (grainInfo.mismatch) {
+            qualityFlags.push({
+              type: "grain_mismatch",
+              severity: "error",
+              column: column.name,
+              message: `Column "${column.name}" is spaced ~${Number(grainInfo.observedDays.toFixed(1))} days apart but ${grain} grain was requested`,
+            });
+          }
+        }
+
+        // Check for time gaps — a trend with many missing periods draws a misleading line
         const gapInfo = detectTimeGaps(dateValues);
         if (gapInfo.hasGaps) {
           qualityFlags.push({
             type: "time_gap",
-            severity: gapInfo.gapCount > 3 ? "warning" : "info",
+            severity: gapInfo.gapCount > 3 ? (isTrend ? "error" : "warning") : "info",
             column: column.name,
             message: `Column "${column.name}" has ${gapInfo.gapCount} time gaps in the data`,
             affectedRows: gapInfo.gapCount,
@@ -22,10 +22,14 @@ export type { NarrativeInput } from "./narrative.js";
 export {
   generateSemantic,
   generateSemanticFromSchema,
+  refreshSemantic,
+  refreshSemanticFromSchema,
 } from "./semantic-generator.js";
 export type {
   SemanticGeneratorInput,
   SemanticGeneratorOutput,
+  SemanticRefreshInput,
+  SemanticRefreshOutput,
 } from "./semantic-generator.js";
 
 export {
@@ -37,3 +41,14 @@ export type {
   CommandGeneratorOutput,
   GeneratedCommand,
 } from "./command-generator.js";
+
+export {
+  suggestSemanticEdits,
+  suggestSemanticEditsFromFeedback,
+  applySemanticEdits,
+} from "./semantic-suggester.js";
+export type {
+  FlaggedAnswer,
+  SemanticSuggesterInput,
+  SemanticSuggesterOutput,
+} from "./semantic-suggester.js";
@@ -15,11 +15,18 @@ import {
   createSuccessTrace,
   extractTokenUsage,
 } from "../types.js";
+import { describeDefinitions } from "../metric-compiler.js";
+import { selectTurnsWithinBudget, summarizeIntent } from "../session-context.js";
+import type { VerifiedQueryMatch } from "../verified-queries.js";
 
 export interface IntentResolverInput extends AgentInput {
   question: string;
   sessionContext?: SessionContext;
   semanticMetadata: SemanticMetadata;
+  /** Approximate token budget for prior conversation turns (defaults to SESSION_CONTEXT_TOKEN_BUDGET) */
+  contextTokenBudget?: number;
+  /** Verified queries for similar questions, best first */
+  verifiedExamples?: VerifiedQueryMatch[];
 }
 
 const SYSTEM_PROMPT = `You are an expert data analyst assistant that interprets natural language questions about business data and converts them into structured intent objects.
@@ -47,6 +54,7 @@ Guidelines:
 - CRITICAL: Convert relative time expressions to ABSOLUTE dates using today ({{CURRENT_DATE}}). Example: "last 2 months" with today=2026-02-21 → timeRange: {"start": "2025-12-21", "end": "2026-02-21"}
 - For trend/graph queries, include a date dimension to group by and set appropriate grain
 - When filtering to a single entity (e.g., one username), select metrics whose formulas make sense for that entity's data (e.g., SUM, COUNT of their records), not metrics that count distinct entities (which would trivially be 1)
+- FOLLOW-UPS: if the new question refers to the previous analysis ("that", "same but", "now break it down by…", "what about Q3?"), set isFollowUp: true and start from the ACTIVE ANALYSIS STATE — keep its metrics, dimensions, filters and time range unless the question changes them
 - If the question has no clear metric match (e.g. "how is my business doing?"), set clarificationNeeded: true and list the top 3 most relevant metrics in clarificationQuestion
 
 OUTPUT FORMAT — return exactly this JSON structure (no markdown wrapper):
@@ -72,7 +80,24 @@ Question: "Show me total clicks by day for last week"
 Output: {"queryType":"trend","metrics":["total_clicks"],"adHocMetrics":[],"dimensions":["click_date"],"filters":[],"timeRange":{"start":"{{LAST_WEEK_START}}","end":"{{LAST_WEEK_END}}","grain":"daily"},"comparisonMode":"none","sortBy":"click_date","sortOrder":"asc","limit":null,"isFollowUp":false,"clarificationNeeded":false,"clarificationQuestion":null,"confidence":0.95}
 `;
 
-function buildSystemPrompt(metadata: SemanticMetadata): string {
+/**
+ * Verified questions as extra few-shot examples. Queries verified from a chat
+ * answer carry their intent; manually added ones only their SQL.
+ */
+function buildExamplesBlock(examples: VerifiedQueryMatch[]): string {
+  const lines = examples.map(({ query }) =>
+    query.intent
+      ? `Question: "${query.question}"\nOutput: ${JSON.stringify(query.intent)}`
+      : `Question: "${query.question}"\nVerified SQL: ${query.sql.replace(/\s+/g, " ")}`,
+  );
+
+  return `
+VERIFIED EXAMPLES — questions on this database that an analytics engineer checked. Resolve similar questions to the same metrics, dimensions and filters, adjusting time ranges to the new question:
+${lines.join("\n\n")}
+`;
+}
+
+function buildSystemPrompt(metadata: SemanticMetadata, verifiedExamples?: VerifiedQueryMatch[]): string {
   const currentDate = new Date().toISOString().split("T")[0]; // YYYY-MM-DD format
   // Compute example dates for the few-shot (last week Mon–Sun)
   const today = new Date();
@@ -86,6 +111,14 @@ function buildSystemPrompt(metadata: SemanticMetadata): string {
 
   let semanticLayer = metadata.semanticMarkdown;
 
+  if (metadata.definitions && metadata.definitions.metrics.length > 0) {
+    semanticLayer += `
+
+## Governed Metrics
+These metrics have governed definitions and are computed the same way every time. When one answers the question, put its exact name in "metrics" and use only the dimensions listed for it:
+${describeDefinitions(metadata.definitions)}`;
+  }
+
   if (metadata.rawSchemaDDL) {
     semanticLayer += `
 
@@ -102,28 +135,55 @@ ONLY use ad-hoc metrics when predefined metrics clearly do not fit. Always prefe
 ${metadata.rawSchemaDDL}`;
   }
 
-  return SYSTEM_PROMPT
+  const prompt = SYSTEM_PROMPT
     .replaceAll("{{CURRENT_DATE}}", currentDate!)
     .replace("{{LAST_WEEK_START}}", lastWeekStart)
     .replace("{{LAST_WEEK_END}}", lastWeekEnd)
     .replace("{{SEMANTIC_LAYER}}", semanticLayer);
+
+  return verifiedExamples && verifiedExamples.length > 0
+    ? prompt + buildExamplesBlock(verifiedExamples)
+    : prompt;
 }
 
 function buildUserMessage(
   question: string,
   sessionContext?: SessionContext,
+  contextTokenBudget?: number,
 ): string {
   if (!sessionContext || sessionContext.turns.length === 0) {
     return question;
   }
 
-  const recentTurns = sessionContext.turns.slice(-4);
+  const recentTurns = selectTurnsWithinBudget(sessionContext.turns, contextTokenBudget);
   const conversationContext = recentTurns
-    .map((turn) => `${turn.role.toUpperCase()}: ${turn.content}`)
+    .map((turn) => {
+      const line = `${turn.role.toUpperCase()}: ${turn.content}`;
+      return turn.intent ? `${line}\n  [resolved intent: ${summarizeIntent(turn.intent)}]` : line;
+    })
     .join("\n");
 
+  const activeState: string[] = [];
+  if (sessionContext.activeMetrics.length > 0) {
+    activeState.push(`- metrics: ${sessionContext.activeMetrics.join(", ")}`);
+  }
+  if (sessionContext.activeDimensions.length > 0) {
+    activeState.push(`- dimensions: ${sessionContext.activeDimensions.join(", ")}`);
+  }
+  if (sessionContext.activeFilters.length > 0) {
+    activeState.push(
+      `- filters: ${sessionContext.activeFilters
+        .map((f) => `${f.dimension} ${f.operator} ${JSON.stringify(f.value)}`)
+        .join("; ")}`,
+    );
+  }
+
+  const activeBlock = activeState.length > 0
+    ? `\n\nACTIVE ANALYSIS STATE:\n${activeState.join("\n")}`
+    : "";
+
   return `RECENT CONVERSATION CONTEXT (for reference only):
-${conversationContext}
+${conversationContext}${activeBlock}
 
 NEW QUESTION TO RESOLVE: ${question}`;
 }
@@ -132,11 +192,11 @@ export async function resolveIntent(
   input: IntentResolverInput,
 ): Promise<AgentResult<IntentObject>> {
   const startedAt = new Date();
-  const { context, question, sessionContext, semanticMetadata } = input;
+  const { context, question, sessionContext, semanticMetadata, contextTokenBudget, verifiedExamples } = input;
 
   try {
-    const systemPrompt = buildSystemPrompt(semanticMetadata);
-    const userMessage = buildUserMessage(question, sessionContext);
+    const systemPrompt = buildSystemPrompt(semanticMetadata, verifiedExamples);
+    const userMessage = buildUserMessage(question, sessionContext, contextTokenBudget);
 
     const response = await context.client.messages.create({
       model: context.fastModel,
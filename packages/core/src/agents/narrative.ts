@@ -18,6 +18,8 @@ export interface NarrativeInput extends AgentInput {
   insights: InsightAnnotation[];
   qualityFlags: DataQualityFlag[];
   question?: string;
+  /** Stream the narrative, invoking this with each text delta as it arrives */
+  onToken?: (text: string) => void;
 }
 
 const SYSTEM_PROMPT = `You are a business intelligence analyst writing data summaries for non-technical stakeholders.
@@ -75,7 +77,7 @@ export async function generateNarrative(
   input: NarrativeInput,
 ): Promise<AgentResult<string>> {
   const startedAt = new Date();
-  const { context, intent, resultSet, insights, qualityFlags, question } = input;
+  const { context, intent, resultSet, insights, qualityFlags, question, onToken } = input;
 
   // For empty results, generate a simple message
   if (resultSet.rowCount === 0) {
@@ -100,18 +102,22 @@ export async function generateNarrative(
       question,
     );
 
-    const response = await context.client.messages.create({
+    const params = {
       model: context.model,
       max_tokens: 1024,
       temperature: 0.3,
       system: SYSTEM_PROMPT,
       messages: [
         {
-          role: "user",
+          role: "user" as const,
           content: userMessage,
         },
       ],
-    });
+    };
+
+    const response = onToken
+      ? await context.client.messages.stream(params).on("text", onToken).finalMessage()
+      : await context.client.messages.create(params);
 
     const textContent = response.content.find((c) => c.type === "text");
     if (!textContent || textContent.type !== "text") {
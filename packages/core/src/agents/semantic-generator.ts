@@ -1,9 +1,18 @@
 import {
   HeyDataError,
+  SemanticEditSchema,
+  type IntrospectedColumn,
   type IntrospectedSchema,
+  type IntrospectedTable,
+  type SchemaChange,
+  type SemanticEdit,
+  type SemanticEditSuggestion,
+  type WarehouseDialect,
 } from "@heydata/shared";
+import { describeSchemaChange, diffSchemas } from "../schema-diff.js";
 import type { AgentInput, AgentResult } from "../types.js";
 import { createSuccessTrace, extractTokenUsage } from "../types.js";
+import { applySemanticEdits } from "./semantic-suggester.js";
 
 export interface SemanticGeneratorOutput {
   semanticMarkdown: string;
@@ -13,6 +22,23 @@ export interface SemanticGeneratorInput extends AgentInput {
   introspectedSchema: IntrospectedSchema;
 }
 
+export interface SemanticRefreshInput extends AgentInput {
+  /** The stored semantic layer, including any manual edits */
+  semanticMarkdown: string;
+  /** The newly introspected schema */
+  introspectedSchema: IntrospectedSchema;
+  /** Differences from the schema the stored layer was generated from */
+  changes: SchemaChange[];
+}
+
+export interface SemanticRefreshOutput extends SemanticEditSuggestion {
+  changes: SchemaChange[];
+  /** The semantic layer with every edit applied */
+  proposedMarkdown: string;
+  /** Edits dropped because their `find` text is not in the document exactly once */
+  rejectedEdits: SemanticEdit[];
+}
+
 const SYSTEM_PROMPT = `
 You are an expert analytics engineer. Analyze the provided database schema and produce a schema-agnostic semantic layer for natural language to SQL.
 
@@ -21,6 +47,10 @@ The database structure may vary across installations (different table names, mis
 - Clearly separate verified facts from assumptions.
 - Assign confidence to every inferred mapping, relationship, or metric.
 - Only output SQL formulas when the required fields exist.
+- Table and column comments are the owners' own documentation: use them for purposes, definitions and units, and treat them as evidence for high confidence.
+- Enum values and most common values are the real value sets of status and type columns: use them verbatim in filters and dimension descriptions instead of guessing labels.
+- Views and materialized views are often curated for reporting: prefer them as metric sources when they fit, and note that materialized views can be stale.
+- Composite foreign keys must be joined on all their columns. Partitioned tables are queried through the parent table.
 
 Output Markdown only. Start with "# Semantic Layer".
 
@@ -120,7 +150,7 @@ If no safe join exists, say so and propose discovery queries.
 Define 8 to 15 useful metrics. Each must include:
 - Definition
 - Required canonical fields (for example Payment.amount, Payment.paid_at)
-- SQL template (Postgres) only if all required fields mapped; otherwise NOT COMPUTABLE
+- SQL template (in the target SQL dialect) only if all required fields mapped; otherwise NOT COMPUTABLE
 - Grain: overall, per day, per account, or per user
 - Common filters such as test data, refunds, trial (placeholders allowed)
 - Synonyms
@@ -150,20 +180,92 @@ Only the most important unknowns that affect correctness.
 - How to handle missing FKs (join discovery approach)
 `;
 
-function buildUserMessage(schema: IntrospectedSchema): string {
-  const tablesDesc = schema.tables
-    .map((t) => {
-      const cols = t.columns
-        .map(
-          (c) =>
-            `    - ${c.name} (${c.dataType})${c.isPrimaryKey ? " PK" : ""}${c.isForeignKey ? ` FK→${c.foreignTable}.${c.foreignColumn}` : ""}`,
-        )
-        .join("\n");
-      return `Table: ${t.schema}.${t.name}\n${cols}`;
-    })
-    .join("\n\n");
-
-  return `Generate the semantic layer Markdown document for this schema (${schema.tables.length} tables):\n\n${tablesDesc}`;
+const REFRESH_SYSTEM_PROMPT = `You are an analytics engineer maintaining a semantic layer: a Markdown document that tells a text-to-SQL system what tables, metrics and dimensions mean. It was generated from the database schema and then edited by hand.
+
+The schema has changed since. You get the current document, the list of schema changes and the current definition of every affected table. Propose the smallest edits that bring the document in line with the new schema.
+
+Rules:
+- Only touch passages about the changed tables and columns. Leave everything else exactly as it is, above all text people wrote: domain knowledge, business rules, synonyms and notes
+- Removed tables or columns: drop or correct the mappings, relationships and SQL templates that use them, and mark metrics that can no longer be computed as NOT COMPUTABLE rather than deleting them
+- Renamed columns usually show up as one removed and one added column of the same type on the same table; update references instead of dropping them
+- Added tables and columns: describe them in the matching sections, in the document's existing format
+- Changed types or foreign keys: fix the affected types, joins and relationship confidence
+- Each edit replaces one passage: "find" must be copied exactly from the document (whole lines, including Markdown markers) and must occur only once
+- To add a new section, use an empty "find"; the "replace" text is appended to the end of the document
+- Give each edit a one-sentence reason naming the schema change it follows
+- Call the propose_semantic_patch tool with your answer`;
+
+const PATCH_TOOL = {
+  name: "propose_semantic_patch",
+  description: "Propose edits that update the semantic layer for schema changes",
+  input_schema: {
+    type: "object" as const,
+    properties: {
+      summary: {
+        type: "string",
+        description: "How the schema changed and what the edits update, in one or two sentences",
+      },
+      edits: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            find: {
+              type: "string",
+              description: "Exact passage from the document to replace; empty to append",
+            },
+            replace: { type: "string", description: "Replacement text" },
+            reason: { type: "string", description: "The schema change this edit follows" },
+          },
+          required: ["find", "replace", "reason"],
+        },
+      },
+    },
+    required: ["summary", "edits"],
+  },
+};
+
+const KIND_LABELS: Record<string, string> = {
+  view: " (view)",
+  materialized_view: " (materialized view)",
+};
+
+function describeColumn(c: IntrospectedColumn): string {
+  let line = `    - ${c.name} (${c.dataType})${c.isPrimaryKey ? " PK" : ""}${c.isForeignKey ? ` FK→${c.foreignTable}.${c.foreignColumn}` : ""}`;
+  if (c.comment) line += ` — ${c.comment.replace(/\s+/g, " ")}`;
+  if (c.enumValues?.length) line += `\n      enum values: ${c.enumValues.join(", ")}`;
+
+  const stats: string[] = [];
+  if (c.stats?.distinctCount !== undefined) stats.push(`~${c.stats.distinctCount} distinct`);
+  if (c.stats?.nullFraction) stats.push(`${Math.round(c.stats.nullFraction * 100)}% null`);
+  if (c.stats?.mostCommonValues?.length) stats.push(`most common: ${c.stats.mostCommonValues.join(", ")}`);
+  if (stats.length > 0) line += `\n      stats: ${stats.join("; ")}`;
+  return line;
+}
+
+function describeTable(t: IntrospectedTable): string {
+  const lines = [`Table: ${t.schema}.${t.name}${KIND_LABELS[t.kind ?? "table"] ?? ""}`];
+  if (t.comment) lines.push(`  Comment: ${t.comment.replace(/\s+/g, " ")}`);
+  if (t.rowCountEstimate !== undefined) lines.push(`  Rows: ~${t.rowCountEstimate}`);
+  if (t.partitionKey) lines.push(`  Partitioned by ${t.partitionKey} (${t.partitionCount ?? 0} partitions)`);
+  lines.push(...t.columns.map(describeColumn));
+  for (const fk of t.foreignKeys ?? []) {
+    lines.push(
+      `  Composite FK: (${fk.columns.join(", ")}) → ${fk.foreignSchema}.${fk.foreignTable}(${fk.foreignColumns.join(", ")})`,
+    );
+  }
+  if (t.indexes?.length) {
+    lines.push(
+      `  Indexes: ${t.indexes.map((i) => `${i.unique ? "unique " : ""}(${i.columns.join(", ")})`).join(", ")}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+function buildUserMessage(schema: IntrospectedSchema, dialect: WarehouseDialect): string {
+  const tablesDesc = schema.tables.map(describeTable).join("\n\n");
+
+  return `Generate the semantic layer Markdown document for this schema (${schema.tables.length} tables, target SQL dialect: ${dialect}):\n\n${tablesDesc}`;
 }
 
 /**
@@ -172,7 +274,7 @@ function buildUserMessage(schema: IntrospectedSchema): string {
  */
 export async function generateSemanticFromSchema(
   introspectedSchema: IntrospectedSchema,
-  options?: { signal?: AbortSignal },
+  options?: { signal?: AbortSignal; dialect?: WarehouseDialect },
 ): Promise<SemanticGeneratorOutput> {
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) {
@@ -190,7 +292,7 @@ export async function generateSemanticFromSchema(
       client,
       model: "claude-haiku-4-5-20251001",
       fastModel: "claude-haiku-4-5-20251001",
-      dialect: "postgresql",
+      dialect: options?.dialect ?? "postgresql",
       signal: options?.signal,
     },
     introspectedSchema,
@@ -199,6 +301,148 @@ export async function generateSemanticFromSchema(
   return result.data;
 }
 
+function buildRefreshMessage(input: SemanticRefreshInput): string {
+  const affected = new Set(input.changes.map((c) => c.table));
+  const tables = input.introspectedSchema.tables.filter((t) => affected.has(`${t.schema}.${t.name}`));
+
+  return [
+    "# Semantic layer",
+    "",
+    input.semanticMarkdown,
+    "",
+    "# Schema changes",
+    "",
+    input.changes.map((c) => `- ${describeSchemaChange(c)}`).join("\n"),
+    "",
+    `# Affected tables now (target SQL dialect: ${input.context.dialect})`,
+    "",
+    tables.length > 0 ? tables.map(describeTable).join("\n\n") : "(all affected tables were removed)",
+  ].join("\n");
+}
+
+/**
+ * Run a semantic layer refresh with default context (API key from env):
+ * diff the schema the layer was generated from against a new introspection
+ * and draft edits for the changes. Use this from API routes.
+ */
+export async function refreshSemanticFromSchema(
+  semanticMarkdown: string,
+  previousSchema: IntrospectedSchema,
+  introspectedSchema: IntrospectedSchema,
+  options?: { signal?: AbortSignal; dialect?: WarehouseDialect },
+): Promise<SemanticRefreshOutput> {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new HeyDataError("CONFIG_ERROR", "ANTHROPIC_API_KEY is required for semantic generation", {
+      agent: "semantic_generator",
+    });
+  }
+
+  const Anthropic = (await import("@anthropic-ai/sdk")).default;
+  const client = new Anthropic({ apiKey });
+
+  const result = await refreshSemantic({
+    context: {
+      requestId: `sem_${Date.now()}`,
+      client,
+      model: "claude-haiku-4-5-20251001",
+      fastModel: "claude-haiku-4-5-20251001",
+      dialect: options?.dialect ?? "postgresql",
+      signal: options?.signal,
+    },
+    semanticMarkdown,
+    introspectedSchema,
+    changes: diffSchemas(previousSchema, introspectedSchema),
+  });
+
+  return result.data;
+}
+
+/**
+ * Semantic Generator Agent, refresh mode — drafts edits that patch only the
+ * sections affected by schema changes, so manual edits survive. The edits
+ * are proposed, not saved. Without changes the LLM is not called.
+ */
+export async function refreshSemantic(
+  input: SemanticRefreshInput,
+): Promise<AgentResult<SemanticRefreshOutput>> {
+  const startedAt = new Date();
+  const { context, semanticMarkdown, changes } = input;
+
+  if (changes.length === 0) {
+    return {
+      data: {
+        summary: "The schema has not changed since the semantic layer was generated.",
+        edits: [],
+        changes,
+        proposedMarkdown: semanticMarkdown,
+        rejectedEdits: [],
+      },
+      trace: createSuccessTrace({ agent: "semantic_generator", model: context.model, startedAt }),
+    };
+  }
+
+  try {
+    const response = await context.client.messages.create(
+      {
+        model: context.model,
+        max_tokens: 8192,
+        system: REFRESH_SYSTEM_PROMPT,
+        tools: [PATCH_TOOL],
+        tool_choice: { type: "tool", name: "propose_semantic_patch" },
+        messages: [{ role: "user", content: buildRefreshMessage(input) }],
+      },
+      context.signal ? { signal: context.signal } : undefined,
+    );
+
+    const { inputTokens, outputTokens } = extractTokenUsage(response);
+
+    const toolBlock = response.content.find((b) => b.type === "tool_use");
+    if (!toolBlock || toolBlock.type !== "tool_use") {
+      throw new HeyDataError(
+        "SEMANTIC_GENERATION_FAILED",
+        "Semantic refresh returned no tool_use block",
+        { agent: "semantic_generator" },
+      );
+    }
+
+    const rawInput = toolBlock.input as { summary?: unknown; edits?: unknown[] };
+    const edits: SemanticEdit[] = [];
+    for (const item of rawInput.edits ?? []) {
+      const parsed = SemanticEditSchema.safeParse(item);
+      if (parsed.success && parsed.data.find !== parsed.data.replace) {
+        edits.push(parsed.data);
+      }
+    }
+
+    const { markdown, applied, rejected } = applySemanticEdits(semanticMarkdown, edits);
+
+    return {
+      data: {
+        summary: typeof rawInput.summary === "string" ? rawInput.summary : "",
+        edits: applied,
+        changes,
+        proposedMarkdown: markdown,
+        rejectedEdits: rejected,
+      },
+      trace: createSuccessTrace({
+        agent: "semantic_generator",
+        model: context.model,
+        startedAt,
+        inputTokens,
+        outputTokens,
+      }),
+    };
+  } catch (error) {
+    if (error instanceof HeyDataError) throw error;
+    throw new HeyDataError(
+      "SEMANTIC_GENERATION_FAILED",
+      `Semantic refresh failed: ${error instanceof Error ? error.message : String(error)}`,
+      { agent: "semantic_generator", cause: error instanceof Error ? error : undefined },
+    );
+  }
+}
+
 /**
  * Semantic Generator Agent — analyzes introspected schema and produces
  * a Markdown semantic layer document.
@@ -210,7 +454,7 @@ export async function generateSemantic(
   const { context, introspectedSchema } = input;
 
   try {
-    const userMessage = buildUserMessage(introspectedSchema);
+    const userMessage = buildUserMessage(introspectedSchema, context.dialect);
     // Logging handled at orchestrator level
 
     const response = await context.client.messages.create(
@@ -0,0 +1,253 @@
+import {
+  HeyDataError,
+  SemanticEditSchema,
+  type OrchestratorResponse,
+  type SemanticEdit,
+  type SemanticEditSuggestion,
+} from "@heydata/shared";
+import type { AgentInput, AgentResult } from "../types.js";
+import { createSuccessTrace, extractTokenUsage } from "../types.js";
+
+// ── Input / output types ─────────────────────────────────────────────────────
+
+/**
+ * An answer a user flagged as incorrect, with their correction
+ */
+export interface FlaggedAnswer {
+  question: string;
+  correction: string;
+  response: OrchestratorResponse;
+}
+
+export interface SemanticSuggesterInput extends AgentInput {
+  semanticMarkdown: string;
+  flagged: FlaggedAnswer[];
+}
+
+export interface SemanticSuggesterOutput extends SemanticEditSuggestion {
+  /** The semantic layer with every edit applied */
+  proposedMarkdown: string;
+  /** Edits dropped because their `find` text is not in the document exactly once */
+  rejectedEdits: SemanticEdit[];
+}
+
+// ── Prompt ────────────────────────────────────────────────────────────────────
+
+const SYSTEM_PROMPT = `You are an analytics engineer maintaining a semantic layer: a Markdown document that tells a text-to-SQL system what tables, metrics and dimensions mean.
+
+Users flagged some answers as incorrect. For each you get the question, the user's correction, and the intent and SQL the system produced. Work out which gap or mistake in the semantic layer led to the wrong answers, and propose the smallest edits that fix it.
+
+Rules:
+- Fix the semantic layer, not individual answers. Prefer clarifying a metric definition, a column mapping, a filter convention or a join path
+- Each edit replaces one passage: "find" must be copied exactly from the document (whole lines, including Markdown markers) and must occur only once
+- To add a new section, use an empty "find"; the "replace" text is appended to the end of the document
+- Keep the document's existing structure and style; do not rewrite unrelated sections
+- Give each edit a one-sentence reason that refers to the flagged answers
+- If the corrections are unrelated to the semantic layer (e.g. bad data), return no edits and say so in the summary
+- Call the propose_semantic_edits tool with your answer`;
+
+// ── Tool definition for structured output ─────────────────────────────────────
+
+const EDITS_TOOL = {
+  name: "propose_semantic_edits",
+  description: "Propose edits to the semantic layer document",
+  input_schema: {
+    type: "object" as const,
+    properties: {
+      summary: {
+        type: "string",
+        description: "What the flagged answers got wrong and why, in one or two sentences",
+      },
+      edits: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            find: {
+              type: "string",
+              description: "Exact passage from the document to replace; empty to append",
+            },
+            replace: { type: "string", description: "Replacement text" },
+            reason: { type: "string", description: "Why this edit fixes the flagged answers" },
+          },
+          required: ["find", "replace", "reason"],
+        },
+      },
+    },
+    required: ["summary", "edits"],
+  },
+};
+
+/** Flagged answers included in one suggestion; the oldest are dropped */
+const MAX_FLAGGED = 10;
+
+function describeFlagged(flagged: FlaggedAnswer, index: number): string {
+  const { question, correction, response } = flagged;
+  const lines = [`## Flagged answer ${index + 1}`, `Question: ${question}`, `User's correction: ${correction}`];
+  if (response.intent) lines.push(`Intent: ${JSON.stringify(response.intent)}`);
+  if (response.sql) lines.push("SQL:", "```sql", response.sql.sql, "```");
+  if (response.narrative) lines.push(`Answer given: ${response.narrative.slice(0, 600)}`);
+  return lines.join("\n");
+}
+
+// ── Edits ─────────────────────────────────────────────────────────────────────
+
+function occurrences(text: string, search: string): number {
+  let count = 0;
+  for (let i = text.indexOf(search); i >= 0; i = text.indexOf(search, i + search.length)) count++;
+  return count;
+}
+
+/**
+ * Apply edits to a semantic layer document in order. Edits whose `find` text
+ * is missing or ambiguous are returned as rejected instead of applied.
+ */
+export function applySemanticEdits(
+  markdown: string,
+  edits: SemanticEdit[],
+): { markdown: string; applied: SemanticEdit[]; rejected: SemanticEdit[] } {
+  let result = markdown;
+  const applied: SemanticEdit[] = [];
+  const rejected: SemanticEdit[] = [];
+
+  for (const edit of edits) {
+    if (edit.find === "") {
+      result = `${result.trimEnd()}\n\n${edit.replace.trim()}\n`;
+      applied.push(edit);
+    } else if (occurrences(result, edit.find) === 1) {
+      result = result.replace(edit.find, () => edit.replace);
+      applied.push(edit);
+    } else {
+      rejected.push(edit);
+    }
+  }
+
+  return { markdown: result, applied, rejected };
+}
+
+// ── Agent ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Semantic Suggester Agent — drafts semantic layer edits from answers users
+ * flagged as incorrect. The edits are only suggested; a reviewer applies them.
+ */
+export async function suggestSemanticEdits(
+  input: SemanticSuggesterInput,
+): Promise<AgentResult<SemanticSuggesterOutput>> {
+  const startedAt = new Date();
+  const { context, semanticMarkdown } = input;
+  const flagged = input.flagged.slice(-MAX_FLAGGED);
+
+  try {
+    if (flagged.length === 0) {
+      throw new HeyDataError("SEMANTIC_SUGGESTION_FAILED", "No flagged answers to learn from", {
+        agent: "semantic_suggester",
+      });
+    }
+
+    const response = await context.client.messages.create(
+      {
+        model: context.model,
+        max_tokens: 4096,
+        system: SYSTEM_PROMPT,
+        tools: [EDITS_TOOL],
+        tool_choice: { type: "tool", name: "propose_semantic_edits" },
+        messages: [
+          {
+            role: "user",
+            content: [
+              "# Semantic layer",
+              "",
+              semanticMarkdown,
+              "",
+              "# Flagged answers",
+              "",
+              flagged.map(describeFlagged).join("\n\n"),
+            ].join("\n"),
+          },
+        ],
+      },
+      context.signal ? { signal: context.signal } : undefined,
+    );
+
+    const { inputTokens, outputTokens } = extractTokenUsage(response);
+
+    const toolBlock = response.content.find((b) => b.type === "tool_use");
+    if (!toolBlock || toolBlock.type !== "tool_use") {
+      throw new HeyDataError(
+        "SEMANTIC_SUGGESTION_FAILED",
+        "Semantic suggester returned no tool_use block",
+        { agent: "semantic_suggester" },
+      );
+    }
+
+    const rawInput = toolBlock.input as { summary?: unknown; edits?: unknown[] };
+    const edits: SemanticEdit[] = [];
+    for (const item of rawInput.edits ?? []) {
+      const parsed = SemanticEditSchema.safeParse(item);
+      if (parsed.success && parsed.data.find !== parsed.data.replace) {
+        edits.push(parsed.data);
+      }
+    }
+
+    const { markdown, applied, rejected } = applySemanticEdits(semanticMarkdown, edits);
+
+    return {
+      data: {
+        summary: typeof rawInput.summary === "string" ? rawInput.summary : "",
+        edits: applied,
+        proposedMarkdown: markdown,
+        rejectedEdits: rejected,
+      },
+      trace: createSuccessTrace({
+        agent: "semantic_suggester",
+        model: context.model,
+        startedAt,
+        inputTokens,
+        outputTokens,
+      }),
+    };
+  } catch (error) {
+    if (error instanceof HeyDataError) throw error;
+    throw new HeyDataError(
+      "SEMANTIC_SUGGESTION_FAILED",
+      `Semantic suggestion failed: ${error instanceof Error ? error.message : String(error)}`,
+      { agent: "semantic_suggester", cause: error instanceof Error ? error : undefined },
+    );
+  }
+}
+
+/**
+ * Run the semantic suggester with default context (API key from env).
+ * Use this from API routes; no need to pass an Anthropic client.
+ */
+export async function suggestSemanticEditsFromFeedback(
+  semanticMarkdown: string,
+  flagged: FlaggedAnswer[],
+  options?: { signal?: AbortSignal },
+): Promise<SemanticSuggesterOutput> {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new HeyDataError("CONFIG_ERROR", "ANTHROPIC_API_KEY is required for semantic suggestions", {
+      agent: "semantic_suggester",
+    });
+  }
+
+  const Anthropic = (await import("@anthropic-ai/sdk")).default;
+  const client = new Anthropic({ apiKey });
+
+  const result = await suggestSemanticEdits({
+    context: {
+      requestId: `sug_${Date.now()}`,
+      client,
+      model: "claude-haiku-4-5-20251001",
+      fastModel: "claude-haiku-4-5-20251001",
+      dialect: "postgresql",
+      signal: options?.signal,
+    },
+    semanticMarkdown,
+    flagged,
+  });
+
+  return result.data;
+}
@@ -4,7 +4,11 @@ import {
   type GeneratedSQL,
   type IntentObject,
   type SemanticMetadata,
+  type WarehouseDialect,
 } from "@heydata/shared";
+import { describeDefinitions } from "../metric-compiler.js";
+import { DIALECT_LABELS, transpilerLimitations } from "../sql-transpiler.js";
+import { CLOSE_VERIFIED_SIMILARITY, type VerifiedQueryMatch } from "../verified-queries.js";
 import type { AgentContext, AgentInput, AgentResult } from "../types.js";
 import {
   createErrorTrace,
@@ -19,12 +23,14 @@ export interface SqlGeneratorInput extends AgentInput {
   previousSql?: string;
   /** Validation errors from previous attempt */
   validationErrors?: string[];
+  /** Verified queries for similar questions, best first */
+  verifiedExamples?: VerifiedQueryMatch[];
 }
 
 const PREAMBLE_PROMPT = `You are an expert SQL query generator. Given a structured intent object and semantic layer metadata, generate a valid SQL query.
 
 TODAY'S DATE: {{CURRENT_DATE}}
-Target dialect: {{DIALECT}}
+SQL dialect: PostgreSQL
 
 Guidelines:
 1. Use literal values in SQL (do NOT use parameterized placeholders like $1, $2)
@@ -49,15 +55,35 @@ Guidelines:
 
 Respond with a JSON object containing:
 - sql: The SQL query string
-- dialect: The target dialect (must be "{{DIALECT}}")
+- dialect: Always "postgresql"
 - tablesTouched: Array of table names used
 - estimatedComplexity: "low", "medium", or "high"`;
 
-function buildPreamble(dialect: string): string {
+/**
+ * Notes about the target warehouse that are not syntax — the transpiler
+ * takes care of syntax, but not of how tables are named or reached.
+ */
+const TARGET_NOTES: Partial<Record<WarehouseDialect, string>> = {
+  duckdb: "Query tables and views by name only; never call read_csv, read_parquet or other file-reading functions",
+  bigquery: "Qualify every table with its dataset (shop.orders), exactly as listed in the schema",
+  snowflake: "Unquoted identifiers resolve to UPPER case; quote names only when the schema shows mixed-case names",
+};
+
+function buildPreamble(dialect: WarehouseDialect): string {
   const currentDate = new Date().toISOString().split("T")[0];
-  return PREAMBLE_PROMPT
-    .replaceAll("{{CURRENT_DATE}}", currentDate!)
-    .replaceAll("{{DIALECT}}", dialect);
+  const preamble = PREAMBLE_PROMPT.replaceAll("{{CURRENT_DATE}}", currentDate!);
+  if (dialect === "postgresql") return preamble;
+
+  const label = DIALECT_LABELS[dialect];
+  const rules = [
+    ...transpilerLimitations(dialect),
+    ...(TARGET_NOTES[dialect] ? [TARGET_NOTES[dialect]] : []),
+  ];
+  let target = `The query is translated from PostgreSQL to ${label} automatically before it runs. Write portable PostgreSQL; do not write ${label}-specific syntax.`;
+  if (rules.length > 0) {
+    target += `\nAvoid these constructs, which have no ${label} equivalent:\n${rules.map((r) => `- ${r}`).join("\n")}`;
+  }
+  return `${preamble}\n\n${target}`;
 }
 
 function buildSemanticBlock(
@@ -66,6 +92,12 @@ function buildSemanticBlock(
 ): string {
   let block = `## Semantic Layer Reference\n\n${semanticMetadata.semanticMarkdown}`;
 
+  // Queries on governed metrics only reach the generator when the compiler
+  // cannot express them; they must still use the governed formulas
+  if (semanticMetadata.definitions && semanticMetadata.definitions.metrics.length > 0) {
+    block += `\n\n## Governed Metrics\nUse these formulas and default filters exactly for the metrics they define:\n${describeDefinitions(semanticMetadata.definitions)}`;
+  }
+
   if (hasAdHocMetrics && semanticMetadata.rawSchemaDDL) {
     block += `\n\n## Raw Database Schema (for ad-hoc metrics)\n${semanticMetadata.rawSchemaDDL}\n\nWhen the intent includes "adHocMetrics", use their formulas directly in the SQL.\nDetermine appropriate JOINs based on the foreign key relationships in the raw schema.\nApply the same best practices (CTEs for multi-table, GROUP BY, etc.) as for predefined metrics.`;
   }
@@ -73,10 +105,22 @@ function buildSemanticBlock(
   return block;
 }
 
+function buildExamplesBlock(examples: VerifiedQueryMatch[]): string {
+  const blocks = examples.map(({ query, similarity }, i) => {
+    const close = similarity >= CLOSE_VERIFIED_SIMILARITY ? " (close match)" : "";
+    return `Example ${i + 1}${close}: "${query.question}"\n\`\`\`sql\n${query.sql}\n\`\`\``;
+  });
+
+  return `VERIFIED QUERIES — checked by an analytics engineer for similar questions. Follow their tables, joins, filters and formulas. If a close match asks for exactly what the intent asks for, return its SQL unchanged.
+
+${blocks.join("\n\n")}`;
+}
+
 function buildUserMessage(
   intent: IntentObject,
   previousSql?: string,
   validationErrors?: string[],
+  verifiedExamples?: VerifiedQueryMatch[],
 ): string {
   // Only pass SQL-relevant fields — strip intent resolution metadata
   const sqlIntent = {
@@ -103,6 +147,10 @@ ${JSON.stringify(sqlIntent, null, 2)}`;
     }
   }
 
+  if (verifiedExamples && verifiedExamples.length > 0) {
+    message += `\n\n${buildExamplesBlock(verifiedExamples)}`;
+  }
+
   if (previousSql && validationErrors && validationErrors.length > 0) {
     message += `
 
@@ -126,13 +174,13 @@ export async function generateSql(
   input: SqlGeneratorInput,
 ): Promise<AgentResult<GeneratedSQL>> {
   const startedAt = new Date();
-  const { context, intent, semanticMetadata, previousSql, validationErrors } = input;
+  const { context, intent, semanticMetadata, previousSql, validationErrors, verifiedExamples } = input;
 
   try {
     const hasAdHocMetrics = (intent.adHocMetrics?.length ?? 0) > 0;
     const preamble = buildPreamble(context.dialect);
     const semanticBlock = buildSemanticBlock(semanticMetadata, hasAdHocMetrics);
-    const userMessage = buildUserMessage(intent, previousSql, validationErrors);
+    const userMessage = buildUserMessage(intent, previousSql, validationErrors, verifiedExamples);
 
     const response = await context.client.messages.create({
       model: context.model,
@@ -8,6 +8,7 @@ import {
   type ValidationResult,
 } from "@heydata/shared";
 import type { AgentContext, AgentInput, AgentResult } from "../types.js";
+import { checkSqlAgainstSchema } from "../sql-schema-validator.js";
 import {
   createErrorTrace,
   createSuccessTrace,
@@ -40,21 +41,22 @@ const FORBIDDEN_KEYWORDS = [
   "LOAD DATA",
 ];
 
-const SYSTEM_PROMPT = `You are an expert SQL validator. Analyze the given SQL query for potential issues.
+/**
+ * String literals, quoted identifiers and comments, leftmost first so a
+ * quote inside a comment (or a comment marker inside a string) is skipped
+ * with its surroundings. E-strings allow backslash escapes.
+ */
+const NON_CODE =
+  /(?<!\w)[Ee]'(?:[^'\\]|\\[\s\S]|'')*'|'(?:[^']|'')*'|"(?:[^"]|"")*"|`(?:[^`]|``)*`|\$(\w*)\$[\s\S]*?\$\1\$|--[^\n]*|\/\*[\s\S]*?\*\//g;
 
-Check for:
-1. Syntax errors (invalid SQL syntax for the target dialect)
-2. Semantic issues — ONLY flag table/column mismatches if you have schema context below; otherwise skip this check
-3. Performance concerns (cartesian products, missing GROUP BY, unnecessary full scans)
-4. Security issues (SQL injection vulnerabilities, unsafe patterns)
-5. Intent mismatch — the query structure is fundamentally wrong for the question type:
+const INTENT_CHECK = `Intent mismatch — the query structure is fundamentally wrong for the question type:
    - ERROR: User asked for a trend over time but query has no date column in GROUP BY
    - ERROR: User asked for top N but query has no ORDER BY + LIMIT
    - OK: Extra SELECT columns beyond what was requested — not an error
    - OK: Minor differences in filter values or column ordering — not an error
-   - OK: CTEs and subqueries added for correctness — not an error
+   - OK: CTEs and subqueries added for correctness — not an error`;
 
-For each issue found, specify:
+const RESPONSE_FORMAT = `For each issue found, specify:
 - type: "syntax", "semantic", "performance", "security", or "intent_mismatch"
 - severity: "error" (must fix), "warning" (should fix), or "info" (nice to have)
 - message: Description of the issue
@@ -68,15 +70,39 @@ Respond with a JSON object containing:
 - issues: array of issues found
 - confidence: number between 0 and 1`;
 
+const SYSTEM_PROMPT = `You are an expert SQL validator. Analyze the given SQL query for potential issues.
+
+Check for:
+1. Syntax errors (invalid SQL syntax for the target dialect)
+2. Semantic issues — ONLY flag table/column mismatches if you have schema context below; otherwise skip this check
+3. Performance concerns (cartesian products, missing GROUP BY, unnecessary full scans)
+4. Security issues (SQL injection vulnerabilities, unsafe patterns)
+5. ${INTENT_CHECK}
+
+${RESPONSE_FORMAT}`;
+
+/**
+ * Used once the query has passed the schema checks: table and column
+ * references, grouping and aggregates are already verified, so the model
+ * only judges whether the query answers the question.
+ */
+const INTENT_ONLY_PROMPT = `You are an expert SQL validator. The given SQL query has already been checked against the database schema: its tables and columns exist, GROUP BY is complete and aggregates are used correctly. Do not report those.
+
+Check only for:
+1. ${INTENT_CHECK}
+
+${RESPONSE_FORMAT}`;
+
 function performStaticChecks(sql: string): SqlValidationIssue[] {
   const issues: SqlValidationIssue[] = [];
   const upperSql = sql.toUpperCase();
 
-  // Check for forbidden keywords
+  // Check for forbidden keywords in the SQL itself, not in the values it compares
+  const code = sql.replace(NON_CODE, " ");
   for (const keyword of FORBIDDEN_KEYWORDS) {
     // Use word boundary to avoid false positives
     const regex = new RegExp(`\\b${keyword}\\b`, "i");
-    if (regex.test(sql)) {
+    if (regex.test(code)) {
       issues.push({
         type: "security",
         severity: "error",
@@ -150,14 +176,25 @@ export async function validateSql(
   const startedAt = new Date();
   const { context, generatedSql, intent, semanticMetadata } = input;
 
-  // First, perform static checks
-  const staticIssues = performStaticChecks(generatedSql.sql);
-
-  // If we have security errors, fail fast
-  const securityErrors = staticIssues.filter(
-    (i) => i.type === "security" && i.severity === "error",
+  // First, perform static checks. Generated SQL is parsed as written —
+  // before transpilation — when the target is not PostgreSQL.
+  const rawSchema = semanticMetadata?.rawSchema;
+  const schemaIssues = rawSchema
+    ? checkSqlAgainstSchema(
+        generatedSql.sourceSql ?? generatedSql.sql,
+        generatedSql.sourceSql ? "postgresql" : generatedSql.dialect,
+        rawSchema,
+      )
+    : [];
+  const staticIssues = [...performStaticChecks(generatedSql.sourceSql ?? generatedSql.sql), ...schemaIssues];
+  // Schema warnings are findings the checker could not prove, left for the LLM to judge
+  const schemaVerified = !!rawSchema && schemaIssues.length === 0;
+
+  // Security and schema errors are certain, so fail fast without the LLM
+  const staticErrors = staticIssues.filter(
+    (i) => (i.type === "security" || i.type === "semantic") && i.severity === "error",
   );
-  if (securityErrors.length > 0) {
+  if (staticErrors.length > 0) {
     return {
       data: {
         valid: false,
@@ -174,9 +211,10 @@ export async function validateSql(
     };
   }
 
-  // For low-complexity queries with no static errors, skip the LLM call
+  // For low-complexity queries with no static errors, skip the LLM call.
+  // Compiled queries implement governed definitions, which the model must not overrule.
   const hasStaticErrors = staticIssues.some((i) => i.severity === "error");
-  if (generatedSql.estimatedComplexity === "low" && !hasStaticErrors) {
+  if ((generatedSql.estimatedComplexity === "low" || generatedSql.compiled) && !hasStaticErrors) {
     return {
       data: {
         valid: true,
@@ -200,7 +238,7 @@ export async function validateSql(
       model: context.fastModel,
       max_tokens: 1024,
       temperature: 0,
-      system: SYSTEM_PROMPT,
+      system: schemaVerified ? INTENT_ONLY_PROMPT : SYSTEM_PROMPT,
       messages: [
         {
           role: "user",
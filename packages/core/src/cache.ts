@@ -1,53 +1,45 @@
-import type { OrchestratorResponse } from "@heydata/shared";
+import { createHash } from "node:crypto";
+import type { IntentObject, OrchestratorResponse, ResultSet, SemanticDefinitions } from "@heydata/shared";
 
 /**
- * Cache entry with expiration
+ * Storage behind the query cache. Values are JSON-serialisable; every entry
+ * belongs to one connection so a connection's entries can be dropped at once.
  */
-interface CacheEntry {
-  response: OrchestratorResponse;
-  expiresAt: number;
+export interface CacheStore {
+  /** Get an entry if present and not expired */
+  get(key: string): Promise<unknown | undefined>;
+  /** Store an entry for `ttlMs` milliseconds */
+  set(key: string, value: unknown, options: { connectionId: string; ttlMs: number }): Promise<void>;
+  /** Remove every entry of a connection */
+  invalidateConnection(connectionId: string): Promise<void>;
+  /** Remove all entries */
+  clear(): Promise<void>;
+  /** Number of entries held, for stores that can count them cheaply */
+  readonly size?: number;
 }
 
 /**
- * Cache key components
+ * Cache entry with expiration
  */
-interface CacheKeyComponents {
-  question: string;
-  sessionId?: string;
-  dialect: string;
+interface CacheEntry {
+  value: unknown;
+  connectionId: string;
+  expiresAt: number;
 }
 
 /**
- * Simple in-memory cache for query results
+ * In-process cache store, evicting the oldest entry when full
  */
-export class QueryCache {
+export class MemoryCacheStore implements CacheStore {
   private cache: Map<string, CacheEntry>;
-  private ttlMs: number;
   private maxSize: number;
 
-  constructor(options: { ttlMs?: number; maxSize?: number } = {}) {
+  constructor(options: { maxSize?: number } = {}) {
     this.cache = new Map();
-    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000; // 5 minutes default
     this.maxSize = options.maxSize ?? 100;
   }
 
-  /**
-   * Generate a cache key from components
-   */
-  private generateKey(components: CacheKeyComponents): string {
-    const normalized = {
-      question: components.question.toLowerCase().trim(),
-      sessionId: components.sessionId ?? "",
-      dialect: components.dialect,
-    };
-    return JSON.stringify(normalized);
-  }
-
-  /**
-   * Get a cached response if available and not expired
-   */
-  get(components: CacheKeyComponents): OrchestratorResponse | undefined {
-    const key = this.generateKey(components);
+  async get(key: string): Promise<unknown | undefined> {
     const entry = this.cache.get(key);
 
     if (!entry) {
@@ -60,49 +52,35 @@ export class QueryCache {
       return undefined;
     }
 
-    return entry.response;
+    return entry.value;
   }
 
-  /**
-   * Store a response in the cache
-   */
-  set(
-    components: CacheKeyComponents,
-    response: OrchestratorResponse,
-  ): void {
+  async set(key: string, value: unknown, options: { connectionId: string; ttlMs: number }): Promise<void> {
     // Evict oldest entries if at capacity
-    if (this.cache.size >= this.maxSize) {
+    if (!this.cache.has(key) && this.cache.size >= this.maxSize) {
       const oldestKey = this.cache.keys().next().value;
       if (oldestKey) {
         this.cache.delete(oldestKey);
       }
     }
 
-    const key = this.generateKey(components);
     this.cache.set(key, {
-      response,
-      expiresAt: Date.now() + this.ttlMs,
+      value,
+      connectionId: options.connectionId,
+      expiresAt: Date.now() + options.ttlMs,
     });
   }
 
-  /**
-   * Invalidate a specific cache entry
-   */
-  invalidate(components: CacheKeyComponents): boolean {
-    const key = this.generateKey(components);
-    return this.cache.delete(key);
+  async invalidateConnection(connectionId: string): Promise<void> {
+    for (const [key, entry] of this.cache) {
+      if (entry.connectionId === connectionId) this.cache.delete(key);
+    }
   }
 
-  /**
-   * Clear all cached entries
-   */
-  clear(): void {
+  async clear(): Promise<void> {
     this.cache.clear();
   }
 
-  /**
-   * Get current cache size
-   */
   get size(): number {
     return this.cache.size;
   }
@@ -125,12 +103,178 @@ export class QueryCache {
   }
 }
 
+/**
+ * What cached entries are valid for: a connection and a version of its
+ * semantic layer. Entries written under an older version are never read.
+ */
+export interface CacheScope {
+  connectionId: string;
+  semanticVersion: string;
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/** JSON with object keys sorted, so equal values always serialise the same */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Normalise SQL for cache keys: collapse whitespace and drop trailing
+ * semicolons outside string literals and quoted identifiers. Case is kept,
+ * since identifiers are case-sensitive on some engines.
+ */
+export function normalizeSql(sql: string): string {
+  return sql
+    .split(/('(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`)/)
+    .map((part, i) => (i % 2 === 1 ? part : part.replace(/\s+/g, " ")))
+    .join("")
+    .trim()
+    .replace(/(\s*;)+$/, "");
+}
+
+/**
+ * Fingerprint of what an intent asks for, from the fields that shape the
+ * query. Resolver bookkeeping (confidence, follow-up and clarification flags)
+ * and any field not listed here are left out, and metrics, dimensions and
+ * filters are order-insensitive.
+ */
+export function intentFingerprint(intent: IntentObject): string {
+  return sha256(
+    canonicalJson({
+      queryType: intent.queryType,
+      metrics: [...intent.metrics].sort(),
+      adHocMetrics: intent.adHocMetrics,
+      dimensions: [...intent.dimensions].sort(),
+      filters: intent.filters.map(canonicalJson).sort(),
+      timeRange: intent.timeRange,
+      comparisonMode: intent.comparisonMode,
+      sortBy: intent.sortBy,
+      sortOrder: intent.sortOrder,
+      limit: intent.limit,
+    }),
+  );
+}
+
+/**
+ * Version of a semantic layer derived from its content and governed
+ * definitions, for callers that do not track one
+ */
+export function semanticContentVersion(
+  semanticMarkdown: string,
+  definitions?: SemanticDefinitions,
+): string {
+  return sha256(definitions ? semanticMarkdown + JSON.stringify(definitions) : semanticMarkdown).slice(0, 16);
+}
+
+/**
+ * Two-tier query cache:
+ * - result sets, keyed by connection, semantic layer version and normalised SQL
+ * - orchestrator responses, keyed by connection, semantic layer version,
+ *   dialect and intent fingerprint
+ */
+export class QueryCache {
+  private store: CacheStore;
+  private ttlMs: number;
+
+  constructor(options: { ttlMs?: number; maxSize?: number; store?: CacheStore } = {}) {
+    this.store = options.store ?? new MemoryCacheStore({ maxSize: options.maxSize });
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000; // 5 minutes default
+  }
+
+  private resultKey(scope: CacheScope, sql: string): string {
+    return `result:${scope.connectionId}:${scope.semanticVersion}:${sha256(normalizeSql(sql))}`;
+  }
+
+  private responseKey(scope: CacheScope, intent: IntentObject, dialect: string): string {
+    return `response:${scope.connectionId}:${scope.semanticVersion}:${dialect}:${intentFingerprint(intent)}`;
+  }
+
+  /**
+   * Get the cached result of a query
+   */
+  async getResult(scope: CacheScope, sql: string): Promise<ResultSet | undefined> {
+    return (await this.store.get(this.resultKey(scope, sql))) as ResultSet | undefined;
+  }
+
+  /**
+   * Store the result of a query
+   */
+  async setResult(scope: CacheScope, sql: string, resultSet: ResultSet): Promise<void> {
+    await this.store.set(this.resultKey(scope, sql), resultSet, {
+      connectionId: scope.connectionId,
+      ttlMs: this.ttlMs,
+    });
+  }
+
+  /**
+   * Get the cached response for an intent
+   */
+  async getResponse(
+    scope: CacheScope,
+    intent: IntentObject,
+    dialect: string,
+  ): Promise<OrchestratorResponse | undefined> {
+    return (await this.store.get(this.responseKey(scope, intent, dialect))) as
+      | OrchestratorResponse
+      | undefined;
+  }
+
+  /**
+   * Store the response for an intent
+   */
+  async setResponse(
+    scope: CacheScope,
+    intent: IntentObject,
+    dialect: string,
+    response: OrchestratorResponse,
+  ): Promise<void> {
+    await this.store.set(this.responseKey(scope, intent, dialect), response, {
+      connectionId: scope.connectionId,
+      ttlMs: this.ttlMs,
+    });
+  }
+
+  /**
+   * Drop every cached result and response of a connection, e.g. after its
+   * semantic layer is saved
+   */
+  async invalidateConnection(connectionId: string): Promise<void> {
+    await this.store.invalidateConnection(connectionId);
+  }
+
+  /**
+   * Clear all cached entries
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * Get current cache size (0 for stores that cannot count entries)
+   */
+  get size(): number {
+    return this.store.size ?? 0;
+  }
+}
+
 /**
  * Create a shared cache instance
  */
 export function createQueryCache(options?: {
   ttlMs?: number;
   maxSize?: number;
+  store?: CacheStore;
 }): QueryCache {
   return new QueryCache(options);
 }
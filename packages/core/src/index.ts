@@ -17,8 +17,13 @@ export {
   generateNarrative,
   generateSemantic,
   generateSemanticFromSchema,
+  refreshSemantic,
+  refreshSemanticFromSchema,
   generateCommands,
   generateCommandsFromSemantic,
+  suggestSemanticEdits,
+  suggestSemanticEditsFromFeedback,
+  applySemanticEdits,
   type IntentResolverInput,
   type SqlGeneratorInput,
   type SqlValidatorInput,
@@ -29,9 +34,14 @@ export {
   type NarrativeInput,
   type SemanticGeneratorInput,
   type SemanticGeneratorOutput,
+  type SemanticRefreshInput,
+  type SemanticRefreshOutput,
   type CommandGeneratorInput,
   type CommandGeneratorOutput,
   type GeneratedCommand,
+  type FlaggedAnswer,
+  type SemanticSuggesterInput,
+  type SemanticSuggesterOutput,
 } from "./agents/index.js";
 
 // Types
@@ -55,8 +65,77 @@ export {
   type LoggerOptions,
 } from "./logger.js";
 
+// Session context
+export {
+  buildSessionContext,
+  selectTurnsWithinBudget,
+  summarizeIntent,
+  estimateTokens,
+  type SessionMessage,
+  type BuildSessionContextOptions,
+} from "./session-context.js";
+
 // Cache
-export { QueryCache, createQueryCache } from "./cache.js";
+export {
+  QueryCache,
+  MemoryCacheStore,
+  createQueryCache,
+  normalizeSql,
+  intentFingerprint,
+  semanticContentVersion,
+  type CacheStore,
+  type CacheScope,
+} from "./cache.js";
+
+// Verified queries
+export {
+  questionSimilarity,
+  selectVerifiedQueries,
+  findVerifiedQuery,
+  MAX_VERIFIED_EXAMPLES,
+  MIN_VERIFIED_SIMILARITY,
+  CLOSE_VERIFIED_SIMILARITY,
+  type VerifiedQueryMatch,
+} from "./verified-queries.js";
+
+// Governed metric compilation
+export {
+  compileMetricQuery,
+  describeDefinitions,
+  type MetricCompilation,
+} from "./metric-compiler.js";
+
+// Schema changes
+export { diffSchemas, describeSchemaChange } from "./schema-diff.js";
+export { checkSchemaDrift, type SchemaDriftInput } from "./schema-drift.js";
+export {
+  DEFAULT_SCHEMA_CONTEXT_LENGTH,
+  selectSchemaContext,
+  type SchemaContext,
+  type SchemaContextOptions,
+  type SchemaContextSignals,
+} from "./schema-context.js";
+
+// Dialect transpilation
+export {
+  transpileSql,
+  transpilerLimitations,
+  DIALECT_LABELS,
+  type TranspileResult,
+} from "./sql-transpiler.js";
+
+// Query cost budgets
+export {
+  checkQueryCost,
+  complexityFromCost,
+  planHints,
+  LARGE_TABLE_ROWS,
+  type BudgetVerdict,
+  type QueryCostCheck,
+} from "./query-budget.js";
+
+// Schema-aware SQL checks
+export { checkSqlAgainstSchema } from "./sql-schema-validator.js";
 
 // Mocks (for testing)
 export {
@@ -0,0 +1,351 @@
+import type {
+  DimensionDefinition,
+  FilterClause,
+  IntentObject,
+  MetricDefinition,
+  SemanticDefinitions,
+  TimeGrain,
+} from "@heydata/shared";
+
+/**
+ * Outcome of compiling an intent. When the intent goes beyond the governed
+ * definitions, `reason` says why and the SQL generator writes the query.
+ */
+export type MetricCompilation =
+  | { compiled: true; sql: string; tablesTouched: string[] }
+  | { compiled: false; reason: string };
+
+const GRAIN_UNITS: Record<TimeGrain, string> = {
+  hourly: "hour",
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  quarterly: "quarter",
+  yearly: "year",
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A join from one table to the next, as used in a FROM clause */
+interface JoinStep {
+  table: string;
+  joinType: "inner" | "left" | "right" | "full";
+  on: string;
+}
+
+/** An edge of the join graph; `fansOut` when it can repeat rows of the side it starts from */
+interface JoinEdge extends JoinStep {
+  fansOut: boolean;
+}
+
+/** Thrown inside the compiler for intents it cannot express; never escapes */
+class Unsupported extends Error {}
+
+function quoteIdentifier(name: string): string {
+  return /^[a-z_][a-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string | number | boolean): string {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Unsupported(`Invalid filter value ${value}`);
+    return String(value);
+  }
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Tables a SQL snippet qualifies columns with (orders.amount → orders), string literals ignored */
+function referencedTables(sql: string): string[] {
+  const withoutStrings = sql.replace(/'(?:[^']|'')*'/g, "''");
+  const tables: string[] = [];
+  for (const match of withoutStrings.matchAll(/\b([A-Za-z_]\w*)\s*\.\s*[A-Za-z_"]/g)) {
+    if (!tables.includes(match[1]!)) tables.push(match[1]!);
+  }
+  return tables;
+}
+
+/** Find a definition by name, then case-insensitively by name or synonym */
+function lookup<T extends { name: string; synonyms?: string[] }>(items: T[], name: string): T | undefined {
+  const lower = name.toLowerCase();
+  return (
+    items.find((item) => item.name === name) ??
+    items.find((item) => item.name.toLowerCase() === lower) ??
+    items.find((item) => item.synonyms?.some((s) => s.toLowerCase() === lower))
+  );
+}
+
+/**
+ * Join graph over the entity definitions, keyed by table. Every relationship
+ * is walkable both ways; an edge fans out when it goes to the "many" side.
+ */
+function buildJoinGraph(definitions: SemanticDefinitions): Map<string, JoinEdge[]> {
+  const graph = new Map<string, JoinEdge[]>();
+  const entities = new Map(definitions.entities.map((e) => [e.name, e]));
+  const addEdge = (from: string, edge: JoinEdge) => {
+    graph.set(from, [...(graph.get(from) ?? []), edge]);
+  };
+
+  for (const entity of definitions.entities) {
+    for (const rel of entity.relationships ?? []) {
+      const target = entities.get(rel.target);
+      if (!target) continue;
+      const on = `${entity.table}.${rel.foreignKey} = ${target.table}.${rel.targetKey}`;
+      addEdge(entity.table, {
+        table: target.table,
+        joinType: rel.joinType ?? "left",
+        on,
+        fansOut: rel.type === "one-to-many" || rel.type === "many-to-many",
+      });
+      addEdge(target.table, {
+        table: entity.table,
+        joinType: "left",
+        on,
+        fansOut: rel.type === "many-to-one" || rel.type === "many-to-many",
+      });
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Joins that reach every required table from the base table along the
+ * shortest paths that never fan out, so each base row is counted once
+ */
+function planJoins(base: string, required: string[], graph: Map<string, JoinEdge[]>): JoinStep[] {
+  const via = new Map<string, { from: string; edge: JoinEdge } | null>([[base, null]]);
+  const queue = [base];
+  while (queue.length > 0) {
+    const table = queue.shift()!;
+    for (const edge of graph.get(table) ?? []) {
+      if (edge.fansOut || via.has(edge.table)) continue;
+      via.set(edge.table, { from: table, edge });
+      queue.push(edge.table);
+    }
+  }
+
+  const joins: JoinStep[] = [];
+  for (const table of required) {
+    if (!via.has(table)) {
+      throw new Unsupported(`No join from ${base} to ${table} that keeps one row per ${base} row`);
+    }
+    const path: JoinEdge[] = [];
+    for (let step = via.get(table); step; step = via.get(step.from)) path.unshift(step.edge);
+    for (const { table: joined, joinType, on } of path) {
+      if (!joins.some((j) => j.table === joined)) joins.push({ table: joined, joinType, on });
+    }
+  }
+  return joins;
+}
+
+function dimensionColumn(dimension: DimensionDefinition): string {
+  return `${dimension.table}.${dimension.column}`;
+}
+
+/** Day after a YYYY-MM-DD date; time ranges include their end date */
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
+
+function filterPredicate(column: string, filter: FilterClause): string {
+  const { operator, value } = filter;
+  if (value === "") throw new Unsupported(`Filter on ${filter.dimension} has no value`);
+  const list = Array.isArray(value) ? value : [value];
+
+  switch (operator) {
+    case "eq":
+    case "in":
+      return list.length === 1
+        ? `${column} = ${quoteLiteral(list[0]!)}`
+        : `${column} IN (${list.map(quoteLiteral).join(", ")})`;
+    case "neq":
+    case "not_in":
+      return list.length === 1
+        ? `${column} <> ${quoteLiteral(list[0]!)}`
+        : `${column} NOT IN (${list.map(quoteLiteral).join(", ")})`;
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      if (Array.isArray(value)) throw new Unsupported(`Filter on ${filter.dimension} compares to a list`);
+      const op = { gt: ">", gte: ">=", lt: "<", lte: "<=" }[operator];
+      return `${column} ${op} ${quoteLiteral(value)}`;
+    }
+    case "like": {
+      if (Array.isArray(value)) throw new Unsupported(`Filter on ${filter.dimension} matches a list`);
+      const pattern = String(value);
+      return `${column} ILIKE ${quoteLiteral(pattern.includes("%") ? pattern : `%${pattern}%`)}`;
+    }
+    case "between":
+      if (!Array.isArray(value) || value.length !== 2) {
+        throw new Unsupported(`Filter on ${filter.dimension} needs two values for between`);
+      }
+      return `${column} BETWEEN ${quoteLiteral(value[0]!)} AND ${quoteLiteral(value[1]!)}`;
+  }
+}
+
+/**
+ * SELECT for one metric, grouped by the requested dimensions
+ */
+function compileMetric(
+  metric: MetricDefinition,
+  dimensions: DimensionDefinition[],
+  intent: IntentObject,
+  grain: TimeGrain | undefined,
+  definitions: SemanticDefinitions,
+  graph: Map<string, JoinEdge[]>,
+): { sql: string; tables: string[] } {
+  const base = metric.table ?? referencedTables(metric.formula)[0];
+  if (!base) throw new Unsupported(`Metric ${metric.name} has no table`);
+
+  const allowed = (dimension: DimensionDefinition) => {
+    if (!metric.dimensions.includes(dimension.name)) {
+      throw new Unsupported(`Metric ${metric.name} cannot be split by dimension ${dimension.name}`);
+    }
+    return dimension;
+  };
+
+  const selected = dimensions.map(allowed).map((dimension) => {
+    const column = dimensionColumn(dimension);
+    const expression =
+      dimension.type === "date" && grain ? `DATE_TRUNC('${GRAIN_UNITS[grain]}', ${column})` : column;
+    return `${expression} AS ${quoteIdentifier(dimension.name)}`;
+  });
+
+  const predicates = (metric.defaultFilters ?? []).map((f) => `(${f})`);
+  const filterTables: string[] = [];
+
+  if (intent.timeRange) {
+    const { start, end } = intent.timeRange;
+    if (!ISO_DATE.test(start) || !ISO_DATE.test(end)) {
+      throw new Unsupported(`Time range ${start} to ${end} is not a pair of dates`);
+    }
+    const timeDimension = metric.timeDimension
+      ? lookup(definitions.dimensions, metric.timeDimension)
+      : (dimensions.find((d) => d.type === "date" && metric.dimensions.includes(d.name)) ??
+        definitions.dimensions.find((d) => d.type === "date" && metric.dimensions.includes(d.name)));
+    if (!timeDimension) throw new Unsupported(`Metric ${metric.name} has no date dimension for the time range`);
+    const column = dimensionColumn(timeDimension);
+    predicates.push(`${column} >= ${quoteLiteral(start)}`, `${column} < ${quoteLiteral(nextDay(end))}`);
+    filterTables.push(timeDimension.table);
+  }
+
+  for (const filter of intent.filters) {
+    const dimension = lookup(definitions.dimensions, filter.dimension);
+    if (!dimension) throw new Unsupported(`Unknown dimension ${filter.dimension}`);
+    predicates.push(filterPredicate(dimensionColumn(allowed(dimension)), filter));
+    filterTables.push(dimension.table);
+  }
+
+  // Tables the query needs beyond the base: those of the dimensions, and any
+  // known table the formula or default filters qualify columns with
+  const known = new Set([
+    ...definitions.entities.map((e) => e.table),
+    ...definitions.dimensions.map((d) => d.table),
+  ]);
+  const required = [
+    ...dimensions.map((d) => d.table),
+    ...filterTables,
+    ...[metric.formula, ...(metric.defaultFilters ?? [])].flatMap(referencedTables).filter((t) => known.has(t)),
+  ].filter((table, i, all) => table !== base && all.indexOf(table) === i);
+  const joins = planJoins(base, required, graph);
+
+  const lines = [
+    `SELECT ${[...selected, `${metric.formula} AS ${quoteIdentifier(metric.name)}`].join(", ")}`,
+    `FROM ${base}`,
+    ...joins.map((j) => `${j.joinType.toUpperCase()} JOIN ${j.table} ON ${j.on}`),
+  ];
+  if (predicates.length > 0) lines.push(`WHERE ${predicates.join("\n  AND ")}`);
+  if (selected.length > 0) lines.push(`GROUP BY ${selected.map((_, i) => i + 1).join(", ")}`);
+
+  return { sql: lines.join("\n"), tables: [base, ...joins.map((j) => j.table)] };
+}
+
+/**
+ * Compile an intent that only references governed metrics into PostgreSQL.
+ * The same intent and definitions always give the same SQL: one SELECT per
+ * metric, joined on the requested dimensions when there are several.
+ */
+export function compileMetricQuery(intent: IntentObject, definitions: SemanticDefinitions): MetricCompilation {
+  try {
+    if (intent.adHocMetrics.length > 0) throw new Unsupported("The intent has ad-hoc metrics");
+    if (intent.metrics.length === 0) throw new Unsupported("The intent has no governed metrics");
+    if (intent.comparisonMode && intent.comparisonMode !== "none") {
+      throw new Unsupported(`Comparison mode ${intent.comparisonMode} is not compiled`);
+    }
+
+    const metrics = intent.metrics.map((name) => {
+      const metric = lookup(definitions.metrics, name);
+      if (!metric) throw new Unsupported(`Unknown metric ${name}`);
+      return metric;
+    });
+    const dimensions = intent.dimensions.map((name) => {
+      const dimension = lookup(definitions.dimensions, name);
+      if (!dimension) throw new Unsupported(`Unknown dimension ${name}`);
+      return dimension;
+    });
+
+    const grain = intent.timeRange?.grain ?? metrics.find((m) => m.grain)?.grain;
+    const graph = buildJoinGraph(definitions);
+    const parts = metrics.map((metric) => compileMetric(metric, dimensions, intent, grain, definitions, graph));
+
+    const dimensionNames = dimensions.map((d) => quoteIdentifier(d.name));
+    const metricNames = metrics.map((m) => quoteIdentifier(m.name));
+
+    let sql: string;
+    if (parts.length === 1) {
+      sql = parts[0]!.sql;
+    } else {
+      const ctes = parts.map((part, i) => `metric_${i + 1} AS (\n${part.sql}\n)`);
+      const joins = parts
+        .slice(1)
+        .map((_, i) =>
+          dimensionNames.length > 0
+            ? `FULL JOIN metric_${i + 2} USING (${dimensionNames.join(", ")})`
+            : `CROSS JOIN metric_${i + 2}`,
+        );
+      sql = [
+        `WITH ${ctes.join(",\n")}`,
+        `SELECT ${[...dimensionNames, ...metricNames].join(", ")}`,
+        "FROM metric_1",
+        ...joins,
+      ].join("\n");
+    }
+
+    // Sort by the requested column, else chronologically, else largest first for top-N
+    const sortDimension = intent.sortBy ? lookup(dimensions, intent.sortBy) : undefined;
+    const sortMetric = intent.sortBy ? lookup(metrics, intent.sortBy) : undefined;
+    const dateDimension = dimensions.find((d) => d.type === "date");
+    if (sortDimension || sortMetric) {
+      const direction = intent.sortOrder ?? (sortMetric ? "desc" : "asc");
+      sql += `\nORDER BY ${quoteIdentifier((sortDimension ?? sortMetric)!.name)} ${direction.toUpperCase()}`;
+    } else if (dateDimension) {
+      sql += `\nORDER BY ${quoteIdentifier(dateDimension.name)} ASC`;
+    } else if (intent.limit) {
+      sql += `\nORDER BY ${metricNames[0]} DESC`;
+    }
+    if (intent.limit) sql += `\nLIMIT ${intent.limit}`;
+
+    const tablesTouched = [...new Set(parts.flatMap((p) => p.tables))].sort();
+    return { compiled: true, sql, tablesTouched };
+  } catch (error) {
+    if (error instanceof Unsupported) return { compiled: false, reason: error.message };
+    throw error;
+  }
+}
+
+/**
+ * The governed metrics with their formulas, default filters and allowed
+ * dimensions, for agent prompts
+ */
+export function describeDefinitions(definitions: SemanticDefinitions): string {
+  return definitions.metrics
+    .map((m) => {
+      const synonyms = m.synonyms?.length ? ` (also: ${m.synonyms.join(", ")})` : "";
+      const filters = m.defaultFilters?.length ? `; always filtered by ${m.defaultFilters.join(" AND ")}` : "";
+      return `- ${m.name}${synonyms}: ${m.description} Formula: ${m.formula}${filters}; dimensions: ${m.dimensions.join(", ") || "none"}`;
+    })
+    .join("\n");
+}
@@ -1,14 +1,26 @@
 import Anthropic from "@anthropic-ai/sdk";
 import {
   HeyDataError,
+  MAX_DATA_VALIDATION_RETRIES,
+  MAX_EXECUTION_RETRIES,
+  MAX_SQL_RETRIES,
   type AgentTrace,
   type EnrichedResultSet,
+  type GeneratedSQL,
   type InsightAnnotation,
+  type IntentObject,
   type OrchestratorResponse,
   type OrchestratorTrace,
+  type PipelineProgressEvent,
+  type PipelineStep,
+  type QueryBudget,
+  type QueryCostEstimate,
   type ResultSet,
+  type SchemaSelection,
   type SemanticMetadata,
   type SessionContext,
+  type VerifiedQuery,
+  type VerifiedQueryRef,
   type VisualizationSpec,
   type WarehouseDialect,
 } from "@heydata/shared";
@@ -21,9 +33,14 @@ import {
   validateData,
   validateSql,
 } from "./agents/index.js";
-import { QueryCache } from "./cache.js";
+import { QueryCache, semanticContentVersion, type CacheScope, type CacheStore } from "./cache.js";
 import { createLogger, type Logger, type LogLevel } from "./logger.js";
-import type { AgentContext } from "./types.js";
+import { compileMetricQuery } from "./metric-compiler.js";
+import { checkQueryCost, complexityFromCost, type QueryCostCheck } from "./query-budget.js";
+import { DEFAULT_SCHEMA_CONTEXT_LENGTH, selectSchemaContext } from "./schema-context.js";
+import { transpileSql } from "./sql-transpiler.js";
+import { createErrorTrace, createSuccessTrace, type AgentContext } from "./types.js";
+import { findVerifiedQuery, selectVerifiedQueries, type VerifiedQueryMatch } from "./verified-queries.js";
 
 /**
  * Configuration for the orchestrator
@@ -39,16 +56,27 @@ export interface OrchestratorConfig {
   dialect?: WarehouseDialect;
   /** Maximum retries for SQL generation */
   maxSqlRetries?: number;
-  /** Maximum retries for data validation */
+  /** Maximum SQL regenerations after the database rejects a query */
+  maxExecutionRetries?: number;
+  /** Maximum SQL re-plans when data validation finds blocking problems */
   maxDataRetries?: number;
   /** Enable response caching */
   enableCache?: boolean;
   /** Cache TTL in milliseconds */
   cacheTtlMs?: number;
+  /** Where cached results and responses are kept (defaults to in-process memory) */
+  cacheStore?: CacheStore;
   /** Logger instance (defaults to info-level console logger) */
   logger?: Logger;
   /** Log level (ignored if logger is provided) */
   logLevel?: LogLevel;
+  /** Planner cost limits, enforced when the input can estimate query cost */
+  queryBudget?: QueryBudget;
+  /**
+   * Characters of raw schema DDL given to an agent. Larger schemas are
+   * pruned to the tables relevant to each question.
+   */
+  schemaContextLength?: number;
 }
 
 /**
@@ -63,21 +91,62 @@ export interface OrchestratorInput {
   semanticMetadata: SemanticMetadata;
   /** Function to execute SQL queries */
   executeQuery: (sql: string) => Promise<ResultSet>;
+  /** Function to estimate a query's planner cost without running it */
+  explainQuery?: (sql: string) => Promise<QueryCostEstimate>;
+  /** The user has agreed to run a query above the budget's confirmation threshold */
+  costConfirmed?: boolean;
+  /**
+   * Question and SQL pairs checked by an analytics engineer. The most similar
+   * are given to the intent resolver and SQL generator as examples.
+   */
+  verifiedQueries?: VerifiedQuery[];
+  /**
+   * What cached entries are valid for. The semantic layer version defaults to
+   * a hash of the semantic markdown and definitions, and is recorded on the
+   * response as `semanticVersion`.
+   */
+  cacheScope?: { connectionId: string; semanticVersion?: string };
   /** Optional abort signal */
   signal?: AbortSignal;
+  /** Receives progress events (steps, generated SQL, row count, narrative tokens) as the pipeline runs */
+  onProgress?: (event: PipelineProgressEvent) => void;
+}
+
+/**
+ * A progress event before the orchestrator stamps it with a timestamp
+ */
+type ProgressEventBody = PipelineProgressEvent extends infer E
+  ? E extends PipelineProgressEvent
+    ? Omit<E, "timestamp">
+    : never
+  : never;
+
+/**
+ * Whether a failed execution is worth regenerating the SQL for.
+ * Connection failures and timeouts won't be fixed by a different query.
+ */
+function isRetryableExecutionError(error: unknown): boolean {
+  if (error instanceof HeyDataError) {
+    return error.code !== "CONNECTION_FAILED" && error.code !== "QUERY_TIMEOUT";
+  }
+  return true;
 }
 
 /**
  * Default configuration values
  */
-const DEFAULT_CONFIG: Required<Omit<OrchestratorConfig, "apiKey" | "logger" | "logLevel">> = {
+const DEFAULT_CONFIG: Required<
+  Omit<OrchestratorConfig, "apiKey" | "logger" | "logLevel" | "queryBudget" | "cacheStore">
+> = {
   model: "claude-haiku-4-5-20251001",
   fastModel: "claude-haiku-4-5-20251001",
   dialect: "postgresql",
-  maxSqlRetries: 3,
-  maxDataRetries: 2,
+  maxSqlRetries: MAX_SQL_RETRIES,
+  maxExecutionRetries: MAX_EXECUTION_RETRIES,
+  maxDataRetries: MAX_DATA_VALIDATION_RETRIES,
   enableCache: true,
   cacheTtlMs: 5 * 60 * 1000, // 5 minutes
+  schemaContextLength: DEFAULT_SCHEMA_CONTEXT_LENGTH,
 };
 
 /**
@@ -85,7 +154,8 @@ const DEFAULT_CONFIG: Required<Omit<OrchestratorConfig, "apiKey" | "logger" | "l
  */
 export class Orchestrator {
   private client: Anthropic;
-  private config: Required<Omit<OrchestratorConfig, "logger" | "logLevel">>;
+  private config: Required<Omit<OrchestratorConfig, "logger" | "logLevel" | "queryBudget" | "cacheStore">> &
+    Pick<OrchestratorConfig, "queryBudget">;
   private cache: QueryCache | null;
   private log: Logger;
 
@@ -93,7 +163,7 @@ export class Orchestrator {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.client = new Anthropic({ apiKey: config.apiKey });
     this.cache = this.config.enableCache
-      ? new QueryCache({ ttlMs: this.config.cacheTtlMs })
+      ? new QueryCache({ ttlMs: this.config.cacheTtlMs, store: config.cacheStore })
       : null;
     this.log = config.logger ?? createLogger({ level: config.logLevel ?? "info" });
   }
@@ -129,6 +199,7 @@ export class Orchestrator {
     requestId: string,
     startedAt: Date,
     agentTraces: AgentTrace[],
+    schemaSelections: SchemaSelection[] = [],
   ): OrchestratorTrace {
     const completedAt = new Date();
     return {
@@ -139,9 +210,103 @@ export class Orchestrator {
       agentTraces,
       totalInputTokens: agentTraces.reduce((sum, t) => sum + t.inputTokens, 0),
       totalOutputTokens: agentTraces.reduce((sum, t) => sum + t.outputTokens, 0),
+      ...(schemaSelections.length > 0 ? { schemaSelections } : {}),
+    };
+  }
+
+  /**
+   * The semantic metadata with `rawSchemaDDL` cut down to the tables an
+   * agent needs for this question (and intent, once resolved). Without an
+   * introspected schema the caller's DDL is used as is.
+   */
+  private withSchemaContext(
+    input: OrchestratorInput,
+    agent: SchemaSelection["agent"],
+    verifiedExamples: VerifiedQueryMatch[],
+    schemaSelections: SchemaSelection[],
+    intent?: IntentObject,
+  ): SemanticMetadata {
+    const { semanticMetadata } = input;
+    if (!semanticMetadata.rawSchema) return semanticMetadata;
+
+    const { ddl, selection } = selectSchemaContext(
+      semanticMetadata.rawSchema,
+      {
+        question: input.question,
+        sessionContext: input.sessionContext,
+        intent,
+        semanticMarkdown: semanticMetadata.semanticMarkdown,
+        definitions: semanticMetadata.definitions,
+        verifiedExamples,
+        verifiedQueries: input.verifiedQueries,
+      },
+      { agent, dialect: this.config.dialect, maxLength: this.config.schemaContextLength },
+    );
+    schemaSelections.push(selection);
+    if (selection.pruned) {
+      this.log.info(`[Orchestrator] Schema context for ${agent}`, {
+        tables: `${selection.tables.length} of ${selection.totalTables}`,
+        selected: selection.tables.map((t) => t.table).join(", "),
+      });
+    }
+    return { ...semanticMetadata, rawSchemaDDL: ddl };
+  }
+
+  /**
+   * Forward a progress event to the caller.
+   * Listener errors are logged and never interrupt the pipeline.
+   */
+  private emitProgress(input: OrchestratorInput, event: ProgressEventBody): void {
+    if (!input.onProgress) return;
+    try {
+      input.onProgress({ ...event, timestamp: new Date().toISOString() } as PipelineProgressEvent);
+    } catch (error) {
+      this.log.warn("[Orchestrator] Progress listener threw", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Emit step_started and return a callback that emits the matching step_finished
+   */
+  private beginStep(
+    input: OrchestratorInput,
+    step: PipelineStep,
+    attempt?: number,
+  ): (success: boolean, error?: string) => void {
+    const startedAt = Date.now();
+    this.emitProgress(input, { type: "step_started", step, attempt });
+    return (success, error) => {
+      this.emitProgress(input, {
+        type: "step_finished",
+        step,
+        success,
+        durationMs: Date.now() - startedAt,
+        error,
+      });
     };
   }
 
+  /**
+   * Run a pipeline step, reporting its start and outcome as progress events
+   */
+  private async runStep<T>(
+    input: OrchestratorInput,
+    step: PipelineStep,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const finish = this.beginStep(input, step);
+    try {
+      const result = await fn();
+      finish(true);
+      return result;
+    } catch (error) {
+      finish(false, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
   /**
    * Process a user question through the full pipeline
    */
@@ -154,29 +319,27 @@ export class Orchestrator {
     this.log.info(`[Orchestrator] Starting request: ${requestId}`);
     this.log.debug(`[Orchestrator] Question: "${input.question}"`);
 
-    // Check cache first
-    if (this.cache) {
-      const cached = this.cache.get({
-        question: input.question,
-        sessionId: input.sessionContext?.sessionId,
-        dialect: this.config.dialect,
+    const { semanticVersion } = this.cacheScope(input);
+    const verifiedExamples = selectVerifiedQueries(input.question, input.verifiedQueries ?? []);
+    if (verifiedExamples.length > 0) {
+      this.log.info("[Orchestrator] Verified examples selected", {
+        examples: verifiedExamples.map((m) => `${m.query.id} (${m.similarity.toFixed(2)})`).join(", "),
       });
-      if (cached) {
-        this.log.info("[Orchestrator] Cache HIT - returning cached response");
-        return cached;
-      }
-      this.log.debug("[Orchestrator] Cache MISS - processing query");
     }
+    const schemaSelections: SchemaSelection[] = [];
 
     try {
       // Step 1: Resolve intent
       this.log.info("[Step 1] Intent Resolver - starting");
-      const intentResult = await resolveIntent({
-        context,
-        question: input.question,
-        sessionContext: input.sessionContext,
-        semanticMetadata: input.semanticMetadata,
-      });
+      const intentResult = await this.runStep(input, "intent", () =>
+        resolveIntent({
+          context,
+          question: input.question,
+          sessionContext: input.sessionContext,
+          semanticMetadata: this.withSchemaContext(input, "intent_resolver", verifiedExamples, schemaSelections),
+          verifiedExamples,
+        }),
+      );
       agentTraces.push(intentResult.trace);
       this.log.info("[Step 1] Intent Resolver - complete", {
         queryType: intentResult.data.queryType,
@@ -194,85 +357,91 @@ export class Orchestrator {
         this.log.info("[Step 1] Clarification needed", {
           question: intentResult.data.clarificationQuestion,
         });
-        const trace = this.buildTrace(requestId, startedAt, agentTraces);
+        const trace = this.buildTrace(requestId, startedAt, agentTraces, schemaSelections);
         return {
           requestId,
           intent: intentResult.data,
           trace,
           clarificationQuestion: intentResult.data.clarificationQuestion,
+          semanticVersion,
         };
       }
 
-      // Step 2 & 3: Generate and validate SQL with feedback loop
-      this.log.info("[Step 2-3] SQL Generation & Validation - starting");
-      const { sqlResult, validationResult } = await this.generateAndValidateSql(
+      // The same request was answered recently; reuse the response
+      const cached = await this.readCache(() =>
+        this.cache?.getResponse(this.cacheScope(input), intentResult.data, this.config.dialect),
+      );
+      if (cached) {
+        this.log.info("[Orchestrator] Response cache HIT - returning cached response");
+        return {
+          ...cached,
+          requestId,
+          intent: intentResult.data,
+          trace: this.buildTrace(requestId, startedAt, agentTraces, schemaSelections),
+          verifiedQuery: cached.sql ? this.verifiedQueryRef(cached.sql, input) : undefined,
+          semanticVersion,
+        };
+      }
+
+      // The SQL generator only reads the raw schema for ad-hoc metrics; pick
+      // its tables again now that the intent names them
+      const sqlInput =
+        intentResult.data.adHocMetrics.length > 0
+          ? {
+              ...input,
+              semanticMetadata: this.withSchemaContext(
+                input,
+                "sql_generator",
+                verifiedExamples,
+                schemaSelections,
+                intentResult.data,
+              ),
+            }
+          : input;
+
+      // Steps 2-5: Generate, validate and execute SQL, then check the data,
+      // re-planning the SQL when either the database or the data checks reject it
+      const outcome = await this.generateAndValidateResults(
         context,
         intentResult.data,
-        input.semanticMetadata,
+        sqlInput,
         agentTraces,
+        verifiedExamples,
       );
-      agentTraces.push(validationResult.trace);
-      this.log.info("[Step 2-3] SQL Generation & Validation - complete", {
-        tablesTouched: sqlResult.data.tablesTouched,
-        complexity: sqlResult.data.estimatedComplexity,
-        valid: validationResult.data.valid,
-      });
-      this.log.debug("[Step 2-3] Generated SQL", { sql: sqlResult.data.sql });
 
-      // Step 4: Execute query
-      this.log.info("[Step 4] Query Execution - starting");
-      let resultSet: ResultSet;
-      try {
-        resultSet = await input.executeQuery(sqlResult.data.sql);
-        this.log.info("[Step 4] Query Execution - complete", {
-          rowCount: resultSet.rowCount,
-          columns: resultSet.columns.map(c => `${c.name}(${c.type})`).join(", "),
-          truncated: resultSet.truncated,
-        });
-      } catch (error) {
-        this.log.error("[Step 4] Query Execution - FAILED", {
-          error: error instanceof Error ? error.message : String(error),
-        });
-        throw new HeyDataError(
-          "QUERY_EXECUTION_FAILED",
-          `Query execution failed: ${error instanceof Error ? error.message : String(error)}`,
-          { agent: "orchestrator" },
-        );
+      // The query is over the cost confirmation threshold; ask before running it
+      if ("costConfirmationQuestion" in outcome) {
+        return {
+          requestId,
+          intent: intentResult.data,
+          sql: outcome.sqlResult.data,
+          trace: this.buildTrace(requestId, startedAt, agentTraces, schemaSelections),
+          costConfirmationQuestion: outcome.costConfirmationQuestion,
+          semanticVersion,
+        };
       }
-
-      // Step 5: Validate data
-      this.log.info("[Step 5] Data Validation - starting");
-      const dataValidationResult = await validateData({
-        context,
-        resultSet,
-        intent: intentResult.data,
-      });
-      agentTraces.push(dataValidationResult.trace);
-      this.log.info("[Step 5] Data Validation - complete", {
-        qualityFlags: dataValidationResult.data.qualityFlags.length,
-      });
-      this.log.debug("[Step 5] Column stats", {
-        stats: dataValidationResult.data.columnStats.map(s =>
-          `${s.column}: nulls=${s.nullCount}, distinct=${s.distinctCount}`
-        ).join("; "),
-      });
+      const { sqlResult, resultSet, dataValidationResult } = outcome;
 
       // Steps 6+7: Analyze data and plan visualization (parallel — no dependency between them)
       this.log.info("[Step 6+7] Data Analysis + Visualization Planning - starting (parallel)");
       const [analysisSettled, vizSettled] = await Promise.allSettled([
-        analyzeData({
-          context,
-          resultSet,
-          columnStats: dataValidationResult.data.columnStats,
-          intent: intentResult.data,
-          question: input.question,
-        }),
-        planVisualization({
-          context,
-          intent: intentResult.data,
-          resultSet,
-          semanticMd: input.semanticMetadata.semanticMarkdown,
-        }),
+        this.runStep(input, "analysis", () =>
+          analyzeData({
+            context,
+            resultSet,
+            columnStats: dataValidationResult.data.columnStats,
+            intent: intentResult.data,
+            question: input.question,
+          }),
+        ),
+        this.runStep(input, "visualization", () =>
+          planVisualization({
+            context,
+            intent: intentResult.data,
+            resultSet,
+            semanticMd: input.semanticMetadata.semanticMarkdown,
+          }),
+        ),
       ]);
 
       const analysisResult: { data: InsightAnnotation[]; trace: AgentTrace } =
@@ -330,14 +499,19 @@ export class Orchestrator {
 
       // Step 8: Generate narrative
       this.log.info("[Step 8] Narrative Generation - starting");
-      const narrativeResult = await generateNarrative({
-        context,
-        intent: intentResult.data,
-        resultSet,
-        insights: analysisResult.data,
-        qualityFlags: dataValidationResult.data.qualityFlags,
-        question: input.question,
-      });
+      const narrativeResult = await this.runStep(input, "narrative", () =>
+        generateNarrative({
+          context,
+          intent: intentResult.data,
+          resultSet,
+          insights: analysisResult.data,
+          qualityFlags: dataValidationResult.data.qualityFlags,
+          question: input.question,
+          onToken: input.onProgress
+            ? (text) => this.emitProgress(input, { type: "narrative_delta", text })
+            : undefined,
+        }),
+      );
       agentTraces.push(narrativeResult.trace);
       this.log.info("[Step 8] Narrative Generation - complete", {
         length: narrativeResult.data.length,
@@ -359,7 +533,9 @@ export class Orchestrator {
         results: enrichedResults,
         visualization: vizResult.data,
         narrative: narrativeResult.data,
-        trace: this.buildTrace(requestId, startedAt, agentTraces),
+        trace: this.buildTrace(requestId, startedAt, agentTraces, schemaSelections),
+        verifiedQuery: this.verifiedQueryRef(sqlResult.data, input),
+        semanticVersion,
       };
 
       this.log.info(`[Orchestrator] Request COMPLETE: ${requestId}`, {
@@ -367,20 +543,13 @@ export class Orchestrator {
       });
 
       // Cache the response
-      if (this.cache) {
-        this.cache.set(
-          {
-            question: input.question,
-            sessionId: input.sessionContext?.sessionId,
-            dialect: this.config.dialect,
-          },
-          response,
-        );
-      }
+      await this.writeCache(() =>
+        this.cache?.setResponse(this.cacheScope(input), intentResult.data, this.config.dialect, response),
+      );
 
       return response;
     } catch (error) {
-      const trace = this.buildTrace(requestId, startedAt, agentTraces);
+      const trace = this.buildTrace(requestId, startedAt, agentTraces, schemaSelections);
 
       this.log.error("[Orchestrator] Pipeline FAILED", {
         requestId,
@@ -402,6 +571,315 @@ export class Orchestrator {
     }
   }
 
+  /**
+   * Generate and execute SQL, then validate the returned data.
+   * Blocking (error-severity) quality flags such as an empty result or a
+   * wrong time grain are fed back to the SQL generator and the query is
+   * re-planned, up to maxDataRetries times. After that, or straight away for
+   * SQL compiled from governed metrics, the last result is used and its
+   * flags are surfaced in the narrative.
+   */
+  private async generateAndValidateResults(
+    context: AgentContext,
+    intent: Awaited<ReturnType<typeof resolveIntent>>["data"],
+    input: OrchestratorInput,
+    agentTraces: AgentTrace[],
+    verifiedExamples: VerifiedQueryMatch[],
+  ) {
+    let feedback: { previousSql: string; validationErrors: string[] } | undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      const executed = await this.generateAndExecuteSql(
+        context,
+        intent,
+        input,
+        agentTraces,
+        verifiedExamples,
+        feedback,
+      );
+      if ("costConfirmationQuestion" in executed) return executed;
+      const { sqlResult, resultSet } = executed;
+
+      // Step 5: Validate data
+      this.log.info("[Step 5] Data Validation - starting");
+      const dataValidationResult = await this.runStep(input, "data_validation", () =>
+        validateData({
+          context,
+          resultSet,
+          intent,
+        }),
+      );
+      dataValidationResult.trace.retryCount = attempt;
+      agentTraces.push(dataValidationResult.trace);
+      this.log.info("[Step 5] Data Validation - complete", {
+        qualityFlags: dataValidationResult.data.qualityFlags.length,
+      });
+      this.log.debug("[Step 5] Column stats", {
+        stats: dataValidationResult.data.columnStats.map(s =>
+          `${s.column}: nulls=${s.nullCount}, distinct=${s.distinctCount}`
+        ).join("; "),
+      });
+
+      const blockingFlags = dataValidationResult.data.qualityFlags.filter(
+        (f) => f.severity === "error",
+      );
+
+      if (blockingFlags.length === 0) {
+        return { sqlResult, resultSet, dataValidationResult };
+      }
+
+      if (attempt >= this.config.maxDataRetries) {
+        this.log.warn("[Step 5] Data retries exhausted - continuing with flagged results", {
+          flags: blockingFlags.map((f) => f.message),
+        });
+        return { sqlResult, resultSet, dataValidationResult };
+      }
+
+      // Governed metrics mean the same thing whatever the data looks like
+      if (sqlResult.data.compiled) {
+        this.log.warn("[Step 5] Compiled SQL is not re-planned - continuing with flagged results", {
+          flags: blockingFlags.map((f) => f.message),
+        });
+        return { sqlResult, resultSet, dataValidationResult };
+      }
+
+      // Feed the blocking flags back to the generator and re-plan
+      feedback = {
+        previousSql: sqlResult.data.sourceSql ?? sqlResult.data.sql,
+        validationErrors: blockingFlags.map(
+          (f) => `The query ran but its results failed a data check (${f.type}): ${f.message}`,
+        ),
+      };
+      this.log.warn(
+        `[Step 5] Data validation found ${blockingFlags.length} blocking issues - re-planning SQL (${attempt + 1}/${this.config.maxDataRetries})`,
+        { flags: blockingFlags.map((f) => ({ type: f.type, message: f.message })) },
+      );
+    }
+  }
+
+  /**
+   * Generate, validate and execute SQL.
+   * If the database rejects the query, or its estimated cost is over the
+   * connection's budget, the reason is fed back to the generator as a
+   * validation error and the SQL is regenerated (bounded by maxExecutionRetries).
+   * A query still over the confirmation threshold after that is returned
+   * with a question for the user instead of being run.
+   */
+  private async generateAndExecuteSql(
+    context: AgentContext,
+    intent: Awaited<ReturnType<typeof resolveIntent>>["data"],
+    input: OrchestratorInput,
+    agentTraces: AgentTrace[],
+    verifiedExamples: VerifiedQueryMatch[],
+    initialFeedback?: { previousSql: string; validationErrors: string[] },
+  ): Promise<
+    | { sqlResult: Awaited<ReturnType<typeof generateSql>>; resultSet: ResultSet }
+    | { sqlResult: Awaited<ReturnType<typeof generateSql>>; costConfirmationQuestion: string }
+  > {
+    let feedback = initialFeedback;
+    const maxAttempts = this.config.maxExecutionRetries + 1;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      this.log.info("[Step 2-3] SQL Generation & Validation - starting");
+      const { sqlResult, validationResult } = await this.generateAndValidateSql(
+        context,
+        intent,
+        input.semanticMetadata,
+        agentTraces,
+        input,
+        verifiedExamples,
+        feedback,
+      );
+      agentTraces.push(validationResult.trace);
+      this.log.info("[Step 2-3] SQL Generation & Validation - complete", {
+        tablesTouched: sqlResult.data.tablesTouched,
+        complexity: sqlResult.data.estimatedComplexity,
+        valid: validationResult.data.valid,
+      });
+      this.log.debug("[Step 2-3] Generated SQL", { sql: sqlResult.data.sql });
+
+      // The same query ran recently; skip the cost check and execution
+      const cachedResult = await this.readCache(() =>
+        this.cache?.getResult(this.cacheScope(input), sqlResult.data.sql),
+      );
+      if (cachedResult) {
+        this.log.info("[Step 4] Result cache HIT - skipping execution", {
+          rowCount: cachedResult.rowCount,
+        });
+        this.emitProgress(input, {
+          type: "rows_fetched",
+          rowCount: cachedResult.rowCount,
+          truncated: cachedResult.truncated,
+          executionTimeMs: cachedResult.executionTimeMs,
+        });
+        return { sqlResult, resultSet: cachedResult };
+      }
+
+      // Step 4a: Estimate the cost and hold the query to the connection's budget
+      const cost = await this.checkCost(sqlResult.data, input);
+      if (cost.verdict === "refuse" || (cost.verdict === "confirm" && !input.costConfirmed)) {
+        if (attempt < maxAttempts - 1) {
+          feedback = {
+            previousSql: sqlResult.data.sourceSql ?? sqlResult.data.sql,
+            validationErrors: [
+              `The query is too expensive: ${cost.message}. Write a cheaper query.`,
+              ...cost.hints,
+            ],
+          };
+          this.log.warn("[Step 4] Query over budget - requesting a cheaper query", {
+            verdict: cost.verdict,
+            costEstimate: sqlResult.data.costEstimate,
+          });
+          continue;
+        }
+        if (cost.verdict === "refuse") {
+          throw new HeyDataError("QUERY_BUDGET_EXCEEDED", `${cost.message}. Try a narrower question.`, {
+            agent: "orchestrator",
+            details: { sql: sqlResult.data.sql, costEstimate: sqlResult.data.costEstimate },
+          });
+        }
+        this.log.info("[Step 4] Query over confirmation threshold - asking the user");
+        return {
+          sqlResult,
+          costConfirmationQuestion: [`${cost.message}.`, ...cost.hints, "Run it anyway?"].join(" "),
+        };
+      }
+
+      // Step 4: Execute query
+      this.log.info(`[Step 4] Query Execution - starting (attempt ${attempt + 1}/${maxAttempts})`);
+      const startedAt = new Date();
+      const finishExecution = this.beginStep(input, "execution", attempt + 1);
+      try {
+        const resultSet = await input.executeQuery(sqlResult.data.sql);
+        agentTraces.push(
+          createSuccessTrace({
+            agent: "query_executor",
+            model: context.fastModel,
+            startedAt,
+            retryCount: attempt,
+          }),
+        );
+        this.emitProgress(input, {
+          type: "rows_fetched",
+          rowCount: resultSet.rowCount,
+          truncated: resultSet.truncated,
+          executionTimeMs: resultSet.executionTimeMs,
+        });
+        finishExecution(true);
+        this.log.info("[Step 4] Query Execution - complete", {
+          rowCount: resultSet.rowCount,
+          columns: resultSet.columns.map(c => `${c.name}(${c.type})`).join(", "),
+          truncated: resultSet.truncated,
+        });
+        await this.writeCache(() =>
+          this.cache?.setResult(this.cacheScope(input), sqlResult.data.sql, resultSet),
+        );
+        return { sqlResult, resultSet };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        agentTraces.push(
+          createErrorTrace(
+            {
+              agent: "query_executor",
+              model: context.fastModel,
+              startedAt,
+              retryCount: attempt,
+            },
+            error instanceof Error ? error : new Error(message),
+          ),
+        );
+        finishExecution(false, message);
+        this.log.error("[Step 4] Query Execution - FAILED", { error: message });
+
+        const retryable = isRetryableExecutionError(error) && !context.signal?.aborted;
+        if (!retryable || attempt === maxAttempts - 1) {
+          throw new HeyDataError(
+            "QUERY_EXECUTION_FAILED",
+            `Query execution failed: ${message}`,
+            { agent: "orchestrator", details: { sql: sqlResult.data.sql, attempts: attempt + 1 } },
+          );
+        }
+
+        // Feed the database error back to the generator
+        feedback = {
+          previousSql: sqlResult.data.sourceSql ?? sqlResult.data.sql,
+          validationErrors: [`The database rejected the query: ${message}`],
+        };
+        this.log.warn("[Step 4] Regenerating SQL from database error", { error: message });
+      }
+    }
+
+    // Unreachable: the final attempt either returns or throws
+    throw new HeyDataError("MAX_RETRIES_EXCEEDED", "SQL execution retries exhausted", {
+      agent: "orchestrator",
+    });
+  }
+
+  /**
+   * Estimate the query's cost when the input can EXPLAIN it, record the
+   * estimate on the generated SQL and check it against the budget.
+   * Estimation failures are logged and the query runs unchecked; the
+   * execution step reports anything actually wrong with it.
+   */
+  private async checkCost(
+    generatedSql: GeneratedSQL,
+    input: OrchestratorInput,
+  ): Promise<QueryCostCheck> {
+    const unchecked: QueryCostCheck = { verdict: "ok", message: "", hints: [] };
+    if (!input.explainQuery) return unchecked;
+
+    try {
+      const estimate = await input.explainQuery(generatedSql.sql);
+      generatedSql.costEstimate = estimate;
+      generatedSql.estimatedComplexity = complexityFromCost(estimate);
+      this.log.info("[Step 4] Cost estimate", {
+        totalCost: estimate.totalCost,
+        estimatedRows: estimate.estimatedRows,
+        seqScans: estimate.seqScans.map((s) => s.table).join(", "),
+      });
+      return checkQueryCost(estimate, this.config.queryBudget, input.semanticMetadata.rawSchema);
+    } catch (error) {
+      this.log.warn("[Step 4] Cost estimate FAILED - running without a budget check", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return unchecked;
+    }
+  }
+
+  /**
+   * Transpile generated PostgreSQL to the connection's dialect.
+   * Returns the rewritten query and the messages of any error-severity
+   * issues; warnings (lossy but runnable translations) are only logged.
+   */
+  private transpile(
+    context: AgentContext,
+    generatedSql: GeneratedSQL,
+  ): { generatedSql: GeneratedSQL; errors: string[] } {
+    if (generatedSql.dialect !== "postgresql" || context.dialect === "postgresql") {
+      return { generatedSql, errors: [] };
+    }
+
+    const result = transpileSql(generatedSql.sql, context.dialect);
+    const warnings = result.issues.filter((i) => i.severity !== "error");
+    if (warnings.length > 0) {
+      this.log.warn(`[Step 2] Transpiled to ${context.dialect} with warnings`, {
+        warnings: warnings.map((i) => i.message),
+      });
+    }
+
+    return {
+      generatedSql: {
+        ...generatedSql,
+        sql: result.sql,
+        dialect: result.dialect,
+        sourceSql: generatedSql.sql,
+      },
+      errors: result.issues
+        .filter((i) => i.severity === "error")
+        .map((i) => (i.suggestion ? `${i.message}. ${i.suggestion}` : i.message)),
+    };
+  }
+
   /**
    * Generate and validate SQL with feedback loop
    * If validation fails, feed errors back to generator and retry
@@ -411,9 +889,12 @@ export class Orchestrator {
     intent: Awaited<ReturnType<typeof resolveIntent>>["data"],
     semanticMetadata: SemanticMetadata,
     agentTraces: AgentTrace[],
+    input: OrchestratorInput,
+    verifiedExamples: VerifiedQueryMatch[],
+    feedback?: { previousSql: string; validationErrors: string[] },
   ) {
-    let previousSql: string | undefined;
-    let validationErrors: string[] | undefined;
+    let previousSql: string | undefined = feedback?.previousSql;
+    let validationErrors: string[] | undefined = feedback?.validationErrors;
 
     for (let attempt = 0; attempt < this.config.maxSqlRetries; attempt++) {
       this.log.info(`[Step 2-3] Attempt ${attempt + 1}/${this.config.maxSqlRetries}`);
@@ -424,33 +905,67 @@ export class Orchestrator {
         });
       }
 
-      // Generate SQL (with previous errors if this is a retry)
-      this.log.debug("[Step 2] SQL Generator - starting");
-      const sqlResult = await generateSql({
-        context,
-        intent,
-        semanticMetadata,
-        previousSql,
-        validationErrors,
-      });
-      sqlResult.trace.retryCount = attempt;
-      agentTraces.push(sqlResult.trace);
-      this.log.debug("[Step 2] SQL Generator - complete", { sql: sqlResult.data.sql });
+      const finishStep = this.beginStep(input, "sql", attempt + 1);
+      let sqlResult: Awaited<ReturnType<typeof generateSql>>;
+      let validationResult: Awaited<ReturnType<typeof validateSql>>;
+      try {
+        // Compile governed metrics; anything else, and any retry, goes to the
+        // SQL generator (with previous errors if this is a retry)
+        const compiled = previousSql ? undefined : this.compileSql(context, intent, semanticMetadata);
+        if (compiled) {
+          sqlResult = compiled;
+        } else {
+          this.log.debug("[Step 2] SQL Generator - starting");
+          sqlResult = await generateSql({
+            context,
+            intent,
+            semanticMetadata,
+            previousSql,
+            validationErrors,
+            verifiedExamples,
+          });
+        }
+        sqlResult.trace.retryCount = attempt;
+        agentTraces.push(sqlResult.trace);
+        this.log.debug("[Step 2] SQL Generator - complete", { sql: sqlResult.data.sql });
 
-      // Validate the generated SQL
-      this.log.debug("[Step 3] SQL Validator - starting");
-      const validationResult = await validateSql({
-        context,
-        generatedSql: sqlResult.data,
-        intent,
-        semanticMetadata,
-      });
+        // Translate the generator's PostgreSQL to the target dialect; constructs
+        // the target cannot express go back to the generator like validation errors
+        const transpiled = this.transpile(context, sqlResult.data);
+        sqlResult.data = transpiled.generatedSql;
+        if (transpiled.errors.length > 0) {
+          previousSql = transpiled.generatedSql.sourceSql;
+          validationErrors = transpiled.errors;
+          finishStep(false, validationErrors.join("; "));
+          this.log.warn(`[Step 2] Transpilation to ${context.dialect} FAILED`, { errors: validationErrors });
+          continue;
+        }
+
+        this.emitProgress(input, {
+          type: "sql_generated",
+          sql: sqlResult.data.sql,
+          attempt: attempt + 1,
+        });
+
+        // Validate the generated SQL
+        this.log.debug("[Step 3] SQL Validator - starting");
+        validationResult = await validateSql({
+          context,
+          generatedSql: sqlResult.data,
+          intent,
+          semanticMetadata,
+        });
+      } catch (error) {
+        finishStep(false, error instanceof Error ? error.message : String(error));
+        throw error;
+      }
       this.log.debug("[Step 3] SQL Validator - complete", {
         valid: validationResult.data.valid,
       });
 
       // If valid, return both results
       if (validationResult.data.valid) {
+        finishStep(true);
         this.log.info("[Step 3] Validation PASSED");
         return { sqlResult, validationResult };
       }
@@ -462,13 +977,15 @@ export class Orchestrator {
 
       // If no error-level issues, treat as valid (warnings/info only)
       if (errorIssues.length === 0) {
+        finishStep(true);
         this.log.info("[Step 3] Validation PASSED (warnings only)");
         return { sqlResult, validationResult };
       }
 
       // Store for feedback loop
-      previousSql = sqlResult.data.sql;
+      previousSql = sqlResult.data.sourceSql ?? sqlResult.data.sql;
       validationErrors = errorIssues.map((i) => i.message);
+      finishStep(false, validationErrors.join("; "));
 
       this.log.warn(`[Step 3] Validation FAILED with ${errorIssues.length} errors`, {
         issues: errorIssues.map(i => ({
@@ -492,10 +1009,108 @@ export class Orchestrator {
   }
 
   /**
-   * Clear the response cache
+   * Compile an intent over governed metric definitions to PostgreSQL.
+   * Returns nothing when there are no definitions or the intent needs
+   * more than they define, and the SQL generator writes the query instead.
+   */
+  private compileSql(
+    context: AgentContext,
+    intent: Awaited<ReturnType<typeof resolveIntent>>["data"],
+    semanticMetadata: SemanticMetadata,
+  ): Awaited<ReturnType<typeof generateSql>> | undefined {
+    const definitions = semanticMetadata.definitions;
+    if (!definitions || definitions.metrics.length === 0) return undefined;
+
+    const startedAt = new Date();
+    const compilation = compileMetricQuery(intent, definitions);
+    if (!compilation.compiled) {
+      this.log.info("[Step 2] Metric compiler skipped - generating SQL", { reason: compilation.reason });
+      return undefined;
+    }
+
+    this.log.info("[Step 2] Compiled SQL from governed metrics", { metrics: intent.metrics });
+    return {
+      data: {
+        sql: compilation.sql,
+        dialect: "postgresql",
+        tablesTouched: compilation.tablesTouched,
+        estimatedComplexity: intent.metrics.length === 1 && compilation.tablesTouched.length === 1 ? "low" : "medium",
+        compiled: true,
+      },
+      trace: createSuccessTrace({
+        agent: "metric_compiler",
+        model: context.fastModel,
+        startedAt,
+        inputTokens: 0,
+        outputTokens: 0,
+      }),
+    };
+  }
+
+  /**
+   * The verified query an answer ran unchanged, if any
+   */
+  private verifiedQueryRef(
+    generatedSql: GeneratedSQL,
+    input: OrchestratorInput,
+  ): VerifiedQueryRef | undefined {
+    const verified = findVerifiedQuery(generatedSql, input.verifiedQueries ?? []);
+    return verified ? { id: verified.id, question: verified.question } : undefined;
+  }
+
+  /**
+   * Cache scope of a request. Without one the orchestrator serves a single
+   * unnamed connection.
+   */
+  private cacheScope(input: OrchestratorInput): CacheScope {
+    return {
+      connectionId: input.cacheScope?.connectionId ?? "default",
+      semanticVersion:
+        input.cacheScope?.semanticVersion ??
+        semanticContentVersion(input.semanticMetadata.semanticMarkdown, input.semanticMetadata.definitions),
+    };
+  }
+
+  /**
+   * Read from the cache. A failing store is logged and treated as a miss.
+   */
+  private async readCache<T>(read: () => Promise<T | undefined> | undefined): Promise<T | undefined> {
+    try {
+      return await read();
+    } catch (error) {
+      this.log.warn("[Orchestrator] Cache read failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Write to the cache. A failing store is logged; the request still succeeds.
+   */
+  private async writeCache(write: () => Promise<void> | undefined): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      this.log.warn("[Orchestrator] Cache write failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Drop every cached result and response of a connection, e.g. after its
+   * semantic layer is saved
+   */
+  async invalidateCache(connectionId: string): Promise<void> {
+    await this.cache?.invalidateConnection(connectionId);
+  }
+
+  /**
+   * Clear the response and result caches
    */
-  clearCache(): void {
-    this.cache?.clear();
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
   }
 
   /**
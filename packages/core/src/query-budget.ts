@@ -0,0 +1,101 @@
+import type {
+  GeneratedSQL,
+  IntrospectedSchema,
+  QueryBudget,
+  QueryCostEstimate,
+} from "@heydata/shared";
+
+/** Tables with at least this many rows should not be scanned in full */
+export const LARGE_TABLE_ROWS = 1_000_000;
+
+/** Planner cost below which a query counts as low, then medium, complexity */
+const COMPLEXITY_THRESHOLDS = { low: 10_000, medium: 1_000_000 };
+
+/**
+ * Outcome of checking an estimate against a budget: run the query, ask the
+ * user first, or refuse it
+ */
+export type BudgetVerdict = "ok" | "confirm" | "refuse";
+
+export interface QueryCostCheck {
+  verdict: BudgetVerdict;
+  /** Why the query is over budget (empty when it is not) */
+  message: string;
+  /** Plan problems the SQL generator can fix, e.g. full scans of large tables */
+  hints: string[];
+}
+
+function formatNumber(value: number): string {
+  return Math.round(value).toLocaleString("en-US");
+}
+
+/**
+ * Complexity bucket for a planner estimate, replacing the generator's guess
+ */
+export function complexityFromCost(
+  estimate: QueryCostEstimate,
+): NonNullable<GeneratedSQL["estimatedComplexity"]> {
+  if (estimate.totalCost < COMPLEXITY_THRESHOLDS.low) return "low";
+  if (estimate.totalCost < COMPLEXITY_THRESHOLDS.medium) return "medium";
+  return "high";
+}
+
+/**
+ * Describe the full scans of large tables in a plan. Table sizes come from
+ * the introspected row counts, falling back to the planner's scan estimate.
+ */
+export function planHints(estimate: QueryCostEstimate, rawSchema?: IntrospectedSchema): string[] {
+  const hints: string[] = [];
+  const seen = new Set<string>();
+
+  for (const scan of estimate.seqScans) {
+    if (seen.has(scan.table)) continue;
+    seen.add(scan.table);
+
+    const table = rawSchema?.tables.find(
+      (t) => `${t.schema}.${t.name}` === scan.table || t.name === scan.table,
+    );
+    const rows = table?.rowCountEstimate ?? scan.estimatedRows;
+    if (rows < LARGE_TABLE_ROWS) continue;
+
+    hints.push(
+      `The plan reads all of ${scan.table} (~${formatNumber(rows)} rows). Filter it on a date range or an indexed column, or aggregate instead of listing rows.`,
+    );
+  }
+
+  if (hints.length === 0 && estimate.estimatedRows >= LARGE_TABLE_ROWS) {
+    hints.push(
+      `The query is expected to return ~${formatNumber(estimate.estimatedRows)} rows. Aggregate or filter instead of listing rows.`,
+    );
+  }
+  return hints;
+}
+
+/**
+ * Check a planner estimate against a connection's budget
+ */
+export function checkQueryCost(
+  estimate: QueryCostEstimate,
+  budget: QueryBudget | undefined,
+  rawSchema?: IntrospectedSchema,
+): QueryCostCheck {
+  const cost = formatNumber(estimate.totalCost);
+
+  if (budget?.maxCost !== undefined && estimate.totalCost > budget.maxCost) {
+    return {
+      verdict: "refuse",
+      message: `The estimated query cost of ${cost} exceeds this connection's limit of ${formatNumber(budget.maxCost)}`,
+      hints: planHints(estimate, rawSchema),
+    };
+  }
+
+  if (budget?.confirmAboveCost !== undefined && estimate.totalCost > budget.confirmAboveCost) {
+    return {
+      verdict: "confirm",
+      message: `The estimated query cost of ${cost} is above this connection's confirmation threshold of ${formatNumber(budget.confirmAboveCost)}`,
+      hints: planHints(estimate, rawSchema),
+    };
+  }
+
+  return { verdict: "ok", message: "", hints: [] };
+}
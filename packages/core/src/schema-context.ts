@@ -0,0 +1,355 @@
+import {
+  introspectedTableToDDL,
+  type IntentObject,
+  type IntrospectedSchema,
+  type IntrospectedTable,
+  type SchemaSelection,
+  type SchemaSelectionReason,
+  type SemanticDefinitions,
+  type SessionContext,
+  type VerifiedQuery,
+  type WarehouseDialect,
+} from "@heydata/shared";
+import { keywords, type VerifiedQueryMatch } from "./verified-queries.js";
+
+/** Characters of schema text an agent gets for one question */
+export const DEFAULT_SCHEMA_CONTEXT_LENGTH = 6000;
+
+/** Most tables picked on their own relevance; foreign key neighbours come on top */
+const MAX_RANKED_TABLES = 15;
+
+/** Tables scoring below this share of the best score are left out */
+const RELATIVE_SCORE_CUTOFF = 0.25;
+
+/** Semantic layer sections naming more tables than this are overviews, not about one topic */
+const MAX_SECTION_TABLES = 8;
+
+/** Column, comment and value matches count at most this much per table */
+const MAX_COLUMN_POINTS = 4;
+
+const POINTS = {
+  intent: 10,
+  verifiedExample: 5,
+  tableName: 3,
+  value: 2,
+  semanticSection: 2,
+  column: 1,
+  comment: 1,
+};
+
+export interface SchemaContextSignals {
+  question: string;
+  sessionContext?: SessionContext;
+  /** The resolved intent, once known */
+  intent?: IntentObject;
+  semanticMarkdown?: string;
+  definitions?: SemanticDefinitions;
+  /** Verified queries picked as examples for this question */
+  verifiedExamples?: VerifiedQueryMatch[];
+  /** All of the connection's verified queries, as a measure of table usage */
+  verifiedQueries?: VerifiedQuery[];
+}
+
+export interface SchemaContextOptions {
+  agent: SchemaSelection["agent"];
+  dialect?: WarehouseDialect;
+  /** Budget for the schema text, in characters */
+  maxLength?: number;
+}
+
+export interface SchemaContext {
+  /** Compact DDL of the selected tables; most relevant first when pruned */
+  ddl: string;
+  selection: SchemaSelection;
+}
+
+interface Candidate {
+  table: IntrospectedTable;
+  key: string;
+  /** Position in the introspected schema, for stable ordering */
+  index: number;
+  score: number;
+  points: Map<SchemaSelectionReason, number>;
+  /** Columns that matched, kept when the table is shown with keys only */
+  matchedColumns: Set<string>;
+  /** Verified queries that use the table */
+  usage: number;
+}
+
+/** Crude singular form, so "orders" matches "order" */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(?:ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/** Stemmed words of prose or of a snake_case or camelCase identifier */
+function terms(text: string | undefined): Set<string> {
+  if (!text) return new Set();
+  return new Set(keywords(text.replace(/([a-z])([A-Z])/g, "$1 $2")).map(stem));
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let count = 0;
+  for (const item of a) if (b.has(item)) count++;
+  return count;
+}
+
+/** Lower-case identifier parts of SQL or prose: `public.orders` gives public and orders */
+function identifiers(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z_][a-z0-9_$]*/g) ?? []);
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+function addPoints(candidate: Candidate, reason: SchemaSelectionReason, points: number): void {
+  candidate.score += points;
+  candidate.points.set(reason, (candidate.points.get(reason) ?? 0) + points);
+}
+
+function mainReason(candidate: Candidate): SchemaSelectionReason {
+  let best: SchemaSelectionReason = "default";
+  let bestPoints = 0;
+  for (const [reason, points] of candidate.points) {
+    if (points > bestPoints) {
+      best = reason;
+      bestPoints = points;
+    }
+  }
+  return best;
+}
+
+/** Markdown split at headings, for finding the sections a question is about */
+function semanticSections(markdown: string): { heading: string; body: string }[] {
+  const sections: { heading: string; body: string }[] = [];
+  for (const line of markdown.split("\n")) {
+    if (/^#{1,6}\s/.test(line)) sections.push({ heading: line.replace(/^#+\s*/, ""), body: "" });
+    else if (sections.length > 0) sections[sections.length - 1]!.body += `${line}\n`;
+  }
+  return sections;
+}
+
+/** Words from the question, the conversation so far and the intent */
+function questionTerms(signals: SchemaContextSignals): Set<string> {
+  const texts = [signals.question];
+  const session = signals.sessionContext;
+  if (session) {
+    const lastQuestion = session.turns.filter((t) => t.role === "user").at(-1);
+    if (lastQuestion) texts.push(lastQuestion.content);
+    texts.push(...session.activeMetrics, ...session.activeDimensions);
+  }
+  const intent = signals.intent;
+  if (intent) {
+    texts.push(...intent.metrics, ...intent.dimensions, ...intent.filters.map((f) => f.dimension));
+    texts.push(...intent.filters.flatMap((f) => (Array.isArray(f.value) ? f.value : [f.value])).map(String));
+  }
+  return new Set(texts.flatMap((text) => [...terms(text)]));
+}
+
+/** SQL fragments the intent pins to specific tables */
+function intentReferences(signals: SchemaContextSignals): string[] {
+  const { intent, definitions } = signals;
+  if (!intent) return [];
+  const references = intent.adHocMetrics.flatMap((m) => [m.formula, ...m.tables]);
+  for (const metric of definitions?.metrics ?? []) {
+    if (intent.metrics.includes(metric.name)) {
+      references.push(metric.formula, metric.table ?? "", ...(metric.defaultFilters ?? []));
+    }
+  }
+  for (const dimension of definitions?.dimensions ?? []) {
+    if (intent.dimensions.includes(dimension.name)) references.push(dimension.table);
+  }
+  return references;
+}
+
+function scoreTable(candidate: Candidate, question: Set<string>): void {
+  const { table } = candidate;
+  const nameMatches = overlap(terms(table.name), question);
+  if (nameMatches > 0) addPoints(candidate, "match", nameMatches * POINTS.tableName);
+
+  const commentMatches = Math.min(2, overlap(terms(table.comment), question));
+  if (commentMatches > 0) addPoints(candidate, "match", commentMatches * POINTS.comment);
+
+  let columnPoints = 0;
+  for (const column of table.columns) {
+    let points = 0;
+    if (overlap(terms(column.name), question) > 0 || overlap(terms(column.comment), question) > 0) {
+      points += POINTS.column;
+    }
+    const values = column.enumValues ?? column.stats?.mostCommonValues ?? [];
+    if (values.some((value) => overlap(terms(value), question) > 0)) points += POINTS.value;
+    if (points > 0) {
+      candidate.matchedColumns.add(column.name);
+      columnPoints += points;
+    }
+  }
+  if (columnPoints > 0) addPoints(candidate, "match", Math.min(columnPoints, MAX_COLUMN_POINTS));
+}
+
+/** The table with keys and matched columns only, for showing a join path */
+function keysOnly(candidate: Candidate): IntrospectedTable {
+  const { table } = candidate;
+  const compositeColumns = new Set((table.foreignKeys ?? []).flatMap((fk) => fk.columns));
+  const columns = table.columns.filter(
+    (c) => c.isPrimaryKey || c.isForeignKey || compositeColumns.has(c.name) || candidate.matchedColumns.has(c.name),
+  );
+  if (columns.length === table.columns.length) return table;
+  return {
+    ...table,
+    columns,
+    indexes: undefined,
+    comment: `${table.columns.length - columns.length} more columns not shown${table.comment ? `; ${table.comment}` : ""}`,
+  };
+}
+
+/**
+ * Pick the part of a large schema an agent needs for one question. Tables
+ * are scored on their names, columns, comments and values against the
+ * question (and intent, once resolved), on semantic layer sections about
+ * the question, and on use in verified queries. The best are shown in full
+ * and their foreign key neighbours with keys only, so joins stay possible,
+ * within `maxLength` characters. Schemas that fit are shown whole.
+ */
+export function selectSchemaContext(
+  schema: IntrospectedSchema,
+  signals: SchemaContextSignals,
+  options: SchemaContextOptions,
+): SchemaContext {
+  const dialect = options.dialect ?? "postgresql";
+  const maxLength = options.maxLength ?? DEFAULT_SCHEMA_CONTEXT_LENGTH;
+
+  const candidates: Candidate[] = schema.tables.map((table, index) => ({
+    table,
+    key: `${table.schema}.${table.name}`,
+    index,
+    score: 0,
+    points: new Map(),
+    matchedColumns: new Set(),
+    usage: 0,
+  }));
+  const byName = new Map<string, Candidate[]>();
+  for (const candidate of candidates) {
+    const name = candidate.table.name.toLowerCase();
+    byName.set(name, [...(byName.get(name) ?? []), candidate]);
+  }
+  const referenced = (text: string): Candidate[] =>
+    [...identifiers(text)].flatMap((identifier) => byName.get(identifier) ?? []);
+
+  // Score every table against the question
+  const question = questionTerms(signals);
+  for (const candidate of candidates) scoreTable(candidate, question);
+
+  for (const candidate of new Set(intentReferences(signals).flatMap(referenced))) {
+    addPoints(candidate, "intent", POINTS.intent);
+  }
+
+  for (const section of semanticSections(signals.semanticMarkdown ?? "")) {
+    const tables = new Set(referenced(section.body));
+    if (tables.size === 0 || tables.size > MAX_SECTION_TABLES) continue;
+    const synonyms = section.body.split("\n").filter((line) => /synonym/i.test(line)).join(" ");
+    const matches = Math.min(2, overlap(terms(`${section.heading} ${synonyms}`), question));
+    if (matches === 0) continue;
+    for (const candidate of tables) addPoints(candidate, "semantic_layer", matches * POINTS.semanticSection);
+  }
+
+  for (const { query } of signals.verifiedExamples ?? []) {
+    for (const candidate of new Set(referenced(query.sql))) addPoints(candidate, "usage", POINTS.verifiedExample);
+  }
+  for (const query of signals.verifiedQueries ?? []) {
+    for (const candidate of new Set(referenced(query.sql))) candidate.usage++;
+  }
+  // Usage breaks ties between tables that are relevant anyway
+  for (const candidate of candidates) {
+    if (candidate.score > 0 && candidate.usage > 0) {
+      addPoints(candidate, "usage", Math.min(1, Math.log2(1 + candidate.usage) / 4));
+    }
+  }
+
+  const byRelevance = [...candidates].sort(
+    (a, b) => b.score - a.score || b.usage - a.usage || a.index - b.index,
+  );
+  const lines = new Map(candidates.map((c) => [c, introspectedTableToDDL(c.table, dialect)]));
+
+  // Small schemas are shown whole, in a stable order so prompts stay cacheable
+  const fullLength = [...lines.values()].reduce((sum, line) => sum + line.length + 1, 0) - 1;
+  if (fullLength <= maxLength) {
+    return {
+      ddl: [...lines.values()].join("\n"),
+      selection: {
+        agent: options.agent,
+        totalTables: candidates.length,
+        tables: byRelevance.map((c) => ({ table: c.key, score: round(c.score), reason: mainReason(c) })),
+        pruned: false,
+        length: Math.max(0, fullLength),
+      },
+    };
+  }
+
+  const included: { candidate: Candidate; line: string; reason: SchemaSelectionReason }[] = [];
+  let length = 0;
+  const include = (candidate: Candidate, reason: SchemaSelectionReason, full: boolean): boolean => {
+    const variants = full
+      ? [lines.get(candidate)!, introspectedTableToDDL(keysOnly(candidate), dialect)]
+      : [introspectedTableToDDL(keysOnly(candidate), dialect)];
+    const line = variants.find((l) => length + l.length + (included.length > 0 ? 1 : 0) <= maxLength);
+    if (!line) return false;
+    length += line.length + (included.length > 0 ? 1 : 0);
+    included.push({ candidate, line, reason });
+    return true;
+  };
+
+  const best = byRelevance[0]?.score ?? 0;
+  const ranked =
+    best > 0
+      ? byRelevance.filter((c) => c.score >= best * RELATIVE_SCORE_CUTOFF).slice(0, MAX_RANKED_TABLES)
+      : [];
+
+  if (ranked.length > 0) {
+    for (const candidate of ranked) include(candidate, mainReason(candidate), true);
+
+    // Foreign key neighbours of the selected tables, so the agent can join them
+    const byKey = new Map(candidates.map((c) => [c.key, c]));
+    const resolve = (schemaName: string, tableName: string): Candidate | undefined =>
+      byKey.get(`${schemaName}.${tableName}`) ?? byName.get(tableName.toLowerCase())?.[0];
+    const links = new Map<Candidate, number>();
+    const selected = new Set(included.map((i) => i.candidate));
+    for (const candidate of candidates) {
+      const { table } = candidate;
+      const targets = [
+        ...table.columns.filter((c) => c.isForeignKey && c.foreignTable).map((c) => resolve(table.schema, c.foreignTable!)),
+        ...(table.foreignKeys ?? []).map((fk) => resolve(fk.foreignSchema, fk.foreignTable)),
+      ];
+      for (const target of new Set(targets)) {
+        if (!target || target === candidate) continue;
+        if (selected.has(candidate) && !selected.has(target)) links.set(target, (links.get(target) ?? 0) + 1);
+        if (selected.has(target) && !selected.has(candidate)) links.set(candidate, (links.get(candidate) ?? 0) + 1);
+      }
+    }
+    const neighbours = [...links.entries()]
+      .sort(([a, linksA], [b, linksB]) => linksB - linksA || b.score - a.score || a.index - b.index)
+      .map(([candidate]) => candidate);
+    for (const candidate of neighbours) include(candidate, "foreign_key", false);
+  } else {
+    // Nothing matched: show what fits, most used first
+    for (const candidate of byRelevance) include(candidate, "default", true);
+  }
+
+  const header = `-- ${included.length} of ${candidates.length} tables, selected for this question`;
+  return {
+    ddl: [header, ...included.map((i) => i.line)].join("\n"),
+    selection: {
+      agent: options.agent,
+      totalTables: candidates.length,
+      tables: included.map(({ candidate, reason }) => ({
+        table: candidate.key,
+        score: round(candidate.score),
+        reason,
+      })),
+      pruned: true,
+      length: header.length + 1 + length,
+    },
+  };
+}
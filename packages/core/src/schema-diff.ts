@@ -0,0 +1,98 @@
+import type {
+  IntrospectedColumn,
+  IntrospectedSchema,
+  IntrospectedTable,
+  SchemaChange,
+} from "@heydata/shared";
+
+function qualifiedName(table: IntrospectedTable): string {
+  return `${table.schema}.${table.name}`;
+}
+
+function foreignKeyTarget(column: IntrospectedColumn): string | null {
+  return column.isForeignKey && column.foreignTable
+    ? `${column.foreignTable}.${column.foreignColumn ?? ""}`
+    : null;
+}
+
+function diffColumns(table: string, before: IntrospectedTable, after: IntrospectedTable): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const previous = new Map(before.columns.map((c) => [c.name, c]));
+  const current = new Set(after.columns.map((c) => c.name));
+
+  for (const column of before.columns) {
+    if (!current.has(column.name)) changes.push({ kind: "column_removed", table, column: column.name });
+  }
+
+  for (const column of after.columns) {
+    const old = previous.get(column.name);
+    if (!old) {
+      changes.push({ kind: "column_added", table, column: column.name, after: column.dataType });
+      continue;
+    }
+    if (old.dataType !== column.dataType) {
+      changes.push({
+        kind: "column_type_changed",
+        table,
+        column: column.name,
+        before: old.dataType,
+        after: column.dataType,
+      });
+    }
+    const oldTarget = foreignKeyTarget(old);
+    const newTarget = foreignKeyTarget(column);
+    if (oldTarget !== newTarget) {
+      changes.push({ kind: "foreign_key_changed", table, column: column.name, before: oldTarget, after: newTarget });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Tables and columns added, removed or changed between two introspections of
+ * the same database. Removed tables come first, then tables in the order of
+ * the newer introspection.
+ */
+export function diffSchemas(previous: IntrospectedSchema, current: IntrospectedSchema): SchemaChange[] {
+  const before = new Map(previous.tables.map((t) => [qualifiedName(t), t]));
+  const after = new Set(current.tables.map(qualifiedName));
+  const changes: SchemaChange[] = [];
+
+  for (const table of previous.tables) {
+    const name = qualifiedName(table);
+    if (!after.has(name)) changes.push({ kind: "table_removed", table: name });
+  }
+
+  for (const table of current.tables) {
+    const name = qualifiedName(table);
+    const old = before.get(name);
+    if (old) changes.push(...diffColumns(name, old, table));
+    else changes.push({ kind: "table_added", table: name });
+  }
+
+  return changes;
+}
+
+/**
+ * One line per change, for prompts and reports
+ */
+export function describeSchemaChange(change: SchemaChange): string {
+  const column = `${change.table}.${change.column ?? ""}`;
+  switch (change.kind) {
+    case "table_added":
+      return `Table added: ${change.table}`;
+    case "table_removed":
+      return `Table removed: ${change.table}`;
+    case "column_added":
+      return `Column added: ${column} (${change.after ?? "unknown type"})`;
+    case "column_removed":
+      return `Column removed: ${column}`;
+    case "column_type_changed":
+      return `Column type changed: ${column} from ${change.before ?? "?"} to ${change.after ?? "?"}`;
+    case "foreign_key_changed":
+      return `Foreign key changed: ${column} ${change.before ? `→ ${change.before}` : "(none)"} is now ${
+        change.after ? `→ ${change.after}` : "(none)"
+      }`;
+  }
+}
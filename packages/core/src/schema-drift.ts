@@ -0,0 +1,153 @@
+import type {
+  BrokenReference,
+  IntrospectedSchema,
+  SchemaChange,
+  SchemaDriftReport,
+} from "@heydata/shared";
+import { diffSchemas } from "./schema-diff.js";
+import { checkSqlAgainstSchema } from "./sql-schema-validator.js";
+
+export interface SchemaDriftInput {
+  /**
+   * Schema stored with the semantic layer. Without it, removed tables and
+   * columns are unknown and only verified SQL is checked.
+   */
+  previousSchema?: IntrospectedSchema;
+  currentSchema: IntrospectedSchema;
+  semanticMarkdown: string;
+  commands: { id: string; slashCommand: string; prompt: string }[];
+  verifiedQueries: { id: string; question: string; sql: string }[];
+  now?: Date;
+}
+
+/** A removed table or column and the text patterns that refer to it */
+interface RemovedName {
+  description: string;
+  patterns: RegExp[];
+  suggestion?: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function splitQualified(qualified: string): [string, string] {
+  const dot = qualified.indexOf(".");
+  return dot === -1 ? ["public", qualified] : [qualified.slice(0, dot), qualified.slice(dot + 1)];
+}
+
+/** Matches `name` as a whole identifier, optionally after a schema qualifier */
+function identifierPattern(name: string, schema?: string): RegExp {
+  const qualifier = schema ? `(?:${escapeRegExp(schema)}\\.)?` : "";
+  return new RegExp(`(?<![\\w$.])${qualifier}${escapeRegExp(name)}(?![\\w$])`, "i");
+}
+
+/**
+ * Removed tables and columns with how prose refers to them. Bare names are
+ * only matched when they cannot mean anything else: tables whose name no
+ * other schema uses, and snake_case columns no remaining table has.
+ */
+function removedNames(changes: SchemaChange[], current: IntrospectedSchema): RemovedName[] {
+  const tableNames = new Set(current.tables.map((t) => t.name.toLowerCase()));
+  const columnNames = new Set(current.tables.flatMap((t) => t.columns.map((c) => c.name.toLowerCase())));
+  const names: RemovedName[] = [];
+
+  for (const change of changes) {
+    const [schema, table] = splitQualified(change.table);
+
+    if (change.kind === "table_removed") {
+      names.push({
+        description: `removed table ${change.table}`,
+        patterns: [
+          tableNames.has(table.toLowerCase())
+            ? identifierPattern(`${schema}.${table}`)
+            : identifierPattern(table, schema),
+        ],
+      });
+    } else if (change.kind === "column_removed" && change.column) {
+      const patterns = [identifierPattern(`${table}.${change.column}`, schema)];
+      if (change.column.includes("_") && !columnNames.has(change.column.toLowerCase())) {
+        patterns.push(identifierPattern(change.column));
+      }
+      // One column removed and one added on the same table is most likely a rename
+      const added = changes.filter((c) => c.kind === "column_added" && c.table === change.table);
+      const removed = changes.filter((c) => c.kind === "column_removed" && c.table === change.table);
+      names.push({
+        description: `removed column ${change.table}.${change.column}`,
+        patterns,
+        suggestion:
+          added.length === 1 && removed.length === 1
+            ? `Was it renamed to ${table}.${added[0]!.column}?`
+            : undefined,
+      });
+    }
+  }
+
+  return names;
+}
+
+/** The first line matching any of the name's patterns, 1-based */
+function firstMatchingLine(lines: string[], name: RemovedName): number | null {
+  const index = lines.findIndex((line) => name.patterns.some((p) => p.test(line)));
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Compare a fresh introspection with the schema stored with the semantic
+ * layer, and find what in the semantic layer, saved commands and verified
+ * queries refers to tables or columns that no longer exist. Prose is
+ * searched for removed names; verified SQL goes through the schema checker.
+ */
+export function checkSchemaDrift(input: SchemaDriftInput): SchemaDriftReport {
+  const { previousSchema, currentSchema } = input;
+  const changes = previousSchema ? diffSchemas(previousSchema, currentSchema) : [];
+  const names = removedNames(changes, currentSchema);
+  const brokenReferences: BrokenReference[] = [];
+
+  const semanticLines = input.semanticMarkdown.split("\n");
+  for (const name of names) {
+    const line = firstMatchingLine(semanticLines, name);
+    if (line !== null) {
+      brokenReferences.push({
+        source: "semantic_layer",
+        label: `line ${line}`,
+        message: `Refers to the ${name.description}`,
+        suggestion: name.suggestion,
+      });
+    }
+  }
+
+  for (const command of input.commands) {
+    const lines = command.prompt.split("\n");
+    for (const name of names) {
+      if (firstMatchingLine(lines, name) === null) continue;
+      brokenReferences.push({
+        source: "command",
+        sourceId: command.id,
+        label: `/${command.slashCommand}`,
+        message: `Prompt refers to the ${name.description}`,
+        suggestion: name.suggestion,
+      });
+    }
+  }
+
+  for (const query of input.verifiedQueries) {
+    for (const issue of checkSqlAgainstSchema(query.sql, "postgresql", currentSchema)) {
+      // Warnings are guesses; only report references the schema proves broken
+      if (issue.severity !== "error") continue;
+      brokenReferences.push({
+        source: "verified_query",
+        sourceId: query.id,
+        label: query.question,
+        message: issue.message,
+        suggestion: issue.suggestion,
+      });
+    }
+  }
+
+  return {
+    checkedAt: (input.now ?? new Date()).toISOString(),
+    changes,
+    brokenReferences,
+  };
+}
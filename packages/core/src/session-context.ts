@@ -0,0 +1,171 @@
+import {
+  IntentObjectSchema,
+  SESSION_CONTEXT_TOKEN_BUDGET,
+  type ConversationTurn,
+  type IntentObject,
+  type SessionContext,
+} from "@heydata/shared";
+
+/**
+ * A persisted chat message, as stored in the chat_messages table.
+ * Kept structural so core does not depend on the Supabase types.
+ */
+export interface SessionMessage {
+  role: string;
+  content: string;
+  createdAt?: string | null;
+  /** Tool invocations saved with an assistant message ({ toolName, args, result }[]) */
+  toolResults?: unknown;
+}
+
+export interface BuildSessionContextOptions {
+  /** Drop a trailing user message with no reply yet (the question being processed) */
+  excludePendingQuestion?: boolean;
+  /** Approximate token budget for the turns kept in the context */
+  tokenBudget?: number;
+}
+
+/**
+ * Rough token estimate (~4 characters per token) — good enough for budgeting
+ * prompt context without pulling in a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Render a resolved intent as a one-line summary for prompt context.
+ */
+export function summarizeIntent(intent: IntentObject): string {
+  const parts = [`queryType=${intent.queryType}`];
+  const metrics = [
+    ...intent.metrics,
+    ...intent.adHocMetrics.map((m) => `${m.name} (ad-hoc: ${m.formula})`),
+  ];
+  if (metrics.length > 0) parts.push(`metrics=${metrics.join(", ")}`);
+  if (intent.dimensions.length > 0) parts.push(`dimensions=${intent.dimensions.join(", ")}`);
+  if (intent.filters.length > 0) {
+    parts.push(
+      `filters=${intent.filters
+        .map((f) => `${f.dimension} ${f.operator} ${JSON.stringify(f.value)}`)
+        .join("; ")}`,
+    );
+  }
+  if (intent.timeRange) {
+    parts.push(
+      `timeRange=${intent.timeRange.start}..${intent.timeRange.end}${intent.timeRange.grain ? ` (${intent.timeRange.grain})` : ""}`,
+    );
+  }
+  return parts.join(", ");
+}
+
+function estimateTurnTokens(turn: ConversationTurn): number {
+  return estimateTokens(turn.content) + (turn.intent ? estimateTokens(summarizeIntent(turn.intent)) : 0);
+}
+
+/**
+ * Keep the most recent turns that fit within the token budget.
+ * The newest turn is always kept so a follow-up never loses its antecedent.
+ */
+export function selectTurnsWithinBudget(
+  turns: ConversationTurn[],
+  tokenBudget: number = SESSION_CONTEXT_TOKEN_BUDGET,
+): ConversationTurn[] {
+  const selected: ConversationTurn[] = [];
+  let used = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i]!;
+    const cost = estimateTurnTokens(turn);
+    if (selected.length > 0 && used + cost > tokenBudget) break;
+    selected.unshift(turn);
+    used += cost;
+  }
+
+  return selected;
+}
+
+/**
+ * Extract the resolved intent and narrative from a message's saved tool results.
+ */
+function extractToolOutput(toolResults: unknown): {
+  intent?: IntentObject;
+  narrative?: string;
+} {
+  if (!toolResults) return {};
+  const invocations = Array.isArray(toolResults) ? toolResults : [toolResults];
+
+  for (const inv of invocations) {
+    if (!inv || typeof inv !== "object") continue;
+    const obj = inv as Record<string, unknown>;
+    const result = (obj.result ?? obj.output) as Record<string, unknown> | undefined;
+    if (!result || typeof result !== "object") continue;
+
+    const parsed = IntentObjectSchema.safeParse(result.intent);
+    const narrative =
+      typeof result.narrative === "string"
+        ? result.narrative
+        : typeof result.clarificationQuestion === "string"
+          ? result.clarificationQuestion
+          : undefined;
+
+    if (parsed.success) return { intent: parsed.data, narrative };
+    if (narrative) return { narrative };
+  }
+
+  return {};
+}
+
+/**
+ * Rebuild a SessionContext from persisted chat messages so follow-up questions
+ * ("now break that down by region") can build on earlier turns.
+ *
+ * Active metrics/dimensions/filters are carried forward from the most recent
+ * answered (non-clarification) intent.
+ */
+export function buildSessionContext(
+  sessionId: string,
+  messages: SessionMessage[],
+  options: BuildSessionContextOptions = {},
+): SessionContext {
+  const history = [...messages];
+
+  // The chat route persists the user's message before the query runs —
+  // don't feed the current question back to the resolver as history.
+  if (options.excludePendingQuestion && history[history.length - 1]?.role === "user") {
+    history.pop();
+  }
+
+  const turns: ConversationTurn[] = [];
+  let activeIntent: IntentObject | undefined;
+
+  for (const msg of history) {
+    if (msg.role !== "user" && msg.role !== "assistant") continue;
+    const timestamp = msg.createdAt ?? new Date(0).toISOString();
+
+    if (msg.role === "user") {
+      if (msg.content.trim()) {
+        turns.push({ role: "user", content: msg.content, timestamp });
+      }
+      continue;
+    }
+
+    const { intent, narrative } = extractToolOutput(msg.toolResults);
+    const content = narrative ?? msg.content;
+    turns.push({ role: "assistant", content, timestamp, intent });
+
+    if (intent && !intent.clarificationNeeded) {
+      activeIntent = intent;
+    }
+  }
+
+  return {
+    sessionId,
+    turns: selectTurnsWithinBudget(turns, options.tokenBudget),
+    activeMetrics: activeIntent
+      ? [...activeIntent.metrics, ...activeIntent.adHocMetrics.map((m) => m.name)]
+      : [],
+    activeDimensions: activeIntent?.dimensions ?? [],
+    activeFilters: activeIntent?.filters ?? [],
+  };
+}
@@ -0,0 +1,658 @@
+import sqlParser from "node-sql-parser";
+import type {
+  IntrospectedSchema,
+  IntrospectedTable,
+  SqlValidationIssue,
+  WarehouseDialect,
+} from "@heydata/shared";
+
+/**
+ * Deterministic checks of generated SQL against the introspected schema:
+ * every table and column reference must resolve, non-aggregated columns must
+ * be grouped, and aggregates must not appear in WHERE / GROUP BY or nested.
+ *
+ * Checks stay conservative — anything the checker cannot see into (SELECT *,
+ * table functions without a column list, queries the parser cannot read) is
+ * accepted rather than risk rejecting a valid query. Findings that rest on
+ * inferred names or expression matching are warnings; only what the schema
+ * proves is an error.
+ */
+
+const { Parser } = sqlParser;
+const parser = new Parser();
+
+/** node-sql-parser grammar per dialect; dialects without one are not checked */
+const PARSER_DATABASES: Partial<Record<WarehouseDialect, string>> = {
+  postgresql: "PostgresQL",
+  duckdb: "PostgresQL",
+  redshift: "Redshift",
+  mysql: "MySQL",
+  sqlite: "Sqlite",
+  bigquery: "BigQuery",
+  snowflake: "Snowflake",
+};
+
+/** GROUP BY constructs whose arguments are the grouped expressions */
+const GROUPING_CONSTRUCTS = new Set(["rollup", "cube"]);
+
+/** Parameterless functions and keywords that parse as column references */
+const PSEUDO_COLUMNS = new Set([
+  "current_date",
+  "current_time",
+  "current_timestamp",
+  "localtime",
+  "localtimestamp",
+  "current_user",
+  "session_user",
+  "user",
+  "true",
+  "false",
+  "null",
+]);
+
+type AstNode = Record<string, unknown>;
+
+interface Columns {
+  /** Lower-cased column names */
+  names: Set<string>;
+  /** False when some names are inferred from SELECT expressions the dialect may name differently */
+  exact: boolean;
+}
+
+interface Relation {
+  /** Name columns are qualified with: the alias, or the table name */
+  name: string;
+  /** What the relation is, for messages */
+  label: string;
+  /** Lower-cased column names, or null when unknown */
+  columns: Set<string> | null;
+  /** Whether `columns` is known to be complete, so a missing column is certain */
+  exact: boolean;
+  primaryKey: string[];
+}
+
+interface Scope {
+  relations: Relation[];
+  ctes: Map<string, Columns | null>;
+  /** Output column aliases, which GROUP BY and ORDER BY may reference */
+  aliases: Set<string>;
+  /** Columns merged by JOIN ... USING, which are never ambiguous */
+  usingColumns: Set<string>;
+  natural: boolean;
+  parent?: Scope;
+}
+
+interface ResolvedColumn {
+  relation: Relation;
+  column: string;
+}
+
+interface CheckContext {
+  tables: Map<string, IntrospectedTable[]>;
+  issues: SqlValidationIssue[];
+}
+
+function report(
+  ctx: CheckContext,
+  message: string,
+  suggestion?: string,
+  severity: SqlValidationIssue["severity"] = "error",
+): void {
+  if (ctx.issues.some((issue) => issue.message === message)) return;
+  ctx.issues.push({ type: "semantic", severity, message, suggestion });
+}
+
+// ── AST helpers ───────────────────────────────────────────────────
+
+function isNode(value: unknown): value is AstNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Identifier text from the parser's string | { value } shapes */
+function identifier(value: unknown): string | null {
+  if (typeof value === "string") return value;
+  if (isNode(value)) {
+    if (typeof value.value === "string") return value.value;
+    if (isNode(value.expr)) return identifier(value.expr);
+  }
+  return null;
+}
+
+function subquery(node: AstNode): AstNode | null {
+  if (node.type === "select") return node;
+  if (isNode(node.ast) && node.ast.type === "select") return node.ast;
+  return null;
+}
+
+/** Lower-cased name of a function call node */
+function functionName(node: AstNode): string | null {
+  const parts = isNode(node.name) && Array.isArray(node.name.name) ? node.name.name : [];
+  const name = identifier(parts[parts.length - 1]);
+  return name ? lower(name) : null;
+}
+
+function isAggregate(node: AstNode): boolean {
+  return node.type === "aggr_func" && !node.over;
+}
+
+function lower(name: string): string {
+  return name.toLowerCase();
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0]!;
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j]!;
+      row[j] = Math.min(row[j]! + 1, row[j - 1]! + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length]!;
+}
+
+function didYouMean(name: string, candidates: Iterable<string>): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = levenshtein(lower(name), lower(candidate));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best ? `Did you mean "${best}"?` : undefined;
+}
+
+// ── Name resolution ───────────────────────────────────────────────
+
+function findTable(ctx: CheckContext, schemaName: string | null, tableName: string): IntrospectedTable | undefined {
+  const candidates = ctx.tables.get(lower(tableName)) ?? [];
+  return schemaName
+    ? candidates.find((t) => lower(t.schema) === lower(schemaName))
+    : candidates[0];
+}
+
+function findRelation(scope: Scope | undefined, name: string): Relation | undefined {
+  for (let s = scope; s; s = s.parent) {
+    const relation = s.relations.find((r) => lower(r.name) === lower(name));
+    if (relation) return relation;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a column reference to the relation that provides it.
+ * Returns null for references the checker cannot pin down (unknown
+ * relations, outer scopes with opaque relations, output aliases).
+ */
+function resolveColumn(scope: Scope, ref: AstNode): ResolvedColumn | null {
+  const column = identifier(ref.column);
+  if (!column || column === "*") return null;
+  const qualifier = identifier(ref.table);
+
+  if (qualifier) {
+    const relation = findRelation(scope, qualifier);
+    return relation?.columns?.has(lower(column)) ? { relation, column: lower(column) } : null;
+  }
+
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    const relation = s.relations.find((r) => r.columns?.has(lower(column)));
+    if (relation) return { relation, column: lower(column) };
+    if (s.relations.some((r) => r.columns === null)) return null;
+  }
+  return null;
+}
+
+function checkColumnRef(ctx: CheckContext, scope: Scope, ref: AstNode): void {
+  const column = identifier(ref.column);
+  if (!column) return;
+  const qualifier = identifier(ref.table);
+
+  if (qualifier) {
+    const relation = findRelation(scope, qualifier);
+    if (!relation) {
+      report(ctx, `Missing FROM-clause entry for table "${qualifier}"`, "Join the table or fix the alias");
+      return;
+    }
+    if (column === "*" || relation.columns === null || relation.columns.has(lower(column))) return;
+    report(
+      ctx,
+      `Column "${qualifier}.${column}" does not exist on ${relation.label}`,
+      didYouMean(column, relation.columns) ?? "Use only columns listed in the schema",
+      relation.exact ? "error" : "warning",
+    );
+    return;
+  }
+
+  if (column === "*" || PSEUDO_COLUMNS.has(lower(column))) return;
+
+  let exact = true;
+  for (let s: Scope | undefined = scope; s; s = s.parent) {
+    const matches = s.relations.filter((r) => r.columns?.has(lower(column)));
+    if (matches.length > 1 && !s.natural && !s.usingColumns.has(lower(column))) {
+      report(
+        ctx,
+        `Column reference "${column}" is ambiguous (${matches.map((r) => r.name).join(", ")})`,
+        "Qualify the column with its table alias",
+        matches.every((r) => r.exact) ? "error" : "warning",
+      );
+      return;
+    }
+    if (matches.length > 0) return;
+    if (s.relations.some((r) => r.columns === null) || s.aliases.has(lower(column))) return;
+    exact &&= s.relations.every((r) => r.exact);
+  }
+
+  const known = scope.relations.flatMap((r) => [...(r.columns ?? [])]);
+  report(
+    ctx,
+    `Column "${column}" does not exist on ${scope.relations.map((r) => r.label).join(", ") || "any table in the query"}`,
+    didYouMean(column, known) ?? "Use only columns listed in the schema",
+    exact ? "error" : "warning",
+  );
+}
+
+// ── Expression walks ──────────────────────────────────────────────
+
+interface WalkState {
+  insideAggregate: boolean;
+}
+
+/**
+ * Check column references and aggregate nesting in an expression, checking
+ * nested SELECTs in their own scope.
+ */
+function walkExpression(ctx: CheckContext, scope: Scope, value: unknown, state: WalkState): void {
+  if (Array.isArray(value)) {
+    for (const item of value) walkExpression(ctx, scope, item, state);
+    return;
+  }
+  if (!isNode(value)) return;
+
+  const nested = subquery(value);
+  if (nested) {
+    checkSelect(ctx, nested, scope, scope.ctes);
+    return;
+  }
+  if (value.type === "column_ref") {
+    checkColumnRef(ctx, scope, value);
+    return;
+  }
+
+  let childState = state;
+  if (isAggregate(value)) {
+    if (state.insideAggregate) {
+      report(ctx, "Aggregate function calls cannot be nested", "Aggregate in a CTE first, then aggregate its result");
+    }
+    childState = { insideAggregate: true };
+  } else if (value.over) {
+    // A window function over aggregates, e.g. SUM(SUM(x)) OVER ()
+    childState = { insideAggregate: false };
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (key !== "loc") walkExpression(ctx, scope, child, childState);
+  }
+}
+
+function containsAggregate(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(containsAggregate);
+  if (!isNode(value) || subquery(value)) return false;
+  if (isAggregate(value)) return true;
+  return Object.entries(value).some(([key, child]) => key !== "loc" && containsAggregate(child));
+}
+
+/** Structural key for an expression, with column references resolved */
+function canonical(scope: Scope, value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map((v) => canonical(scope, v)).join(",")}]`;
+  if (!isNode(value)) return lower(JSON.stringify(value) ?? "null");
+  if (value.type === "column_ref") {
+    const resolved = resolveColumn(scope, value);
+    return resolved
+      ? `col:${lower(resolved.relation.name)}.${resolved.column}`
+      : `col:${lower(identifier(value.column) ?? "")}`;
+  }
+  return `{${Object.keys(value)
+    .filter((key) => key !== "loc")
+    .map((key) => `${key}:${canonical(scope, value[key])}`)
+    .join(",")}}`;
+}
+
+// ── GROUP BY completeness ─────────────────────────────────────────
+
+interface Grouping {
+  expressions: Set<string>;
+  columns: Set<string>;
+  /** Relations grouped by their whole primary key, whose other columns are functionally dependent */
+  relations: Set<Relation>;
+}
+
+/** The expressions a GROUP BY item groups, looking inside ROLLUP, CUBE and parenthesised lists */
+function groupedExpressions(item: unknown): unknown[] {
+  if (!isNode(item)) return [item];
+  if (item.type === "expr_list" && Array.isArray(item.value)) return item.value.flatMap(groupedExpressions);
+  if (item.type === "function" && GROUPING_CONSTRUCTS.has(functionName(item) ?? "")) {
+    return groupedExpressions(item.args);
+  }
+  return [item];
+}
+
+function groupByExpressions(select: AstNode): unknown[] {
+  const groupby = select.groupby;
+  if (Array.isArray(groupby)) return groupby.flatMap(groupedExpressions);
+  if (isNode(groupby) && Array.isArray(groupby.columns)) return groupby.columns.flatMap(groupedExpressions);
+  return [];
+}
+
+function buildGrouping(scope: Scope, select: AstNode, columns: AstNode[]): Grouping {
+  const grouping: Grouping = { expressions: new Set(), columns: new Set(), relations: new Set() };
+
+  for (const item of groupByExpressions(select)) {
+    let expr: unknown = item;
+    // GROUP BY 1, or GROUP BY an output alias
+    if (isNode(item) && item.type === "number" && typeof item.value === "number") {
+      expr = columns[item.value - 1]?.expr ?? item;
+    } else if (isNode(item) && item.type === "column_ref" && !identifier(item.table) && !resolveColumn(scope, item)) {
+      const alias = lower(identifier(item.column) ?? "");
+      expr = columns.find((c) => lower(identifier(c.as) ?? "") === alias)?.expr ?? item;
+    }
+
+    grouping.expressions.add(canonical(scope, expr));
+    if (isNode(expr) && expr.type === "column_ref") {
+      const resolved = resolveColumn(scope, expr);
+      if (resolved) grouping.columns.add(`${lower(resolved.relation.name)}.${resolved.column}`);
+    }
+  }
+
+  for (const relation of scope.relations) {
+    if (
+      relation.primaryKey.length > 0 &&
+      relation.primaryKey.every((pk) => grouping.columns.has(`${lower(relation.name)}.${pk}`))
+    ) {
+      grouping.relations.add(relation);
+    }
+  }
+  return grouping;
+}
+
+/** The first column reference in `value` that is neither grouped nor aggregated */
+function ungroupedColumn(scope: Scope, grouping: Grouping, value: unknown): AstNode | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = ungroupedColumn(scope, grouping, item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!isNode(value) || subquery(value) || isAggregate(value)) return null;
+  if (grouping.expressions.has(canonical(scope, value))) return null;
+
+  if (value.type === "column_ref") {
+    const resolved = resolveColumn(scope, value);
+    if (!resolved || !scope.relations.includes(resolved.relation)) return null;
+    const grouped =
+      grouping.columns.has(`${lower(resolved.relation.name)}.${resolved.column}`) ||
+      grouping.relations.has(resolved.relation);
+    return grouped ? null : value;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (key === "loc") continue;
+    const found = ungroupedColumn(scope, grouping, child);
+    if (found) return found;
+  }
+  return null;
+}
+
+function checkGrouping(ctx: CheckContext, scope: Scope, select: AstNode, columns: AstNode[]): void {
+  const grouped = groupByExpressions(select).length > 0;
+  if (!grouped && !containsAggregate(columns) && !containsAggregate(select.having)) return;
+
+  const grouping = buildGrouping(scope, select, columns);
+  for (const value of [...columns.map((c) => c.expr), select.having]) {
+    const column = ungroupedColumn(scope, grouping, value);
+    if (!column) continue;
+    const qualifier = identifier(column.table);
+    const name = `${qualifier ? `${qualifier}.` : ""}${identifier(column.column)}`;
+    // Inside a larger expression, an equivalent grouped expression written differently would not match
+    report(
+      ctx,
+      `Column "${name}" must appear in the GROUP BY clause or be used in an aggregate function`,
+      `Add ${name} to GROUP BY or wrap it in an aggregate`,
+      column === value ? "error" : "warning",
+    );
+  }
+}
+
+// ── SELECT ────────────────────────────────────────────────────────
+
+function selectColumns(select: AstNode): AstNode[] {
+  return Array.isArray(select.columns) ? (select.columns as AstNode[]) : [];
+}
+
+/**
+ * Output column names of a SELECT, or null when it selects *. Names of
+ * unaliased expressions follow PostgreSQL and make the result inexact.
+ */
+function outputColumns(select: AstNode): Columns | null {
+  if (!Array.isArray(select.columns)) return null;
+  const names = new Set<string>();
+  let exact = true;
+  for (const column of selectColumns(select)) {
+    const expr = isNode(column.expr) ? column.expr : {};
+    if (expr.type === "column_ref" && identifier(expr.column) === "*") return null;
+
+    const alias = identifier(column.as);
+    if (alias) {
+      names.add(lower(alias));
+      continue;
+    }
+    if (expr.type === "column_ref") {
+      names.add(lower(identifier(expr.column) ?? ""));
+      continue;
+    }
+    exact = false;
+    if (expr.type === "cast" && isNode(expr.expr) && expr.expr.type === "column_ref") {
+      names.add(lower(identifier(expr.expr.column) ?? ""));
+    } else if (expr.type === "aggr_func" && typeof expr.name === "string") {
+      names.add(lower(expr.name));
+    } else if (expr.type === "function") {
+      const name = functionName(expr);
+      if (name) names.add(name);
+    }
+  }
+  return { names, exact };
+}
+
+/** Split an alias with a column list, such as `g(d)`, into its name and columns */
+function splitAlias(alias: string | null): { name: string | null; columns: Columns | null } {
+  const match = alias ? /^\s*([^(]+?)\s*\((.*)\)\s*$/s.exec(alias) : null;
+  if (!match) return { name: alias, columns: null };
+  const names = match[2]!
+    .split(",")
+    .map((c) => lower(c.trim().replace(/^"(.*)"$/, "$1")))
+    .filter(Boolean);
+  return { name: match[1]!, columns: { names: new Set(names), exact: true } };
+}
+
+function buildRelation(ctx: CheckContext, item: AstNode, scope: Scope): Relation | null {
+  const { name: alias, columns: aliasColumns } = splitAlias(identifier(item.as));
+
+  if (isNode(item.expr)) {
+    const nested = subquery(item.expr);
+    if (nested) {
+      // A LATERAL subquery sees the FROM items to its left; others only the enclosing queries
+      const lateral = typeof item.prefix === "string" && /lateral/i.test(item.prefix);
+      const outer = lateral ? { ...scope, relations: [...scope.relations], aliases: new Set<string>() } : scope.parent;
+      const output = checkSelect(ctx, nested, outer, scope.ctes);
+      const columns = aliasColumns ?? output;
+      return alias
+        ? {
+            name: alias,
+            label: `subquery "${alias}"`,
+            columns: columns?.names ?? null,
+            exact: columns?.exact ?? false,
+            primaryKey: [],
+          }
+        : null;
+    }
+    // Table functions such as UNNEST or GENERATE_SERIES, known only through a column list
+    return alias
+      ? {
+          name: alias,
+          label: `"${alias}"`,
+          columns: aliasColumns?.names ?? null,
+          exact: aliasColumns !== null,
+          primaryKey: [],
+        }
+      : null;
+  }
+
+  const tableName = identifier(item.table);
+  if (!tableName) return null;
+  const schemaName = identifier(item.db);
+  const name = alias ?? tableName;
+
+  if (!schemaName && scope.ctes.has(lower(tableName))) {
+    const columns = aliasColumns ?? scope.ctes.get(lower(tableName)) ?? null;
+    return { name, label: `"${tableName}"`, columns: columns?.names ?? null, exact: columns?.exact ?? false, primaryKey: [] };
+  }
+
+  const table = findTable(ctx, schemaName, tableName);
+  const qualified = schemaName ? `${schemaName}.${tableName}` : tableName;
+  if (!table) {
+    // A schema the introspection never covered, e.g. pg_catalog, may still hold the table
+    const introspected =
+      !schemaName || [...ctx.tables.values()].flat().some((t) => lower(t.schema) === lower(schemaName));
+    report(
+      ctx,
+      `Table "${qualified}" does not exist in the database schema`,
+      didYouMean(tableName, [...ctx.tables.values()].flat().map((t) => t.name)) ?? "Use only tables listed in the schema",
+      introspected ? "error" : "warning",
+    );
+    return { name, label: `"${qualified}"`, columns: null, exact: false, primaryKey: [] };
+  }
+
+  if (aliasColumns) {
+    // Renamed columns; the rest keep their names, which the checker does not track
+    return { name, label: `"${qualified}"`, columns: null, exact: false, primaryKey: [] };
+  }
+  return {
+    name,
+    label: `"${qualified}"`,
+    columns: new Set(table.columns.map((c) => lower(c.name))),
+    exact: true,
+    primaryKey: table.columns.filter((c) => c.isPrimaryKey).map((c) => lower(c.name)),
+  };
+}
+
+/**
+ * Check one SELECT (and any UNION branches) and return its output columns.
+ */
+function checkSelect(
+  ctx: CheckContext,
+  select: AstNode,
+  parent: Scope | undefined,
+  inheritedCtes: Map<string, Columns | null>,
+): Columns | null {
+  const ctes = new Map(inheritedCtes);
+  for (const cte of Array.isArray(select.with) ? (select.with as AstNode[]) : []) {
+    const name = lower(identifier(cte.name) ?? "");
+    const body = isNode(cte.stmt) ? subquery(cte.stmt) : null;
+    // Registered before its body is checked so WITH RECURSIVE can refer to itself
+    ctes.set(name, null);
+    const columns = body ? checkSelect(ctx, body, parent, ctes) : null;
+    const declared = Array.isArray(cte.columns)
+      ? (cte.columns as unknown[]).map((c) => identifier(isNode(c) && c.type === "column_ref" ? c.column : c))
+      : [];
+    ctes.set(
+      name,
+      declared.length > 0
+        ? { names: new Set(declared.filter((c): c is string => !!c).map(lower)), exact: true }
+        : columns,
+    );
+  }
+
+  const from = Array.isArray(select.from) ? (select.from as AstNode[]) : [];
+  const scope: Scope = {
+    relations: [],
+    ctes,
+    aliases: new Set(
+      selectColumns(select)
+        .map((c) => identifier(c.as))
+        .filter((a): a is string => !!a)
+        .map(lower),
+    ),
+    usingColumns: new Set(),
+    natural: false,
+    parent,
+  };
+
+  for (const item of from) {
+    const relation = buildRelation(ctx, item, scope);
+    if (relation) scope.relations.push(relation);
+    for (const column of Array.isArray(item.using) ? item.using : []) {
+      const name = identifier(column);
+      if (name) scope.usingColumns.add(lower(name));
+    }
+    if (typeof item.join === "string" && /natural/i.test(item.join)) scope.natural = true;
+  }
+
+  const state: WalkState = { insideAggregate: false };
+  const columns = selectColumns(select);
+  for (const item of from) walkExpression(ctx, scope, item.on, state);
+  walkExpression(ctx, scope, columns.map((c) => c.expr), state);
+  walkExpression(ctx, scope, select.where, state);
+  walkExpression(ctx, scope, groupByExpressions(select), state);
+  walkExpression(ctx, scope, select.having, state);
+  walkExpression(ctx, scope, select.orderby, state);
+  if (isNode(select.distinct)) walkExpression(ctx, scope, select.distinct.columns, state);
+
+  if (containsAggregate(select.where)) {
+    report(ctx, "Aggregate functions are not allowed in WHERE", "Filter on aggregates in HAVING");
+  }
+  if (containsAggregate(groupByExpressions(select))) {
+    report(ctx, "Aggregate functions are not allowed in GROUP BY", "Group by the underlying columns");
+  }
+  checkGrouping(ctx, scope, select, columns);
+
+  if (isNode(select._next)) checkSelect(ctx, select._next, parent, inheritedCtes);
+  return outputColumns(select);
+}
+
+/**
+ * Resolve every table and column reference in `sql` against the schema and
+ * check GROUP BY completeness and aggregate usage. Returns no issues for
+ * dialects without a parser grammar or SQL the parser cannot read.
+ */
+export function checkSqlAgainstSchema(
+  sql: string,
+  dialect: WarehouseDialect,
+  schema: IntrospectedSchema,
+): SqlValidationIssue[] {
+  const database = PARSER_DATABASES[dialect];
+  if (!database) return [];
+
+  let ast: unknown;
+  try {
+    ast = parser.astify(sql, { database });
+  } catch {
+    return [];
+  }
+
+  const ctx: CheckContext = { tables: new Map(), issues: [] };
+  for (const table of schema.tables) {
+    const key = lower(table.name);
+    ctx.tables.set(key, [...(ctx.tables.get(key) ?? []), table]);
+  }
+
+  for (const statement of Array.isArray(ast) ? ast : [ast]) {
+    if (isNode(statement) && statement.type === "select") {
+      checkSelect(ctx, statement, undefined, new Map());
+    }
+  }
+  return ctx.issues;
+}
@@ -0,0 +1,1161 @@
+import type { SqlValidationIssue, WarehouseDialect } from "@heydata/shared";
+
+/**
+ * Deterministic PostgreSQL → warehouse dialect translation.
+ *
+ * The SQL generator always writes PostgreSQL; this module rewrites the
+ * constructs that differ per engine (casts, date functions, intervals,
+ * ILIKE, FILTER clauses, FETCH FIRST, identifier quoting) so adapters can be
+ * added without re-tuning prompts. It works on a token stream rather than a
+ * full AST: everything it does not recognise is passed through verbatim,
+ * and constructs with no equivalent in the target are reported as
+ * SqlValidationIssues instead of being guessed at.
+ */
+
+export interface TranspileResult {
+  /** The query in the target dialect */
+  sql: string;
+  dialect: WarehouseDialect;
+  /** Constructs that could not be translated (errors) or were translated lossily (warnings) */
+  issues: SqlValidationIssue[];
+}
+
+/** Human-readable dialect names for messages and prompts */
+export const DIALECT_LABELS: Record<WarehouseDialect, string> = {
+  postgresql: "PostgreSQL",
+  mysql: "MySQL",
+  sqlite: "SQLite",
+  duckdb: "DuckDB",
+  bigquery: "BigQuery",
+  snowflake: "Snowflake",
+  redshift: "Redshift",
+  databricks: "Databricks",
+};
+
+// ── Tokens ────────────────────────────────────────────────────────
+
+type TokenType =
+  | "space"
+  | "comment"
+  | "string"
+  | "identifier"
+  | "word"
+  | "number"
+  | "operator"
+  /** Text produced by a rewrite; behaves like a single operand */
+  | "raw";
+
+interface Token {
+  type: TokenType;
+  text: string;
+}
+
+/** Multi-character operators, longest first */
+const OPERATORS = ["->>", "#>>", "!~*", "::", "->", "#>", "@>", "<@", "||", "<=", ">=", "<>", "!=", "!~", "~*"];
+
+const WORD = /[A-Za-z_][A-Za-z0-9_$]*/y;
+const NUMBER = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const DOLLAR_TAG = /\$[A-Za-z_]*\$/y;
+
+function closingQuote(sql: string, start: number, quote: string, backslashEscapes = false): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === "\\") {
+      i += 2;
+      continue;
+    }
+    if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+function matchAt(pattern: RegExp, sql: string, index: number): string | null {
+  pattern.lastIndex = index;
+  return pattern.exec(sql)?.[0] ?? null;
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i]!;
+    let type: TokenType;
+    let end: number;
+
+    if (/\s/.test(ch)) {
+      end = i + 1;
+      while (end < sql.length && /\s/.test(sql[end]!)) end++;
+      type = "space";
+    } else if (sql.startsWith("--", i)) {
+      end = sql.indexOf("\n", i);
+      if (end < 0) end = sql.length;
+      type = "comment";
+    } else if (sql.startsWith("/*", i)) {
+      end = sql.indexOf("*/", i + 2);
+      end = end < 0 ? sql.length : end + 2;
+      type = "comment";
+    } else if (ch === "'") {
+      end = closingQuote(sql, i, "'");
+      type = "string";
+    } else if ((ch === "E" || ch === "e") && sql[i + 1] === "'") {
+      // Escape string: E'it\'s'
+      end = closingQuote(sql, i + 1, "'", true);
+      type = "string";
+    } else if (ch === '"' || ch === "`") {
+      end = closingQuote(sql, i, ch);
+      type = "identifier";
+    } else if (ch === "$" && matchAt(DOLLAR_TAG, sql, i)) {
+      const tag = matchAt(DOLLAR_TAG, sql, i)!;
+      const close = sql.indexOf(tag, i + tag.length);
+      end = close < 0 ? sql.length : close + tag.length;
+      type = "string";
+    } else if (matchAt(WORD, sql, i)) {
+      end = i + matchAt(WORD, sql, i)!.length;
+      type = "word";
+    } else if (matchAt(NUMBER, sql, i)) {
+      end = i + matchAt(NUMBER, sql, i)!.length;
+      type = "number";
+    } else {
+      end = i + (OPERATORS.find((op) => sql.startsWith(op, i)) ?? ch).length;
+      type = "operator";
+    }
+
+    tokens.push({ type, text: sql.slice(i, end) });
+    i = end;
+  }
+  return tokens;
+}
+
+function render(tokens: Token[]): string {
+  return tokens.map((t) => t.text).join("").trim();
+}
+
+function raw(text: string): Token {
+  return { type: "raw", text };
+}
+
+function isTrivia(token: Token | undefined): boolean {
+  return token?.type === "space" || token?.type === "comment";
+}
+
+function isWord(token: Token | undefined, ...words: string[]): boolean {
+  return token?.type === "word" && words.includes(token.text.toUpperCase());
+}
+
+function isOp(token: Token | undefined, ...ops: string[]): boolean {
+  return token?.type === "operator" && ops.includes(token.text);
+}
+
+function nextIndex(tokens: Token[], i: number): number {
+  let j = i + 1;
+  while (j < tokens.length && isTrivia(tokens[j])) j++;
+  return j;
+}
+
+function prevIndex(tokens: Token[], i: number): number {
+  let j = i - 1;
+  while (j >= 0 && isTrivia(tokens[j])) j--;
+  return j;
+}
+
+function closingParen(tokens: Token[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (isOp(tokens[i], "(")) depth++;
+    else if (isOp(tokens[i], ")") && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function openingParen(tokens: Token[], close: number): number {
+  let depth = 0;
+  for (let i = close; i >= 0; i--) {
+    if (isOp(tokens[i], ")")) depth++;
+    else if (isOp(tokens[i], "(") && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Split the tokens inside a parenthesised list at top-level commas */
+function splitArgs(tokens: Token[]): Token[][] {
+  const args: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (isOp(token, "(")) depth++;
+    else if (isOp(token, ")")) depth--;
+    if (depth === 0 && isOp(token, ",")) args.push([]);
+    else args[args.length - 1]!.push(token);
+  }
+  return args;
+}
+
+/** Index of the first top-level `word` in tokens, or -1 */
+function topLevelWord(tokens: Token[], word: string, fromEnd = false): number {
+  let depth = 0;
+  let found = -1;
+  for (let i = 0; i < tokens.length; i++) {
+    if (isOp(tokens[i], "(")) depth++;
+    else if (isOp(tokens[i], ")")) depth--;
+    else if (depth === 0 && isWord(tokens[i], word)) {
+      found = i;
+      if (!fromEnd) return found;
+    }
+  }
+  return found;
+}
+
+function significant(tokens: Token[]): Token[] {
+  return tokens.filter((t) => !isTrivia(t));
+}
+
+const BACKSLASH_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+
+/** The value of a string literal: '...', E'...' or $tag$...$tag$ */
+function unquote(token: Token): string {
+  const { text } = token;
+  if (text.startsWith("$")) {
+    const tag = matchAt(DOLLAR_TAG, text, 0)!;
+    return text.slice(tag.length, -tag.length);
+  }
+  if (/^e'/i.test(text)) {
+    return text.slice(2, -1).replace(/\\(.)|''/gs, (_match, escaped?: string) =>
+      escaped === undefined ? "'" : (BACKSLASH_ESCAPES[escaped] ?? escaped),
+    );
+  }
+  return text.slice(1, -1).replaceAll("''", "'");
+}
+
+/** Keywords that can precede "(" without being a function name */
+const KEYWORDS = new Set([
+  "SELECT", "FROM", "WHERE", "AND", "OR", "NOT", "IN", "EXISTS", "ON", "AS", "WHEN", "THEN",
+  "ELSE", "CASE", "JOIN", "BY", "HAVING", "LIKE", "ILIKE", "BETWEEN", "IS", "WITH", "UNION",
+  "ALL", "DISTINCT", "LIMIT", "OFFSET", "ORDER", "GROUP", "OVER", "FILTER", "USING", "VALUES",
+  "RETURN", "ANY", "SOME",
+]);
+
+/** Operators that bind looser than the rewritten construct's operand */
+const ARITHMETIC = new Set(["+", "-", "*", "/", "%", "||"]);
+
+/**
+ * Start index of the operand (column, literal, function call, parenthesised
+ * expression or CASE ... END) that ends at tokens[end], or -1.
+ */
+function operandStart(tokens: Token[], end: number): number {
+  const token = tokens[end];
+  if (!token) return -1;
+  let start: number;
+
+  if (isOp(token, ")")) {
+    start = openingParen(tokens, end);
+    if (start < 0) return -1;
+    const before = prevIndex(tokens, start);
+    if (isWord(tokens[before], "OVER", "FILTER")) {
+      return operandStart(tokens, prevIndex(tokens, before));
+    }
+    const prev = tokens[before];
+    if ((prev?.type === "word" && !KEYWORDS.has(prev.text.toUpperCase())) || prev?.type === "identifier") {
+      start = before;
+    }
+  } else if (isWord(token, "END")) {
+    let depth = 0;
+    for (start = end; start >= 0; start--) {
+      if (isWord(tokens[start], "END")) depth++;
+      else if (isWord(tokens[start], "CASE") && --depth === 0) break;
+    }
+    if (start < 0) return -1;
+    return start;
+  } else if (token.type === "string") {
+    start = end;
+    const before = prevIndex(tokens, end);
+    if (isWord(tokens[before], "DATE", "TIMESTAMP", "TIME", "INTERVAL")) start = before;
+    return start;
+  } else if (token.type === "word") {
+    if (KEYWORDS.has(token.text.toUpperCase())) return -1;
+    start = end;
+  } else if (token.type === "identifier" || token.type === "number" || token.type === "raw") {
+    start = end;
+  } else {
+    return -1;
+  }
+
+  // Qualified names: schema.table.column
+  for (;;) {
+    const dot = prevIndex(tokens, start);
+    const qualifier = prevIndex(tokens, dot);
+    if (isOp(tokens[dot], ".") && (tokens[qualifier]?.type === "word" || tokens[qualifier]?.type === "identifier")) {
+      start = qualifier;
+    } else {
+      return start;
+    }
+  }
+}
+
+/** End index of the operand that starts at tokens[start], or -1 */
+function operandEnd(tokens: Token[], start: number): number {
+  const token = tokens[start];
+  if (!token) return -1;
+
+  if (isOp(token, "(")) return closingParen(tokens, start);
+  if (token.type === "string" || token.type === "number" || token.type === "raw") return start;
+  if (isWord(token, "DATE", "TIMESTAMP", "TIME", "INTERVAL") && tokens[nextIndex(tokens, start)]?.type === "string") {
+    return nextIndex(tokens, start);
+  }
+  if (isWord(token, "CASE")) {
+    let depth = 0;
+    for (let i = start; i < tokens.length; i++) {
+      if (isWord(tokens[i], "CASE")) depth++;
+      else if (isWord(tokens[i], "END") && --depth === 0) return i;
+    }
+    return -1;
+  }
+  if (token.type !== "word" && token.type !== "identifier") return -1;
+  if (token.type === "word" && KEYWORDS.has(token.text.toUpperCase())) return -1;
+
+  let end = start;
+  while (isOp(tokens[nextIndex(tokens, end)], ".")) {
+    const part = nextIndex(tokens, nextIndex(tokens, end));
+    if (tokens[part]?.type !== "word" && tokens[part]?.type !== "identifier") break;
+    end = part;
+  }
+  if (isOp(tokens[nextIndex(tokens, end)], "(")) {
+    end = closingParen(tokens, nextIndex(tokens, end));
+    if (end < 0) return -1;
+    if (isWord(tokens[nextIndex(tokens, end)], "OVER") && isOp(tokens[nextIndex(tokens, nextIndex(tokens, end))], "(")) {
+      end = closingParen(tokens, nextIndex(tokens, nextIndex(tokens, end)));
+    }
+  }
+  return end;
+}
+
+/** Whether the operand starting at tokens[start] is the right side of an arithmetic operator */
+function isCompoundOperand(tokens: Token[], start: number): boolean {
+  const before = tokens[prevIndex(tokens, start)];
+  return before?.type === "operator" && ARITHMETIC.has(before.text);
+}
+
+// ── Rewrite context ───────────────────────────────────────────────
+
+interface TranspileContext {
+  dialect: WarehouseDialect;
+  issues: SqlValidationIssue[];
+}
+
+function reportUnsupported(
+  ctx: TranspileContext,
+  construct: string,
+  suggestion?: string,
+  severity: SqlValidationIssue["severity"] = "error",
+): void {
+  const message = `${construct} is not supported by ${DIALECT_LABELS[ctx.dialect]}`;
+  if (ctx.issues.some((issue) => issue.message === message)) return;
+  ctx.issues.push({ type: "syntax", severity, message, suggestion });
+}
+
+type Pass = (tokens: Token[], ctx: TranspileContext) => Token[];
+
+// ── FILTER (WHERE ...) → CASE ─────────────────────────────────────
+
+const NO_FILTER_CLAUSE = new Set<WarehouseDialect>(["mysql", "bigquery", "redshift", "snowflake"]);
+
+/**
+ * AGG(x) FILTER (WHERE cond) → AGG(CASE WHEN cond THEN x END).
+ * COUNT(*) counts a constant so rows failing the condition become NULL.
+ */
+const rewriteFilterClauses: Pass = (tokens, ctx) => {
+  if (!NO_FILTER_CLAUSE.has(ctx.dialect)) return tokens;
+  const out: Token[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    const open = nextIndex(tokens, i);
+    if (isWord(token, "FILTER") && isOp(tokens[open], "(") && isWord(tokens[nextIndex(tokens, open)], "WHERE")) {
+      const close = closingParen(tokens, open);
+      const callEnd = prevIndex(out, out.length);
+      const callStart = operandStart(out, callEnd);
+      const argsOpen = nextIndex(out, callStart);
+      if (close > 0 && callStart >= 0 && isOp(out[argsOpen], "(") && isOp(out[callEnd], ")")) {
+        const condition = render(tokens.slice(nextIndex(tokens, open) + 1, close));
+        const name = render(out.slice(callStart, argsOpen));
+        const args = splitArgs(out.slice(argsOpen + 1, callEnd));
+        const first = significant(args[0]!);
+        let inner: string;
+        if (first.length === 1 && isOp(first[0], "*")) {
+          inner = `CASE WHEN ${condition} THEN 1 END`;
+        } else if (isWord(first[0], "DISTINCT")) {
+          inner = `DISTINCT CASE WHEN ${condition} THEN ${render(args[0]!).replace(/^DISTINCT\s+/i, "")} END`;
+        } else {
+          inner = `CASE WHEN ${condition} THEN ${render(args[0]!)} END`;
+        }
+        const rest = args.slice(1).map((arg) => `, ${render(arg)}`).join("");
+        out.splice(callStart);
+        out.push(raw(`${name}(${inner}${rest})`));
+        i = close;
+        continue;
+      }
+      reportUnsupported(ctx, "FILTER (WHERE ...)", "Use SUM(CASE WHEN ... THEN 1 ELSE 0 END)");
+    }
+    out.push(token);
+  }
+  return out;
+};
+
+// ── STRING_AGG ────────────────────────────────────────────────────
+
+/**
+ * STRING_AGG(x, sep [ORDER BY ...]) → GROUP_CONCAT(x [ORDER BY ...] SEPARATOR sep)
+ * on MySQL, which only takes a literal separator and has no window form.
+ */
+const rewriteStringAgg: Pass = (tokens, ctx) => {
+  if (ctx.dialect !== "mysql") return tokens;
+  const out: Token[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    const open = nextIndex(tokens, i);
+    if (isWord(token, "STRING_AGG") && isOp(tokens[open], "(")) {
+      const close = closingParen(tokens, open);
+      const args = close > 0 ? splitArgs(rewriteStringAgg(tokens.slice(open + 1, close), ctx)) : [];
+      const orderBy = args.length === 2 ? topLevelWord(args[1]!, "ORDER") : -1;
+      const separator = significant(orderBy >= 0 ? args[1]!.slice(0, orderBy) : (args[1] ?? []));
+      if (isWord(tokens[nextIndex(tokens, close)], "OVER")) {
+        reportUnsupported(ctx, "STRING_AGG(...) OVER (...)", "Aggregate with STRING_AGG in a CTE and join it back");
+      } else if (args.length === 2 && separator.length === 1 && separator[0]!.type === "string") {
+        const order = orderBy >= 0 ? ` ${render(args[1]!.slice(orderBy))}` : "";
+        out.push(raw(`GROUP_CONCAT(${render(args[0]!)}${order} SEPARATOR ${separator[0]!.text})`));
+        i = close;
+        continue;
+      } else {
+        reportUnsupported(ctx, "STRING_AGG without a literal separator", "Use STRING_AGG(column, ', ')");
+      }
+    }
+    out.push(token);
+  }
+  return out;
+};
+
+// ── Casts ─────────────────────────────────────────────────────────
+
+const NO_DOUBLE_COLON = new Set<WarehouseDialect>(["mysql", "sqlite", "bigquery"]);
+
+const MULTIWORD_TYPES = [
+  "double precision",
+  "character varying",
+  "timestamp with time zone",
+  "timestamp without time zone",
+  "time with time zone",
+  "time without time zone",
+];
+
+/** PostgreSQL type names that need renaming; null means the target has no equivalent */
+type TypeMap = Record<string, string | null>;
+
+function typeMap(groups: [string[], string | null][]): TypeMap {
+  const map: TypeMap = {};
+  for (const [names, target] of groups) {
+    for (const name of names) map[name] = target;
+  }
+  return map;
+}
+
+const INTEGER_TYPES = ["int", "integer", "int2", "int4", "int8", "smallint", "bigint"];
+const DECIMAL_TYPES = ["numeric", "decimal"];
+const FLOAT_TYPES = ["real", "float", "float4", "float8", "double precision"];
+const TEXT_TYPES = ["text", "varchar", "character varying", "char", "character", "bpchar"];
+const TIMESTAMP_TYPES = ["timestamp", "timestamptz", "timestamp with time zone", "timestamp without time zone"];
+
+const CAST_TYPES: Partial<Record<WarehouseDialect, TypeMap>> = {
+  mysql: typeMap([
+    [INTEGER_TYPES, "SIGNED"],
+    [DECIMAL_TYPES, "DECIMAL"],
+    [FLOAT_TYPES, "DOUBLE"],
+    [TEXT_TYPES, "CHAR"],
+    [TIMESTAMP_TYPES, "DATETIME"],
+    [["boolean", "bool"], null],
+    [["json", "jsonb"], "JSON"],
+  ]),
+  bigquery: typeMap([
+    [INTEGER_TYPES, "INT64"],
+    [DECIMAL_TYPES, "NUMERIC"],
+    [FLOAT_TYPES, "FLOAT64"],
+    [TEXT_TYPES, "STRING"],
+    [["timestamp", "timestamptz", "timestamp with time zone"], "TIMESTAMP"],
+    [["timestamp without time zone"], "DATETIME"],
+    [["boolean", "bool"], "BOOL"],
+    [["json", "jsonb"], "JSON"],
+  ]),
+  sqlite: typeMap([
+    [INTEGER_TYPES, "INTEGER"],
+    [[...DECIMAL_TYPES, ...FLOAT_TYPES], "REAL"],
+    [TEXT_TYPES, "TEXT"],
+    [["boolean", "bool"], "INTEGER"],
+    [["json", "jsonb"], "TEXT"],
+  ]),
+  snowflake: typeMap([
+    [["int2"], "SMALLINT"],
+    [["int4"], "INTEGER"],
+    [["int8"], "BIGINT"],
+    [["bpchar"], "CHAR"],
+    [["json", "jsonb"], "VARIANT"],
+  ]),
+  databricks: typeMap([
+    [["int2"], "SMALLINT"],
+    [["int4", "integer"], "INT"],
+    [["int8"], "BIGINT"],
+    [["real", "float4"], "FLOAT"],
+    [["float8", "double precision"], "DOUBLE"],
+    [TEXT_TYPES, "STRING"],
+    [TIMESTAMP_TYPES, "TIMESTAMP"],
+    [["json", "jsonb"], "STRING"],
+  ]),
+};
+
+/**
+ * NUMERIC without a precision means "any scale" in PostgreSQL but scale 0
+ * in these engines, which would silently round averages and ratios.
+ */
+const UNSCALED_NUMERIC: Partial<Record<WarehouseDialect, string>> = {
+  mysql: "DECIMAL(38, 10)",
+  snowflake: "NUMBER(38, 10)",
+  redshift: "DECIMAL(38, 10)",
+  databricks: "DECIMAL(38, 10)",
+};
+
+const ARRAY_TYPES = new Set<WarehouseDialect>(["postgresql", "duckdb"]);
+
+interface ParsedType {
+  name: string;
+  params: string;
+  array: boolean;
+  text: string;
+  end: number;
+}
+
+function parseType(tokens: Token[], start: number): ParsedType | null {
+  const first = tokens[start];
+  if (first?.type !== "word" && first?.type !== "identifier") return null;
+
+  let name = first.text.toLowerCase();
+  let end = start;
+  for (;;) {
+    const next = tokens[nextIndex(tokens, end)];
+    if (next?.type !== "word") break;
+    const candidate = `${name} ${next.text.toLowerCase()}`;
+    if (!MULTIWORD_TYPES.some((t) => t === candidate || t.startsWith(`${candidate} `))) break;
+    name = candidate;
+    end = nextIndex(tokens, end);
+  }
+
+  let params = "";
+  if (isOp(tokens[nextIndex(tokens, end)], "(")) {
+    const close = closingParen(tokens, nextIndex(tokens, end));
+    if (close < 0) return null;
+    params = render(tokens.slice(nextIndex(tokens, end), close + 1)).replace(/\s+/g, "");
+    end = close;
+  }
+
+  let array = false;
+  if (isOp(tokens[nextIndex(tokens, end)], "[") && isOp(tokens[nextIndex(tokens, nextIndex(tokens, end))], "]")) {
+    array = true;
+    end = nextIndex(tokens, nextIndex(tokens, end));
+  }
+
+  return { name, params, array, text: render(tokens.slice(start, end + 1)), end };
+}
+
+/** Target type name, or null when the target cannot express the type */
+function mapType(ctx: TranspileContext, type: ParsedType): string | null {
+  if (type.array) return ARRAY_TYPES.has(ctx.dialect) ? type.text : null;
+  const mapped = CAST_TYPES[ctx.dialect]?.[type.name];
+  if (mapped === null) return null;
+  if (!type.params && DECIMAL_TYPES.includes(type.name) && UNSCALED_NUMERIC[ctx.dialect]) {
+    return UNSCALED_NUMERIC[ctx.dialect]!;
+  }
+  return mapped === undefined ? type.text : `${mapped}${type.params}`;
+}
+
+function renderCast(ctx: TranspileContext, expr: string, type: ParsedType): string | null {
+  if (ctx.dialect === "sqlite" && type.name === "date") return `date(${expr})`;
+  if (ctx.dialect === "sqlite" && TIMESTAMP_TYPES.includes(type.name)) return `datetime(${expr})`;
+  const target = mapType(ctx, type);
+  return target === null ? null : `CAST(${expr} AS ${target})`;
+}
+
+/**
+ * expr::type → CAST(expr AS type) where `::` is unavailable, and
+ * PostgreSQL type names → target type names in both forms.
+ */
+const rewriteCasts: Pass = (tokens, ctx) => {
+  if (ctx.dialect === "postgresql") return tokens;
+  const out: Token[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+
+    if (isOp(token, "::")) {
+      const type = parseType(tokens, nextIndex(tokens, i));
+      const exprEnd = prevIndex(out, out.length);
+      const exprStart = operandStart(out, exprEnd);
+      if (type && exprStart >= 0) {
+        if (NO_DOUBLE_COLON.has(ctx.dialect)) {
+          const cast = renderCast(ctx, render(out.slice(exprStart)), type);
+          if (cast !== null) {
+            out.splice(exprStart);
+            out.push(raw(cast));
+            i = type.end;
+            continue;
+          }
+        } else {
+          const target = mapType(ctx, type);
+          if (target !== null) {
+            out.push(token, raw(target));
+            i = type.end;
+            continue;
+          }
+        }
+        reportUnsupported(ctx, `Casting to ${type.text}`);
+      } else if (NO_DOUBLE_COLON.has(ctx.dialect)) {
+        reportUnsupported(ctx, ":: casts", "Use CAST(expression AS type)");
+      }
+    }
+
+    const open = nextIndex(tokens, i);
+    if (isWord(token, "CAST") && isOp(tokens[open], "(")) {
+      const close = closingParen(tokens, open);
+      const inner = tokens.slice(open + 1, close);
+      const as = topLevelWord(inner, "AS", true);
+      const type = as >= 0 ? parseType(inner, nextIndex(inner, as)) : null;
+      if (close > 0 && type) {
+        const cast = renderCast(ctx, render(rewriteCasts(inner.slice(0, as), ctx)), type);
+        if (cast !== null) {
+          out.push(raw(cast));
+          i = close;
+          continue;
+        }
+        reportUnsupported(ctx, `Casting to ${type.text}`);
+      }
+    }
+
+    out.push(token);
+  }
+  return out;
+};
+
+// ── Date functions and intervals ──────────────────────────────────
+
+const DATE_UNITS = ["second", "minute", "hour", "day", "week", "month", "quarter", "year"];
+
+type DateRenderer = (unit: string, expr: string) => string | null;
+
+/** DATE_TRUNC('unit', expr) for engines without PostgreSQL's signature */
+const DATE_TRUNC: Partial<Record<WarehouseDialect, DateRenderer>> = {
+  // PostgreSQL weeks start on Monday; BigQuery's WEEK starts on Sunday
+  bigquery: (unit, expr) =>
+    DATE_UNITS.includes(unit)
+      ? `DATE_TRUNC(${expr}, ${unit === "week" ? "WEEK(MONDAY)" : unit.toUpperCase()})`
+      : null,
+  mysql: (unit, expr) => {
+    switch (unit) {
+      case "second": return `CAST(DATE_FORMAT(${expr}, '%Y-%m-%d %H:%i:%s') AS DATETIME)`;
+      case "minute": return `CAST(DATE_FORMAT(${expr}, '%Y-%m-%d %H:%i:00') AS DATETIME)`;
+      case "hour": return `CAST(DATE_FORMAT(${expr}, '%Y-%m-%d %H:00:00') AS DATETIME)`;
+      case "day": return `DATE(${expr})`;
+      case "week": return `DATE_SUB(DATE(${expr}), INTERVAL WEEKDAY(${expr}) DAY)`;
+      case "month": return `CAST(DATE_FORMAT(${expr}, '%Y-%m-01') AS DATE)`;
+      case "quarter": return `MAKEDATE(YEAR(${expr}), 1) + INTERVAL (QUARTER(${expr}) - 1) QUARTER`;
+      case "year": return `MAKEDATE(YEAR(${expr}), 1)`;
+      default: return null;
+    }
+  },
+  sqlite: (unit, expr) => {
+    switch (unit) {
+      case "second": return `strftime('%Y-%m-%d %H:%M:%S', ${expr})`;
+      case "minute": return `strftime('%Y-%m-%d %H:%M:00', ${expr})`;
+      case "hour": return `strftime('%Y-%m-%d %H:00:00', ${expr})`;
+      case "day": return `date(${expr})`;
+      case "week": return `date(${expr}, 'weekday 0', '-6 days')`;
+      case "month": return `date(${expr}, 'start of month')`;
+      case "quarter":
+        return `date(${expr}, 'start of month', '-' || ((CAST(strftime('%m', ${expr}) AS INTEGER) - 1) % 3) || ' months')`;
+      case "year": return `date(${expr}, 'start of year')`;
+      default: return null;
+    }
+  },
+};
+
+const EXTRACT_UNITS = ["year", "quarter", "month", "day", "hour", "minute", "second"];
+
+const SQLITE_STRFTIME: Record<string, string> = {
+  year: "%Y",
+  month: "%m",
+  day: "%d",
+  hour: "%H",
+  minute: "%M",
+  second: "%S",
+  doy: "%j",
+  dow: "%w",
+  epoch: "%s",
+};
+
+/** DATE_PART('unit', expr) / EXTRACT(unit FROM expr), with PostgreSQL's numbering */
+const DATE_PART: Partial<Record<WarehouseDialect, DateRenderer>> = {
+  bigquery: (unit, expr) => {
+    if (EXTRACT_UNITS.includes(unit)) return `EXTRACT(${unit.toUpperCase()} FROM ${expr})`;
+    switch (unit) {
+      case "week": return `EXTRACT(ISOWEEK FROM ${expr})`;
+      case "dow": return `(EXTRACT(DAYOFWEEK FROM ${expr}) - 1)`;
+      case "isodow": return `(MOD(EXTRACT(DAYOFWEEK FROM ${expr}) + 5, 7) + 1)`;
+      case "doy": return `EXTRACT(DAYOFYEAR FROM ${expr})`;
+      case "epoch": return `UNIX_SECONDS(CAST(${expr} AS TIMESTAMP))`;
+      default: return null;
+    }
+  },
+  mysql: (unit, expr) => {
+    if (EXTRACT_UNITS.includes(unit)) return `EXTRACT(${unit.toUpperCase()} FROM ${expr})`;
+    switch (unit) {
+      case "week": return `WEEK(${expr}, 3)`;
+      case "dow": return `(DAYOFWEEK(${expr}) - 1)`;
+      case "isodow": return `(WEEKDAY(${expr}) + 1)`;
+      case "doy": return `DAYOFYEAR(${expr})`;
+      case "epoch": return `UNIX_TIMESTAMP(${expr})`;
+      default: return null;
+    }
+  },
+  sqlite: (unit, expr) => {
+    if (SQLITE_STRFTIME[unit]) return `CAST(strftime('${SQLITE_STRFTIME[unit]}', ${expr}) AS INTEGER)`;
+    switch (unit) {
+      case "quarter": return `((CAST(strftime('%m', ${expr}) AS INTEGER) + 2) / 3)`;
+      case "isodow": return `((CAST(strftime('%w', ${expr}) AS INTEGER) + 6) % 7 + 1)`;
+      default: return null;
+    }
+  },
+};
+
+/** NOW() where the engine lacks it (or deprecates it) */
+const NOW_FUNCTION: Partial<Record<WarehouseDialect, string>> = {
+  bigquery: "CURRENT_TIMESTAMP()",
+  sqlite: "CURRENT_TIMESTAMP",
+  snowflake: "CURRENT_TIMESTAMP()",
+  redshift: "GETDATE()",
+};
+
+/** Engines that take INTERVAL n UNIT instead of INTERVAL 'n units' */
+const NUMERIC_INTERVALS = new Set<WarehouseDialect>(["mysql", "bigquery", "databricks"]);
+
+const UNIT_ALIASES: Record<string, string> = {
+  sec: "second",
+  secs: "second",
+  min: "minute",
+  mins: "minute",
+  hr: "hour",
+  hrs: "hour",
+  mon: "month",
+  mons: "month",
+  yr: "year",
+  yrs: "year",
+};
+
+interface Interval {
+  amount: number;
+  unit: string;
+}
+
+function parseInterval(text: string): Interval | null {
+  const match = /^\s*([+-]?\d+)\s*([a-z]+)\s*$/i.exec(text);
+  if (!match) return null;
+  const word = match[2]!.toLowerCase();
+  const unit = UNIT_ALIASES[word] ?? word.replace(/s$/, "");
+  return DATE_UNITS.includes(unit) ? { amount: Number(match[1]), unit } : null;
+}
+
+/** SQLite date() modifier, which has no week or quarter units */
+function sqliteModifier({ amount, unit }: Interval): string {
+  if (unit === "week") return `'${amount * 7 >= 0 ? "+" : ""}${amount * 7} days'`;
+  if (unit === "quarter") return `'${amount * 3 >= 0 ? "+" : ""}${amount * 3} months'`;
+  return `'${amount >= 0 ? "+" : ""}${amount} ${unit}s'`;
+}
+
+const DATE_VALUED = /^(CURRENT_DATE(\s*\(\s*\))?|DATE\s*'[^']*'|DATE\s*\(.*\))$/is;
+const NOW_VALUED = /^(CURRENT_TIMESTAMP(\s*\(\s*\))?|NOW\s*\(\s*\)|LOCALTIMESTAMP)$/i;
+
+/**
+ * `operand ± INTERVAL` for engines whose interval arithmetic differs from
+ * PostgreSQL's. Returns null to fall back to a plain interval literal.
+ */
+function renderDateArithmetic(
+  ctx: TranspileContext,
+  operand: string,
+  sign: "+" | "-",
+  interval: Interval,
+): string | null {
+  const signed = { ...interval, amount: sign === "-" ? -interval.amount : interval.amount };
+  if (ctx.dialect === "sqlite") {
+    if (DATE_VALUED.test(operand)) {
+      const base = /^CURRENT_DATE/i.test(operand) ? "'now'" : operand.replace(/^DATE\s*(?=')/i, "");
+      return `date(${base}, ${sqliteModifier(signed)})`;
+    }
+    const base = NOW_VALUED.test(operand) ? "'now'" : operand;
+    return `datetime(${base}, ${sqliteModifier(signed)})`;
+  }
+  // BigQuery: DATE - INTERVAL yields DATETIME, which does not compare with DATE columns
+  if (ctx.dialect === "bigquery" && DATE_VALUED.test(operand)) {
+    const fn = sign === "-" ? "DATE_SUB" : "DATE_ADD";
+    const base = /^CURRENT_DATE/i.test(operand) ? "CURRENT_DATE()" : operand;
+    return `${fn}(${base}, INTERVAL ${interval.amount} ${interval.unit.toUpperCase()})`;
+  }
+  return null;
+}
+
+function renderDateFunction(
+  ctx: TranspileContext,
+  name: string,
+  args: Token[],
+): string | undefined {
+  const renderer = name === "DATE_TRUNC" ? DATE_TRUNC[ctx.dialect] : DATE_PART[ctx.dialect];
+  if (!renderer) return undefined;
+
+  let unit: string | undefined;
+  let expr: Token[] = [];
+  if (name === "EXTRACT") {
+    const from = topLevelWord(args, "FROM");
+    const unitTokens = significant(args.slice(0, Math.max(from, 0)));
+    if (from > 0 && unitTokens.length === 1) {
+      unit = unitTokens[0]!.type === "string" ? unquote(unitTokens[0]!) : unitTokens[0]!.text;
+      expr = args.slice(from + 1);
+    }
+  } else {
+    const parts = splitArgs(args);
+    const unitTokens = significant(parts[0] ?? []);
+    if (parts.length === 2 && unitTokens.length === 1 && unitTokens[0]!.type === "string") {
+      unit = unquote(unitTokens[0]!);
+      expr = parts[1]!;
+    }
+  }
+
+  const rendered = unit ? renderer(unit.toLowerCase(), render(expr)) : null;
+  if (rendered === null) {
+    reportUnsupported(
+      ctx,
+      unit ? `${name} with unit '${unit.toLowerCase()}'` : `${name} without a literal unit`,
+      name === "DATE_TRUNC" ? "Truncate to second, minute, hour, day, week, month, quarter or year" : undefined,
+    );
+    return `${name}(${render(args)})`;
+  }
+  return rendered;
+}
+
+/**
+ * DATE_TRUNC / DATE_PART / EXTRACT, NOW() and INTERVAL literals.
+ * Function arguments are rewritten first so nested calls translate too.
+ */
+const rewriteDateFunctions: Pass = (tokens, ctx) => {
+  if (ctx.dialect === "postgresql") return tokens;
+  const out: Token[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    const open = nextIndex(tokens, i);
+
+    if (isWord(token, "DATE_TRUNC", "DATE_PART", "EXTRACT") && isOp(tokens[open], "(")) {
+      const name = token.text.toUpperCase();
+      const hasRenderer = name === "DATE_TRUNC" ? DATE_TRUNC[ctx.dialect] : DATE_PART[ctx.dialect];
+      const close = closingParen(tokens, open);
+      if (hasRenderer && close > 0) {
+        const args = rewriteDateFunctions(tokens.slice(open + 1, close), ctx);
+        out.push(raw(renderDateFunction(ctx, name, args)!));
+        i = close;
+        continue;
+      }
+    }
+
+    if (isWord(token, "NOW") && NOW_FUNCTION[ctx.dialect] && isOp(tokens[open], "(") && isOp(tokens[nextIndex(tokens, open)], ")")) {
+      out.push(raw(NOW_FUNCTION[ctx.dialect]!));
+      i = nextIndex(tokens, open);
+      continue;
+    }
+
+    const literal = tokens[open];
+    if (isWord(token, "INTERVAL") && literal?.type === "string" && (NUMERIC_INTERVALS.has(ctx.dialect) || ctx.dialect === "sqlite")) {
+      let end = open;
+      let text = unquote(literal);
+      // INTERVAL '30' DAY
+      const unitWord = tokens[nextIndex(tokens, open)];
+      if (/^\s*[+-]?\d+\s*$/.test(text) && unitWord?.type === "word" && parseInterval(`1 ${unitWord.text}`)) {
+        text = `${text} ${unitWord.text}`;
+        end = nextIndex(tokens, open);
+      }
+      const interval = parseInterval(text);
+      if (!interval) {
+        reportUnsupported(ctx, `INTERVAL '${unquote(literal)}'`, "Use a single-unit interval such as INTERVAL '3 months'");
+        out.push(token);
+        continue;
+      }
+
+      const signIndex = prevIndex(out, out.length);
+      const operandEndIndex = prevIndex(out, signIndex);
+      const operandStartIndex = isOp(out[signIndex], "+", "-") ? operandStart(out, operandEndIndex) : -1;
+      if (operandStartIndex >= 0 && !isCompoundOperand(out, operandStartIndex)) {
+        const sign = out[signIndex]!.text as "+" | "-";
+        const rendered = renderDateArithmetic(ctx, render(out.slice(operandStartIndex, operandEndIndex + 1)), sign, interval);
+        if (rendered !== null) {
+          out.splice(operandStartIndex);
+          out.push(raw(rendered));
+          i = end;
+          continue;
+        }
+      }
+
+      if (ctx.dialect === "sqlite") {
+        reportUnsupported(ctx, "INTERVAL arithmetic on compound expressions", "Add or subtract the interval directly from a column, CURRENT_DATE or NOW()");
+        out.push(token);
+        continue;
+      }
+      out.push(raw(`INTERVAL ${interval.amount} ${interval.unit.toUpperCase()}`));
+      i = end;
+      continue;
+    }
+
+    out.push(token);
+  }
+  return out;
+};
+
+// ── ILIKE ─────────────────────────────────────────────────────────
+
+const NO_ILIKE = new Set<WarehouseDialect>(["mysql", "sqlite", "bigquery"]);
+
+/** a [NOT] ILIKE b → LOWER(a) [NOT] LIKE LOWER(b), independent of collation */
+const rewriteIlike: Pass = (tokens, ctx) => {
+  if (!NO_ILIKE.has(ctx.dialect)) return tokens;
+  const out: Token[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    if (!isWord(token, "ILIKE")) {
+      out.push(token);
+      continue;
+    }
+
+    let leftEnd = prevIndex(out, out.length);
+    const negated = isWord(out[leftEnd], "NOT");
+    if (negated) leftEnd = prevIndex(out, leftEnd);
+    const leftStart = operandStart(out, leftEnd);
+    const rightStart = nextIndex(tokens, i);
+    const rightEnd = operandEnd(tokens, rightStart);
+
+    if (leftStart < 0 || rightEnd < 0 || isCompoundOperand(out, leftStart) || ARITHMETIC.has(tokens[nextIndex(tokens, rightEnd)]?.text ?? "")) {
+      reportUnsupported(ctx, "ILIKE on a compound expression", "Compare LOWER(column) LIKE LOWER('pattern')");
+      out.push(token);
+      continue;
+    }
+
+    const left = render(out.slice(leftStart, leftEnd + 1));
+    const right = render(rewriteIlike(tokens.slice(rightStart, rightEnd + 1), ctx));
+    out.splice(leftStart);
+    out.push(raw(`LOWER(${left}) ${negated ? "NOT " : ""}LIKE LOWER(${right})`));
+    i = rightEnd;
+  }
+  return out;
+};
+
+// ── Row limits ────────────────────────────────────────────────────
+
+/**
+ * Every supported warehouse caps rows with LIMIT (none needs TOP), but not
+ * all accept the SQL-standard FETCH FIRST n ROWS ONLY that PostgreSQL allows.
+ */
+const NO_FETCH_FIRST = new Set<WarehouseDialect>(["mysql", "sqlite", "bigquery", "redshift", "databricks"]);
+
+/** [OFFSET m ROWS] FETCH FIRST n ROWS ONLY → LIMIT n [OFFSET m] */
+const rewriteFetchFirst: Pass = (tokens, ctx) => {
+  if (!NO_FETCH_FIRST.has(ctx.dialect)) return tokens;
+  const out: Token[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    const sig = [i];
+    for (let k = 0; k < 4; k++) sig.push(nextIndex(tokens, sig[sig.length - 1]!));
+    const [, first, count, rows, only] = sig.map((j) => tokens[j]);
+
+    if (
+      isWord(token, "FETCH") &&
+      isWord(first, "FIRST", "NEXT") &&
+      count?.type === "number" &&
+      isWord(rows, "ROW", "ROWS") &&
+      isWord(only, "ONLY")
+    ) {
+      // PostgreSQL puts OFFSET before FETCH; LIMIT must come first elsewhere
+      let offset = "";
+      let end = prevIndex(out, out.length);
+      if (isWord(out[end], "ROW", "ROWS")) end = prevIndex(out, end);
+      const offsetKeyword = prevIndex(out, end);
+      if (out[end]?.type === "number" && isWord(out[offsetKeyword], "OFFSET")) {
+        offset = ` OFFSET ${out[end]!.text}`;
+        out.splice(offsetKeyword);
+        if (out.length > 0 && !isTrivia(out[out.length - 1])) out.push({ type: "space", text: " " });
+      }
+      out.push(raw(`LIMIT ${count.text}${offset}`));
+      i = sig[4]!;
+      continue;
+    }
+
+    out.push(token);
+  }
+  return out;
+};
+
+// ── Constructs without an equivalent ──────────────────────────────
+
+interface UnsupportedRule {
+  construct: string;
+  suggestion: string;
+  dialects: WarehouseDialect[];
+  matches: (tokens: Token[], i: number) => boolean;
+}
+
+const UNSUPPORTED: UnsupportedRule[] = [
+  {
+    construct: "FULL JOIN",
+    suggestion: "Combine per-metric CTEs with LEFT JOINs from a CTE that holds every key",
+    dialects: ["mysql"],
+    matches: (t, i) => isWord(t[i], "FULL") && isWord(t[nextIndex(t, i)], "JOIN", "OUTER"),
+  },
+  {
+    construct: "DISTINCT ON",
+    suggestion: "Number rows with ROW_NUMBER() OVER (PARTITION BY ...) in a CTE and keep row 1",
+    dialects: ["mysql", "sqlite", "bigquery", "snowflake", "redshift", "databricks"],
+    matches: (t, i) => isWord(t[i], "DISTINCT") && isWord(t[nextIndex(t, i)], "ON"),
+  },
+  {
+    construct: "|| string concatenation",
+    suggestion: "Use CONCAT(a, b)",
+    dialects: ["mysql"],
+    matches: (t, i) => isOp(t[i], "||"),
+  },
+  {
+    construct: "JSON operators (->, ->>, #>, @>)",
+    suggestion: "Avoid querying inside JSON columns",
+    dialects: ["mysql", "bigquery", "snowflake", "redshift", "databricks"],
+    matches: (t, i) => isOp(t[i], "->", "->>", "#>", "#>>", "@>", "<@"),
+  },
+  {
+    construct: "Regular expression operators (~, ~*)",
+    suggestion: "Use LIKE patterns",
+    dialects: ["mysql", "sqlite", "bigquery", "snowflake", "databricks"],
+    matches: (t, i) => isOp(t[i], "~", "~*", "!~", "!~*"),
+  },
+  {
+    construct: "GENERATE_SERIES",
+    suggestion: "Take the series from the data (SELECT DISTINCT ...) instead of generating it",
+    dialects: ["mysql", "sqlite", "bigquery", "snowflake", "redshift", "databricks"],
+    matches: (t, i) => isWord(t[i], "GENERATE_SERIES") && isOp(t[nextIndex(t, i)], "("),
+  },
+];
+
+/**
+ * Report constructs the target cannot run. MySQL's NULLS FIRST / LAST is
+ * dropped with a warning: its default NULL ordering only differs for
+ * explicit overrides, which rarely change an analytics answer.
+ */
+const checkUnsupported: Pass = (tokens, ctx) => {
+  const rules = UNSUPPORTED.filter((rule) => rule.dialects.includes(ctx.dialect));
+  const out: Token[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    for (const rule of rules) {
+      if (rule.matches(tokens, i)) reportUnsupported(ctx, rule.construct, rule.suggestion);
+    }
+    if (ctx.dialect === "mysql" && isWord(token, "NULLS") && isWord(tokens[nextIndex(tokens, i)], "FIRST", "LAST")) {
+      reportUnsupported(ctx, "NULLS FIRST / NULLS LAST", "NULLs sort first ascending and last descending", "warning");
+      while (out.length > 0 && isTrivia(out[out.length - 1])) out.pop();
+      i = nextIndex(tokens, i);
+      continue;
+    }
+    out.push(token);
+  }
+  return out;
+};
+
+// ── Identifier quoting ────────────────────────────────────────────
+
+const BACKTICK_IDENTIFIERS = new Set<WarehouseDialect>(["mysql", "bigquery", "databricks"]);
+
+/** "Name" → `Name` where double quotes delimit strings or are not identifiers */
+const quoteIdentifiers: Pass = (tokens, ctx) => {
+  if (!BACKTICK_IDENTIFIERS.has(ctx.dialect)) return tokens;
+  return tokens.map((token) =>
+    token.type === "identifier" && token.text.startsWith('"')
+      ? { ...token, text: `\`${token.text.slice(1, -1).replaceAll('""', '"').replaceAll("`", "``")}\`` }
+      : token,
+  );
+};
+
+// ── String literals ───────────────────────────────────────────────
+
+/** Engines where a backslash escapes the next character inside '...' */
+const BACKSLASH_STRINGS = new Set<WarehouseDialect>(["mysql", "bigquery", "snowflake", "databricks"]);
+
+const BACKSLASH_QUOTED: Record<string, string> = { "\\": "\\\\", "'": "\\'", "\n": "\\n", "\r": "\\r" };
+
+/**
+ * Re-quote string literals for the target. PostgreSQL takes backslashes
+ * literally and doubles quotes; where a backslash escapes, backslashes are
+ * doubled and quotes and line breaks escaped (BigQuery rejects '' and raw
+ * line breaks). E'...' and dollar-quoted strings become plain literals.
+ */
+const quoteStrings: Pass = (tokens, ctx) => {
+  const backslashes = BACKSLASH_STRINGS.has(ctx.dialect);
+  return tokens.map((token) => {
+    if (token.type !== "string" || (!backslashes && token.text.startsWith("'"))) return token;
+    const value = unquote(token);
+    const text = backslashes
+      ? value.replace(/[\\'\n\r]/g, (ch) => BACKSLASH_QUOTED[ch]!)
+      : value.replaceAll("'", "''");
+    return { ...token, text: `'${text}'` };
+  });
+};
+
+const PASSES: Pass[] = [
+  rewriteFilterClauses,
+  rewriteStringAgg,
+  rewriteCasts,
+  rewriteDateFunctions,
+  rewriteIlike,
+  rewriteFetchFirst,
+  checkUnsupported,
+  quoteIdentifiers,
+  quoteStrings,
+];
+
+/**
+ * Translate PostgreSQL to the target dialect.
+ * Error-severity issues mean the result will not run as intended and the
+ * query should be regenerated without the reported constructs.
+ */
+export function transpileSql(sql: string, dialect: WarehouseDialect): TranspileResult {
+  if (dialect === "postgresql") return { sql, dialect, issues: [] };
+
+  const ctx: TranspileContext = { dialect, issues: [] };
+  let text = sql;
+  for (const pass of PASSES) {
+    text = pass(tokenize(text), ctx).map((t) => t.text).join("");
+  }
+  return { sql: text.trim(), dialect, issues: ctx.issues };
+}
+
+/**
+ * PostgreSQL constructs the transpiler cannot express in the target dialect,
+ * as "construct: suggestion" lines for the SQL generator's prompt.
+ */
+export function transpilerLimitations(dialect: WarehouseDialect): string[] {
+  return UNSUPPORTED
+    .filter((rule) => rule.dialects.includes(dialect))
+    .map((rule) => `${rule.construct}: ${rule.suggestion}`);
+}
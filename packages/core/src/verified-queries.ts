@@ -0,0 +1,103 @@
+import type { GeneratedSQL, VerifiedQuery } from "@heydata/shared";
+import { normalizeSql } from "./cache.js";
+
+/** Verified queries shown to the agents for one question */
+export const MAX_VERIFIED_EXAMPLES = 3;
+
+/** Below this similarity a verified query is not shown at all */
+export const MIN_VERIFIED_SIMILARITY = 0.3;
+
+/** At or above this similarity a verified query asks the same question */
+export const CLOSE_VERIFIED_SIMILARITY = 0.8;
+
+/**
+ * A verified query picked as an example, with how similar its question is
+ * to the one being answered (0-1)
+ */
+export interface VerifiedQueryMatch {
+  query: VerifiedQuery;
+  similarity: number;
+}
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "did", "do", "does", "for", "from",
+  "give", "how", "i", "in", "is", "it", "list", "me", "many", "much", "of", "on", "or", "our",
+  "per", "please", "show", "tell", "the", "their", "to", "us", "was", "we", "were", "what", "which",
+  "who", "with", "you",
+]);
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .split(" ")
+    .filter(Boolean);
+}
+
+/** Lower-case words of a text, without filler words */
+export function keywords(text: string): string[] {
+  return words(text).filter((w) => !STOP_WORDS.has(w));
+}
+
+/** Trigrams of each word, padded like pg_trgm ("  re", " re", "rev", …, "ue ") */
+function trigrams(tokens: string[]): Set<string> {
+  const result = new Set<string>();
+  for (const token of tokens) {
+    const padded = `  ${token} `;
+    for (let i = 0; i + 3 <= padded.length; i++) result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Similarity of two questions (0-1): the mean of keyword overlap and
+ * keyword trigram overlap, which tolerates plurals and typos. Filler words
+ * are left out of both.
+ */
+export function questionSimilarity(a: string, b: string): number {
+  const keywordsA = keywords(a);
+  const keywordsB = keywords(b);
+  return (
+    (jaccard(new Set(keywordsA), new Set(keywordsB)) + jaccard(trigrams(keywordsA), trigrams(keywordsB))) / 2
+  );
+}
+
+/**
+ * The verified queries most similar to a question, best first
+ */
+export function selectVerifiedQueries(
+  question: string,
+  queries: VerifiedQuery[],
+  options: { limit?: number; minSimilarity?: number } = {},
+): VerifiedQueryMatch[] {
+  const limit = options.limit ?? MAX_VERIFIED_EXAMPLES;
+  const minSimilarity = options.minSimilarity ?? MIN_VERIFIED_SIMILARITY;
+
+  return queries
+    .map((query) => ({ query, similarity: questionSimilarity(question, query.question) }))
+    .filter((match) => match.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * The verified query a generated query is identical to, ignoring whitespace
+ * and trailing semicolons. Both the generator's PostgreSQL and the
+ * transpiled query are compared.
+ */
+export function findVerifiedQuery(
+  generatedSql: GeneratedSQL,
+  queries: VerifiedQuery[],
+): VerifiedQuery | undefined {
+  const candidates = new Set(
+    [generatedSql.sql, generatedSql.sourceSql].filter((s): s is string => !!s).map(normalizeSql),
+  );
+  return queries.find((query) => candidates.has(normalizeSql(query.sql)));
+}
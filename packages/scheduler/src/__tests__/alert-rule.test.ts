@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import type { AlertRule, ResultSet } from "@heydata/shared";
+import { AlertRuleError, evaluateAlertRule } from "../alert-rule.js";
+
+function resultSet(rows: ResultSet["rows"]): ResultSet {
+  return {
+    columns: [
+      { name: "day", type: "date" },
+      { name: "signups", type: "number" },
+    ],
+    rows,
+    rowCount: rows.length,
+    truncated: false,
+    executionTimeMs: 5,
+  };
+}
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  column: "signups",
+  aggregate: "first",
+  operator: "lt",
+  threshold: 100,
+  ...overrides,
+});
+
+const rows = [
+  { day: "2026-10-17", signups: 120 },
+  { day: "2026-10-18", signups: 87 },
+];
+
+describe("evaluateAlertRule", () => {
+  it("should compare the first row's value by default", () => {
+    expect(evaluateAlertRule(rule(), resultSet(rows))).toEqual({
+      value: 120,
+      triggered: false,
+      description: "signups = 120 (alert when < 100)",
+    });
+  });
+
+  it("should reduce the column with the rule's aggregate", () => {
+    expect(evaluateAlertRule(rule({ aggregate: "last" }), resultSet(rows))).toMatchObject({
+      value: 87,
+      triggered: true,
+    });
+    expect(evaluateAlertRule(rule({ aggregate: "sum", operator: "gte", threshold: 200 }), resultSet(rows)))
+      .toMatchObject({ value: 207, triggered: true, description: "sum(signups) = 207 (alert when >= 200)" });
+    expect(evaluateAlertRule(rule({ aggregate: "avg" }), resultSet(rows)).value).toBe(103.5);
+    expect(evaluateAlertRule(rule({ aggregate: "max", operator: "neq", threshold: 120 }), resultSet(rows)))
+      .toMatchObject({ value: 120, triggered: false });
+  });
+
+  it("should accept numeric strings and skip nulls", () => {
+    const result = resultSet([{ day: "a", signups: null }, { day: "b", signups: "42" }]);
+    expect(evaluateAlertRule(rule({ operator: "eq", threshold: 42 }), result)).toMatchObject({
+      value: 42,
+      triggered: true,
+    });
+  });
+
+  it("should not trigger on an empty result", () => {
+    expect(evaluateAlertRule(rule(), resultSet([]))).toEqual({
+      value: null,
+      triggered: false,
+      description: "signups has no value (alert when < 100)",
+    });
+  });
+
+  it("should fail on a missing column or a non-numeric value", () => {
+    expect(() => evaluateAlertRule(rule({ column: "revenue" }), resultSet(rows))).toThrow(AlertRuleError);
+    expect(() => evaluateAlertRule(rule({ column: "day" }), resultSet(rows))).toThrow("non-numeric");
+  });
+});
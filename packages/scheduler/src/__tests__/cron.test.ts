@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { CronParseError, nextCronRun, parseCron } from "../cron.js";
+
+const at = (iso: string) => new Date(iso);
+
+describe("parseCron", () => {
+  it("should expand lists, ranges and steps", () => {
+    const schedule = parseCron("0,30 9-11 */10 * 1-5");
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 11, 21, 31]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("should accept names, macros and 7 as Sunday", () => {
+    expect([...parseCron("0 0 * jan-mar mon,FRI").daysOfWeek]).toEqual([1, 5]);
+    expect([...parseCron("0 0 * jan-mar mon").months]).toEqual([1, 2, 3]);
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect([...parseCron("@daily").hours]).toEqual([0]);
+  });
+
+  it("should reject malformed expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow(CronParseError);
+    expect(() => parseCron("60 * * * *")).toThrow("minute 60 is outside 0-59");
+    expect(() => parseCron("*/0 * * * *")).toThrow("invalid step");
+    expect(() => parseCron("5-1 * * * *")).toThrow("runs backwards");
+    expect(() => parseCron("abc * * * *")).toThrow("not a valid minute");
+  });
+});
+
+describe("nextCronRun", () => {
+  it("should return the next matching minute, strictly after the given time", () => {
+    expect(nextCronRun("*/15 * * * *", at("2026-10-19T10:07:30Z"))).toEqual(at("2026-10-19T10:15:00Z"));
+    expect(nextCronRun("*/15 * * * *", at("2026-10-19T10:15:00Z"))).toEqual(at("2026-10-19T10:30:00Z"));
+  });
+
+  it("should roll over days, months and years", () => {
+    expect(nextCronRun("0 8 * * *", at("2026-10-19T09:00:00Z"))).toEqual(at("2026-10-20T08:00:00Z"));
+    expect(nextCronRun("@monthly", at("2026-12-15T00:00:00Z"))).toEqual(at("2027-01-01T00:00:00Z"));
+  });
+
+  it("should skip weekends for weekday schedules", () => {
+    // 2026-10-23 is a Friday
+    expect(nextCronRun("0 8 * * 1-5", at("2026-10-23T09:00:00Z"))).toEqual(at("2026-10-26T08:00:00Z"));
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // The 1st of the month or any Monday; 2026-10-26 is a Monday
+    expect(nextCronRun("0 0 1 * mon", at("2026-10-20T00:00:00Z"))).toEqual(at("2026-10-26T00:00:00Z"));
+    expect(nextCronRun("0 0 1 * mon", at("2026-10-26T00:00:00Z"))).toEqual(at("2026-11-01T00:00:00Z"));
+  });
+
+  it("should find leap days and give up on impossible dates", () => {
+    expect(nextCronRun("0 0 29 2 *", at("2026-10-19T00:00:00Z"))).toEqual(at("2028-02-29T00:00:00Z"));
+    expect(() => nextCronRun("0 0 31 2 *", at("2026-10-19T00:00:00Z"))).toThrow("never matches");
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from "vitest";
+import type { ResultSet } from "@heydata/shared";
+import type { Notification, NotificationChannel } from "../channels/types.js";
+import { runDueSchedules, runSchedule, type DueSchedule, type ScheduleRun, type ScheduleStore } from "../worker.js";
+
+const resultSet: ResultSet = {
+  columns: [{ name: "signups", type: "number" }],
+  rows: [{ signups: 87 }],
+  rowCount: 1,
+  truncated: false,
+  executionTimeMs: 3,
+};
+
+function schedule(overrides: Partial<DueSchedule> = {}): DueSchedule {
+  return {
+    id: "s1",
+    connectionId: "c1",
+    title: "Daily signups",
+    question: "How many signups yesterday?",
+    sql: "SELECT count(*) AS signups FROM users",
+    cron: "0 8 * * *",
+    alertRule: null,
+    targets: [{ type: "webhook", url: "https://hooks.example.com/a" }],
+    ...overrides,
+  };
+}
+
+function recordingChannel() {
+  const sent: Notification[] = [];
+  const channel: NotificationChannel<"webhook"> = {
+    type: "webhook",
+    send: vi.fn(async (_target, notification) => {
+      sent.push(notification);
+    }),
+  };
+  return { channel, sent };
+}
+
+describe("runSchedule", () => {
+  it("should report every run when there is no alert rule", async () => {
+    const { channel, sent } = recordingChannel();
+    const run = await runSchedule(schedule(), {
+      executeQuery: async () => resultSet,
+      channels: { webhook: channel },
+    });
+
+    expect(run).toMatchObject({ status: "success", rowCount: 1, triggered: false, notified: true, error: null });
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ kind: "report", summary: "1 row", rows: [{ signups: 87 }] });
+  });
+
+  it("should notify only when the alert rule triggers", async () => {
+    const { channel, sent } = recordingChannel();
+    const options = { executeQuery: async () => resultSet, channels: { webhook: channel } };
+
+    const quiet = await runSchedule(
+      schedule({ alertRule: { column: "signups", aggregate: "first", operator: "lt", threshold: 50 } }),
+      options,
+    );
+    expect(quiet).toMatchObject({ value: 87, triggered: false, notified: false });
+    expect(sent).toHaveLength(0);
+
+    const alert = await runSchedule(
+      schedule({ alertRule: { column: "signups", aggregate: "first", operator: "lt", threshold: 100 } }),
+      options,
+    );
+    expect(alert).toMatchObject({ value: 87, triggered: true, notified: true });
+    expect(sent[0]).toMatchObject({ kind: "alert", value: 87, summary: "signups = 87 (alert when < 100)" });
+  });
+
+  it("should record and report a failing query", async () => {
+    const { channel, sent } = recordingChannel();
+    const run = await runSchedule(schedule(), {
+      executeQuery: async () => {
+        throw new Error('relation "users" does not exist');
+      },
+      channels: { webhook: channel },
+    });
+
+    expect(run).toMatchObject({ status: "failed", rowCount: null, error: 'relation "users" does not exist' });
+    expect(sent[0]).toMatchObject({ kind: "failure", summary: 'relation "users" does not exist' });
+  });
+
+  it("should record delivery failures without failing the run", async () => {
+    const failing: NotificationChannel<"webhook"> = {
+      type: "webhook",
+      send: async () => {
+        throw new Error("connection refused");
+      },
+    };
+    const run = await runSchedule(
+      schedule({ targets: [{ type: "webhook", url: "https://hooks.example.com/a" }, { type: "email", to: ["a@x.com"] }] }),
+      { executeQuery: async () => resultSet, channels: { webhook: failing } },
+    );
+
+    expect(run.status).toBe("success");
+    expect(run.notified).toBe(false);
+    expect(run.notificationError).toBe(
+      [
+        "webhook https://hooks.example.com/a: connection refused",
+        "email a@x.com: no email channel is configured",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("runDueSchedules", () => {
+  it("should claim due schedules, advance them and record each run", async () => {
+    const runs: ScheduleRun[] = [];
+    const nextRuns: Date[] = [];
+    const store: ScheduleStore = {
+      claimDue: async (_now, nextRunAt) => {
+        nextRuns.push(nextRunAt("0 8 * * *"));
+        return [schedule({ id: "s1" }), schedule({ id: "s2", connectionId: "c2" })];
+      },
+      recordRun: async (run) => {
+        runs.push(run);
+      },
+    };
+    const executeQuery = vi.fn(async () => resultSet);
+
+    const result = await runDueSchedules({
+      store,
+      executeQuery,
+      channels: { webhook: recordingChannel().channel },
+      now: new Date("2026-10-19T08:00:20Z"),
+    });
+
+    expect(nextRuns).toEqual([new Date("2026-10-20T08:00:00Z")]);
+    expect(executeQuery.mock.calls).toEqual([
+      ["c1", "SELECT count(*) AS signups FROM users"],
+      ["c2", "SELECT count(*) AS signups FROM users"],
+    ]);
+    expect(runs.map((r) => r.scheduleId)).toEqual(["s1", "s2"]);
+    expect(result).toEqual(runs);
+  });
+});
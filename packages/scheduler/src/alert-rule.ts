@@ -0,0 +1,103 @@
+import type { AlertOperator, AlertRule, ResultSet } from "@heydata/shared";
+
+export interface AlertEvaluation {
+  /** The metric value the rule was checked against (null when the result was empty) */
+  value: number | null;
+  triggered: boolean;
+  /** Human-readable outcome, e.g. "signups = 87 (alert when < 100)" */
+  description: string;
+}
+
+export class AlertRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlertRuleError";
+  }
+}
+
+const OPERATOR_SYMBOLS: Record<AlertOperator, string> = {
+  lt: "<",
+  lte: "<=",
+  gt: ">",
+  gte: ">=",
+  eq: "=",
+  neq: "!=",
+};
+
+function compare(value: number, operator: AlertOperator, threshold: number): boolean {
+  switch (operator) {
+    case "lt":
+      return value < threshold;
+    case "lte":
+      return value <= threshold;
+    case "gt":
+      return value > threshold;
+    case "gte":
+      return value >= threshold;
+    case "eq":
+      return value === threshold;
+    case "neq":
+      return value !== threshold;
+  }
+}
+
+function toNumber(raw: unknown, column: string): number | null {
+  if (raw === null || raw === undefined) return null;
+  // Numeric and bigint columns often arrive as strings
+  const n = typeof raw === "number" ? raw : typeof raw === "bigint" ? Number(raw) : Number(String(raw));
+  if (!Number.isFinite(n)) {
+    throw new AlertRuleError(`Column "${column}" holds a non-numeric value: ${String(raw)}`);
+  }
+  return n;
+}
+
+/**
+ * Reduce a column of the result to one number, as the rule's aggregate says
+ */
+function metricValue(rule: AlertRule, resultSet: ResultSet): number | null {
+  if (!resultSet.columns.some((c) => c.name === rule.column)) {
+    throw new AlertRuleError(
+      `Column "${rule.column}" is not in the result (columns: ${resultSet.columns.map((c) => c.name).join(", ")})`,
+    );
+  }
+
+  const values = resultSet.rows
+    .map((row) => toNumber(row[rule.column], rule.column))
+    .filter((v): v is number => v !== null);
+  if (values.length === 0) return null;
+
+  switch (rule.aggregate) {
+    case "first":
+      return values[0]!;
+    case "last":
+      return values[values.length - 1]!;
+    case "sum":
+      return values.reduce((a, b) => a + b, 0);
+    case "avg":
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    case "min":
+      return Math.min(...values);
+    case "max":
+      return Math.max(...values);
+  }
+}
+
+/**
+ * Check a scheduled query's result against its alert rule. An empty result
+ * does not trigger the rule: there is no value to compare.
+ */
+export function evaluateAlertRule(rule: AlertRule, resultSet: ResultSet): AlertEvaluation {
+  const value = metricValue(rule, resultSet);
+  const condition = `alert when ${OPERATOR_SYMBOLS[rule.operator]} ${rule.threshold}`;
+  const label = rule.aggregate === "first" ? rule.column : `${rule.aggregate}(${rule.column})`;
+
+  if (value === null) {
+    return { value, triggered: false, description: `${label} has no value (${condition})` };
+  }
+
+  return {
+    value,
+    triggered: compare(value, rule.operator, rule.threshold),
+    description: `${label} = ${value} (${condition})`,
+  };
+}
@@ -0,0 +1,82 @@
+import type { ColumnMetadata, NotificationTarget, Row } from "@heydata/shared";
+
+/**
+ * What a scheduled run reports: a regular result, a triggered alert, or a
+ * query that failed
+ */
+export type NotificationKind = "report" | "alert" | "failure";
+
+export interface Notification {
+  kind: NotificationKind;
+  scheduleId: string;
+  title: string;
+  question: string;
+  /** One-line outcome, e.g. the alert rule evaluation or the error */
+  summary: string;
+  /** The alert rule's metric value, when there is a rule */
+  value: number | null;
+  rowCount: number;
+  /** The first rows of the result */
+  columns: ColumnMetadata[];
+  rows: Row[];
+  ranAt: string;
+}
+
+/**
+ * Delivers notifications to one kind of target. Channels are created once
+ * with their server-side settings; targets carry per-schedule addresses.
+ */
+export interface NotificationChannel<T extends NotificationTarget["type"] = NotificationTarget["type"]> {
+  readonly type: T;
+  send(target: Extract<NotificationTarget, { type: T }>, notification: Notification): Promise<void>;
+}
+
+/** The channels available to the worker, by target type */
+export type NotificationChannels = {
+  [T in NotificationTarget["type"]]?: NotificationChannel<T>;
+};
+
+/** Most result rows included in a notification */
+export const NOTIFICATION_MAX_ROWS = 20;
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Subject line for a notification
+ */
+export function notificationSubject(notification: Notification): string {
+  switch (notification.kind) {
+    case "alert":
+      return `Alert: ${notification.title}`;
+    case "failure":
+      return `Scheduled query failed: ${notification.title}`;
+    case "report":
+      return notification.title;
+  }
+}
+
+/**
+ * Plain-text body for a notification: the outcome, then the result as an
+ * aligned table
+ */
+export function formatNotificationText(notification: Notification): string {
+  const lines = [notification.summary, "", `Question: ${notification.question}`, `Ran at: ${notification.ranAt}`];
+
+  if (notification.columns.length > 0 && notification.rows.length > 0) {
+    const names = notification.columns.map((c) => c.name);
+    const cells = notification.rows.map((row) => names.map((name) => formatCell(row[name])));
+    const widths = names.map((name, i) => Math.max(name.length, ...cells.map((r) => r[i]!.length)));
+    const format = (values: string[]) => values.map((v, i) => v.padEnd(widths[i]!)).join("  ").trimEnd();
+
+    lines.push("", format(names), format(widths.map((w) => "-".repeat(w))), ...cells.map(format));
+    if (notification.rowCount > notification.rows.length) {
+      lines.push(`... ${notification.rowCount - notification.rows.length} more rows`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,179 @@
+import { lookup } from "node:dns/promises";
+import type { LookupAddress } from "node:dns";
+import http from "node:http";
+import https from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import type { Notification, NotificationChannel } from "./types.js";
+
+/** Resolves a host name to every address it has */
+export type WebhookResolver = (hostname: string) => Promise<LookupAddress[]>;
+
+export interface WebhookChannelOptions {
+  /** Milliseconds before a delivery is abandoned (default 10s) */
+  timeoutMs?: number;
+  /**
+   * Deliver to loopback, private and link-local addresses, e.g. a receiver
+   * on the same network as the server (default false)
+   */
+  allowPrivateNetworks?: boolean;
+  /** Host name resolution, for tests (default: the system resolver) */
+  resolve?: WebhookResolver;
+}
+
+/** IPv4 ranges that are not on the public internet, as [first octets, prefix length] */
+const PRIVATE_IPV4: [number[], number][] = [
+  [[0], 8], // "this" network
+  [[10], 8],
+  [[100, 64], 10], // carrier-grade NAT
+  [[127], 8],
+  [[169, 254], 16], // link-local, including cloud metadata services
+  [[172, 16], 12],
+  [[192, 0, 0], 24],
+  [[192, 168], 16],
+  [[198, 18], 15], // benchmarking
+  [[224], 3], // multicast and reserved
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((n, octet) => n * 256 + Number(octet), 0);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return PRIVATE_IPV4.some(([octets, prefix]) => {
+    const base = ipv4ToNumber([...octets, 0, 0, 0].slice(0, 4).join("."));
+    const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+    return ((value & mask) >>> 0) === ((base & mask) >>> 0);
+  });
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address);
+  const lower = address.toLowerCase();
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(lower);
+  if (mapped) return isPrivateIPv4(mapped[1]!);
+  return (
+    lower === "::" ||
+    lower === "::1" ||
+    /^f[cd]/.test(lower) || // unique local
+    /^fe[89ab]/.test(lower) || // link-local
+    lower.startsWith("ff") // multicast
+  );
+}
+
+async function systemResolve(hostname: string): Promise<LookupAddress[]> {
+  return lookup(hostname, { all: true });
+}
+
+/** Resolve `hostname` and fail unless every address is public */
+async function resolvePublic(hostname: string, resolve: WebhookResolver): Promise<LookupAddress[]> {
+  const addresses = await resolve(hostname);
+  if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new Error(`Webhook host ${hostname} is not a public address`);
+  }
+  return addresses;
+}
+
+/**
+ * Socket lookup that checks the addresses it hands to the connection, so a
+ * host cannot resolve to a public address when checked and a private one
+ * when connected to
+ */
+function publicLookup(resolve: WebhookResolver): LookupFunction {
+  return (hostname, options, callback) => {
+    resolvePublic(hostname, resolve).then(
+      (resolved) => {
+        const addresses = options.family ? resolved.filter((a) => a.family === options.family) : resolved;
+        if (addresses.length === 0) {
+          const error: NodeJS.ErrnoException = new Error(`Webhook host ${hostname} has no IPv${options.family} address`);
+          error.code = "ENOTFOUND";
+          callback(error, "");
+        } else if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0]!.address, addresses[0]!.family);
+        }
+      },
+      (error: Error) => callback(error, ""),
+    );
+  };
+}
+
+/**
+ * Reject webhook URLs that are not http(s) or that point at internal
+ * addresses, so a schedule cannot reach services behind the server
+ */
+async function assertPublicUrl(url: URL, resolve: WebhookResolver): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Webhook URL must use http or https: ${url.href}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (!isIP(host)) {
+    await resolvePublic(host, resolve);
+  } else if (isPrivateAddress(host)) {
+    throw new Error(`Webhook host ${url.hostname} is not a public address`);
+  }
+}
+
+/** POST `body` and resolve with the response status; redirects are not followed */
+function post(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number,
+  lookup: LookupFunction | undefined,
+): Promise<{ status: number; statusText: string }> {
+  const request = url.protocol === "https:" ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (res) => {
+        res.resume();
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, statusText: res.statusMessage ?? "" }));
+        res.on("error", reject);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * POSTs each notification as JSON to the target URL. The target's secret,
+ * when set, is sent as a bearer token. Internal addresses are refused unless
+ * `allowPrivateNetworks` is set, both before sending and for the address the
+ * socket connects to, and redirects are not followed.
+ */
+export function createWebhookChannel(options: WebhookChannelOptions = {}): NotificationChannel<"webhook"> {
+  const resolve = options.resolve ?? systemResolve;
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const lookup = options.allowPrivateNetworks ? undefined : publicLookup(resolve);
+
+  return {
+    type: "webhook",
+    async send(target, notification: Notification) {
+      const url = new URL(target.url);
+      if (!options.allowPrivateNetworks) await assertPublicUrl(url, resolve);
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (target.secret) headers["Authorization"] = `Bearer ${target.secret}`;
+
+      const res = await post(
+        url,
+        headers,
+        JSON.stringify({ event: notification.kind, ...notification }),
+        timeoutMs,
+        lookup,
+      );
+      if (res.status < 200 || res.status >= 300) {
+        throw new Error(`Webhook ${target.url} responded ${res.status} ${res.statusText}`);
+      }
+    },
+  };
+}
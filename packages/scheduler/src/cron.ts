@@ -0,0 +1,180 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Supports `*`, lists, ranges, steps, month and weekday
+ * names, and the @hourly / @daily / @weekly / @monthly / @yearly macros.
+ */
+
+export class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = "CronParseError";
+  }
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Standard cron: when both day fields are restricted, either may match */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names accepted for values, starting at `min` */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday and folded to 0
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES },
+];
+
+/** Latest a next run is searched for; no valid expression waits longer */
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseValue(value: string, field: FieldSpec, expression: string): number {
+  const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  if (nameIndex >= 0) return nameIndex + field.min;
+
+  if (!/^\d+$/.test(value)) {
+    throw new CronParseError(expression, `"${value}" is not a valid ${field.name}`);
+  }
+  const n = Number(value);
+  if (n < field.min || n > field.max) {
+    throw new CronParseError(expression, `${field.name} ${n} is outside ${field.min}-${field.max}`);
+  }
+  return n;
+}
+
+function parseField(source: string, field: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.split(",")) {
+    const [range, stepSource] = part.split("/");
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(expression, `"${part}" has an invalid step`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range?.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from ?? "", field, expression);
+      end = parseValue(to ?? "", field, expression);
+      if (start > end) {
+        throw new CronParseError(expression, `range "${range}" runs backwards`);
+      }
+    } else {
+      start = parseValue(range ?? "", field, expression);
+      // "5/15" means every 15 from 5
+      end = stepSource === undefined ? start : field.max;
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing CronParseError when it is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const source = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronParseError(expression, `expected 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(part, FIELDS[i]!, expression),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*",
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * First time strictly after `after` that the expression matches
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (next.getTime() <= limit) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  // e.g. "0 0 31 2 *" never matches
+  throw new CronParseError(
+    typeof expression === "string" ? expression : "(parsed)",
+    "never matches a real date",
+  );
+}
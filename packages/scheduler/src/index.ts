@@ -0,0 +1,44 @@
+// Cron
+export {
+  parseCron,
+  nextCronRun,
+  CronParseError,
+  type CronSchedule,
+} from "./cron.js";
+
+// Alert rules
+export {
+  evaluateAlertRule,
+  AlertRuleError,
+  type AlertEvaluation,
+} from "./alert-rule.js";
+
+// Notification channels
+export {
+  formatNotificationText,
+  notificationSubject,
+  NOTIFICATION_MAX_ROWS,
+  type Notification,
+  type NotificationKind,
+  type NotificationChannel,
+  type NotificationChannels,
+} from "./channels/types.js";
+export { createWebhookChannel, type WebhookChannelOptions, type WebhookResolver } from "./channels/webhook.js";
+export {
+  createSmtpChannel,
+  sendMail,
+  buildMessage,
+  smtpOptionsFromUrl,
+  SmtpError,
+  type SmtpOptions,
+} from "./channels/smtp.js";
+
+// Worker
+export {
+  runDueSchedules,
+  runSchedule,
+  type DueSchedule,
+  type ScheduleRun,
+  type ScheduleStore,
+  type ScheduleWorkerOptions,
+} from "./worker.js";
@@ -0,0 +1,194 @@
+import type { AlertRule, NotificationTarget, ResultSet } from "@heydata/shared";
+import { evaluateAlertRule } from "./alert-rule.js";
+import { nextCronRun } from "./cron.js";
+import {
+  NOTIFICATION_MAX_ROWS,
+  type Notification,
+  type NotificationChannel,
+  type NotificationChannels,
+} from "./channels/types.js";
+
+/**
+ * A scheduled query that is due, with the saved question it runs
+ */
+export interface DueSchedule {
+  id: string;
+  connectionId: string;
+  title: string;
+  question: string;
+  sql: string;
+  cron: string;
+  alertRule: AlertRule | null;
+  targets: NotificationTarget[];
+}
+
+/**
+ * Outcome of one scheduled run, as stored in the run history
+ */
+export interface ScheduleRun {
+  scheduleId: string;
+  startedAt: Date;
+  finishedAt: Date;
+  status: "success" | "failed";
+  rowCount: number | null;
+  /** The alert rule's metric value */
+  value: number | null;
+  /** Whether the alert rule triggered (false without a rule) */
+  triggered: boolean;
+  /** Whether at least one notification was delivered */
+  notified: boolean;
+  /** Query or rule failure */
+  error: string | null;
+  /** Delivery failures, one line per target */
+  notificationError: string | null;
+}
+
+/**
+ * Persistence for schedules and their run history
+ */
+export interface ScheduleStore {
+  /**
+   * Claim the schedules due at `now` and move each one's next run time to
+   * `nextRunAt(cron)`, so that no other worker runs them too
+   */
+  claimDue(now: Date, nextRunAt: (cron: string) => Date): Promise<DueSchedule[]>;
+  /** Record a run in the history */
+  recordRun(run: ScheduleRun): Promise<void>;
+}
+
+export interface ScheduleWorkerOptions {
+  store: ScheduleStore;
+  /** Run SQL on a connection (with the same guards as interactive queries) */
+  executeQuery: (connectionId: string, sql: string) => Promise<ResultSet>;
+  channels: NotificationChannels;
+  /** Defaults to the current time */
+  now?: Date;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function deliver(
+  targets: NotificationTarget[],
+  channels: NotificationChannels,
+  notification: Notification,
+): Promise<{ delivered: number; errors: string[] }> {
+  let delivered = 0;
+  const errors: string[] = [];
+
+  for (const target of targets) {
+    const channel = channels[target.type] as NotificationChannel | undefined;
+    const label = target.type === "webhook" ? target.url : target.to.join(", ");
+    if (!channel) {
+      errors.push(`${target.type} ${label}: no ${target.type} channel is configured`);
+      continue;
+    }
+    try {
+      await channel.send(target, notification);
+      delivered++;
+    } catch (error) {
+      errors.push(`${target.type} ${label}: ${errorMessage(error)}`);
+    }
+  }
+
+  return { delivered, errors };
+}
+
+/**
+ * Run one schedule: execute its SQL, evaluate its alert rule and notify.
+ * Every run notifies when there is no rule; with a rule, only triggered runs
+ * do. Failures are always reported. Never throws; problems end up in the run.
+ */
+export async function runSchedule(
+  schedule: DueSchedule,
+  options: Pick<ScheduleWorkerOptions, "executeQuery" | "channels">,
+): Promise<ScheduleRun> {
+  const startedAt = new Date();
+  const base = {
+    kind: "report" as Notification["kind"],
+    scheduleId: schedule.id,
+    title: schedule.title,
+    question: schedule.question,
+    ranAt: startedAt.toISOString(),
+  };
+
+  let notification: Notification | null;
+  let run: Omit<ScheduleRun, "finishedAt" | "notified" | "notificationError">;
+
+  try {
+    const resultSet = await options.executeQuery(schedule.connectionId, schedule.sql);
+    const evaluation = schedule.alertRule ? evaluateAlertRule(schedule.alertRule, resultSet) : null;
+    const rowSummary = `${resultSet.rowCount} row${resultSet.rowCount === 1 ? "" : "s"}`;
+
+    run = {
+      scheduleId: schedule.id,
+      startedAt,
+      status: "success",
+      rowCount: resultSet.rowCount,
+      value: evaluation?.value ?? null,
+      triggered: evaluation?.triggered ?? false,
+      error: null,
+    };
+    notification =
+      evaluation && !evaluation.triggered
+        ? null
+        : {
+          ...base,
+          kind: evaluation ? "alert" : "report",
+          summary: evaluation ? evaluation.description : rowSummary,
+          value: evaluation?.value ?? null,
+          rowCount: resultSet.rowCount,
+          columns: resultSet.columns,
+          rows: resultSet.rows.slice(0, NOTIFICATION_MAX_ROWS),
+        };
+  } catch (error) {
+    const message = errorMessage(error);
+    run = {
+      scheduleId: schedule.id,
+      startedAt,
+      status: "failed",
+      rowCount: null,
+      value: null,
+      triggered: false,
+      error: message,
+    };
+    notification = {
+      ...base,
+      kind: "failure",
+      summary: message,
+      value: null,
+      rowCount: 0,
+      columns: [],
+      rows: [],
+    };
+  }
+
+  const delivery = notification
+    ? await deliver(schedule.targets, options.channels, notification)
+    : { delivered: 0, errors: [] };
+
+  return {
+    ...run,
+    finishedAt: new Date(),
+    notified: delivery.delivered > 0,
+    notificationError: delivery.errors.length > 0 ? delivery.errors.join("\n") : null,
+  };
+}
+
+/**
+ * Claim every due schedule, run it and record the run. Meant to be called
+ * every minute by a cron trigger; schedules run one after another.
+ */
+export async function runDueSchedules(options: ScheduleWorkerOptions): Promise<ScheduleRun[]> {
+  const now = options.now ?? new Date();
+  const due = await options.store.claimDue(now, (cron) => nextCronRun(cron, now));
+
+  const runs: ScheduleRun[] = [];
+  for (const schedule of due) {
+    const run = await runSchedule(schedule, options);
+    await options.store.recordRun(run);
+    runs.push(run);
+  }
+  return runs;
+}
@@ -2,7 +2,7 @@ import { describe, it, expect } from "vitest";
 import { mkdtempSync, writeFileSync, rmSync, mkdirSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { loadMetrics, loadDimensions, loadEntities, loadDefinitions } from "../loader.js";
+import { loadMetrics, loadDimensions, loadEntities, loadDefinitions, parseDefinitions } from "../loader.js";
 
 describe("loadMetrics", () => {
   it("should load metrics from directory", () => {
@@ -163,3 +163,65 @@ relationships: []
     }
   });
 });
+
+describe("parseDefinitions", () => {
+  const DOCUMENT = `metrics:
+  - name: revenue
+    displayName: Revenue
+    description: Completed order value
+    formula: SUM(orders.amount)
+    timeDimension: order_date
+    dimensions: [order_date, region]
+    defaultFilters:
+      - orders.status = 'completed'
+dimensions:
+  - name: order_date
+    displayName: Order date
+    description: When the order was placed
+    table: orders
+    column: created_at
+    type: date
+  - name: region
+    displayName: Region
+    description: Customer region
+    table: customers
+    column: region
+    type: string
+entities:
+  - name: orders
+    table: orders
+    primaryKey: id
+    relationships:
+      - target: customers
+        foreignKey: customer_id
+        targetKey: id
+        type: many-to-one
+  - name: customers
+    table: customers
+    primaryKey: id
+`;
+
+  it("should parse metrics, dimensions and entities from one document", () => {
+    const { definitions, errors } = parseDefinitions(DOCUMENT);
+
+    expect(errors).toHaveLength(0);
+    expect(definitions.metrics.map((m) => m.name)).toEqual(["revenue"]);
+    expect(definitions.dimensions).toHaveLength(2);
+    expect(definitions.entities[0]?.relationships?.[0]?.type).toBe("many-to-one");
+  });
+
+  it("should treat an empty document as no definitions", () => {
+    expect(parseDefinitions("").definitions).toEqual({ metrics: [], dimensions: [], entities: [] });
+  });
+
+  it("should report metrics that use undefined dimensions", () => {
+    const { definitions, errors } = parseDefinitions(DOCUMENT.replace("[order_date, region]", "[order_date, channel]"), false);
+
+    expect(definitions.metrics).toHaveLength(0);
+    expect(errors[0]?.message).toContain('undefined dimension "channel"');
+  });
+
+  it("should throw on invalid YAML in strict mode", () => {
+    expect(() => parseDefinitions("metrics: [")).toThrow();
+  });
+});
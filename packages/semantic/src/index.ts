@@ -4,3 +4,17 @@ export {
   createRegistry,
   loadRegistryFromMetadata,
 } from "./registry.js";
+
+// Definitions
+export {
+  loadDefinitions,
+  loadMetrics,
+  loadDimensions,
+  loadEntities,
+  parseDefinitions,
+  type LoaderOptions,
+  type LoadResult,
+  type LoadError,
+} from "./loader.js";
+
+export * from "./schemas/index.js";
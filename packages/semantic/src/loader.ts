@@ -1,8 +1,9 @@
 import { readFileSync, readdirSync, statSync } from "node:fs";
 import { join, extname } from "node:path";
 import yaml from "js-yaml";
-import { HeyDataError } from "@heydata/shared";
+import { HeyDataError, type SemanticDefinitions } from "@heydata/shared";
 import {
+  DefinitionsFileSchema,
   MetricYamlSchema,
   MetricsFileSchema,
   DimensionYamlSchema,
@@ -315,3 +316,87 @@ export function loadDefinitions(options: LoaderOptions): LoadResult {
     ],
   };
 }
+
+/**
+ * Check references between definitions: metric dimensions, time dimensions
+ * and relationship targets must name definitions in the same document
+ */
+function checkReferences(definitions: SemanticDefinitions): string[] {
+  const problems: string[] = [];
+  const dimensions = new Map(definitions.dimensions.map((d) => [d.name, d]));
+  const entityNames = new Set(definitions.entities.map((e) => e.name));
+
+  const duplicates = (names: string[]) => names.filter((name, i) => names.indexOf(name) !== i);
+  for (const name of duplicates(definitions.metrics.map((m) => m.name))) {
+    problems.push(`Metric "${name}" is defined more than once`);
+  }
+  for (const name of duplicates(definitions.dimensions.map((d) => d.name))) {
+    problems.push(`Dimension "${name}" is defined more than once`);
+  }
+
+  for (const metric of definitions.metrics) {
+    for (const dimension of metric.dimensions) {
+      if (!dimensions.has(dimension)) {
+        problems.push(`Metric "${metric.name}" uses undefined dimension "${dimension}"`);
+      }
+    }
+    if (metric.timeDimension && dimensions.get(metric.timeDimension)?.type !== "date") {
+      problems.push(`Metric "${metric.name}" has time dimension "${metric.timeDimension}", which is not a date dimension`);
+    }
+  }
+
+  for (const entity of definitions.entities) {
+    for (const relationship of entity.relationships ?? []) {
+      if (!entityNames.has(relationship.target)) {
+        problems.push(`Entity "${entity.name}" relates to undefined entity "${relationship.target}"`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Parse a definitions document: one YAML document with `metrics`,
+ * `dimensions` and `entities` lists. An empty document has no definitions.
+ */
+export function parseDefinitions(
+  content: string,
+  strict = true,
+): { definitions: SemanticDefinitions; errors: LoadError[] } {
+  const empty: SemanticDefinitions = { metrics: [], dimensions: [], entities: [] };
+  const fail = (message: string, details?: unknown) => {
+    if (strict) {
+      throw new HeyDataError("SEMANTIC_LOAD_ERROR", message, { details: { issues: details } });
+    }
+    return { definitions: empty, errors: [{ file: "definitions", message, details }] };
+  };
+
+  let data: unknown;
+  try {
+    data = yaml.load(content);
+  } catch (e) {
+    return fail(e instanceof Error ? e.message : String(e));
+  }
+  if (data === undefined || data === null) {
+    return { definitions: empty, errors: [] };
+  }
+
+  const result = DefinitionsFileSchema.safeParse(data);
+  if (!result.success) {
+    const summary = result.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ");
+    return fail(`Invalid definitions: ${summary}`, result.error.issues);
+  }
+
+  const definitions: SemanticDefinitions = {
+    metrics: result.data.metrics,
+    dimensions: result.data.dimensions,
+    entities: result.data.entities,
+  };
+  const problems = checkReferences(definitions);
+  if (problems.length > 0) {
+    return fail(problems.join("; "), problems);
+  }
+
+  return { definitions, errors: [] };
+}
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { MetricYamlSchema } from "./metric.js";
+import { DimensionYamlSchema } from "./dimension.js";
+import { EntityYamlSchema } from "./entity.js";
+
+/**
+ * Schema for a single definitions document holding metrics, dimensions and
+ * entities together, as stored next to a connection's semantic layer
+ */
+export const DefinitionsFileSchema = z.object({
+  version: z.string().optional(),
+  metrics: z.array(MetricYamlSchema).default([]),
+  dimensions: z.array(DimensionYamlSchema).default([]),
+  entities: z.array(EntityYamlSchema).default([]),
+});
+
+export type DefinitionsFile = z.infer<typeof DefinitionsFileSchema>;
@@ -1,18 +1,11 @@
 import { z } from "zod";
-import { FormattingRuleSchema } from "@heydata/shared";
+import { DimensionDefinitionSchema } from "@heydata/shared";
 
 /**
  * Schema for a dimension definition YAML file
+ * Extends the shared DimensionDefinitionSchema with YAML-specific fields
  */
-export const DimensionYamlSchema = z.object({
-  name: z.string().min(1),
-  displayName: z.string().min(1),
-  description: z.string(),
-  table: z.string().min(1),
-  column: z.string().min(1),
-  type: z.enum(["string", "number", "date", "boolean"]),
-  synonyms: z.array(z.string()).optional(),
-  formatting: FormattingRuleSchema.optional(),
+export const DimensionYamlSchema = DimensionDefinitionSchema.extend({
   // YAML-specific metadata
   version: z.string().optional(),
   owner: z.string().optional(),
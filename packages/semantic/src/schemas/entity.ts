@@ -1,21 +1,11 @@
 import { z } from "zod";
+import { EntityDefinitionSchema } from "@heydata/shared";
 
 /**
  * Schema for entity (table) relationship definitions
+ * Extends the shared EntityDefinitionSchema with YAML-specific fields
  */
-export const EntityYamlSchema = z.object({
-  name: z.string().min(1),
-  table: z.string().min(1),
-  description: z.string().optional(),
-  primaryKey: z.string().min(1),
-  // Relationships to other entities
-  relationships: z.array(z.object({
-    target: z.string().min(1), // Target entity name
-    foreignKey: z.string().min(1),
-    targetKey: z.string().min(1),
-    type: z.enum(["one-to-one", "one-to-many", "many-to-many"]),
-    joinType: z.enum(["inner", "left", "right", "full"]).optional(),
-  })).optional(),
+export const EntityYamlSchema = EntityDefinitionSchema.extend({
   // YAML metadata
   version: z.string().optional(),
   owner: z.string().optional(),
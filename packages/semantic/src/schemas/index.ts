@@ -18,3 +18,8 @@ export {
   type EntityYaml,
   type EntitiesFile,
 } from "./entity.js";
+
+export {
+  DefinitionsFileSchema,
+  type DefinitionsFile,
+} from "./definitions.js";
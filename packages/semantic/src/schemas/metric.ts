@@ -1,24 +1,11 @@
 import { z } from "zod";
-import {
-  FormattingRuleSchema,
-  AccessRuleSchema,
-} from "@heydata/shared";
+import { MetricDefinitionSchema } from "@heydata/shared";
 
 /**
  * Schema for a metric definition YAML file
  * Extends the shared MetricDefinitionSchema with YAML-specific fields
  */
-export const MetricYamlSchema = z.object({
-  name: z.string().min(1),
-  displayName: z.string().min(1),
-  description: z.string(),
-  formula: z.string().min(1),
-  grain: z.enum(["hourly", "daily", "weekly", "monthly", "quarterly", "yearly"]).optional(),
-  dimensions: z.array(z.string()),
-  defaultFilters: z.array(z.string()).optional(),
-  synonyms: z.array(z.string()).optional(),
-  formatting: FormattingRuleSchema.optional(),
-  access: AccessRuleSchema.optional(),
+export const MetricYamlSchema = MetricDefinitionSchema.extend({
   // YAML-specific metadata
   version: z.string().optional(),
   owner: z.string().optional(),
@@ -54,6 +54,69 @@ describe("introspectedSchemaToDDL", () => {
     expect(result.split("\n")).toHaveLength(2);
   });
 
+  it("qualifies BigQuery tables and FK targets with their dataset", () => {
+    const schema: IntrospectedSchema = {
+      tables: [
+        {
+          name: "orders",
+          schema: "shop",
+          columns: [
+            { name: "id", dataType: "INT64", isNullable: false, columnDefault: null, isPrimaryKey: true, isForeignKey: false, foreignTable: null, foreignColumn: null },
+            { name: "user_id", dataType: "INT64", isNullable: true, columnDefault: null, isPrimaryKey: false, isForeignKey: true, foreignTable: "users", foreignColumn: "id" },
+          ],
+        },
+      ],
+      introspectedAt: "2026-01-01T00:00:00Z",
+    };
+
+    expect(introspectedSchemaToDDL(schema, "bigquery")).toBe(
+      "shop.orders(id INT64 PK, user_id INT64 FK->shop.users.id)",
+    );
+    expect(introspectedSchemaToDDL(schema)).toBe("orders(id INT64 PK, user_id INT64 FK->users.id)");
+  });
+
+  it("annotates views, enums, common values, comments, composite keys, indexes and partitions", () => {
+    const schema: IntrospectedSchema = {
+      tables: [
+        {
+          name: "orders",
+          schema: "public",
+          comment: "One row per checkout",
+          partitionKey: "RANGE (created_at)",
+          partitionCount: 12,
+          columns: [
+            { name: "id", dataType: "bigint", isNullable: false, columnDefault: null, isPrimaryKey: true, isForeignKey: false, foreignTable: null, foreignColumn: null },
+            { name: "status", dataType: "order_status", isNullable: false, columnDefault: null, isPrimaryKey: false, isForeignKey: false, foreignTable: null, foreignColumn: null, enumValues: ["paid", "refunded"] },
+            { name: "channel", dataType: "text", isNullable: true, columnDefault: null, isPrimaryKey: false, isForeignKey: false, foreignTable: null, foreignColumn: null, stats: { distinctCount: 2, mostCommonValues: ["web", "app's"] } },
+            { name: "region", dataType: "text", isNullable: false, columnDefault: null, isPrimaryKey: false, isForeignKey: true, foreignTable: "stores", foreignColumn: "region" },
+            { name: "store_code", dataType: "text", isNullable: false, columnDefault: null, isPrimaryKey: false, isForeignKey: true, foreignTable: "stores", foreignColumn: "code" },
+            { name: "amount", dataType: "numeric", isNullable: false, columnDefault: null, isPrimaryKey: false, isForeignKey: false, foreignTable: null, foreignColumn: null, comment: "Gross,\nin cents" },
+          ],
+          foreignKeys: [
+            { columns: ["region", "store_code"], foreignSchema: "public", foreignTable: "stores", foreignColumns: ["region", "code"] },
+          ],
+          indexes: [{ name: "orders_channel_idx", columns: ["channel"], unique: false }],
+        },
+        {
+          name: "daily_revenue",
+          schema: "public",
+          kind: "materialized_view",
+          columns: [
+            { name: "day", dataType: "date", isNullable: true, columnDefault: null, isPrimaryKey: false, isForeignKey: false, foreignTable: null, foreignColumn: null, stats: { distinctCount: 900, mostCommonValues: ["2026-01-01"] } },
+          ],
+        },
+      ],
+      introspectedAt: "2026-01-01T00:00:00Z",
+    };
+
+    expect(introspectedSchemaToDDL(schema).split("\n")).toEqual([
+      "orders(id bigint PK, status order_status ENUM('paid','refunded'), channel text VALUES('web','app''s'), " +
+        "region text, store_code text, amount numeric /* Gross, in cents */, " +
+        "FK(region, store_code)->stores(region, code), INDEX(channel)) PARTITION BY RANGE (created_at) -- One row per checkout",
+      "MATERIALIZED VIEW daily_revenue(day date VALUES('2026-01-01',…))",
+    ]);
+  });
+
   it("returns empty string for empty schema", () => {
     const schema: IntrospectedSchema = {
       tables: [],
@@ -3,6 +3,9 @@ import type { WarehouseDialect } from "./types/agent.js";
 /** Maximum SQL generation → validation retry attempts */
 export const MAX_SQL_RETRIES = 3;
 
+/** Maximum SQL regenerations after the database rejects a query */
+export const MAX_EXECUTION_RETRIES = 2;
+
 /** Maximum data validation → SQL regeneration retry attempts */
 export const MAX_DATA_VALIDATION_RETRIES = 2;
 
@@ -12,9 +15,18 @@ export const DEFAULT_QUERY_TIMEOUT_MS = 30_000;
 /** Default row limit injected if LIMIT is absent */
 export const DEFAULT_ROW_LIMIT = 10_000;
 
+/** Approximate token budget for prior conversation turns fed to the intent resolver */
+export const SESSION_CONTEXT_TOKEN_BUDGET = 1_500;
+
+/** Maximum persisted chat messages loaded when rebuilding a session context */
+export const MAX_SESSION_HISTORY_MESSAGES = 20;
+
 /** Warehouse dialects supported by the bridge */
 export const SUPPORTED_DIALECTS: readonly WarehouseDialect[] = [
   "postgresql",
+  "mysql",
+  "sqlite",
+  "duckdb",
   "bigquery",
   "snowflake",
   "redshift",
@@ -1,3 +1,3 @@
 export * from "./types/index.js";
 export * from "./constants.js";
-export { introspectedSchemaToDDL } from "./utils/schema-ddl.js";
+export { introspectedSchemaToDDL, introspectedTableToDDL } from "./utils/schema-ddl.js";
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { IntentObjectSchema } from "./intent.js";
 import { EnrichedResultSetSchema } from "./result.js";
+import { VerifiedQueryRefSchema } from "./verified-query.js";
 import { VisualizationSpecSchema } from "./visualization.js";
 
 // ── Agent Name ────────────────────────────────────────────────────
@@ -10,12 +11,15 @@ export const AgentNameSchema = z.enum([
   "intent_resolver",
   "sql_generator",
   "sql_validator",
+  "query_executor",
   "data_validator",
   "data_analyzer",
   "viz_planner",
   "narrative",
   "semantic_generator",
   "command_generator",
+  "semantic_suggester",
+  "metric_compiler",
 ]);
 
 export type AgentName = z.infer<typeof AgentNameSchema>;
@@ -24,6 +28,9 @@ export type AgentName = z.infer<typeof AgentNameSchema>;
 
 export const WarehouseDialectSchema = z.enum([
   "postgresql",
+  "mysql",
+  "sqlite",
+  "duckdb",
   "bigquery",
   "snowflake",
   "redshift",
@@ -49,17 +56,84 @@ export const AgentTraceSchema = z.object({
 
 export type AgentTrace = z.infer<typeof AgentTraceSchema>;
 
+// ── Query Cost Estimate ───────────────────────────────────────────
+
+export const QueryCostEstimateSchema = z.object({
+  /** Planner's total cost, in the engine's own units */
+  totalCost: z.number().min(0),
+  /** Rows the planner expects the query to return */
+  estimatedRows: z.number().min(0),
+  /** Tables the plan reads in full, with the rows the scan is expected to produce */
+  seqScans: z.array(
+    z.object({
+      table: z.string(),
+      estimatedRows: z.number().min(0),
+    }),
+  ),
+});
+
+export type QueryCostEstimate = z.infer<typeof QueryCostEstimateSchema>;
+
 // ── Generated SQL ─────────────────────────────────────────────────
 
 export const GeneratedSQLSchema = z.object({
+  /** The query as it runs, in `dialect` */
   sql: z.string().min(1),
   dialect: WarehouseDialectSchema,
+  /** The generator's PostgreSQL, when `sql` was transpiled from it */
+  sourceSql: z.string().optional(),
   tablesTouched: z.array(z.string()),
   estimatedComplexity: z.enum(["low", "medium", "high"]).optional(),
+  /** Compiled from governed metric definitions rather than written by the LLM */
+  compiled: z.boolean().optional(),
+  /** Planner estimate for the query, when the connection can EXPLAIN it */
+  costEstimate: QueryCostEstimateSchema.optional(),
 });
 
 export type GeneratedSQL = z.infer<typeof GeneratedSQLSchema>;
 
+// ── Schema Selection ──────────────────────────────────────────────
+// Which tables of the introspected schema the agents were shown for one
+// question. Large schemas are pruned to the tables relevant to it.
+
+export const SchemaSelectionReasonSchema = z.enum([
+  /** Named by the intent: ad-hoc metric tables, governed metric formulas */
+  "intent",
+  /** Table, column, comment or value names match the question */
+  "match",
+  /** A semantic layer section about the question refers to it */
+  "semantic_layer",
+  /** Used by verified queries */
+  "usage",
+  /** Joined to a selected table by a foreign key; keys only */
+  "foreign_key",
+  /** No signal; included because it fit */
+  "default",
+]);
+
+export type SchemaSelectionReason = z.infer<typeof SchemaSelectionReasonSchema>;
+
+export const SchemaSelectionSchema = z.object({
+  /** Agent the schema was selected for */
+  agent: z.enum(["intent_resolver", "sql_generator"]),
+  /** Tables in the introspected schema */
+  totalTables: z.number().int().min(0),
+  /** Tables included, most relevant first */
+  tables: z.array(
+    z.object({
+      table: z.string(),
+      score: z.number(),
+      reason: SchemaSelectionReasonSchema,
+    }),
+  ),
+  /** Whether any table was left out */
+  pruned: z.boolean(),
+  /** Length of the schema text the agent got, in characters */
+  length: z.number().int().min(0),
+});
+
+export type SchemaSelection = z.infer<typeof SchemaSelectionSchema>;
+
 // ── Orchestrator Trace ────────────────────────────────────────────
 
 export const OrchestratorTraceSchema = z.object({
@@ -70,6 +144,8 @@ export const OrchestratorTraceSchema = z.object({
   agentTraces: z.array(AgentTraceSchema),
   totalInputTokens: z.number().int().min(0),
   totalOutputTokens: z.number().int().min(0),
+  /** Schema context given to the intent resolver and SQL generator */
+  schemaSelections: z.array(SchemaSelectionSchema).optional(),
 });
 
 export type OrchestratorTrace = z.infer<typeof OrchestratorTraceSchema>;
@@ -85,6 +161,66 @@ export const OrchestratorResponseSchema = z.object({
   narrative: z.string().optional(),
   trace: OrchestratorTraceSchema,
   clarificationQuestion: z.string().optional(),
+  /** Set instead of results when the query's estimated cost needs the user's go-ahead */
+  costConfirmationQuestion: z.string().optional(),
+  /** Set when the answer ran a verified query unchanged */
+  verifiedQuery: VerifiedQueryRefSchema.optional(),
+  /**
+   * Semantic layer version the answer was produced with: the caller's
+   * version id, or a hash of the semantic layer's content
+   */
+  semanticVersion: z.string().optional(),
 });
 
 export type OrchestratorResponse = z.infer<typeof OrchestratorResponseSchema>;
+
+// ── Pipeline Progress ─────────────────────────────────────────────
+
+export const PipelineStepSchema = z.enum([
+  "intent",
+  "sql",
+  "execution",
+  "data_validation",
+  "analysis",
+  "visualization",
+  "narrative",
+]);
+
+export type PipelineStep = z.infer<typeof PipelineStepSchema>;
+
+export const PipelineProgressEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("step_started"),
+    step: PipelineStepSchema,
+    attempt: z.number().int().min(1).optional(),
+    timestamp: z.string(),
+  }),
+  z.object({
+    type: z.literal("step_finished"),
+    step: PipelineStepSchema,
+    success: z.boolean(),
+    durationMs: z.number().min(0),
+    error: z.string().optional(),
+    timestamp: z.string(),
+  }),
+  z.object({
+    type: z.literal("sql_generated"),
+    sql: z.string(),
+    attempt: z.number().int().min(1),
+    timestamp: z.string(),
+  }),
+  z.object({
+    type: z.literal("rows_fetched"),
+    rowCount: z.number().int().min(0),
+    truncated: z.boolean(),
+    executionTimeMs: z.number().min(0),
+    timestamp: z.string(),
+  }),
+  z.object({
+    type: z.literal("narrative_delta"),
+    text: z.string(),
+    timestamp: z.string(),
+  }),
+]);
+
+export type PipelineProgressEvent = z.infer<typeof PipelineProgressEventSchema>;
@@ -19,6 +19,7 @@ export const HeyDataErrorCodeSchema = z.enum([
   // Execution errors
   "QUERY_TIMEOUT",
   "QUERY_EXECUTION_FAILED",
+  "QUERY_BUDGET_EXCEEDED",
   "CONNECTION_FAILED",
 
   // Data validation errors
@@ -42,6 +43,7 @@ export const HeyDataErrorCodeSchema = z.enum([
   "SEMANTIC_LOAD_ERROR",
   "SEMANTIC_GENERATION_FAILED",
   "COMMAND_GENERATION_FAILED",
+  "SEMANTIC_SUGGESTION_FAILED",
 ]);
 
 export type HeyDataErrorCode = z.infer<typeof HeyDataErrorCodeSchema>;
@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+// ── Query Feedback ───────────────────────────────────────────────
+// An answer a user flagged as incorrect, kept with the full response so
+// reviewers can see the intent, SQL and trace that produced it.
+
+export const QueryFeedbackStatusSchema = z.enum(["open", "resolved", "dismissed"]);
+
+export type QueryFeedbackStatus = z.infer<typeof QueryFeedbackStatusSchema>;
+
+// ── Semantic Layer Edit ──────────────────────────────────────────
+// A suggested change to a connection's semantic_md: replace one exact
+// passage, or append when `find` is empty. Drafted from flagged answers or
+// from schema changes.
+
+export const SemanticEditSchema = z.object({
+  /** Exact text to replace; empty appends `replace` to the document */
+  find: z.string(),
+  replace: z.string(),
+  /** Why the change is needed */
+  reason: z.string(),
+});
+
+export type SemanticEdit = z.infer<typeof SemanticEditSchema>;
+
+export const SemanticEditSuggestionSchema = z.object({
+  /** What prompted the edits, in one or two sentences */
+  summary: z.string(),
+  edits: z.array(SemanticEditSchema),
+});
+
+export type SemanticEditSuggestion = z.infer<typeof SemanticEditSuggestionSchema>;
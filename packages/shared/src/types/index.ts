@@ -5,3 +5,6 @@ export * from "./visualization.js";
 export * from "./agent.js";
 export * from "./errors.js";
 export * from "./connection.js";
+export * from "./schedule.js";
+export * from "./feedback.js";
+export * from "./verified-query.js";
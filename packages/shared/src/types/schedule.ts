@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+// ── Alert Rule ───────────────────────────────────────────────────
+// A threshold on one numeric column of a scheduled query's result,
+// e.g. "daily signups < 100".
+
+export const AlertOperatorSchema = z.enum(["lt", "lte", "gt", "gte", "eq", "neq"]);
+
+export type AlertOperator = z.infer<typeof AlertOperatorSchema>;
+
+export const AlertRuleSchema = z.object({
+  /** Result column holding the metric */
+  column: z.string().min(1),
+  /** How the column's values reduce to one number; "first" reads the first row */
+  aggregate: z.enum(["first", "last", "sum", "avg", "min", "max"]).default("first"),
+  operator: AlertOperatorSchema,
+  threshold: z.number(),
+});
+
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+
+// ── Notification Target ──────────────────────────────────────────
+// Where a schedule's notifications go. Channel settings shared by all
+// users (e.g. the SMTP server) are server configuration, not part of the target.
+
+export const NotificationTargetSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("webhook"),
+    url: z.string().url(),
+    /** Sent as a bearer token so the receiver can verify the sender */
+    secret: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("email"),
+    to: z.array(z.string().email()).min(1),
+  }),
+]);
+
+export type NotificationTarget = z.infer<typeof NotificationTargetSchema>;
+
+// ── Scheduled Query ──────────────────────────────────────────────
+
+export const ScheduledQueryConfigSchema = z.object({
+  /** Five-field cron expression, evaluated in UTC (e.g. "0 8 * * 1-5") */
+  cron: z.string().min(1),
+  /** Without a rule every run notifies; with one, only runs that trigger it */
+  alertRule: AlertRuleSchema.nullable().default(null),
+  targets: z.array(NotificationTargetSchema).default([]),
+  enabled: z.boolean().default(true),
+});
+
+export type ScheduledQueryConfig = z.infer<typeof ScheduledQueryConfigSchema>;
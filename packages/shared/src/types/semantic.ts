@@ -1,4 +1,102 @@
 import { z } from "zod";
+import { IntrospectedSchemaSchema } from "./connection.js";
+
+// ── Semantic Definitions ──────────────────────────────────────────
+// Governed metrics, dimensions and entities authored by analytics engineers
+// as YAML next to the semantic layer Markdown. Intents that only reference
+// defined metrics are compiled to SQL deterministically instead of by the LLM.
+
+export const FormattingRuleSchema = z.object({
+  type: z.enum(["number", "currency", "percentage", "date", "string"]),
+  decimalPlaces: z.number().int().min(0).optional(),
+  /** ISO 4217 code, for currency values */
+  currency: z.string().optional(),
+  /** date-fns style pattern, for dates */
+  dateFormat: z.string().optional(),
+});
+
+export type FormattingRule = z.infer<typeof FormattingRuleSchema>;
+
+export const AccessRuleSchema = z.object({
+  /** Roles allowed to query the metric; everyone when omitted */
+  allowedRoles: z.array(z.string()).optional(),
+});
+
+export type AccessRule = z.infer<typeof AccessRuleSchema>;
+
+export const TimeGrainSchema = z.enum(["hourly", "daily", "weekly", "monthly", "quarterly", "yearly"]);
+
+export type TimeGrain = z.infer<typeof TimeGrainSchema>;
+
+export const MetricDefinitionSchema = z.object({
+  name: z.string().min(1),
+  displayName: z.string().min(1),
+  description: z.string(),
+  /** Aggregate over table.column references, e.g. SUM(orders.amount) */
+  formula: z.string().min(1),
+  /** Table the metric aggregates; defaults to the first table the formula references */
+  table: z.string().min(1).optional(),
+  /** Default time grain for date dimensions */
+  grain: TimeGrainSchema.optional(),
+  /** Date dimension time ranges apply to; defaults to the first date dimension */
+  timeDimension: z.string().min(1).optional(),
+  /** Dimensions the metric may be grouped and filtered by */
+  dimensions: z.array(z.string()),
+  /** SQL predicates always applied, e.g. orders.status = 'completed' */
+  defaultFilters: z.array(z.string()).optional(),
+  synonyms: z.array(z.string()).optional(),
+  formatting: FormattingRuleSchema.optional(),
+  access: AccessRuleSchema.optional(),
+});
+
+export type MetricDefinition = z.infer<typeof MetricDefinitionSchema>;
+
+export const DimensionDefinitionSchema = z.object({
+  name: z.string().min(1),
+  displayName: z.string().min(1),
+  description: z.string(),
+  table: z.string().min(1),
+  column: z.string().min(1),
+  type: z.enum(["string", "number", "date", "boolean"]),
+  synonyms: z.array(z.string()).optional(),
+  formatting: FormattingRuleSchema.optional(),
+});
+
+export type DimensionDefinition = z.infer<typeof DimensionDefinitionSchema>;
+
+/**
+ * A join from an entity to another: `foreignKey` is a column of the entity,
+ * `targetKey` a column of the target. `type` is read from the entity's side,
+ * so one-to-many means one entity row has many target rows.
+ */
+export const EntityRelationshipSchema = z.object({
+  /** Target entity name */
+  target: z.string().min(1),
+  foreignKey: z.string().min(1),
+  targetKey: z.string().min(1),
+  type: z.enum(["one-to-one", "one-to-many", "many-to-one", "many-to-many"]),
+  joinType: z.enum(["inner", "left", "right", "full"]).optional(),
+});
+
+export type EntityRelationship = z.infer<typeof EntityRelationshipSchema>;
+
+export const EntityDefinitionSchema = z.object({
+  name: z.string().min(1),
+  table: z.string().min(1),
+  description: z.string().optional(),
+  primaryKey: z.string().min(1),
+  relationships: z.array(EntityRelationshipSchema).optional(),
+});
+
+export type EntityDefinition = z.infer<typeof EntityDefinitionSchema>;
+
+export const SemanticDefinitionsSchema = z.object({
+  metrics: z.array(MetricDefinitionSchema).default([]),
+  dimensions: z.array(DimensionDefinitionSchema).default([]),
+  entities: z.array(EntityDefinitionSchema).default([]),
+});
+
+export type SemanticDefinitions = z.infer<typeof SemanticDefinitionsSchema>;
 
 // ── Semantic Metadata ─────────────────────────────────────────────
 // The semantic layer is stored as a Markdown document (semantic_md) in the
@@ -8,8 +106,16 @@ import { z } from "zod";
 export const SemanticMetadataSchema = z.object({
   /** Full Markdown document describing the database's semantic layer */
   semanticMarkdown: z.string(),
-  /** Compact DDL representation of the raw database schema for ad-hoc metric support */
+  /**
+   * Compact DDL of the raw database schema for ad-hoc metric support. With
+   * `rawSchema` set, the orchestrator replaces it per question with the
+   * tables the question needs.
+   */
   rawSchemaDDL: z.string().optional(),
+  /** Introspected tables and columns, used to check generated SQL without the LLM */
+  rawSchema: IntrospectedSchemaSchema.optional(),
+  /** Governed metric definitions, compiled to SQL without the LLM */
+  definitions: SemanticDefinitionsSchema.optional(),
 });
 
 export type SemanticMetadata = z.infer<typeof SemanticMetadataSchema>;
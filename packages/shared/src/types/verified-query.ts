@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { IntentObjectSchema } from "./intent.js";
+
+// ── Verified Query ───────────────────────────────────────────────
+// A question and SQL pair an analytics engineer has checked by hand. The
+// closest verified queries are shown to the intent resolver and SQL
+// generator as examples; answers that run one unchanged are badged.
+
+export const VerifiedQuerySchema = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  /** PostgreSQL, like the SQL generator writes */
+  sql: z.string().min(1),
+  /** The resolved intent, when the query was verified from a chat answer */
+  intent: IntentObjectSchema.optional(),
+});
+
+export type VerifiedQuery = z.infer<typeof VerifiedQuerySchema>;
+
+/**
+ * The verified query an answer's SQL is identical to
+ */
+export const VerifiedQueryRefSchema = z.object({
+  id: z.string().min(1),
+  question: z.string(),
+});
+
+export type VerifiedQueryRef = z.infer<typeof VerifiedQueryRefSchema>;
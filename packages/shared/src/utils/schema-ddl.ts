@@ -1,6 +1,77 @@
-import type { IntrospectedSchema } from "../types/connection.js";
+import type {
+  IntrospectedColumn,
+  IntrospectedSchema,
+  IntrospectedTable,
+} from "../types/connection.js";
+import type { WarehouseDialect } from "../types/agent.js";
 
-const MAX_DDL_LENGTH = 4000;
+const MAX_LISTED_VALUES = 20;
+const MAX_COMMENT_LENGTH = 160;
+
+function quoteValue(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** Up to MAX_LISTED_VALUES quoted values, with an ellipsis when some are left out */
+function valueList(values: string[], complete: boolean): string {
+  const listed = values.slice(0, MAX_LISTED_VALUES).map(quoteValue);
+  if (!complete || values.length > MAX_LISTED_VALUES) listed.push("…");
+  return listed.join(",");
+}
+
+/** A comment on one line, shortened, safe inside a block comment */
+function compactComment(comment: string): string {
+  const text = comment.replace(/\s+/g, " ").replace(/\*\//g, "* /").trim();
+  return text.length > MAX_COMMENT_LENGTH ? `${text.slice(0, MAX_COMMENT_LENGTH - 1)}…` : text;
+}
+
+function describeColumn(
+  c: IntrospectedColumn,
+  table: IntrospectedTable,
+  qualify: boolean,
+  compositeFkColumns: Set<string>,
+): string {
+  let desc = `${c.name} ${c.dataType}`;
+  if (c.isPrimaryKey) desc += " PK";
+  if (c.isForeignKey && c.foreignTable && c.foreignColumn && !compositeFkColumns.has(c.name)) {
+    const target = qualify ? `${table.schema}.${c.foreignTable}` : c.foreignTable;
+    desc += ` FK->${target}.${c.foreignColumn}`;
+  }
+  if (c.enumValues?.length) {
+    desc += ` ENUM(${valueList(c.enumValues, true)})`;
+  } else if (c.stats?.mostCommonValues?.length) {
+    const { mostCommonValues, distinctCount } = c.stats;
+    desc += ` VALUES(${valueList(mostCommonValues, distinctCount !== undefined && distinctCount <= mostCommonValues.length)})`;
+  }
+  if (c.comment) desc += ` /* ${compactComment(c.comment)} */`;
+  return desc;
+}
+
+/**
+ * One table as a line of compact DDL; see `introspectedSchemaToDDL`
+ */
+export function introspectedTableToDDL(
+  t: IntrospectedTable,
+  dialect: WarehouseDialect = "postgresql",
+): string {
+  const qualify = dialect === "bigquery";
+  const compositeFkColumns = new Set((t.foreignKeys ?? []).flatMap((fk) => fk.columns));
+  const items = t.columns.map((c) => describeColumn(c, t, qualify, compositeFkColumns));
+
+  for (const fk of t.foreignKeys ?? []) {
+    const target = qualify ? `${fk.foreignSchema}.${fk.foreignTable}` : fk.foreignTable;
+    items.push(`FK(${fk.columns.join(", ")})->${target}(${fk.foreignColumns.join(", ")})`);
+  }
+  for (const index of t.indexes ?? []) {
+    items.push(`${index.unique ? "UNIQUE" : "INDEX"}(${index.columns.join(", ")})`);
+  }
+
+  const prefix = t.kind === "view" ? "VIEW " : t.kind === "materialized_view" ? "MATERIALIZED VIEW " : "";
+  let line = `${prefix}${qualify ? `${t.schema}.${t.name}` : t.name}(${items.join(", ")})`;
+  if (t.partitionKey) line += ` PARTITION BY ${t.partitionKey}`;
+  if (t.comment) line += ` -- ${compactComment(t.comment)}`;
+  return line;
+}
 
 /**
  * Convert an IntrospectedSchema to a compact DDL-like string representation.
@@ -9,30 +80,22 @@ const MAX_DDL_LENGTH = 4000;
  * Example output:
  *   links(id uuid PK, user_id uuid FK->user_profiles.id, url text, created_at timestamptz)
  *   click_logs(id uuid PK, link_id uuid FK->links.id, clicked_at timestamptz, country text)
+ *
+ * Where the adapter reads them, views are prefixed with VIEW or MATERIALIZED
+ * VIEW, enum labels and low-cardinality values follow the column type,
+ * multi-column foreign keys and indexes come after the columns, and comments
+ * are kept, shortened, as SQL comments (block comments for columns):
+ *   orders(id int PK, status order_status ENUM('paid','refunded'), INDEX(created_at)) -- One row per checkout
+ *
+ * BigQuery has no search path, so its tables (and FK targets) are qualified
+ * with their dataset: `shop.orders(...)`.
+ *
+ * Every table is included; large schemas are pruned per question by the
+ * orchestrator's schema context selection.
  */
-export function introspectedSchemaToDDL(schema: IntrospectedSchema): string {
-  const lines = schema.tables.map((t) => {
-    const cols = t.columns
-      .map((c) => {
-        let desc = `${c.name} ${c.dataType}`;
-        if (c.isPrimaryKey) desc += " PK";
-        if (c.isForeignKey && c.foreignTable && c.foreignColumn) {
-          desc += ` FK->${c.foreignTable}.${c.foreignColumn}`;
-        }
-        return desc;
-      })
-      .join(", ");
-    return `${t.name}(${cols})`;
-  });
-
-  const full = lines.join("\n");
-  if (full.length <= MAX_DDL_LENGTH) return full;
-
-  // Truncate: keep as many complete table lines as fit within the limit
-  let result = "";
-  for (const line of lines) {
-    if (result.length + line.length + 1 > MAX_DDL_LENGTH) break;
-    result += (result ? "\n" : "") + line;
-  }
-  return result;
+export function introspectedSchemaToDDL(
+  schema: IntrospectedSchema,
+  dialect: WarehouseDialect = "postgresql",
+): string {
+  return schema.tables.map((t) => introspectedTableToDDL(t, dialect)).join("\n");
 }
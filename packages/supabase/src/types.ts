@@ -155,9 +155,11 @@ export type Database = {
           connection_string: string
           created_at: string | null
           db_type: string
+          drift_report: Json | null
           id: string
           last_tested_at: string | null
           name: string
+          query_budget: Json | null
           ssl_enabled: boolean | null
           status: string | null
           updated_at: string | null
@@ -167,9 +169,11 @@ export type Database = {
           connection_string: string
           created_at?: string | null
           db_type?: string
+          drift_report?: Json | null
           id?: string
           last_tested_at?: string | null
           name: string
+          query_budget?: Json | null
           ssl_enabled?: boolean | null
           status?: string | null
           updated_at?: string | null
@@ -179,9 +183,11 @@ export type Database = {
           connection_string?: string
           created_at?: string | null
           db_type?: string
+          drift_report?: Json | null
           id?: string
           last_tested_at?: string | null
           name?: string
+          query_budget?: Json | null
           ssl_enabled?: boolean | null
           status?: string | null
           updated_at?: string | null
@@ -189,12 +195,340 @@ export type Database = {
         }
         Relationships: []
       }
+      dashboards: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      query_cache: {
+        Row: {
+          cache_key: string
+          connection_id: string
+          value: Json
+          expires_at: string
+          created_at: string | null
+        }
+        Insert: {
+          cache_key: string
+          connection_id: string
+          value: Json
+          expires_at: string
+          created_at?: string | null
+        }
+        Update: {
+          cache_key?: string
+          connection_id?: string
+          value?: Json
+          expires_at?: string
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "query_cache_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "connections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      query_feedback: {
+        Row: {
+          connection_id: string
+          correction: string
+          created_at: string | null
+          id: string
+          question: string
+          response: Json
+          session_id: string | null
+          status: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          connection_id: string
+          correction: string
+          created_at?: string | null
+          id?: string
+          question: string
+          response: Json
+          session_id?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          connection_id?: string
+          correction?: string
+          created_at?: string | null
+          id?: string
+          question?: string
+          response?: Json
+          session_id?: string | null
+          status?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "query_feedback_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "connections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "query_feedback_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_questions: {
+        Row: {
+          connection_id: string
+          created_at: string | null
+          dashboard_id: string
+          height: number
+          id: string
+          position: number
+          question: string
+          sql: string
+          title: string
+          updated_at: string | null
+          visualization: Json
+          width: number
+        }
+        Insert: {
+          connection_id: string
+          created_at?: string | null
+          dashboard_id: string
+          height?: number
+          id?: string
+          position?: number
+          question: string
+          sql: string
+          title: string
+          updated_at?: string | null
+          visualization: Json
+          width?: number
+        }
+        Update: {
+          connection_id?: string
+          created_at?: string | null
+          dashboard_id?: string
+          height?: number
+          id?: string
+          position?: number
+          question?: string
+          sql?: string
+          title?: string
+          updated_at?: string | null
+          visualization?: Json
+          width?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_questions_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "connections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_questions_dashboard_id_fkey"
+            columns: ["dashboard_id"]
+            isOneToOne: false
+            referencedRelation: "dashboards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_queries: {
+        Row: {
+          alert_rule: Json | null
+          created_at: string | null
+          cron: string
+          enabled: boolean
+          id: string
+          last_run_at: string | null
+          next_run_at: string
+          saved_question_id: string
+          targets: Json
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          alert_rule?: Json | null
+          created_at?: string | null
+          cron: string
+          enabled?: boolean
+          id?: string
+          last_run_at?: string | null
+          next_run_at: string
+          saved_question_id: string
+          targets?: Json
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          alert_rule?: Json | null
+          created_at?: string | null
+          cron?: string
+          enabled?: boolean
+          id?: string
+          last_run_at?: string | null
+          next_run_at?: string
+          saved_question_id?: string
+          targets?: Json
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_queries_saved_question_id_fkey"
+            columns: ["saved_question_id"]
+            isOneToOne: false
+            referencedRelation: "saved_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_query_runs: {
+        Row: {
+          created_at: string | null
+          error: string | null
+          finished_at: string
+          id: string
+          notification_error: string | null
+          notified: boolean
+          row_count: number | null
+          schedule_id: string
+          started_at: string
+          status: string
+          triggered: boolean
+          value: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          error?: string | null
+          finished_at: string
+          id?: string
+          notification_error?: string | null
+          notified?: boolean
+          row_count?: number | null
+          schedule_id: string
+          started_at: string
+          status: string
+          triggered?: boolean
+          value?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          error?: string | null
+          finished_at?: string
+          id?: string
+          notification_error?: string | null
+          notified?: boolean
+          row_count?: number | null
+          schedule_id?: string
+          started_at?: string
+          status?: string
+          triggered?: boolean
+          value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_query_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_queries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      semantic_layer_versions: {
+        Row: {
+          author_email: string | null
+          author_id: string | null
+          connection_id: string
+          created_at: string | null
+          definitions_yaml: string
+          id: string
+          restored_from: string | null
+          semantic_md: string
+          source: string
+        }
+        Insert: {
+          author_email?: string | null
+          author_id?: string | null
+          connection_id: string
+          created_at?: string | null
+          definitions_yaml?: string
+          id?: string
+          restored_from?: string | null
+          semantic_md: string
+          source: string
+        }
+        Update: {
+          author_email?: string | null
+          author_id?: string | null
+          connection_id?: string
+          created_at?: string | null
+          definitions_yaml?: string
+          id?: string
+          restored_from?: string | null
+          semantic_md?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "semantic_layer_versions_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "connections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "semantic_layer_versions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "semantic_layer_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       semantic_layers: {
         Row: {
           connection_id: string
           created_at: string | null
+          current_version_id: string | null
+          definitions_yaml: string
           generated_at: string | null
           id: string
+          next_version_restored_from: string | null
+          next_version_source: string | null
           raw_schema: Json | null
           semantic_md: string
           updated_at: string | null
@@ -202,8 +536,12 @@ export type Database = {
         Insert: {
           connection_id: string
           created_at?: string | null
+          current_version_id?: string | null
+          definitions_yaml?: string
           generated_at?: string | null
           id?: string
+          next_version_restored_from?: string | null
+          next_version_source?: string | null
           raw_schema?: Json | null
           semantic_md?: string
           updated_at?: string | null
@@ -211,8 +549,12 @@ export type Database = {
         Update: {
           connection_id?: string
           created_at?: string | null
+          current_version_id?: string | null
+          definitions_yaml?: string
           generated_at?: string | null
           id?: string
+          next_version_restored_from?: string | null
+          next_version_source?: string | null
           raw_schema?: Json | null
           semantic_md?: string
           updated_at?: string | null
@@ -225,6 +567,54 @@ export type Database = {
             referencedRelation: "connections"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "semantic_layers_current_version_id_fkey"
+            columns: ["current_version_id"]
+            isOneToOne: false
+            referencedRelation: "semantic_layer_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      verified_queries: {
+        Row: {
+          connection_id: string
+          created_at: string | null
+          id: string
+          intent: Json | null
+          question: string
+          sql: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          connection_id: string
+          created_at?: string | null
+          id?: string
+          intent?: Json | null
+          question: string
+          sql: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          connection_id?: string
+          created_at?: string | null
+          id?: string
+          intent?: Json | null
+          question?: string
+          sql?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verified_queries_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "connections"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -3,6 +3,10 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // The SQL guard's PostgreSQL parser loads a .wasm file relative to its own
+  // module; DuckDB ships a native addon; the BigQuery client reads its own
+  // package.json at runtime
+  serverExternalPackages: ["libpg-query", "@duckdb/node-api", "@google-cloud/bigquery"],
 };
 
 export default nextConfig;
@@ -1,5 +1,6 @@
 export const maxDuration = 300;
 
+import { streamWithProgress } from "@/lib/pipeline-progress";
 import { processQueryForConnection } from "@/lib/process-query-for-connection";
 import { createClient } from "@/lib/supabase/server";
 import { anthropic } from "@ai-sdk/anthropic";
@@ -27,6 +28,8 @@ Examples that REQUIRE the query_data tool:
 
 CRITICAL: Call query_data EXACTLY ONCE per user message. Never call it more than once, even for complex questions. Combine all aspects of the question into a single tool call.
 
+If a query_data result asks whether to run an expensive query and the user agrees, call query_data again with the same question and confirmExpensiveQuery set to true. Never set it without the user's explicit agreement.
+
 Do NOT answer data questions from memory — ALWAYS use the tool so they get real results.
 
 For general conversation only (greetings like "hi", "help", "what can you do"), answer directly without calling tools.
@@ -57,8 +60,14 @@ export async function POST(req: Request) {
         "Run an analytics query against the user's data. Use this for any question about metrics, dimensions, trends, or data (revenue, installs, clicks, etc.). Returns narrative, visualization spec, and result set.",
       inputSchema: z.object({
         question: z.string().describe("The user's natural language question about the data"),
+        confirmExpensiveQuery: z
+          .boolean()
+          .optional()
+          .describe("True only when the user has agreed to run a query that was flagged as expensive"),
       }),
-      execute: async ({ question }) => {
+      // Async generator: each yield before the last is streamed to the chat as a
+      // preliminary output (pipeline progress); the final yield is the response.
+      execute: async function* ({ question, confirmExpensiveQuery }) {
         // Execute query via orchestrator pipeline
         if (!connectionId) {
           const noConnectionResponse: OrchestratorResponse = {
@@ -85,19 +94,23 @@ export async function POST(req: Request) {
               totalOutputTokens: 0,
             },
           };
-          return noConnectionResponse;
+          yield noConnectionResponse;
+          return;
         }
         const supabase = await createClient();
-        const response = await processQueryForConnection(
-          supabase as unknown as import("@supabase/supabase-js").SupabaseClient<import("@heydata/supabase").Database>,
-          {
-            connectionId,
-            question,
-            sessionId: sessionId ?? undefined,
-          },
+        // Stream progress snapshots, then the orchestrator response to be rendered in chat
+        yield* streamWithProgress((onProgress) =>
+          processQueryForConnection(
+            supabase as unknown as import("@supabase/supabase-js").SupabaseClient<import("@heydata/supabase").Database>,
+            {
+              connectionId,
+              question,
+              sessionId: sessionId ?? undefined,
+              costConfirmed: confirmExpensiveQuery,
+              onProgress,
+            },
+          ),
         );
-        // Return orchestrator response to be rendered in chat
-        return response;
       },
     });
 
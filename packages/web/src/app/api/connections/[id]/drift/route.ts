@@ -0,0 +1,69 @@
+export const maxDuration = 300;
+
+import { NextResponse } from "next/server";
+import type { Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { apiError, handleApiError } from "@/lib/api-error";
+import { checkConnectionDrift } from "@/lib/schema-drift";
+
+/**
+ * GET /api/connections/:id/drift — The connection's status and latest drift report
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+
+  const { data, error } = await supabase
+    .from("connections")
+    .select("status, drift_report")
+    .eq("id", connectionId)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data) {
+    return apiError(404, "Connection not found");
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * POST /api/connections/:id/drift — Re-introspect the database now and
+ * replace the drift report
+ */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+
+  try {
+    const report = await checkConnectionDrift(
+      supabase as unknown as SupabaseClient<Database>,
+      connectionId,
+    );
+    return NextResponse.json({
+      status: report.brokenReferences.length > 0 ? "drifted" : "active",
+      drift_report: report,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
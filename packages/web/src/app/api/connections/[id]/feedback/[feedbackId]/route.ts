@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { QueryFeedbackStatusSchema } from "@heydata/shared";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+
+const PatchFeedbackSchema = z.object({
+  status: QueryFeedbackStatusSchema,
+});
+
+/**
+ * PATCH /api/connections/:id/feedback/:feedbackId — Resolve, dismiss or reopen a flagged answer
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string; feedbackId: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId, feedbackId } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const parsed = PatchFeedbackSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", {
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("query_feedback")
+    .update({ status: parsed.data.status } as never)
+    .eq("id", feedbackId)
+    .eq("connection_id", connectionId)
+    .select("id, status, updated_at")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data) {
+    return apiError(404, "Feedback not found");
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * DELETE /api/connections/:id/feedback/:feedbackId — Delete a flagged answer
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string; feedbackId: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId, feedbackId } = await params;
+
+  const { error } = await supabase
+    .from("query_feedback")
+    .delete()
+    .eq("id", feedbackId)
+    .eq("connection_id", connectionId);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { OrchestratorResponseSchema, QueryFeedbackStatusSchema } from "@heydata/shared";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+
+const FEEDBACK_COLUMNS = "id, connection_id, session_id, question, response, correction, status, created_at, updated_at";
+
+const CreateFeedbackSchema = z.object({
+  question: z.string().min(1),
+  response: OrchestratorResponseSchema,
+  correction: z.string().trim().min(1).max(4000),
+  sessionId: z.string().uuid().optional(),
+});
+
+/**
+ * GET /api/connections/:id/feedback — Flagged answers for a connection, newest first
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+  const status = QueryFeedbackStatusSchema.safeParse(new URL(req.url).searchParams.get("status"));
+
+  let query = supabase
+    .from("query_feedback")
+    .select(FEEDBACK_COLUMNS)
+    .eq("connection_id", connectionId)
+    .order("created_at", { ascending: false });
+  if (status.success) query = query.eq("status", status.data);
+
+  const { data, error } = await query;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * POST /api/connections/:id/feedback — Flag an answer as incorrect
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const parsed = CreateFeedbackSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", {
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { question, response, correction, sessionId } = parsed.data;
+
+  const { data, error } = await supabase
+    .from("query_feedback")
+    .insert({
+      user_id: user.id,
+      connection_id: connectionId,
+      session_id: sessionId ?? null,
+      question,
+      response,
+      correction,
+    } as never)
+    .select(FEEDBACK_COLUMNS)
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
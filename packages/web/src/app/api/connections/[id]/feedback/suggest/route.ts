@@ -0,0 +1,89 @@
+export const maxDuration = 120;
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { suggestSemanticEditsFromFeedback, type FlaggedAnswer } from "@heydata/core";
+import { OrchestratorResponseSchema } from "@heydata/shared";
+import { createClient } from "@/lib/supabase/server";
+import { apiError, handleApiError } from "@/lib/api-error";
+
+const SuggestSchema = z.object({
+  /** Flagged answers to learn from; defaults to the open ones */
+  feedbackIds: z.array(z.string().uuid()).min(1).max(10).optional(),
+});
+
+/** Open flagged answers used when none are selected */
+const DEFAULT_FEEDBACK_LIMIT = 10;
+
+/**
+ * POST /api/connections/:id/feedback/suggest
+ * Drafts semantic layer edits from flagged answers. Nothing is saved: the
+ * reviewer applies the proposed Markdown through PUT /api/connections/:id/semantic.
+ *
+ * Returns: { summary, edits, rejectedEdits, proposedMarkdown, feedbackIds }
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const parsed = SuggestSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", {
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { data: layer } = await supabase
+    .from("semantic_layers")
+    .select("semantic_md")
+    .eq("connection_id", connectionId)
+    .maybeSingle();
+  const semanticMarkdown = (layer as { semantic_md: string | null } | null)?.semantic_md;
+  if (!semanticMarkdown) {
+    return apiError(404, "Semantic layer not found. Generate it first.");
+  }
+
+  let query = supabase
+    .from("query_feedback")
+    .select("id, question, correction, response")
+    .eq("connection_id", connectionId)
+    .order("created_at", { ascending: true });
+  query = parsed.data.feedbackIds
+    ? query.in("id", parsed.data.feedbackIds)
+    : query.eq("status", "open").limit(DEFAULT_FEEDBACK_LIMIT);
+
+  const { data: rows, error } = await query;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const feedbackIds: string[] = [];
+  const flagged: FlaggedAnswer[] = [];
+  for (const row of (rows ?? []) as { id: string; question: string; correction: string; response: unknown }[]) {
+    const response = OrchestratorResponseSchema.safeParse(row.response);
+    if (!response.success) continue;
+    feedbackIds.push(row.id);
+    flagged.push({ question: row.question, correction: row.correction, response: response.data });
+  }
+  if (flagged.length === 0) {
+    return apiError(400, "No flagged answers to suggest edits from");
+  }
+
+  try {
+    const suggestion = await suggestSemanticEditsFromFeedback(semanticMarkdown, flagged, {
+      signal: req.signal,
+    });
+    return NextResponse.json({ ...suggestion, feedbackIds });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -1,7 +1,13 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { getPoolManager } from "@heydata/bridge";
-import { encryptConnectionString } from "@/lib/crypto";
+import { QueryBudgetSchema } from "@heydata/shared";
+import { decryptConnectionString, encryptConnectionString } from "@/lib/crypto";
+import { invalidateQueryCache } from "@/lib/query-cache-store";
+import type { Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fileConnectionError } from "@/lib/file-connections";
+import { removeUploadedFiles } from "@/lib/uploads";
 
 /**
  * GET /api/connections/:id — Get a single connection
@@ -20,7 +26,7 @@ export async function GET(
 
   const { data, error } = await supabase
     .from("connections")
-    .select("id, name, db_type, ssl_enabled, status, last_tested_at, created_at, updated_at")
+    .select("id, name, db_type, ssl_enabled, query_budget, status, last_tested_at, created_at, updated_at")
     .eq("id", id)
     .single();
 
@@ -51,17 +57,39 @@ export async function PUT(
   const updates: Record<string, unknown> = {};
   if (body.name !== undefined) updates.name = body.name;
   if (body.connectionString !== undefined) {
+    const { data: conn } = await supabase.from("connections").select("db_type").eq("id", id).single();
+    const dbType = (conn as { db_type: string } | null)?.db_type;
+    if (!dbType) {
+      return NextResponse.json({ error: "Connection not found" }, { status: 404 });
+    }
+    const fileError = fileConnectionError(dbType, String(body.connectionString));
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 });
+    }
     updates.connection_string = encryptConnectionString(body.connectionString as string);
   }
   if (body.sslEnabled !== undefined) updates.ssl_enabled = body.sslEnabled;
+  if (body.queryBudget !== undefined) {
+    // null removes the budget
+    const budget = QueryBudgetSchema.nullable().safeParse(body.queryBudget);
+    if (!budget.success) {
+      return NextResponse.json({ error: budget.error.flatten() }, { status: 400 });
+    }
+    updates.query_budget = budget.data;
+  }
 
   if (Object.keys(updates).length === 0) {
     return NextResponse.json({ error: "No valid fields to update" }, { status: 400 });
   }
 
-  // If connection string changed, dispose the cached pool
+  // If connection string changed, dispose the cached pool and the cached
+  // results of the old database
   if (updates.connection_string) {
     await getPoolManager().disposePool(id).catch(() => {});
+    await invalidateQueryCache(
+      supabase as unknown as SupabaseClient<Database>,
+      id,
+    );
     updates.status = "pending";
   }
 
@@ -69,7 +97,7 @@ export async function PUT(
     .from("connections")
     .update(updates as never)
     .eq("id", id)
-    .select("id, name, db_type, ssl_enabled, status, last_tested_at, created_at, updated_at")
+    .select("id, name, db_type, ssl_enabled, query_budget, status, last_tested_at, created_at, updated_at")
     .single();
 
   if (error) {
@@ -97,6 +125,12 @@ export async function DELETE(
   // Dispose the pool if it exists
   await getPoolManager().disposePool(id).catch(() => {});
 
+  const { data: conn } = await supabase
+    .from("connections")
+    .select("db_type, connection_string")
+    .eq("id", id)
+    .single();
+
   const { error } = await supabase
     .from("connections")
     .delete()
@@ -106,5 +140,15 @@ export async function DELETE(
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
+  // Uploaded files belong to the connection and go with it
+  const c = conn as { db_type: string; connection_string: string } | null;
+  if (c?.db_type === "upload") {
+    try {
+      await removeUploadedFiles(decryptConnectionString(c.connection_string));
+    } catch (err) {
+      console.error("[connections] Failed to remove uploaded files for connection:", id, err);
+    }
+  }
+
   return NextResponse.json({ ok: true });
 }
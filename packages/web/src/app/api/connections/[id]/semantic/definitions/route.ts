@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { parseDefinitions } from "@heydata/semantic";
+import type { Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+import { invalidateQueryCache } from "@/lib/query-cache-store";
+
+const UpdateDefinitionsSchema = z.object({
+  definitions_yaml: z.string(),
+});
+
+/**
+ * GET /api/connections/:id/semantic/definitions — The governed metric definitions YAML
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+
+  const { data: layer, error } = await supabase
+    .from("semantic_layers")
+    .select("definitions_yaml, updated_at")
+    .eq("connection_id", connectionId)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!layer) {
+    return apiError(404, "Semantic layer not found");
+  }
+
+  return NextResponse.json(layer);
+}
+
+/**
+ * PUT /api/connections/:id/semantic/definitions — Replace the definitions
+ * after checking they parse and reference each other correctly
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const parsed = UpdateDefinitionsSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", { details: parsed.error.flatten().fieldErrors });
+  }
+
+  const { errors } = parseDefinitions(parsed.data.definitions_yaml, false);
+  if (errors.length > 0) {
+    return apiError(400, errors.map((e) => e.message).join("; "), {
+      code: "INVALID_DEFINITIONS",
+      details: errors.map((e) => e.details),
+    });
+  }
+
+  const { data: layer, error } = await supabase
+    .from("semantic_layers")
+    .update({
+      definitions_yaml: parsed.data.definitions_yaml,
+      updated_at: new Date().toISOString(),
+    } as never)
+    .eq("connection_id", connectionId)
+    .select("definitions_yaml, updated_at")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: `Failed to update: ${error.message}` }, { status: 500 });
+  }
+  if (!layer) {
+    return apiError(404, "Semantic layer not found");
+  }
+
+  // Cached answers were compiled from the previous definitions
+  await invalidateQueryCache(
+    supabase as unknown as SupabaseClient<Database>,
+    connectionId,
+  );
+
+  return NextResponse.json(layer);
+}
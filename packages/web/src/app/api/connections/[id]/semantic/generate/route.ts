@@ -4,6 +4,9 @@ import { createClient } from "@/lib/supabase/server";
 import { getPoolManager } from "@heydata/bridge";
 import { generateSemanticFromSchema } from "@heydata/core";
 import { decryptConnectionString, CryptoDecryptionError } from "@/lib/crypto";
+import { invalidateQueryCache } from "@/lib/query-cache-store";
+import type { Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
 
 /** Connection row fields needed for semantic generation */
 type ConnectionForSemantic = {
@@ -122,7 +125,9 @@ export async function POST(
         });
         console.log(`[semantic/generate] Starting semantic generation`);
 
-        const output = await generateSemanticFromSchema(introspectedSchema);
+        const output = await generateSemanticFromSchema(introspectedSchema, {
+          dialect: adapter.dialect,
+        });
         console.log(`[semantic/generate] Generation complete`);
 
         // ── Step 5: Save to database ──────────────────────────────────────
@@ -136,6 +141,8 @@ export async function POST(
           raw_schema: introspectedSchema as unknown as Record<string, unknown>,
           generated_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
+          // Recorded on the version the database trigger snapshots
+          next_version_source: "generated",
         };
 
         const { data: existing } = await supabase
@@ -180,6 +187,12 @@ export async function POST(
           `[semantic/generate] Saved semantic layer for connection ${connectionId}`,
         );
 
+        // Cached answers were built on the previous semantic layer
+        await invalidateQueryCache(
+          supabase as unknown as SupabaseClient<Database>,
+          connectionId,
+        );
+
         send("complete", { ...layer! });
       } catch (error) {
         const message =
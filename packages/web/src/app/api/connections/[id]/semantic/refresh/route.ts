@@ -0,0 +1,225 @@
+export const maxDuration = 300;
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getPoolManager } from "@heydata/bridge";
+import { refreshSemanticFromSchema } from "@heydata/core";
+import { IntrospectedSchemaSchema } from "@heydata/shared";
+import type { Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+import { decryptConnectionString, CryptoDecryptionError } from "@/lib/crypto";
+import { invalidateQueryCache } from "@/lib/query-cache-store";
+
+/** Connection row fields needed for a refresh */
+type ConnectionForSemantic = {
+  id: string;
+  db_type: string;
+  connection_string: string;
+  ssl_enabled: boolean | null;
+};
+
+type ProgressStep = "connecting" | "introspecting" | "generating";
+
+const ApplyRefreshSchema = z.object({
+  semantic_md: z.string(),
+  raw_schema: IntrospectedSchemaSchema,
+});
+
+/**
+ * POST /api/connections/:id/semantic/refresh
+ * Re-introspects the database, diffs it against the stored raw_schema and
+ * drafts edits to the affected sections only. Nothing is saved; the client
+ * shows the patch for approval and sends it back with PUT.
+ *
+ * Event types:
+ *   progress  { step: ProgressStep, message: string }
+ *   complete  { summary, edits, rejectedEdits, changes, proposedMarkdown, raw_schema }
+ *   error     { message: string }
+ */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const { id: connectionId } = await params;
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: object) => {
+        controller.enqueue(
+          encoder.encode(
+            `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`,
+          ),
+        );
+      };
+
+      try {
+        // ── Step 1: Fetch connection and stored layer ─────────────────────
+        send("progress", {
+          step: "connecting" satisfies ProgressStep,
+          message: "Fetching connection details…",
+        });
+
+        const { data: conn, error: fetchError } = await supabase
+          .from("connections")
+          .select("id, db_type, connection_string, ssl_enabled")
+          .eq("id", connectionId)
+          .single();
+
+        if (fetchError || !conn) {
+          send("error", { message: "Connection not found." });
+          return;
+        }
+
+        const { data: layer } = await supabase
+          .from("semantic_layers")
+          .select("semantic_md, raw_schema")
+          .eq("connection_id", connectionId)
+          .maybeSingle();
+
+        const stored = IntrospectedSchemaSchema.safeParse(
+          (layer as { raw_schema: unknown } | null)?.raw_schema,
+        );
+        if (!layer || !stored.success) {
+          send("error", {
+            message: "No stored schema to compare with. Regenerate the semantic layer instead.",
+          });
+          return;
+        }
+
+        const c = conn as ConnectionForSemantic;
+
+        let plainConnectionString: string;
+        try {
+          plainConnectionString = decryptConnectionString(c.connection_string);
+        } catch (err) {
+          if (err instanceof CryptoDecryptionError) {
+            console.error(
+              "[semantic/refresh] Decryption failed for connection:",
+              connectionId,
+              (err as Error).message,
+            );
+            send("error", {
+              message: "Failed to decrypt connection credentials.",
+            });
+            return;
+          }
+          throw err;
+        }
+
+        // ── Step 2: Introspect schema ─────────────────────────────────────
+        send("progress", {
+          step: "introspecting" satisfies ProgressStep,
+          message: "Reading database schema…",
+        });
+
+        const poolManager = getPoolManager();
+        const { pool, adapter } = await poolManager.getPool(
+          c.id,
+          c.db_type,
+          {
+            connectionString: plainConnectionString,
+            sslEnabled: c.ssl_enabled ?? true,
+          },
+        );
+        const introspectedSchema = await adapter.introspect(pool);
+
+        // ── Step 3: Draft edits for the changes ───────────────────────────
+        send("progress", {
+          step: "generating" satisfies ProgressStep,
+          message: "Updating the affected sections…",
+        });
+
+        const output = await refreshSemanticFromSchema(
+          (layer as { semantic_md: string }).semantic_md,
+          stored.data,
+          introspectedSchema,
+          { dialect: adapter.dialect },
+        );
+        console.log(
+          `[semantic/refresh] ${output.changes.length} schema changes, ${output.edits.length} edits for connection ${connectionId}`,
+        );
+
+        send("complete", { ...output, raw_schema: introspectedSchema });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        console.error("[semantic/refresh] Unexpected error:", error);
+        send("error", { message: `Semantic refresh failed: ${message}` });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * PUT /api/connections/:id/semantic/refresh — Save an approved refresh: the
+ * patched Markdown and the schema it was drafted against
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const parsed = ApplyRefreshSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", { details: parsed.error.flatten().fieldErrors });
+  }
+
+  const { data: layer, error } = await supabase
+    .from("semantic_layers")
+    .update({
+      semantic_md: parsed.data.semantic_md,
+      raw_schema: parsed.data.raw_schema as unknown as Record<string, unknown>,
+      updated_at: new Date().toISOString(),
+      next_version_source: "generated",
+    } as never)
+    .eq("connection_id", connectionId)
+    .select("id, connection_id, semantic_md, generated_at, updated_at")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: `Failed to update: ${error.message}` }, { status: 500 });
+  }
+  if (!layer) {
+    return apiError(404, "Semantic layer not found");
+  }
+
+  // Cached answers were built on the previous semantic layer
+  await invalidateQueryCache(
+    supabase as unknown as SupabaseClient<Database>,
+    connectionId,
+  );
+
+  return NextResponse.json(layer);
+}
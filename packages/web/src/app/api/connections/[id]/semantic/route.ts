@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { invalidateQueryCache } from "@/lib/query-cache-store";
+import type { Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { z } from "zod";
 
 const UpdateSemanticSchema = z.object({
@@ -75,5 +78,11 @@ export async function PUT(
     );
   }
 
+  // Cached answers were built on the previous semantic layer
+  await invalidateQueryCache(
+    supabase as unknown as SupabaseClient<Database>,
+    connectionId,
+  );
+
   return NextResponse.json(layer);
 }
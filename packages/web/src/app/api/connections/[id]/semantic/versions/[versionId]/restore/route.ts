@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import type { Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+import { invalidateQueryCache } from "@/lib/query-cache-store";
+
+type VersionContent = { semantic_md: string; definitions_yaml: string };
+
+/**
+ * POST /api/connections/:id/semantic/versions/:versionId/restore — Roll the
+ * semantic layer back to a version. The rollback is itself saved as a new
+ * version, so history is never rewritten.
+ */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string; versionId: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId, versionId } = await params;
+
+  const { data: version, error: versionError } = await supabase
+    .from("semantic_layer_versions")
+    .select("semantic_md, definitions_yaml")
+    .eq("id", versionId)
+    .eq("connection_id", connectionId)
+    .maybeSingle();
+
+  if (versionError) {
+    return NextResponse.json({ error: versionError.message }, { status: 500 });
+  }
+  if (!version) {
+    return apiError(404, "Version not found");
+  }
+
+  const content = version as VersionContent;
+  const { data: layer, error } = await supabase
+    .from("semantic_layers")
+    .update({
+      semantic_md: content.semantic_md,
+      definitions_yaml: content.definitions_yaml,
+      updated_at: new Date().toISOString(),
+      next_version_source: "rollback",
+      next_version_restored_from: versionId,
+    } as never)
+    .eq("connection_id", connectionId)
+    .select("semantic_md, definitions_yaml, current_version_id, updated_at")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: `Failed to restore: ${error.message}` }, { status: 500 });
+  }
+  if (!layer) {
+    return apiError(404, "Semantic layer not found");
+  }
+
+  // Cached answers were built on the content being replaced
+  await invalidateQueryCache(
+    supabase as unknown as SupabaseClient<Database>,
+    connectionId,
+  );
+
+  return NextResponse.json(layer);
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+
+/**
+ * GET /api/connections/:id/semantic/versions/:versionId — One version with its
+ * Markdown and metric definitions
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string; versionId: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId, versionId } = await params;
+
+  const { data, error } = await supabase
+    .from("semantic_layer_versions")
+    .select("id, source, author_email, restored_from, semantic_md, definitions_yaml, created_at")
+    .eq("id", versionId)
+    .eq("connection_id", connectionId)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data) {
+    return apiError(404, "Version not found");
+  }
+
+  return NextResponse.json(data);
+}
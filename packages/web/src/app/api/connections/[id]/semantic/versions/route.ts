@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+
+/**
+ * GET /api/connections/:id/semantic/versions — Saved versions of the semantic
+ * layer, newest first, with the id of the current one
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+
+  const { data: layer, error: layerError } = await supabase
+    .from("semantic_layers")
+    .select("current_version_id")
+    .eq("connection_id", connectionId)
+    .maybeSingle();
+
+  if (layerError) {
+    return NextResponse.json({ error: layerError.message }, { status: 500 });
+  }
+  if (!layer) {
+    return apiError(404, "Semantic layer not found");
+  }
+
+  const { data: versions, error } = await supabase
+    .from("semantic_layer_versions")
+    .select("id, source, author_email, restored_from, created_at")
+    .eq("connection_id", connectionId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    current_version_id: (layer as { current_version_id: string | null }).current_version_id,
+    versions: versions ?? [],
+  });
+}
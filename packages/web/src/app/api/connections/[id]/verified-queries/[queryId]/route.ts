@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+
+const PatchVerifiedQuerySchema = z.object({
+  question: z.string().trim().min(1).max(1000),
+  sql: z.string().trim().min(1),
+}).partial();
+
+/**
+ * PATCH /api/connections/:id/verified-queries/:queryId — Edit a verified query's question or SQL
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string; queryId: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId, queryId } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const parsed = PatchVerifiedQuerySchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", {
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  // Hand-edited SQL no longer matches the intent it was verified with
+  const update = parsed.data.sql !== undefined ? { ...parsed.data, intent: null } : parsed.data;
+
+  const { data, error } = await supabase
+    .from("verified_queries")
+    .update(update as never)
+    .eq("id", queryId)
+    .eq("connection_id", connectionId)
+    .select("id, connection_id, question, sql, intent, created_at, updated_at")
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data) {
+    return apiError(404, "Verified query not found");
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * DELETE /api/connections/:id/verified-queries/:queryId — Remove a verified query
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string; queryId: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId, queryId } = await params;
+
+  const { error } = await supabase
+    .from("verified_queries")
+    .delete()
+    .eq("id", queryId)
+    .eq("connection_id", connectionId);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { IntentObjectSchema } from "@heydata/shared";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+
+const VERIFIED_QUERY_COLUMNS = "id, connection_id, question, sql, intent, created_at, updated_at";
+
+const CreateVerifiedQuerySchema = z.object({
+  question: z.string().trim().min(1).max(1000),
+  sql: z.string().trim().min(1),
+  intent: IntentObjectSchema.optional(),
+});
+
+/**
+ * GET /api/connections/:id/verified-queries — A connection's verified queries, newest first
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+
+  const { data, error } = await supabase
+    .from("verified_queries")
+    .select(VERIFIED_QUERY_COLUMNS)
+    .eq("connection_id", connectionId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * POST /api/connections/:id/verified-queries — Verify a question and SQL pair,
+ * from a chat answer (with its intent) or entered by hand
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: connectionId } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const parsed = CreateVerifiedQuerySchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", {
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { question, sql, intent } = parsed.data;
+
+  const { data, error } = await supabase
+    .from("verified_queries")
+    .insert({
+      user_id: user.id,
+      connection_id: connectionId,
+      question,
+      sql,
+      intent: intent ?? null,
+    } as never)
+    .select(VERIFIED_QUERY_COLUMNS)
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
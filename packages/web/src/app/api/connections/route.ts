@@ -3,6 +3,7 @@ import { createClient } from "@/lib/supabase/server";
 import { ConnectionConfigSchema } from "@heydata/shared";
 import { getPoolManager } from "@heydata/bridge";
 import { encryptConnectionString } from "@/lib/crypto";
+import { fileConnectionError } from "@/lib/file-connections";
 
 /**
  * GET /api/connections — List all connections for the authenticated user
@@ -16,7 +17,7 @@ export async function GET() {
 
   const { data, error } = await supabase
     .from("connections")
-    .select("id, name, db_type, ssl_enabled, status, last_tested_at, created_at, updated_at")
+    .select("id, name, db_type, ssl_enabled, query_budget, status, last_tested_at, created_at, updated_at")
     .order("created_at", { ascending: false });
 
   if (error) {
@@ -42,7 +43,14 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
 
-  const { name, dbType, connectionString, sslEnabled } = parsed.data;
+  const { name, dbType, connectionString, sslEnabled, queryBudget } = parsed.data;
+
+  // Upload and file connections point at server-side files the user must
+  // not choose freely
+  const fileError = fileConnectionError(dbType, connectionString);
+  if (fileError) {
+    return NextResponse.json({ error: fileError }, { status: 400 });
+  }
 
   // Test the connection before saving
   const poolManager = getPoolManager();
@@ -69,13 +77,14 @@ export async function POST(req: Request) {
     db_type: dbType,
     connection_string: encryptConnectionString(connectionString),
     ssl_enabled: sslEnabled,
+    query_budget: queryBudget ?? null,
     status: "active",
     last_tested_at: new Date().toISOString(),
   };
   const { data, error } = await supabase
     .from("connections")
     .insert(insertData as never)
-    .select("id, name, db_type, ssl_enabled, status, last_tested_at, created_at, updated_at")
+    .select("id, name, db_type, ssl_enabled, query_budget, status, last_tested_at, created_at, updated_at")
     .single();
 
   if (error) {
@@ -0,0 +1,85 @@
+export const maxDuration = 60;
+
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getPoolManager } from "@heydata/bridge";
+import { encryptConnectionString } from "@/lib/crypto";
+import { removeUploadedFiles, saveUploadedFiles, UploadValidationError } from "@/lib/uploads";
+
+/**
+ * POST /api/connections/upload — Create a connection from uploaded CSV / XLSX files
+ *
+ * Expects multipart form data with a `name` field and one or more `files`.
+ * The files are stored on the server and loaded into an in-memory DuckDB
+ * database to test them before the connection is saved.
+ */
+export async function POST(req: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Expected multipart form data" }, { status: 400 });
+  }
+
+  const name = String(form.get("name") ?? "").trim();
+  if (!name) {
+    return NextResponse.json({ error: "Connection name is required" }, { status: 400 });
+  }
+  const files = form.getAll("files").filter((f): f is File => f instanceof File);
+
+  let dir: string;
+  try {
+    dir = await saveUploadedFiles(user.id, files);
+  } catch (error) {
+    if (error instanceof UploadValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  // Load the files once before saving, so unreadable files are reported now
+  const poolManager = getPoolManager();
+  const tempId = `temp_${crypto.randomUUID()}`;
+  try {
+    const { pool, adapter } = await poolManager.getPool(tempId, "upload", {
+      connectionString: dir,
+    });
+    await adapter.testConnection(pool);
+    await poolManager.disposePool(tempId);
+  } catch (error) {
+    await poolManager.disposePool(tempId).catch(() => {});
+    await removeUploadedFiles(dir).catch(() => {});
+    return NextResponse.json(
+      { error: `Could not read the uploaded files: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 400 },
+    );
+  }
+
+  const insertData = {
+    user_id: user.id,
+    name,
+    db_type: "upload",
+    connection_string: encryptConnectionString(dir),
+    ssl_enabled: false,
+    status: "active",
+    last_tested_at: new Date().toISOString(),
+  };
+  const { data, error } = await supabase
+    .from("connections")
+    .insert(insertData as never)
+    .select("id, name, db_type, ssl_enabled, query_budget, status, last_tested_at, created_at, updated_at")
+    .single();
+
+  if (error) {
+    await removeUploadedFiles(dir).catch(() => {});
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
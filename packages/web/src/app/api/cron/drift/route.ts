@@ -0,0 +1,34 @@
+export const maxDuration = 300;
+
+import { NextResponse } from "next/server";
+import { handleApiError } from "@/lib/api-error";
+import { runDriftChecks } from "@/lib/schema-drift";
+
+async function checkAll(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await runDriftChecks());
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * GET /api/cron/drift — Re-introspect every connection with a semantic layer
+ * and update its drift report. Called by a cron trigger (daily is plenty)
+ * with "Authorization: Bearer $CRON_SECRET".
+ */
+export async function GET(req: Request) {
+  return checkAll(req);
+}
+
+/**
+ * POST /api/cron/drift — Same as GET, for triggers that POST
+ */
+export async function POST(req: Request) {
+  return checkAll(req);
+}
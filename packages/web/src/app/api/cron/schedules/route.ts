@@ -0,0 +1,38 @@
+export const maxDuration = 300;
+
+import { NextResponse } from "next/server";
+import { handleApiError } from "@/lib/api-error";
+import { runScheduledQueries } from "@/lib/scheduled-queries";
+
+async function runDue(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const runs = await runScheduledQueries();
+    return NextResponse.json({
+      ran: runs.length,
+      failed: runs.filter((r) => r.status === "failed").length,
+      triggered: runs.filter((r) => r.triggered).length,
+    });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
+
+/**
+ * GET /api/cron/schedules — Run due scheduled queries. Called every minute by
+ * a cron trigger with "Authorization: Bearer $CRON_SECRET".
+ */
+export async function GET(req: Request) {
+  return runDue(req);
+}
+
+/**
+ * POST /api/cron/schedules — Same as GET, for triggers that POST
+ */
+export async function POST(req: Request) {
+  return runDue(req);
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * DELETE /api/dashboards/:id/questions/:questionId — Unpin a saved question
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string; questionId: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: dashboardId, questionId } = await params;
+
+  const { error } = await supabase
+    .from("saved_questions")
+    .delete()
+    .eq("id", questionId)
+    .eq("dashboard_id", dashboardId);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,49 @@
+export const maxDuration = 60;
+
+import { NextResponse } from "next/server";
+import type { Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import { executeSavedSql } from "@/lib/process-query-for-connection";
+import { apiError, handleApiError } from "@/lib/api-error";
+
+/**
+ * POST /api/dashboards/:id/questions/:questionId/run
+ * Re-run a saved question's SQL for fresh results. No LLM is involved.
+ */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string; questionId: string }> },
+) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: dashboardId, questionId } = await params;
+
+    const { data: saved, error } = await supabase
+      .from("saved_questions")
+      .select("connection_id, sql")
+      .eq("id", questionId)
+      .eq("dashboard_id", dashboardId)
+      .single();
+
+    if (error || !saved) {
+      return apiError(404, "Saved question not found");
+    }
+
+    const { connection_id, sql } = saved as { connection_id: string; sql: string };
+    const resultSet = await executeSavedSql(
+      supabase as unknown as SupabaseClient<Database>,
+      connection_id,
+      sql,
+    );
+
+    return NextResponse.json(resultSet);
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { VisualizationSpecSchema } from "@heydata/shared";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+
+const PinQuestionSchema = z.object({
+  connectionId: z.string().uuid(),
+  title: z.string().trim().min(1).max(200).optional(),
+  question: z.string().min(1),
+  sql: z.string().min(1),
+  visualization: VisualizationSpecSchema,
+});
+
+/**
+ * POST /api/dashboards/:id/questions — Pin a query result to a dashboard.
+ * The new question is placed after the existing ones.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: dashboardId } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const parsed = PinQuestionSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", {
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { data: last } = await supabase
+    .from("saved_questions")
+    .select("position")
+    .eq("dashboard_id", dashboardId)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { connectionId, title, question, sql, visualization } = parsed.data;
+
+  const { data, error } = await supabase
+    .from("saved_questions")
+    .insert({
+      dashboard_id: dashboardId,
+      connection_id: connectionId,
+      title: title ?? visualization.title ?? question.slice(0, 200),
+      question,
+      sql,
+      visualization,
+      position: last ? (last as { position: number }).position + 1 : 0,
+    } as never)
+    .select("id, connection_id, title, question, sql, visualization, position, width, height, created_at, updated_at")
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
@@ -0,0 +1,138 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+
+const PatchDashboardSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  /** Grid placement of the dashboard's questions, after a move or resize */
+  layout: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        position: z.number().int().min(0),
+        width: z.number().int().min(1).max(12),
+        height: z.number().int().min(1).max(6),
+      }),
+    )
+    .optional(),
+});
+
+const QUESTION_COLUMNS =
+  "id, connection_id, title, question, sql, visualization, position, width, height, created_at, updated_at";
+
+/**
+ * GET /api/dashboards/:id — Get a dashboard with its saved questions, in grid order
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const { data: dashboard, error: dashboardError } = await supabase
+    .from("dashboards")
+    .select("id, name, created_at, updated_at")
+    .eq("id", id)
+    .single();
+
+  if (dashboardError || !dashboard) {
+    return NextResponse.json({ error: "Dashboard not found" }, { status: 404 });
+  }
+
+  const { data: questions, error: questionsError } = await supabase
+    .from("saved_questions")
+    .select(QUESTION_COLUMNS)
+    .eq("dashboard_id", id)
+    .order("position", { ascending: true });
+
+  if (questionsError) {
+    return NextResponse.json({ error: questionsError.message }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    ...(dashboard as Record<string, unknown>),
+    questions: questions ?? [],
+  });
+}
+
+/**
+ * PATCH /api/dashboards/:id — Rename a dashboard or save its grid layout
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const parsed = PatchDashboardSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", {
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { name, layout } = parsed.data;
+
+  for (const item of layout ?? []) {
+    const { error } = await supabase
+      .from("saved_questions")
+      .update({ position: item.position, width: item.width, height: item.height } as never)
+      .eq("id", item.id)
+      .eq("dashboard_id", id);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+  }
+
+  // Touch updated_at even for layout-only changes, so the list shows recent activity
+  const { data, error } = await supabase
+    .from("dashboards")
+    .update({ ...(name ? { name } : {}), updated_at: new Date().toISOString() } as never)
+    .eq("id", id)
+    .select("id, name, created_at, updated_at")
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * DELETE /api/dashboards/:id — Delete a dashboard and its saved questions
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const { error } = await supabase.from("dashboards").delete().eq("id", id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -10,6 +10,7 @@ const QuerySchema = z.object({
   question: z.string().min(1, "Question is required"),
   connectionId: z.string().uuid("connectionId must be a valid UUID"),
   sessionId: z.string().uuid().optional(),
+  costConfirmed: z.boolean().optional(),
 });
 
 export async function POST(req: Request) {
@@ -23,12 +24,12 @@ export async function POST(req: Request) {
       });
     }
 
-    const { question, connectionId, sessionId } = parsed.data;
+    const { question, connectionId, sessionId, costConfirmed } = parsed.data;
 
     const supabase = await createClient();
     const response = await processQueryForConnection(
       supabase as unknown as import("@supabase/supabase-js").SupabaseClient<import("@heydata/supabase").Database>,
-      { connectionId, question, sessionId },
+      { connectionId, question, sessionId, costConfirmed },
     );
 
     return NextResponse.json(response);
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { ScheduledQueryConfigSchema } from "@heydata/shared";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+import { SCHEDULE_COLUMNS, checkScheduleConfig } from "@/lib/scheduled-queries";
+
+// Without defaults, so omitted fields stay unchanged
+const PatchScheduleSchema = ScheduledQueryConfigSchema.extend({
+  alertRule: ScheduledQueryConfigSchema.shape.alertRule.removeDefault(),
+  targets: ScheduledQueryConfigSchema.shape.targets.removeDefault(),
+  enabled: ScheduledQueryConfigSchema.shape.enabled.removeDefault(),
+}).partial();
+
+/**
+ * PATCH /api/schedules/:id — Change a schedule's cron, alert rule, targets or enabled state
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await req.json().catch(() => ({}));
+
+  const parsed = PatchScheduleSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", {
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { cron, alertRule, targets, enabled } = parsed.data;
+
+  const { data: existing } = await supabase
+    .from("scheduled_queries")
+    .select("cron")
+    .eq("id", id)
+    .maybeSingle();
+  if (!existing) {
+    return apiError(404, "Schedule not found");
+  }
+
+  // A new cron, or re-enabling, starts counting from now rather than running missed slots
+  const check = checkScheduleConfig({
+    cron: cron ?? (enabled ? (existing as { cron: string }).cron : undefined),
+    targets,
+  });
+  if ("error" in check) {
+    return apiError(400, check.error);
+  }
+
+  const { data, error } = await supabase
+    .from("scheduled_queries")
+    .update({
+      ...(cron !== undefined ? { cron } : {}),
+      ...(alertRule !== undefined ? { alert_rule: alertRule } : {}),
+      ...(targets !== undefined ? { targets } : {}),
+      ...(enabled !== undefined ? { enabled } : {}),
+      ...(check.nextRunAt ? { next_run_at: check.nextRunAt.toISOString() } : {}),
+    } as never)
+    .eq("id", id)
+    .select(SCHEDULE_COLUMNS)
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * DELETE /api/schedules/:id — Delete a schedule and its run history
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const { error } = await supabase.from("scheduled_queries").delete().eq("id", id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/** Runs returned, newest first */
+const RUN_HISTORY_LIMIT = 20;
+
+/**
+ * GET /api/schedules/:id/runs — Recent runs of a schedule
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const { data, error } = await supabase
+    .from("scheduled_query_runs")
+    .select("id, started_at, finished_at, status, row_count, value, triggered, notified, error, notification_error")
+    .eq("schedule_id", id)
+    .order("started_at", { ascending: false })
+    .limit(RUN_HISTORY_LIMIT);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
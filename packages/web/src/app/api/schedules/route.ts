@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ScheduledQueryConfigSchema } from "@heydata/shared";
+import { createClient } from "@/lib/supabase/server";
+import { apiError } from "@/lib/api-error";
+import { SCHEDULE_COLUMNS, checkScheduleConfig } from "@/lib/scheduled-queries";
+
+const CreateScheduleSchema = ScheduledQueryConfigSchema.extend({
+  savedQuestionId: z.string().uuid(),
+});
+
+/**
+ * GET /api/schedules — List the user's scheduled queries, optionally for one saved question
+ */
+export async function GET(req: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const savedQuestionId = new URL(req.url).searchParams.get("savedQuestionId");
+
+  let query = supabase
+    .from("scheduled_queries")
+    .select(SCHEDULE_COLUMNS)
+    .order("created_at", { ascending: true });
+  if (savedQuestionId) query = query.eq("saved_question_id", savedQuestionId);
+
+  const { data, error } = await query;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
+
+/**
+ * POST /api/schedules — Schedule a saved question, optionally with an alert rule
+ */
+export async function POST(req: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = CreateScheduleSchema.safeParse(body);
+  if (!parsed.success) {
+    return apiError(400, "Invalid request body", {
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { savedQuestionId, cron, alertRule, targets, enabled } = parsed.data;
+  const check = checkScheduleConfig({ cron, targets });
+  if ("error" in check) {
+    return apiError(400, check.error);
+  }
+
+  // RLS on saved_questions limits this to questions on the user's dashboards
+  const { data: question } = await supabase
+    .from("saved_questions")
+    .select("id")
+    .eq("id", savedQuestionId)
+    .maybeSingle();
+  if (!question) {
+    return apiError(404, "Saved question not found");
+  }
+
+  const { data, error } = await supabase
+    .from("scheduled_queries")
+    .insert({
+      user_id: user.id,
+      saved_question_id: savedQuestionId,
+      cron,
+      alert_rule: alertRule,
+      targets,
+      enabled,
+      next_run_at: check.nextRunAt!.toISOString(),
+    } as never)
+    .select(SCHEDULE_COLUMNS)
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
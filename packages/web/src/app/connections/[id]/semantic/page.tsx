@@ -18,14 +18,23 @@ import {
   CheckIcon,
   LoaderIcon,
   CircleDotIcon,
+  GitCompareIcon,
   PlusIcon,
   TrashIcon,
+  TriangleAlertIcon,
 } from "lucide-react";
+import { FeedbackReview } from "@/components/feedback/FeedbackReview";
+import { MetricDefinitionsEditor } from "@/components/metric-definitions/MetricDefinitionsEditor";
+import { SchemaDriftPanel } from "@/components/schema-drift/SchemaDriftPanel";
+import { SemanticRefreshReview, type SemanticRefreshProposal } from "@/components/semantic-history/SemanticRefreshReview";
+import { SemanticVersionHistory } from "@/components/semantic-history/SemanticVersionHistory";
+import { VerifiedQueryLibrary } from "@/components/verified-queries/VerifiedQueryLibrary";
+import { useSchemaDrift } from "@/hooks/use-schema-drift";
 import { cn } from "@/lib/utils";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
-type Tab = "semantic" | "commands";
+type Tab = "semantic" | "metrics" | "commands" | "verified" | "feedback" | "history" | "drift";
 
 type RegenerationStep =
   | "connecting"
@@ -42,6 +51,22 @@ const REGENERATION_STEPS: { id: RegenerationStep; label: string }[] = [
   { id: "commands", label: "Generating commands" },
 ];
 
+const REFRESH_STEPS: { id: RegenerationStep; label: string }[] = [
+  { id: "connecting", label: "Connecting to database" },
+  { id: "introspecting", label: "Reading schema" },
+  { id: "generating", label: "Updating affected sections" },
+];
+
+const TAB_LABELS: Record<Tab, string> = {
+  semantic: "Semantic Layer",
+  metrics: "Metric Definitions",
+  commands: "Commands",
+  verified: "Verified Queries",
+  feedback: "Feedback",
+  history: "History",
+  drift: "Schema Drift",
+};
+
 type CommandRow = {
   _key: string;
   slashCommand: string;
@@ -110,6 +135,39 @@ function parseSseChunk(chunk: string): Array<{ event: string; data: unknown }> {
   return results;
 }
 
+/** Read a Server-Sent Events response, passing each event on as it arrives */
+async function readEventStream(
+  res: Response,
+  onEvent: (event: string, data: Record<string, unknown>) => Promise<void> | void,
+): Promise<void> {
+  if (!res.ok) {
+    const json = await res.json().catch(() => ({}));
+    throw new Error((json as { error?: string }).error ?? res.statusText);
+  }
+
+  if (!res.body) throw new Error("No response body from server.");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const boundary = buffer.lastIndexOf("\n\n");
+    if (boundary === -1) continue;
+
+    const toProcess = buffer.slice(0, boundary + 2);
+    buffer = buffer.slice(boundary + 2);
+
+    for (const { event, data } of parseSseChunk(toProcess)) {
+      await onEvent(event, data as Record<string, unknown>);
+    }
+  }
+}
+
 // ── Page ──────────────────────────────────────────────────────────────────────
 
 export default function SemanticEditorPage() {
@@ -125,8 +183,12 @@ export default function SemanticEditorPage() {
   const [progressStep, setProgressStep] = useState<RegenerationStep | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [confirmOpen, setConfirmOpen] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshProposal, setRefreshProposal] = useState<SemanticRefreshProposal | null>(null);
+  const [applyingRefresh, setApplyingRefresh] = useState(false);
 
   const isSemanticDirty = markdown !== savedMarkdown;
+  const drift = useSchemaDrift(connectionId);
 
   // Commands state
   const [commands, setCommands] = useState<CommandRow[]>([]);
@@ -274,70 +336,47 @@ export default function SemanticEditorPage() {
         { method: "POST" },
       );
 
-      if (!res.ok) {
-        const json = await res.json().catch(() => ({}));
-        throw new Error((json as { error?: string }).error ?? res.statusText);
-      }
-
-      if (!res.body) throw new Error("No response body from server.");
-
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const boundary = buffer.lastIndexOf("\n\n");
-        if (boundary === -1) continue;
-
-        const toProcess = buffer.slice(0, boundary + 2);
-        buffer = buffer.slice(boundary + 2);
-
-        for (const { event, data } of parseSseChunk(toProcess)) {
-          const d = data as Record<string, unknown>;
-          if (event === "progress") {
-            setProgressStep(d.step as RegenerationStep);
-          } else if (event === "complete") {
-            const md = (d.semantic_md as string) ?? "";
-            setMarkdown(md);
-            setSavedMarkdown(md);
-
-            setProgressStep("commands");
-            try {
-              const cmdRes = await fetch(
-                `/api/connections/${connectionId}/commands/generate`,
-                { method: "POST" },
-              );
-              if (cmdRes.ok) {
-                const cmdData = await cmdRes.json();
-                if (Array.isArray(cmdData.commands)) {
-                  const newCmds = (
-                    cmdData.commands as Array<{
-                      slashCommand: string;
-                      description: string;
-                      prompt: string;
-                    }>
-                  ).map((c, i) => ({
-                    _key: `gen_${i}`,
-                    slashCommand: c.slashCommand,
-                    description: c.description,
-                    prompt: c.prompt,
-                  }));
-                  setCommands(newCmds);
-                  setSavedCommands(newCmds);
-                }
+      await readEventStream(res, async (event, d) => {
+        if (event === "progress") {
+          setProgressStep(d.step as RegenerationStep);
+        } else if (event === "complete") {
+          const md = (d.semantic_md as string) ?? "";
+          setMarkdown(md);
+          setSavedMarkdown(md);
+
+          setProgressStep("commands");
+          try {
+            const cmdRes = await fetch(
+              `/api/connections/${connectionId}/commands/generate`,
+              { method: "POST" },
+            );
+            if (cmdRes.ok) {
+              const cmdData = await cmdRes.json();
+              if (Array.isArray(cmdData.commands)) {
+                const newCmds = (
+                  cmdData.commands as Array<{
+                    slashCommand: string;
+                    description: string;
+                    prompt: string;
+                  }>
+                ).map((c, i) => ({
+                  _key: `gen_${i}`,
+                  slashCommand: c.slashCommand,
+                  description: c.description,
+                  prompt: c.prompt,
+                }));
+                setCommands(newCmds);
+                setSavedCommands(newCmds);
               }
-            } catch {
-              // non-fatal: commands failure should not block semantic regeneration
             }
-          } else if (event === "error") {
-            throw new Error((d.message as string) ?? "Regeneration failed.");
+          } catch {
+            // non-fatal: commands failure should not block semantic regeneration
           }
+          void drift.checkNow();
+        } else if (event === "error") {
+          throw new Error((d.message as string) ?? "Regeneration failed.");
         }
-      }
+      });
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
     } finally {
@@ -346,10 +385,70 @@ export default function SemanticEditorPage() {
     }
   };
 
+  // Refresh: patch only the sections affected by schema changes, for review
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    setProgressStep("connecting");
+    setError(null);
+
+    try {
+      const res = await fetch(
+        `/api/connections/${connectionId}/semantic/refresh`,
+        { method: "POST" },
+      );
+
+      await readEventStream(res, (event, d) => {
+        if (event === "progress") {
+          setProgressStep(d.step as RegenerationStep);
+        } else if (event === "complete") {
+          setRefreshProposal(d as unknown as SemanticRefreshProposal);
+        } else if (event === "error") {
+          throw new Error((d.message as string) ?? "Refresh failed.");
+        }
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRefreshing(false);
+      setProgressStep(null);
+    }
+  };
+
+  const handleApplyRefresh = async () => {
+    if (!refreshProposal) return;
+    setApplyingRefresh(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/connections/${connectionId}/semantic/refresh`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          semantic_md: refreshProposal.proposedMarkdown,
+          raw_schema: refreshProposal.raw_schema,
+        }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        throw new Error((json as { error?: string }).error ?? res.statusText);
+      }
+      setMarkdown(refreshProposal.proposedMarkdown);
+      setSavedMarkdown(refreshProposal.proposedMarkdown);
+      setRefreshProposal(null);
+      // The saved schema is the new baseline; re-check against it
+      void drift.checkNow();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setApplyingRefresh(false);
+    }
+  };
+
+  const activeSteps = refreshing ? REFRESH_STEPS : REGENERATION_STEPS;
+
   const stepState = (stepId: RegenerationStep): "done" | "active" | "pending" => {
     if (!progressStep) return "pending";
-    const currentIdx = REGENERATION_STEPS.findIndex((s) => s.id === progressStep);
-    const thisIdx = REGENERATION_STEPS.findIndex((s) => s.id === stepId);
+    const currentIdx = activeSteps.findIndex((s) => s.id === progressStep);
+    const thisIdx = activeSteps.findIndex((s) => s.id === stepId);
     if (thisIdx < currentIdx) return "done";
     if (thisIdx === currentIdx) return "active";
     return "pending";
@@ -372,7 +471,7 @@ export default function SemanticEditorPage() {
     setCommands((prev) => prev.filter((c) => c._key !== key));
   };
 
-  const isBusy = regenerating || saving || commandsSaving;
+  const isBusy = regenerating || refreshing || applyingRefresh || saving || commandsSaving;
 
   return (
     <div className="flex h-dvh flex-col bg-background">
@@ -394,6 +493,16 @@ export default function SemanticEditorPage() {
         <div className="flex items-center gap-2">
           {activeTab === "semantic" && (
             <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRefresh}
+                disabled={isBusy || isSemanticDirty || refreshProposal !== null}
+                title="Update only the sections affected by schema changes, keeping manual edits"
+              >
+                <GitCompareIcon className="mr-1.5 h-3.5 w-3.5" />
+                {refreshing ? "Refreshing…" : "Refresh from schema"}
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -420,7 +529,7 @@ export default function SemanticEditorPage() {
 
       {/* Tab strip */}
       <div className="flex shrink-0 gap-1 border-b border-border px-4">
-        {(["semantic", "commands"] as Tab[]).map((tab) => (
+        {(Object.keys(TAB_LABELS) as Tab[]).map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -431,11 +540,25 @@ export default function SemanticEditorPage() {
                 : "border-transparent text-muted-foreground hover:text-foreground",
             )}
           >
-            {tab === "semantic" ? "Semantic Layer" : "Commands"}
+            {TAB_LABELS[tab]}
           </button>
         ))}
       </div>
 
+      {/* Drift banner */}
+      {drift.status === "drifted" && activeTab !== "drift" && (
+        <div className="flex shrink-0 items-center gap-2 border-b border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-200">
+          <TriangleAlertIcon className="h-4 w-4 shrink-0" />
+          <span>
+            The database schema changed and {drift.report?.brokenReferences.length ?? 0} reference
+            {drift.report?.brokenReferences.length === 1 ? "" : "s"} no longer match it.
+          </span>
+          <button className="font-medium underline" onClick={() => setActiveTab("drift")}>
+            Review
+          </button>
+        </div>
+      )}
+
       {/* Error banner */}
       {(error || commandsError) && (
         <div className="shrink-0 border-b border-destructive/30 bg-destructive/10 px-4 py-2 text-sm text-destructive">
@@ -450,17 +573,27 @@ export default function SemanticEditorPage() {
             <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
               Loading…
             </div>
-          ) : regenerating ? (
+          ) : regenerating || refreshing ? (
             <div className="flex flex-1 items-center justify-center">
               <div className="flex w-64 flex-col gap-4 rounded-xl border border-border bg-card p-6 shadow-sm">
-                <p className="text-sm font-medium text-foreground">Regenerating semantic layer</p>
+                <p className="text-sm font-medium text-foreground">
+                  {refreshing ? "Refreshing semantic layer" : "Regenerating semantic layer"}
+                </p>
                 <div className="flex flex-col gap-3">
-                  {REGENERATION_STEPS.map((s) => (
+                  {activeSteps.map((s) => (
                     <ProgressStep key={s.id} label={s.label} state={stepState(s.id)} />
                   ))}
                 </div>
               </div>
             </div>
+          ) : refreshProposal ? (
+            <SemanticRefreshReview
+              proposal={refreshProposal}
+              currentMarkdown={savedMarkdown}
+              applying={applyingRefresh}
+              onApply={handleApplyRefresh}
+              onDiscard={() => setRefreshProposal(null)}
+            />
           ) : (
             <div className="flex flex-1 overflow-hidden">
               <div className="flex flex-1 flex-col border-r border-border">
@@ -559,6 +692,48 @@ export default function SemanticEditorPage() {
         </div>
       )}
 
+      {/* Metric definitions tab */}
+      {activeTab === "metrics" && <MetricDefinitionsEditor connectionId={connectionId} />}
+
+      {/* Verified queries tab */}
+      {activeTab === "verified" && <VerifiedQueryLibrary connectionId={connectionId} />}
+
+      {/* Feedback tab */}
+      {activeTab === "feedback" && (
+        <FeedbackReview
+          connectionId={connectionId}
+          onSemanticApplied={(md) => {
+            setMarkdown(md);
+            setSavedMarkdown(md);
+          }}
+        />
+      )}
+
+      {/* Version history tab */}
+      {activeTab === "history" && (
+        <SemanticVersionHistory
+          connectionId={connectionId}
+          onRestored={(md) => {
+            setMarkdown(md);
+            setSavedMarkdown(md);
+          }}
+        />
+      )}
+
+      {/* Schema drift tab */}
+      {activeTab === "drift" && (
+        <SchemaDriftPanel
+          status={drift.status}
+          report={drift.report}
+          isLoading={drift.isLoading}
+          onCheck={drift.checkNow}
+          onRefreshSemantic={() => {
+            setActiveTab("semantic");
+            void handleRefresh();
+          }}
+        />
+      )}
+
       {/* Regenerate confirmation dialog */}
       <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
         <DialogContent>
@@ -567,7 +742,8 @@ export default function SemanticEditorPage() {
           </DialogHeader>
           <p className="text-sm text-muted-foreground">
             This will re-introspect your database schema and overwrite the current semantic layer
-            and commands with newly AI-generated content. Any manual edits will be lost.
+            and commands with newly AI-generated content. Any manual edits will be lost; use
+            Refresh from schema to keep them.
           </p>
           <div className="flex justify-end gap-2 pt-2">
             <Button variant="outline" onClick={() => setConfirmOpen(false)}>
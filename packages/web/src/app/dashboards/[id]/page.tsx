@@ -0,0 +1,87 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useState } from "react";
+import { ArrowLeftIcon, RefreshCwIcon } from "lucide-react";
+import { DashboardGrid } from "@/components/dashboards/DashboardGrid";
+import { Header } from "@/components/layout/Header";
+import { Button } from "@/components/ui/button";
+import { useConnections } from "@/hooks/use-connections";
+import { useDashboard } from "@/hooks/use-dashboards";
+
+export default function DashboardPage() {
+  const { id } = useParams<{ id: string }>();
+  const { connections, deleteConnection } = useConnections();
+  const { dashboard, isLoading, error, saveLayout, renameDashboard, unpinQuestion } = useDashboard(id);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [editingName, setEditingName] = useState<string | null>(null);
+
+  const commitName = async () => {
+    const name = editingName?.trim();
+    setEditingName(null);
+    if (name && name !== dashboard?.name) await renameDashboard(name);
+  };
+
+  return (
+    <div className="flex h-dvh flex-col bg-background">
+      <Header connections={connections} onDeleteConnection={deleteConnection} />
+      <main className="flex-1 overflow-y-auto">
+        <div className="space-y-6 px-6 py-6">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex min-w-0 items-center gap-2">
+              <Link href="/dashboards">
+                <Button variant="ghost" size="icon" className="text-muted-foreground" aria-label="All dashboards">
+                  <ArrowLeftIcon className="h-4 w-4" />
+                </Button>
+              </Link>
+              {dashboard &&
+                (editingName !== null ? (
+                  <input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={commitName}
+                    onKeyDown={(e) => e.key === "Enter" && commitName()}
+                    className="rounded border bg-background px-2 py-1 text-xl font-semibold tracking-tight"
+                  />
+                ) : (
+                  <h1
+                    className="cursor-text truncate text-xl font-semibold tracking-tight"
+                    onClick={() => setEditingName(dashboard.name)}
+                    title="Click to rename"
+                  >
+                    {dashboard.name}
+                  </h1>
+                ))}
+            </div>
+            {dashboard && dashboard.questions.length > 0 && (
+              <Button variant="outline" onClick={() => setRefreshKey((k) => k + 1)}>
+                <RefreshCwIcon className="mr-2 h-4 w-4" />
+                Refresh all
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Loading...</p>
+          ) : error || !dashboard ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">{error ?? "Dashboard not found"}</p>
+          ) : dashboard.questions.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Nothing pinned yet. Use &ldquo;Pin to dashboard&rdquo; under a chat answer to add a chart.
+            </p>
+          ) : (
+            <DashboardGrid
+              dashboardId={dashboard.id}
+              questions={dashboard.questions}
+              refreshKey={refreshKey}
+              onLayoutChange={saveLayout}
+              onUnpin={unpinQuestion}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { LayoutDashboardIcon, PlusIcon, Trash2Icon } from "lucide-react";
+import { Header } from "@/components/layout/Header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useConnections } from "@/hooks/use-connections";
+import { useDashboards } from "@/hooks/use-dashboards";
+
+export default function DashboardsPage() {
+  const { connections, deleteConnection } = useConnections();
+  const { dashboards, isLoading, createDashboard, deleteDashboard } = useDashboards();
+  const [name, setName] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    setCreating(true);
+    const dashboard = await createDashboard(name.trim());
+    setCreating(false);
+    if (dashboard) setName("");
+  };
+
+  return (
+    <div className="flex h-dvh flex-col bg-background">
+      <Header connections={connections} onDeleteConnection={deleteConnection} />
+      <main className="flex-1 overflow-y-auto">
+        <div className="mx-auto max-w-3xl space-y-6 px-6 py-8">
+          <div>
+            <h1 className="text-xl font-semibold tracking-tight">Dashboards</h1>
+            <p className="text-sm text-muted-foreground">
+              Charts pinned from chat answers. Opening a dashboard re-runs each chart&apos;s query for fresh data.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="New dashboard name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+            />
+            <Button onClick={handleCreate} disabled={creating || !name.trim()}>
+              <PlusIcon className="mr-2 h-4 w-4" />
+              Create
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">Loading...</p>
+          ) : dashboards.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No dashboards yet. Pin a chart from a chat answer to get started.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {dashboards.map((d) => (
+                <li key={d.id} className="group flex items-center gap-1 rounded-lg border hover:bg-accent/50">
+                  <Link
+                    href={`/dashboards/${d.id}`}
+                    className="flex flex-1 items-center gap-2 truncate px-4 py-3 text-sm font-medium"
+                  >
+                    <LayoutDashboardIcon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <span className="truncate">{d.name}</span>
+                  </Link>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="mr-2 h-8 w-8 text-muted-foreground opacity-0 group-hover:opacity-100"
+                    onClick={() => deleteDashboard(d.id)}
+                    aria-label={`Delete ${d.name}`}
+                  >
+                    <Trash2Icon className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -72,16 +72,24 @@ export default function SetupPage() {
     setError(null);
     setLoading(true);
     try {
-      const res = await fetch("/api/connections", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          name: data.name,
-          dbType: "postgresql",
-          connectionString: data.connectionString,
-          sslEnabled: data.sslEnabled,
-        }),
-      });
+      let res: Response;
+      if (data.dbType === "upload") {
+        const form = new FormData();
+        form.append("name", data.name);
+        for (const file of data.files) form.append("files", file);
+        res = await fetch("/api/connections/upload", { method: "POST", body: form });
+      } else {
+        res = await fetch("/api/connections", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: data.name,
+            dbType: data.dbType,
+            connectionString: data.connectionString,
+            sslEnabled: data.sslEnabled,
+          }),
+        });
+      }
       if (!res.ok) {
         const json = await res.json();
         throw new Error(json.error ?? res.statusText);
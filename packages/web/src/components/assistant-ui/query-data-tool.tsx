@@ -1,9 +1,23 @@
 "use client";
 
 import type { ToolCallMessagePartComponent } from "@assistant-ui/react";
-import { OrchestratorResponseSchema, type OrchestratorResponse } from "@heydata/shared";
+import {
+  OrchestratorResponseSchema,
+  type OrchestratorResponse,
+  type PipelineStep,
+} from "@heydata/shared";
 import { QueryResult } from "@/components/results/QueryResult";
-import { CheckIcon, LoaderIcon, CircleDotIcon } from "lucide-react";
+import { PinToDashboardButton } from "@/components/dashboards/PinToDashboardButton";
+import { FlagIncorrectButton } from "@/components/feedback/FlagIncorrectButton";
+import { MarkVerifiedButton } from "@/components/verified-queries/MarkVerifiedButton";
+import { useChatContext } from "@/contexts/chat-context";
+import { CheckIcon, LoaderIcon, CircleDotIcon, XIcon } from "lucide-react";
+import {
+  createPipelineProgress,
+  isPipelineProgress,
+  type PipelineProgress,
+  type PipelineStepStatus,
+} from "@/lib/pipeline-progress";
 import { cn } from "@/lib/utils";
 
 function ProgressStep({
@@ -11,7 +25,7 @@ function ProgressStep({
   state,
 }: {
   label: string;
-  state: "done" | "active" | "pending";
+  state: PipelineStepStatus;
 }) {
   return (
     <div className="flex items-center gap-2.5">
@@ -25,6 +39,11 @@ function ProgressStep({
           <LoaderIcon className="size-2.5 animate-spin" />
         </div>
       )}
+      {state === "failed" && (
+        <div className="flex size-4 items-center justify-center rounded-full bg-red-100 text-red-600 dark:bg-red-950 dark:text-red-400">
+          <XIcon className="size-2.5" />
+        </div>
+      )}
       {state === "pending" && (
         <div className="flex size-4 items-center justify-center rounded-full bg-muted text-muted-foreground/40">
           <CircleDotIcon className="size-2.5" />
@@ -35,6 +54,7 @@ function ProgressStep({
           "text-xs",
           state === "done" && "text-emerald-700 dark:text-emerald-400",
           state === "active" && "text-foreground",
+          state === "failed" && "text-red-700 dark:text-red-400",
           state === "pending" && "text-muted-foreground/60",
         )}
       >
@@ -44,29 +64,50 @@ function ProgressStep({
   );
 }
 
-const PIPELINE_STEPS = [
-  "Identifying intent",
-  "Generating SQL",
-  "Executing query",
-  "Analyzing results",
-  "Building visualization",
+const PIPELINE_STEPS: Array<{ step: PipelineStep; label: string }> = [
+  { step: "intent", label: "Identifying intent" },
+  { step: "sql", label: "Generating SQL" },
+  { step: "execution", label: "Executing query" },
+  { step: "data_validation", label: "Checking data quality" },
+  { step: "analysis", label: "Analyzing results" },
+  { step: "visualization", label: "Building visualization" },
+  { step: "narrative", label: "Writing summary" },
 ];
 
-function QueryProgress() {
-  // Show a realistic animated progression through the pipeline steps.
-  // The first step is always "done" (intent was already identified to reach the tool),
-  // the second step is active, and the rest are pending.
+function stepLabel(step: PipelineStep, label: string, progress: PipelineProgress): string {
+  if (step === "sql" && progress.sqlAttempt && progress.sqlAttempt > 1) {
+    return `${label} (attempt ${progress.sqlAttempt})`;
+  }
+  if (step === "execution" && progress.rowCount !== undefined) {
+    return `${label} — ${progress.rowCount.toLocaleString()} row${progress.rowCount === 1 ? "" : "s"}${progress.truncated ? " (truncated)" : ""}`;
+  }
+  return label;
+}
+
+/**
+ * Live pipeline progress, driven by the orchestrator's progress events.
+ */
+function QueryProgress({ progress }: { progress: PipelineProgress }) {
   return (
     <div className="my-3 rounded-lg border bg-card px-4 py-3">
       <div className="flex flex-col gap-1.5">
-        {PIPELINE_STEPS.map((step, i) => (
+        {PIPELINE_STEPS.map(({ step, label }) => (
           <ProgressStep
             key={step}
-            label={step}
-            state={i === 0 ? "done" : i === 1 ? "active" : "pending"}
+            label={stepLabel(step, label, progress)}
+            // A failed SQL attempt is retried, so show it as still in progress
+            state={step === "sql" && progress.steps.sql === "failed" ? "active" : progress.steps[step]}
           />
         ))}
       </div>
+      {progress.sql && progress.steps.execution === "pending" && (
+        <pre className="mt-3 max-h-32 overflow-auto rounded bg-muted px-3 py-2 text-xs text-muted-foreground">
+          {progress.sql}
+        </pre>
+      )}
+      {progress.narrative && (
+        <p className="mt-3 whitespace-pre-wrap text-sm text-foreground">{progress.narrative}</p>
+      )}
     </div>
   );
 }
@@ -75,10 +116,17 @@ function QueryProgress() {
  * Renders the result of the query_data tool as narrative + chart (QueryResult).
  * Used in the chat thread when the model calls the query_data tool.
  */
-export const QueryDataTool: ToolCallMessagePartComponent = ({ result, status }) => {
-  // Handle running state with step-by-step progress
+export const QueryDataTool: ToolCallMessagePartComponent = ({ args, result, status }) => {
+  const { connectionId, sessionId } = useChatContext();
+
+  // Preliminary outputs carry live pipeline progress
+  if (isPipelineProgress(result)) {
+    return <QueryProgress progress={result} />;
+  }
+
+  // Running but no progress received yet
   if (status?.type === "running") {
-    return <QueryProgress />;
+    return <QueryProgress progress={createPipelineProgress()} />;
   }
 
   // Handle no result
@@ -112,9 +160,28 @@ export const QueryDataTool: ToolCallMessagePartComponent = ({ result, status })
     );
   }
 
+  const response = parsed.data as OrchestratorResponse;
+  const question = (args as { question?: string } | undefined)?.question;
+
   return (
     <div className="my-3 w-full">
-      <QueryResult response={parsed.data as OrchestratorResponse} />
+      <QueryResult
+        response={response}
+        actions={
+          connectionId && question ? (
+            <>
+              <PinToDashboardButton response={response} connectionId={connectionId} question={question} />
+              <MarkVerifiedButton response={response} connectionId={connectionId} question={question} />
+              <FlagIncorrectButton
+                response={response}
+                connectionId={connectionId}
+                question={question}
+                sessionId={sessionId}
+              />
+            </>
+          ) : undefined
+        }
+      />
     </div>
   );
 };
@@ -0,0 +1,282 @@
+"use client";
+
+import { RendererRouter } from "@heydata/renderer";
+import type { ResultSet } from "@heydata/shared";
+import {
+  ArrowLeftIcon,
+  ArrowRightIcon,
+  BellIcon,
+  LoaderIcon,
+  MoreHorizontalIcon,
+  RefreshCwIcon,
+  Trash2Icon,
+} from "lucide-react";
+import { useCallback, useEffect, useState, type PointerEvent as ReactPointerEvent } from "react";
+import { ErrorBoundary } from "@/components/error-boundary";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { SavedQuestion } from "@/hooks/use-dashboards";
+import { ScheduleDialog } from "./ScheduleDialog";
+
+/** Columns in the dashboard grid */
+const GRID_COLUMNS = 12;
+/** Height of one grid row, in pixels */
+const ROW_HEIGHT = 160;
+/** Gap between tiles, in pixels */
+const GAP = 16;
+/** Height taken by a tile's header and padding */
+const TILE_CHROME_HEIGHT = 64;
+
+const MIN_WIDTH = 2;
+const MAX_HEIGHT = 6;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+type TileState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "ready"; resultSet: ResultSet };
+
+export interface DashboardGridProps {
+  dashboardId: string;
+  questions: SavedQuestion[];
+  /** Changing this re-runs every tile's query */
+  refreshKey: number;
+  /** Receives the questions in their new order and sizes */
+  onLayoutChange: (questions: SavedQuestion[]) => void;
+  onUnpin: (questionId: string) => void;
+}
+
+/**
+ * Saved questions laid out in a 12-column grid. Each tile re-runs its SQL
+ * when shown and can be resized from its bottom-right corner.
+ */
+export function DashboardGrid({
+  dashboardId,
+  questions,
+  refreshKey,
+  onLayoutChange,
+  onUnpin,
+}: DashboardGridProps) {
+  const move = (index: number, offset: number) => {
+    const next = [...questions];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved!);
+    onLayoutChange(next);
+  };
+
+  const resize = (questionId: string, size: { width: number; height: number }) => {
+    onLayoutChange(questions.map((q) => (q.id === questionId ? { ...q, ...size } : q)));
+  };
+
+  return (
+    <div
+      data-dashboard-grid
+      className="grid"
+      style={{
+        gridTemplateColumns: `repeat(${GRID_COLUMNS}, minmax(0, 1fr))`,
+        gridAutoRows: `${ROW_HEIGHT}px`,
+        gap: `${GAP}px`,
+      }}
+    >
+      {questions.map((question, index) => (
+        <DashboardTile
+          key={question.id}
+          dashboardId={dashboardId}
+          question={question}
+          refreshKey={refreshKey}
+          onResize={(size) => resize(question.id, size)}
+          onMoveBack={index > 0 ? () => move(index, -1) : undefined}
+          onMoveForward={index < questions.length - 1 ? () => move(index, 1) : undefined}
+          onUnpin={() => onUnpin(question.id)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function DashboardTile({
+  dashboardId,
+  question,
+  refreshKey,
+  onResize,
+  onMoveBack,
+  onMoveForward,
+  onUnpin,
+}: {
+  dashboardId: string;
+  question: SavedQuestion;
+  refreshKey: number;
+  onResize: (size: { width: number; height: number }) => void;
+  onMoveBack?: () => void;
+  onMoveForward?: () => void;
+  onUnpin: () => void;
+}) {
+  const [state, setState] = useState<TileState>({ status: "loading" });
+  const [size, setSize] = useState({ width: question.width, height: question.height });
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+
+  useEffect(() => {
+    setSize({ width: question.width, height: question.height });
+  }, [question.width, question.height]);
+
+  const run = useCallback(async () => {
+    setState({ status: "loading" });
+    try {
+      const res = await fetch(`/api/dashboards/${dashboardId}/questions/${question.id}/run`, {
+        method: "POST",
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        const message = (body as { error?: { message?: string } | string }).error;
+        throw new Error(typeof message === "string" ? message : message?.message ?? res.statusText);
+      }
+      setState({ status: "ready", resultSet: body as ResultSet });
+    } catch (err) {
+      setState({ status: "error", message: err instanceof Error ? err.message : String(err) });
+    }
+  }, [dashboardId, question.id]);
+
+  useEffect(() => {
+    void run();
+  }, [run, refreshKey]);
+
+  // Resize by dragging the corner handle; the grid snaps to whole columns and rows
+  const startResize = (event: ReactPointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const grid = event.currentTarget.closest("[data-dashboard-grid]") as HTMLElement | null;
+    if (!grid) return;
+    const columnWidth = grid.clientWidth / GRID_COLUMNS;
+    const start = { x: event.clientX, y: event.clientY, ...size };
+    let next = size;
+
+    const handleMove = (e: PointerEvent) => {
+      next = {
+        width: clamp(Math.round(start.width + (e.clientX - start.x) / columnWidth), MIN_WIDTH, GRID_COLUMNS),
+        height: clamp(Math.round(start.height + (e.clientY - start.y) / (ROW_HEIGHT + GAP)), 1, MAX_HEIGHT),
+      };
+      setSize(next);
+    };
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove);
+      if (next.width !== start.width || next.height !== start.height) {
+        onResize(next);
+      }
+    };
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp, { once: true });
+  };
+
+  const chartHeight = size.height * ROW_HEIGHT + (size.height - 1) * GAP - TILE_CHROME_HEIGHT;
+
+  return (
+    <div
+      className="group relative flex flex-col overflow-hidden rounded-lg border bg-card p-3"
+      style={{
+        gridColumn: `span ${size.width} / span ${size.width}`,
+        gridRow: `span ${size.height} / span ${size.height}`,
+      }}
+    >
+      <div className="mb-2 flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-medium" title={question.question}>
+            {question.title}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-muted-foreground"
+            onClick={() => void run()}
+            disabled={state.status === "loading"}
+            aria-label="Refresh"
+          >
+            <RefreshCwIcon className="h-3.5 w-3.5" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground" aria-label="Chart options">
+                <MoreHorizontalIcon className="h-3.5 w-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {onMoveBack && (
+                <DropdownMenuItem onClick={onMoveBack}>
+                  <ArrowLeftIcon className="mr-2 h-4 w-4" />
+                  Move earlier
+                </DropdownMenuItem>
+              )}
+              {onMoveForward && (
+                <DropdownMenuItem onClick={onMoveForward}>
+                  <ArrowRightIcon className="mr-2 h-4 w-4" />
+                  Move later
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => setScheduleOpen(true)}>
+                <BellIcon className="mr-2 h-4 w-4" />
+                Schedule &amp; alert
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-destructive" onClick={onUnpin}>
+                <Trash2Icon className="mr-2 h-4 w-4" />
+                Unpin
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <div className="min-h-0 flex-1">
+        {state.status === "loading" && (
+          <div className="flex h-full items-center justify-center text-muted-foreground">
+            <LoaderIcon className="h-4 w-4 animate-spin" />
+          </div>
+        )}
+        {state.status === "error" && (
+          <div className="rounded border border-red-200 bg-red-50 p-3 text-xs text-red-700">
+            <p className="font-medium">Query failed</p>
+            <p className="mt-1">{state.message}</p>
+          </div>
+        )}
+        {state.status === "ready" &&
+          (state.resultSet.rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rows returned.</p>
+          ) : (
+            <ErrorBoundary
+              fallback={
+                <div className="rounded border border-red-200 bg-red-50 p-3 text-xs text-red-700">
+                  Chart could not be rendered.
+                </div>
+              }
+            >
+              <RendererRouter
+                spec={question.visualization}
+                data={state.resultSet.rows}
+                columns={state.resultSet.columns}
+                height={chartHeight}
+              />
+            </ErrorBoundary>
+          ))}
+      </div>
+
+      <div
+        onPointerDown={startResize}
+        className="absolute bottom-0 right-0 h-4 w-4 cursor-se-resize opacity-0 transition-opacity group-hover:opacity-100"
+        style={{
+          background: "linear-gradient(135deg, transparent 50%, var(--color-border) 50%)",
+        }}
+        aria-label="Resize"
+        role="separator"
+      />
+
+      {scheduleOpen && <ScheduleDialog question={question} onClose={() => setScheduleOpen(false)} />}
+    </div>
+  );
+}
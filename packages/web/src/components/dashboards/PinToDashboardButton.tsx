@@ -0,0 +1,161 @@
+"use client";
+
+import type { OrchestratorResponse } from "@heydata/shared";
+import { CheckIcon, PinIcon, PlusIcon } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useDashboards } from "@/hooks/use-dashboards";
+
+export interface PinToDashboardButtonProps {
+  response: OrchestratorResponse;
+  connectionId: string;
+  question: string;
+}
+
+/**
+ * Pins a query result to a dashboard: an existing one, or one created here
+ */
+export function PinToDashboardButton({ response, connectionId, question }: PinToDashboardButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  // Only answers with SQL and a chart can be re-run on a dashboard
+  if (!response.sql || !response.visualization) return null;
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:underline"
+      >
+        <PinIcon className="h-3 w-3" />
+        Pin to dashboard
+      </button>
+      {open && (
+        <PinDialog
+          onClose={() => setOpen(false)}
+          pin={{
+            connectionId,
+            question,
+            sql: response.sql.sql,
+            visualization: response.visualization,
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+function PinDialog({
+  pin,
+  onClose,
+}: {
+  pin: Parameters<ReturnType<typeof useDashboards>["pinQuestion"]>[1];
+  onClose: () => void;
+}) {
+  const { dashboards, isLoading, createDashboard, pinQuestion } = useDashboards();
+  const [title, setTitle] = useState(pin.visualization.title ?? pin.question);
+  const [newName, setNewName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [pinnedTo, setPinnedTo] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const pinTo = async (dashboard: { id: string; name: string }) => {
+    setSaving(true);
+    setError(null);
+    const saved = await pinQuestion(dashboard.id, { ...pin, title: title.trim() || undefined });
+    setSaving(false);
+    if (saved) {
+      setPinnedTo(dashboard);
+    } else {
+      setError("Could not pin this chart. Please try again.");
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    setSaving(true);
+    const dashboard = await createDashboard(newName.trim());
+    setSaving(false);
+    if (dashboard) {
+      setNewName("");
+      await pinTo(dashboard);
+    } else {
+      setError("Could not create the dashboard. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(next) => !next && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pin to dashboard</DialogTitle>
+        </DialogHeader>
+        {pinnedTo ? (
+          <div className="space-y-4">
+            <p className="flex items-center gap-2 text-sm">
+              <CheckIcon className="h-4 w-4 text-emerald-600" />
+              Pinned to {pinnedTo.name}.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Link href={`/dashboards/${pinnedTo.id}`}>
+                <Button>Open dashboard</Button>
+              </Link>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <label className="text-sm font-medium" htmlFor="pin-title">
+                Chart title
+              </label>
+              <Input id="pin-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">Loading dashboards...</p>
+              ) : dashboards.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No dashboards yet. Create one below.</p>
+              ) : (
+                dashboards.map((d) => (
+                  <button
+                    key={d.id}
+                    onClick={() => pinTo(d)}
+                    disabled={saving}
+                    className="flex w-full items-center justify-between rounded-lg border px-3 py-2 text-left text-sm hover:bg-accent disabled:opacity-50"
+                  >
+                    {d.name}
+                    <PinIcon className="h-4 w-4 text-muted-foreground" />
+                  </button>
+                ))
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="New dashboard name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+              />
+              <Button variant="outline" onClick={handleCreate} disabled={saving || !newName.trim()}>
+                <PlusIcon className="mr-2 h-4 w-4" />
+                Create
+              </Button>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import type { AlertRule, NotificationTarget } from "@heydata/shared";
+import { BellIcon, CheckCircle2Icon, XCircleIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { SavedQuestion } from "@/hooks/use-dashboards";
+import { useSchedules, type ScheduleRun } from "@/hooks/use-schedules";
+
+const CRON_PRESETS = [
+  { value: "0 * * * *", label: "Every hour" },
+  { value: "0 8 * * *", label: "Every day at 08:00 UTC" },
+  { value: "0 8 * * 1-5", label: "Weekdays at 08:00 UTC" },
+  { value: "0 8 * * 1", label: "Mondays at 08:00 UTC" },
+  { value: "0 8 1 * *", label: "First of the month at 08:00 UTC" },
+];
+
+const AGGREGATES: { value: AlertRule["aggregate"]; label: string }[] = [
+  { value: "first", label: "First row" },
+  { value: "last", label: "Last row" },
+  { value: "sum", label: "Sum" },
+  { value: "avg", label: "Average" },
+  { value: "min", label: "Minimum" },
+  { value: "max", label: "Maximum" },
+];
+
+const OPERATORS: { value: AlertRule["operator"]; label: string }[] = [
+  { value: "lt", label: "<" },
+  { value: "lte", label: "<=" },
+  { value: "gt", label: ">" },
+  { value: "gte", label: ">=" },
+  { value: "eq", label: "=" },
+  { value: "neq", label: "!=" },
+];
+
+function splitList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Schedule a saved question and alert on its result. One schedule per
+ * question is edited here; the API allows more.
+ */
+export function ScheduleDialog({
+  question,
+  onClose,
+}: {
+  question: SavedQuestion;
+  onClose: () => void;
+}) {
+  const { schedules, runs, isLoading, saveSchedule, deleteSchedule } = useSchedules(question.id);
+  const schedule = schedules.at(-1);
+
+  const [cron, setCron] = useState(CRON_PRESETS[1]!.value);
+  const [enabled, setEnabled] = useState(true);
+  const [alertEnabled, setAlertEnabled] = useState(false);
+  const [rule, setRule] = useState<AlertRule>({
+    // A sensible default metric: the KPI value or the first series
+    column: question.visualization.kpiValue ?? question.visualization.series[0]?.dataKey ?? "",
+    aggregate: "first",
+    operator: "lt",
+    threshold: 0,
+  });
+  const [webhooks, setWebhooks] = useState("");
+  const [emails, setEmails] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the saved schedule into the form
+  useEffect(() => {
+    if (!schedule) return;
+    setCron(schedule.cron);
+    setEnabled(schedule.enabled);
+    setAlertEnabled(schedule.alert_rule !== null);
+    if (schedule.alert_rule) setRule(schedule.alert_rule);
+    setWebhooks(
+      schedule.targets.flatMap((t) => (t.type === "webhook" ? [t.url] : [])).join("\n"),
+    );
+    setEmails(schedule.targets.flatMap((t) => (t.type === "email" ? t.to : [])).join(", "));
+  }, [schedule]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const recipients = splitList(emails);
+    const targets: NotificationTarget[] = [
+      ...splitList(webhooks).map((url) => ({ type: "webhook" as const, url })),
+      ...(recipients.length > 0 ? [{ type: "email" as const, to: recipients }] : []),
+    ];
+    const failure = await saveSchedule(
+      { cron: cron.trim(), enabled, alertRule: alertEnabled ? rule : null, targets },
+      schedule?.id,
+    );
+    setSaving(false);
+    if (failure) setError(failure);
+  };
+
+  const handleDelete = async () => {
+    if (!schedule) return;
+    setSaving(true);
+    await deleteSchedule(schedule.id);
+    setSaving(false);
+    onClose();
+  };
+
+  const preset = CRON_PRESETS.find((p) => p.value === cron)?.value ?? "custom";
+
+  return (
+    <Dialog open onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedule &amp; alert</DialogTitle>
+          <DialogDescription>
+            Re-run &ldquo;{question.title}&rdquo; on a schedule and send the result, or only
+            alert when a value crosses a threshold.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="schedule-preset">Runs</Label>
+              <Select
+                value={preset}
+                onValueChange={(v: string) => v !== "custom" && setCron(v)}
+              >
+                <SelectTrigger id="schedule-preset" className="mt-1 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CRON_PRESETS.map((p) => (
+                    <SelectItem key={p.value} value={p.value}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                aria-label="Cron expression"
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                className="mt-2 font-mono text-sm"
+              />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Cron: minute hour day-of-month month day-of-week, in UTC
+                {schedule && ` · next run ${new Date(schedule.next_run_at).toLocaleString()}`}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch id="alert-enabled" checked={alertEnabled} onCheckedChange={setAlertEnabled} />
+                <Label htmlFor="alert-enabled">Only notify when a threshold is crossed</Label>
+              </div>
+              {alertEnabled && (
+                <div className="grid grid-cols-[1fr_1fr_auto_1fr] gap-2">
+                  <Select
+                    value={rule.aggregate}
+                    onValueChange={(v: string) => setRule({ ...rule, aggregate: v as AlertRule["aggregate"] })}
+                  >
+                    <SelectTrigger aria-label="Aggregate" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AGGREGATES.map((a) => (
+                        <SelectItem key={a.value} value={a.value}>
+                          {a.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    aria-label="Column"
+                    placeholder="column"
+                    value={rule.column}
+                    onChange={(e) => setRule({ ...rule, column: e.target.value })}
+                    className="font-mono text-sm"
+                  />
+                  <Select
+                    value={rule.operator}
+                    onValueChange={(v: string) => setRule({ ...rule, operator: v as AlertRule["operator"] })}
+                  >
+                    <SelectTrigger aria-label="Operator">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OPERATORS.map((o) => (
+                        <SelectItem key={o.value} value={o.value}>
+                          {o.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    aria-label="Threshold"
+                    type="number"
+                    value={rule.threshold}
+                    onChange={(e) => setRule({ ...rule, threshold: Number(e.target.value) })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="schedule-webhooks">Webhook URLs</Label>
+              <textarea
+                id="schedule-webhooks"
+                value={webhooks}
+                onChange={(e) => setWebhooks(e.target.value)}
+                placeholder="https://hooks.example.com/..."
+                rows={2}
+                className="mt-1 w-full rounded-md border bg-transparent px-3 py-2 font-mono text-sm"
+              />
+            </div>
+            <div>
+              <Label htmlFor="schedule-emails">Email recipients</Label>
+              <Input
+                id="schedule-emails"
+                value={emails}
+                onChange={(e) => setEmails(e.target.value)}
+                placeholder="team@example.com, me@example.com"
+                className="mt-1"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="schedule-enabled" checked={enabled} onCheckedChange={setEnabled} />
+              <Label htmlFor="schedule-enabled">Enabled</Label>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex justify-between gap-2">
+              {schedule ? (
+                <Button variant="outline" className="text-destructive" onClick={handleDelete} disabled={saving}>
+                  Delete schedule
+                </Button>
+              ) : (
+                <span />
+              )}
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={onClose}>
+                  Close
+                </Button>
+                <Button onClick={handleSave} disabled={saving || !cron.trim()}>
+                  {schedule ? "Save" : "Create schedule"}
+                </Button>
+              </div>
+            </div>
+
+            {runs.length > 0 && <RunHistory runs={runs} />}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RunHistory({ runs }: { runs: ScheduleRun[] }) {
+  return (
+    <div className="space-y-1 border-t pt-3">
+      <p className="text-sm font-medium">Recent runs</p>
+      <ul className="space-y-1 text-xs">
+        {runs.map((run) => (
+          <li key={run.id} className="flex items-start gap-2">
+            {run.status === "success" ? (
+              <CheckCircle2Icon className="mt-0.5 h-3.5 w-3.5 shrink-0 text-emerald-600" />
+            ) : (
+              <XCircleIcon className="mt-0.5 h-3.5 w-3.5 shrink-0 text-destructive" />
+            )}
+            <div className="min-w-0">
+              <p>
+                {new Date(run.started_at).toLocaleString()}
+                {run.status === "success" && ` · ${run.row_count ?? 0} rows`}
+                {run.value !== null && ` · value ${run.value}`}
+                {run.triggered && (
+                  <span className="ml-1 inline-flex items-center gap-0.5 text-amber-600">
+                    <BellIcon className="h-3 w-3" />
+                    alert
+                  </span>
+                )}
+                {run.notified && " · notified"}
+              </p>
+              {run.error && <p className="text-destructive">{run.error}</p>}
+              {run.notification_error && (
+                <p className="whitespace-pre-line text-muted-foreground">{run.notification_error}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import type { QueryFeedbackStatus, SemanticEdit } from "@heydata/shared";
+import { ChevronDownIcon, ChevronRightIcon, LoaderIcon, SparklesIcon } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useFeedback, type QueryFeedback, type SemanticSuggestion } from "@/hooks/use-feedback";
+
+const STATUSES: { value: QueryFeedbackStatus; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "resolved", label: "Resolved" },
+  { value: "dismissed", label: "Dismissed" },
+];
+
+export interface FeedbackReviewProps {
+  connectionId: string;
+  /** Called with the new semantic layer after a suggestion is applied */
+  onSemanticApplied: (markdown: string) => void;
+}
+
+/**
+ * Review queue of answers flagged as incorrect on one connection, with
+ * AI-drafted semantic layer edits
+ */
+export function FeedbackReview({ connectionId, onSemanticApplied }: FeedbackReviewProps) {
+  const [status, setStatusFilter] = useState<QueryFeedbackStatus>("open");
+  const { feedback, isLoading, setStatus, suggestEdits } = useFeedback(connectionId, status);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [suggesting, setSuggesting] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [suggestion, setSuggestion] = useState<SemanticSuggestion | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSuggest = async () => {
+    setSuggesting(true);
+    setError(null);
+    setSuggestion(null);
+    try {
+      setSuggestion(await suggestEdits(selected.size > 0 ? [...selected] : undefined));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!suggestion) return;
+    setApplying(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/connections/${connectionId}/semantic`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ semantic_md: suggestion.proposedMarkdown }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        throw new Error((json as { error?: string }).error ?? res.statusText);
+      }
+      await setStatus(suggestion.feedbackIds, "resolved");
+      onSemanticApplied(suggestion.proposedMarkdown);
+      setSuggestion(null);
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="mx-auto max-w-4xl space-y-4 p-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex gap-1">
+            {STATUSES.map((s) => (
+              <Button
+                key={s.value}
+                variant={status === s.value ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => {
+                  setStatusFilter(s.value);
+                  setSelected(new Set());
+                }}
+              >
+                {s.label}
+              </Button>
+            ))}
+          </div>
+          {status === "open" && (
+            <Button size="sm" onClick={handleSuggest} disabled={suggesting || feedback.length === 0}>
+              {suggesting ? (
+                <LoaderIcon className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <SparklesIcon className="mr-1.5 h-3.5 w-3.5" />
+              )}
+              {selected.size > 0 ? `Suggest edit from ${selected.size} selected` : "Suggest semantic layer edit"}
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {suggestion && (
+          <SuggestionPanel
+            suggestion={suggestion}
+            applying={applying}
+            onApply={handleApply}
+            onDiscard={() => setSuggestion(null)}
+          />
+        )}
+
+        {isLoading ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Loading…</p>
+        ) : feedback.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {status === "open"
+              ? "No flagged answers. Users can flag an answer as incorrect from the chat."
+              : `No ${status} feedback.`}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {feedback.map((item) => (
+              <FeedbackItem
+                key={item.id}
+                item={item}
+                selected={selected.has(item.id)}
+                onToggle={status === "open" ? () => toggle(item.id) : undefined}
+                onStatus={(next) => setStatus([item.id], next)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function FeedbackItem({
+  item,
+  selected,
+  onToggle,
+  onStatus,
+}: {
+  item: QueryFeedback;
+  selected: boolean;
+  onToggle?: () => void;
+  onStatus: (status: QueryFeedbackStatus) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const { response } = item;
+
+  return (
+    <li className="rounded-lg border bg-card p-3">
+      <div className="flex items-start gap-3">
+        {onToggle && (
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={onToggle}
+            className="mt-1"
+            aria-label="Select for suggestion"
+          />
+        )}
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className="text-sm font-medium">{item.question}</p>
+          <p className="text-sm text-amber-700 dark:text-amber-400">{item.correction}</p>
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:underline"
+          >
+            {expanded ? <ChevronDownIcon className="h-3 w-3" /> : <ChevronRightIcon className="h-3 w-3" />}
+            {item.created_at ? new Date(item.created_at).toLocaleString() : ""} · answer details
+          </button>
+          {expanded && (
+            <div className="space-y-2 pt-1 text-xs">
+              {response.narrative && <p className="text-muted-foreground">{response.narrative}</p>}
+              {response.sql && (
+                <pre className="overflow-x-auto rounded bg-muted p-2 font-mono">{response.sql.sql}</pre>
+              )}
+              {response.intent && (
+                <pre className="overflow-x-auto rounded bg-muted p-2 font-mono">
+                  {JSON.stringify(response.intent, null, 2)}
+                </pre>
+              )}
+              <p className="text-muted-foreground">
+                Agents: {response.trace.agentTraces.map((t) => t.agent).join(" → ")}
+              </p>
+            </div>
+          )}
+        </div>
+        <div className="flex shrink-0 gap-1">
+          {item.status === "open" ? (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => onStatus("resolved")}>
+                Resolve
+              </Button>
+              <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => onStatus("dismissed")}>
+                Dismiss
+              </Button>
+            </>
+          ) : (
+            <Button variant="ghost" size="sm" onClick={() => onStatus("open")}>
+              Reopen
+            </Button>
+          )}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+function EditDiff({ edit }: { edit: SemanticEdit }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">{edit.reason}</p>
+      <pre className="overflow-x-auto rounded border font-mono text-xs">
+        {edit.find === "" ? (
+          <div className="bg-muted px-2 py-0.5 text-muted-foreground">@@ end of document @@</div>
+        ) : (
+          edit.find.split("\n").map((line, i) => (
+            <div key={`-${i}`} className="bg-red-50 px-2 text-red-800 dark:bg-red-950/40 dark:text-red-300">
+              - {line}
+            </div>
+          ))
+        )}
+        {edit.replace.split("\n").map((line, i) => (
+          <div key={`+${i}`} className="bg-emerald-50 px-2 text-emerald-800 dark:bg-emerald-950/40 dark:text-emerald-300">
+            + {line}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+function SuggestionPanel({
+  suggestion,
+  applying,
+  onApply,
+  onDiscard,
+}: {
+  suggestion: SemanticSuggestion;
+  applying: boolean;
+  onApply: () => void;
+  onDiscard: () => void;
+}) {
+  return (
+    <div className="space-y-3 rounded-lg border border-blue-200 bg-blue-50/50 p-4 dark:border-blue-900 dark:bg-blue-950/20">
+      <div>
+        <p className="text-sm font-medium">Suggested semantic layer edit</p>
+        <p className="text-sm text-muted-foreground">{suggestion.summary}</p>
+      </div>
+      {suggestion.edits.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes to the semantic layer were suggested.</p>
+      ) : (
+        suggestion.edits.map((edit, i) => <EditDiff key={i} edit={edit} />)
+      )}
+      {suggestion.rejectedEdits.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {suggestion.rejectedEdits.length} further edit{suggestion.rejectedEdits.length === 1 ? "" : "s"} did not
+          match the document and {suggestion.rejectedEdits.length === 1 ? "was" : "were"} left out.
+        </p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onDiscard} disabled={applying}>
+          Discard
+        </Button>
+        {suggestion.edits.length > 0 && (
+          <Button size="sm" onClick={onApply} disabled={applying}>
+            {applying ? "Applying…" : "Apply to semantic layer"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import type { OrchestratorResponse } from "@heydata/shared";
+import { CheckIcon, FlagIcon } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface FlagIncorrectButtonProps {
+  response: OrchestratorResponse;
+  connectionId: string;
+  question: string;
+  sessionId?: string;
+}
+
+/**
+ * Flags an answer as incorrect. The full response is stored with the user's
+ * correction for review in the connection's feedback queue.
+ */
+export function FlagIncorrectButton({ response, connectionId, question, sessionId }: FlagIncorrectButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [correction, setCorrection] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [flagged, setFlagged] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!correction.trim()) return;
+    setSaving(true);
+    setError(null);
+    const res = await fetch(`/api/connections/${connectionId}/feedback`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ question, response, correction: correction.trim(), sessionId }),
+    });
+    setSaving(false);
+    if (res.ok) {
+      setFlagged(true);
+      setOpen(false);
+    } else {
+      setError("Could not send your feedback. Please try again.");
+    }
+  };
+
+  if (flagged) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+        <CheckIcon className="h-3 w-3" />
+        Flagged for review
+      </span>
+    );
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:underline"
+      >
+        <FlagIcon className="h-3 w-3" />
+        Flag as incorrect
+      </button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Flag as incorrect</DialogTitle>
+            <DialogDescription>
+              Describe what is wrong or what the answer should be. The question, SQL and reasoning are
+              sent along so the semantic layer can be corrected.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <textarea
+              value={correction}
+              onChange={(e) => setCorrection(e.target.value)}
+              placeholder="e.g. Revenue should exclude refunded orders"
+              rows={4}
+              autoFocus
+              className="w-full rounded-md border bg-transparent px-3 py-2 text-sm"
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={saving || !correction.trim()}>
+                {saving ? "Sending…" : "Send feedback"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -17,7 +17,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { BookTextIcon, LogOutIcon, PlusIcon, Settings2Icon, Trash2Icon } from "lucide-react";
+import {
+  BookTextIcon,
+  LayoutDashboardIcon,
+  LogOutIcon,
+  PlusIcon,
+  Settings2Icon,
+  Trash2Icon,
+} from "lucide-react";
 import { createClient } from "@/lib/supabase/client";
 import { useRouter } from "next/navigation";
 
@@ -63,12 +70,12 @@ export function Header({
 
   return (
     <header className="flex h-14 items-center justify-between border-b border-border bg-background px-4">
-      <div className="flex items-center gap-2.5">
+      <Link href="/chat" className="flex items-center gap-2.5">
         <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-gradient-to-br from-orange-400 to-amber-500">
           <span className="text-sm font-bold text-white">H</span>
         </div>
         <span className="text-lg font-semibold tracking-tight">heydata</span>
-      </div>
+      </Link>
       <div className="flex items-center gap-2">
         {connections.length > 0 && onSelectConnection && (
           <Select
@@ -90,6 +97,16 @@ export function Header({
             </SelectContent>
           </Select>
         )}
+        <Link href="/dashboards">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-muted-foreground hover:text-foreground"
+            aria-label="Dashboards"
+          >
+            <LayoutDashboardIcon className="h-4 w-4" />
+          </Button>
+        </Link>
         <Button
           variant="ghost"
           size="icon"
@@ -127,7 +144,19 @@ export function Header({
                     key={c.id}
                     className="flex items-center justify-between rounded-lg border px-3 py-2"
                   >
-                    <span className="text-sm font-medium">{c.name}</span>
+                    <span className="flex items-center gap-2 text-sm font-medium">
+                      {c.name}
+                      {c.status === "drifted" && (
+                        <Link
+                          href={`/connections/${c.id}/semantic`}
+                          onClick={() => setManageOpen(false)}
+                          className="rounded bg-amber-100 px-1.5 py-0.5 text-xs font-normal text-amber-800 dark:bg-amber-950 dark:text-amber-200"
+                          title="Some references point at tables or columns that no longer exist"
+                        >
+                          Schema drift
+                        </Link>
+                      )}
+                    </span>
                     <div className="flex items-center gap-1">
                       <Link
                         href={`/connections/${c.id}/semantic`}
@@ -0,0 +1,101 @@
+"use client";
+
+import { SaveIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useMetricDefinitions } from "@/hooks/use-metric-definitions";
+
+const EXAMPLE = `metrics:
+  - name: revenue
+    displayName: Revenue
+    description: Value of completed orders
+    formula: SUM(orders.amount)
+    timeDimension: order_date
+    dimensions: [order_date, region]
+    defaultFilters:
+      - orders.status = 'completed'
+dimensions:
+  - name: order_date
+    displayName: Order date
+    description: When the order was placed
+    table: orders
+    column: created_at
+    type: date
+  - name: region
+    displayName: Region
+    description: Customer region
+    table: customers
+    column: region
+    type: string
+entities:
+  - name: orders
+    table: orders
+    primaryKey: id
+    relationships:
+      - target: customers
+        foreignKey: customer_id
+        targetKey: id
+        type: many-to-one
+  - name: customers
+    table: customers
+    primaryKey: id
+`;
+
+/**
+ * YAML editor for a connection's governed metric definitions. Questions that
+ * only use these metrics are compiled to the same SQL every time.
+ */
+export function MetricDefinitionsEditor({ connectionId }: { connectionId: string }) {
+  const { yaml, isLoading, saveDefinitions } = useMetricDefinitions(connectionId);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(yaml);
+  }, [yaml]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const failure = await saveDefinitions(draft);
+    setSaving(false);
+    if (failure) setError(failure);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+        Loading…
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <div className="flex shrink-0 items-start gap-4 border-b border-border px-4 py-3">
+        <p className="flex-1 text-sm text-muted-foreground">
+          Governed metrics with a formula, default filters and the dimensions they can be split by.
+          Questions that only use these metrics are compiled to SQL from the definitions, so they get
+          the same query every time; anything else is written by the AI.
+        </p>
+        <Button size="sm" onClick={handleSave} disabled={draft === yaml || saving}>
+          <SaveIcon className="mr-1.5 h-3.5 w-3.5" />
+          {saving ? "Saving…" : "Save definitions"}
+        </Button>
+      </div>
+      {error && (
+        <p className="shrink-0 border-b border-border bg-destructive/5 px-4 py-2 text-sm text-destructive">
+          {error}
+        </p>
+      )}
+      <textarea
+        className="flex-1 resize-none bg-background p-4 font-mono text-sm leading-relaxed text-foreground outline-none"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        spellCheck={false}
+        placeholder={EXAMPLE}
+      />
+    </div>
+  );
+}
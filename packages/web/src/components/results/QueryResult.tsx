@@ -2,7 +2,8 @@
 
 import { RendererRouter } from "@heydata/renderer";
 import type { OrchestratorResponse } from "@heydata/shared";
-import { useState } from "react";
+import { RulerIcon, ShieldCheckIcon } from "lucide-react";
+import { useState, type ReactNode } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { ErrorBoundary } from "@/components/error-boundary";
@@ -10,18 +11,30 @@ import { ErrorBoundary } from "@/components/error-boundary";
 export interface QueryResultProps {
   response: OrchestratorResponse;
   className?: string;
+  /** Extra actions shown next to the execution details toggle */
+  actions?: ReactNode;
 }
 
 /**
  * Displays the full result from an orchestrator query including:
+ * - Verified query badge
  * - Narrative summary
  * - Visualization
  * - Data quality insights
  */
-export function QueryResult({ response, className = "" }: QueryResultProps) {
+export function QueryResult({ response, className = "", actions }: QueryResultProps) {
   const [showDetails, setShowDetails] = useState(false);
 
-  const { narrative, visualization, results, trace, clarificationQuestion } = response;
+  const {
+    narrative,
+    visualization,
+    results,
+    trace,
+    clarificationQuestion,
+    costConfirmationQuestion,
+    verifiedQuery,
+    sql,
+  } = response;
 
   return (
     <div className={`space-y-4 ${className}`}>
@@ -34,6 +47,37 @@ export function QueryResult({ response, className = "" }: QueryResultProps) {
         </div>
       )}
 
+      {/* Cost Confirmation */}
+      {costConfirmationQuestion && !narrative && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 dark:border-amber-900 dark:bg-amber-950">
+          <p className="text-sm text-amber-800 dark:text-amber-200">
+            {costConfirmationQuestion}
+          </p>
+        </div>
+      )}
+
+      {/* Verified Query */}
+      {verifiedQuery && (
+        <span
+          title={`Ran the verified query for "${verifiedQuery.question}" unchanged`}
+          className="inline-flex items-center gap-1 rounded-full bg-emerald-100 px-2.5 py-0.5 text-xs font-medium text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200"
+        >
+          <ShieldCheckIcon className="h-3 w-3" />
+          Verified query
+        </span>
+      )}
+
+      {/* Governed Metrics */}
+      {sql?.compiled && (
+        <span
+          title="SQL compiled from the connection's metric definitions"
+          className="inline-flex items-center gap-1 rounded-full bg-sky-100 px-2.5 py-0.5 text-xs font-medium text-sky-800 dark:bg-sky-900 dark:text-sky-200"
+        >
+          <RulerIcon className="h-3 w-3" />
+          Governed metrics
+        </span>
+      )}
+
       {/* Narrative Summary */}
       {narrative && (
         <div className="prose prose-sm max-w-none dark:prose-invert">
@@ -96,12 +140,15 @@ export function QueryResult({ response, className = "" }: QueryResultProps) {
 
       {/* Execution Details (collapsible) */}
       <div>
-        <button
-          onClick={() => setShowDetails(!showDetails)}
-          className="text-xs text-muted-foreground hover:underline"
-        >
-          {showDetails ? "Hide" : "Show"} execution details
-        </button>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => setShowDetails(!showDetails)}
+            className="text-xs text-muted-foreground hover:underline"
+          >
+            {showDetails ? "Hide" : "Show"} execution details
+          </button>
+          {actions}
+        </div>
 
         {showDetails && (
           <div className="mt-2 rounded bg-muted/50 p-2 text-xs">
@@ -109,6 +156,13 @@ export function QueryResult({ response, className = "" }: QueryResultProps) {
             <p>Duration: {trace.totalDurationMs}ms</p>
             <p>Tokens: {trace.totalInputTokens} in / {trace.totalOutputTokens} out</p>
             <p>Agents: {trace.agentTraces.map((t) => t.agent).join(" → ")}</p>
+            {response.semanticVersion && <p>Semantic layer version: {response.semanticVersion}</p>}
+            {trace.schemaSelections?.filter((s) => s.pruned).map((s) => (
+              <p key={s.agent} title={s.tables.map((t) => `${t.table} (${t.reason})`).join("\n")}>
+                Schema ({s.agent}): {s.tables.length} of {s.totalTables} tables —{" "}
+                {s.tables.map((t) => t.table).join(", ")}
+              </p>
+            ))}
           </div>
         )}
       </div>
@@ -0,0 +1,37 @@
+import type { SchemaChange } from "@heydata/shared";
+
+const CHANGE_LABELS: Record<SchemaChange["kind"], string> = {
+  table_added: "Table added",
+  table_removed: "Table removed",
+  column_added: "Column added",
+  column_removed: "Column removed",
+  column_type_changed: "Type changed",
+  foreign_key_changed: "Foreign key changed",
+};
+
+function changeTarget(change: SchemaChange): string {
+  const name = change.column ? `${change.table}.${change.column}` : change.table;
+  if (change.kind === "column_type_changed" || change.kind === "foreign_key_changed") {
+    return `${name}: ${change.before ?? "none"} → ${change.after ?? "none"}`;
+  }
+  return name;
+}
+
+/**
+ * Tables and columns added, removed or changed between two introspections
+ */
+export function SchemaChangeList({ changes }: { changes: SchemaChange[] }) {
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <p className="mb-2 text-xs font-medium text-muted-foreground">Schema changes ({changes.length})</p>
+      <ul className="space-y-1 text-sm">
+        {changes.map((change, i) => (
+          <li key={i}>
+            <span className="text-muted-foreground">{CHANGE_LABELS[change.kind]}:</span>{" "}
+            <code className="font-mono text-xs">{changeTarget(change)}</code>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
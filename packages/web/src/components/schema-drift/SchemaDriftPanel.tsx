@@ -0,0 +1,140 @@
+"use client";
+
+import type { BrokenReference, BrokenReferenceSource, SchemaDriftReport } from "@heydata/shared";
+import { GitCompareIcon, RefreshCwIcon } from "lucide-react";
+import { useState } from "react";
+import { SchemaChangeList } from "@/components/schema-drift/SchemaChangeList";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+const SOURCE_LABELS: Record<BrokenReferenceSource, string> = {
+  semantic_layer: "Semantic layer",
+  command: "Commands",
+  verified_query: "Verified queries",
+};
+
+export interface SchemaDriftPanelProps {
+  status: string | null;
+  report: SchemaDriftReport | null;
+  isLoading: boolean;
+  /** Re-introspect now; resolves to an error message on failure */
+  onCheck: () => Promise<string | null>;
+  /** Start a semantic layer refresh for the schema changes */
+  onRefreshSemantic: () => void;
+}
+
+/**
+ * The latest schema drift report of a connection: what changed in the
+ * database, and which parts of the semantic layer, commands and verified
+ * queries refer to tables or columns that are gone
+ */
+export function SchemaDriftPanel({
+  status,
+  report,
+  isLoading,
+  onCheck,
+  onRefreshSemantic,
+}: SchemaDriftPanelProps) {
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setError(null);
+    const failure = await onCheck();
+    setChecking(false);
+    if (failure) setError(failure);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+        Loading…
+      </div>
+    );
+  }
+
+  const broken = report?.brokenReferences ?? [];
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="mx-auto max-w-4xl space-y-4 p-6">
+        <div className="flex items-start justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            The database is re-introspected daily and compared with the schema the semantic layer was
+            generated from. Anything that still refers to a removed table or column is listed here
+            before it breaks an answer.
+            {report && ` Last checked ${new Date(report.checkedAt).toLocaleString()}.`}
+          </p>
+          <Button size="sm" variant="outline" onClick={handleCheck} disabled={checking}>
+            <RefreshCwIcon className={cn("mr-1.5 h-3.5 w-3.5", checking && "animate-spin")} />
+            {checking ? "Checking…" : "Check now"}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!report ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {status === "failed" ? "The database could not be read." : "Not checked yet."}
+          </p>
+        ) : (
+          <>
+            <div
+              className={cn(
+                "rounded-lg border p-3 text-sm",
+                broken.length > 0
+                  ? "border-amber-200 bg-amber-50 text-amber-800 dark:border-amber-900 dark:bg-amber-950 dark:text-amber-200"
+                  : "border-emerald-200 bg-emerald-50 text-emerald-800 dark:border-emerald-900 dark:bg-emerald-950 dark:text-emerald-200",
+              )}
+            >
+              {broken.length > 0
+                ? `${broken.length} broken reference${broken.length === 1 ? "" : "s"} to tables or columns that no longer exist.`
+                : report.changes.length > 0
+                  ? "The schema changed, but nothing refers to a removed table or column."
+                  : "No schema changes since the semantic layer was generated."}
+            </div>
+
+            {(Object.keys(SOURCE_LABELS) as BrokenReferenceSource[]).map((source) => {
+              const items = broken.filter((b) => b.source === source);
+              return items.length > 0 ? (
+                <BrokenReferenceGroup key={source} title={SOURCE_LABELS[source]} items={items} />
+              ) : null;
+            })}
+
+            {report.changes.length > 0 && (
+              <>
+                <SchemaChangeList changes={report.changes} />
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={onRefreshSemantic}>
+                    <GitCompareIcon className="mr-1.5 h-3.5 w-3.5" />
+                    Refresh semantic layer
+                  </Button>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BrokenReferenceGroup({ title, items }: { title: string; items: BrokenReference[] }) {
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <p className="mb-2 text-xs font-medium text-muted-foreground">
+        {title} ({items.length})
+      </p>
+      <ul className="space-y-2 text-sm">
+        {items.map((item, i) => (
+          <li key={i}>
+            <span className="font-medium">{item.label}</span>
+            <span className="text-muted-foreground"> — {item.message}</span>
+            {item.suggestion && <p className="text-xs text-muted-foreground">{item.suggestion}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import type { IntrospectedSchema, SchemaChange, SemanticEdit } from "@heydata/shared";
+import { SchemaChangeList } from "@/components/schema-drift/SchemaChangeList";
+import { Button } from "@/components/ui/button";
+import { TextDiff } from "@/components/semantic-history/TextDiff";
+
+/** A refresh drafted by POST /api/connections/:id/semantic/refresh */
+export interface SemanticRefreshProposal {
+  summary: string;
+  edits: SemanticEdit[];
+  rejectedEdits: SemanticEdit[];
+  changes: SchemaChange[];
+  proposedMarkdown: string;
+  /** The schema the edits were drafted against, saved with them */
+  raw_schema: IntrospectedSchema;
+}
+
+export interface SemanticRefreshReviewProps {
+  proposal: SemanticRefreshProposal;
+  /** The stored semantic layer the edits apply to */
+  currentMarkdown: string;
+  applying: boolean;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Review of a schema refresh: what changed in the database and the patch to
+ * the semantic layer, applied only when approved
+ */
+export function SemanticRefreshReview({
+  proposal,
+  currentMarkdown,
+  applying,
+  onApply,
+  onDiscard,
+}: SemanticRefreshReviewProps) {
+  const { changes, edits, rejectedEdits } = proposal;
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="mx-auto max-w-4xl space-y-4 p-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium">Proposed refresh</p>
+            <p className="text-sm text-muted-foreground">{proposal.summary}</p>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button variant="outline" size="sm" onClick={onDiscard} disabled={applying}>
+              Discard
+            </Button>
+            {changes.length > 0 && (
+              <Button size="sm" onClick={onApply} disabled={applying}>
+                {applying ? "Applying…" : "Apply refresh"}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {changes.length > 0 && <SchemaChangeList changes={changes} />}
+
+        {changes.length > 0 && edits.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            None of the changes affect the semantic layer text. Applying saves the new schema as the
+            baseline for the next refresh.
+          </p>
+        )}
+
+        {edits.length > 0 && (
+          <TextDiff title="Semantic layer" before={currentMarkdown} after={proposal.proposedMarkdown} />
+        )}
+
+        {rejectedEdits.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {rejectedEdits.length} further edit{rejectedEdits.length === 1 ? "" : "s"} did not match the
+            document and {rejectedEdits.length === 1 ? "was" : "were"} left out.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
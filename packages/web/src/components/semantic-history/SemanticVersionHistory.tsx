@@ -0,0 +1,183 @@
+"use client";
+
+import { RotateCcwIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { TextDiff } from "@/components/semantic-history/TextDiff";
+import {
+  useSemanticVersions,
+  type SemanticVersionContent,
+  type SemanticVersionSource,
+} from "@/hooks/use-semantic-versions";
+import { cn } from "@/lib/utils";
+
+const SOURCE_LABELS: Record<SemanticVersionSource, { label: string; className: string }> = {
+  manual: {
+    label: "Edited",
+    className: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  },
+  generated: {
+    label: "Generated",
+    className: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  },
+  rollback: {
+    label: "Rollback",
+    className: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200",
+  },
+};
+
+type CompareWith = "previous" | "current";
+
+export interface SemanticVersionHistoryProps {
+  connectionId: string;
+  /** Called with the semantic layer Markdown after a version is restored */
+  onRestored: (markdown: string) => void;
+}
+
+/**
+ * Every saved version of a connection's semantic layer and metric
+ * definitions, with a diff against the previous or current version and
+ * one-click rollback
+ */
+export function SemanticVersionHistory({ connectionId, onRestored }: SemanticVersionHistoryProps) {
+  const { versions, currentVersionId, isLoading, getVersion, restoreVersion } =
+    useSemanticVersions(connectionId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<CompareWith>("previous");
+  const [selected, setSelected] = useState<SemanticVersionContent | null>(null);
+  const [base, setBase] = useState<SemanticVersionContent | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeId = selectedId ?? versions[0]?.id ?? null;
+  const activeIndex = versions.findIndex((v) => v.id === activeId);
+  const baseId =
+    compareWith === "current"
+      ? currentVersionId
+      : versions[activeIndex + 1]?.id ?? null;
+
+  useEffect(() => {
+    if (!activeId) return;
+    let cancelled = false;
+    setError(null);
+    Promise.all([getVersion(activeId), baseId && baseId !== activeId ? getVersion(baseId) : null])
+      .then(([version, baseVersion]) => {
+        if (cancelled) return;
+        setSelected(version);
+        // With no base (the oldest version) the diff is against an empty layer
+        setBase(baseId === activeId ? version : baseVersion);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeId, baseId, getVersion]);
+
+  const handleRestore = async () => {
+    if (!activeId) return;
+    setRestoring(true);
+    setError(null);
+    try {
+      onRestored(await restoreVersion(activeId));
+      setSelectedId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+        Loading…
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+        No saved versions yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 overflow-hidden">
+      <div className="w-72 shrink-0 overflow-y-auto border-r border-border">
+        {versions.map((version) => {
+          const source = SOURCE_LABELS[version.source];
+          return (
+            <button
+              key={version.id}
+              onClick={() => setSelectedId(version.id)}
+              className={cn(
+                "flex w-full flex-col gap-1 border-b border-border px-4 py-3 text-left transition-colors hover:bg-muted/50",
+                version.id === activeId && "bg-muted",
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", source.className)}>
+                  {source.label}
+                </span>
+                {version.id === currentVersionId && (
+                  <span className="text-xs font-medium text-emerald-600 dark:text-emerald-400">Current</span>
+                )}
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {version.created_at ? new Date(version.created_at).toLocaleString() : ""}
+                {version.author_email ? ` · ${version.author_email}` : ""}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-1 flex-col overflow-hidden">
+        <div className="flex shrink-0 items-center gap-3 border-b border-border px-4 py-2">
+          <span className="text-xs text-muted-foreground">Compare with</span>
+          {(["previous", "current"] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setCompareWith(mode)}
+              className={cn(
+                "text-xs",
+                compareWith === mode ? "font-medium text-foreground" : "text-muted-foreground hover:text-foreground",
+              )}
+            >
+              {mode === "previous" ? "Previous version" : "Current version"}
+            </button>
+          ))}
+          <div className="flex-1" />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleRestore}
+            disabled={restoring || activeId === currentVersionId}
+          >
+            <RotateCcwIcon className="mr-1.5 h-3.5 w-3.5" />
+            {restoring ? "Restoring…" : "Restore this version"}
+          </Button>
+        </div>
+        {error && (
+          <p className="shrink-0 border-b border-border bg-destructive/5 px-4 py-2 text-sm text-destructive">
+            {error}
+          </p>
+        )}
+        {selected && selected.id === activeId && (
+          <div className="flex-1 overflow-y-auto p-4">
+            <TextDiff title="Semantic layer" before={base?.semantic_md ?? ""} after={selected.semantic_md} />
+            <TextDiff
+              title="Metric definitions"
+              before={base?.definitions_yaml ?? ""}
+              after={selected.definitions_yaml}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { diffLines } from "@/lib/line-diff";
+import { cn } from "@/lib/utils";
+
+/**
+ * Line diff of two versions of a document, removed lines in red and added
+ * lines in green
+ */
+export function TextDiff({ title, before, after }: { title: string; before: string; after: string }) {
+  const lines = diffLines(before, after);
+  const changed = lines.some((line) => line.type !== "same");
+
+  return (
+    <div className="mb-6">
+      <p className="mb-2 text-xs font-medium text-muted-foreground">{title}</p>
+      {changed ? (
+        <pre className="overflow-x-auto rounded border border-border font-mono text-xs leading-relaxed">
+          {lines.map((line, i) => (
+            <div
+              key={i}
+              className={cn(
+                "px-2",
+                line.type === "added" && "bg-emerald-50 text-emerald-800 dark:bg-emerald-950 dark:text-emerald-200",
+                line.type === "removed" && "bg-red-50 text-red-800 dark:bg-red-950 dark:text-red-200",
+              )}
+            >
+              {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+              {line.text}
+            </div>
+          ))}
+        </pre>
+      ) : (
+        <p className="text-xs text-muted-foreground">No changes.</p>
+      )}
+    </div>
+  );
+}
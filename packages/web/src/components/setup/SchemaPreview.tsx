@@ -5,13 +5,15 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import { ChevronDownIcon, ChevronRightIcon, TableIcon } from "lucide-react";
+import { ChevronDownIcon, ChevronRightIcon, EyeIcon, TableIcon } from "lucide-react";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
 
 export interface IntrospectedTable {
   name: string;
   schema: string;
+  kind?: "table" | "view" | "materialized_view";
+  comment?: string;
   columns: Array<{
     name: string;
     dataType: string;
@@ -20,6 +22,8 @@ export interface IntrospectedTable {
     isForeignKey: boolean;
     foreignTable: string | null;
     foreignColumn: string | null;
+    comment?: string;
+    enumValues?: string[];
   }>;
 }
 
@@ -70,13 +74,24 @@ export function SchemaPreview({ schema, className }: SchemaPreviewProps) {
                   ) : (
                     <ChevronRightIcon className="h-4 w-4" />
                   )}
-                  <TableIcon className="h-4 w-4 text-muted-foreground" />
+                  {table.kind === "view" || table.kind === "materialized_view" ? (
+                    <EyeIcon className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <TableIcon className="h-4 w-4 text-muted-foreground" />
+                  )}
                   <span className="font-medium">
                     {table.schema}.{table.name}
                   </span>
                   <span className="text-muted-foreground">
-                    ({table.columns.length} cols)
+                    ({table.columns.length} cols
+                    {table.kind === "view" && ", view"}
+                    {table.kind === "materialized_view" && ", materialized view"})
                   </span>
+                  {table.comment && (
+                    <span className="truncate text-xs text-muted-foreground" title={table.comment}>
+                      {table.comment}
+                    </span>
+                  )}
                 </button>
               </CollapsibleTrigger>
               <CollapsibleContent>
@@ -96,6 +111,16 @@ export function SchemaPreview({ schema, className }: SchemaPreviewProps) {
                           FK→{col.foreignTable}.{col.foreignColumn}
                         </span>
                       )}
+                      {col.enumValues && col.enumValues.length > 0 && (
+                        <span className="truncate" title={col.enumValues.join(", ")}>
+                          {col.enumValues.join(" | ")}
+                        </span>
+                      )}
+                      {col.comment && (
+                        <span className="truncate italic" title={col.comment}>
+                          {col.comment}
+                        </span>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,58 @@
+"use client";
+
+import type { OrchestratorResponse } from "@heydata/shared";
+import { ShieldCheckIcon } from "lucide-react";
+import { useState } from "react";
+
+export interface MarkVerifiedButtonProps {
+  response: OrchestratorResponse;
+  connectionId: string;
+  question: string;
+}
+
+/**
+ * Adds an answer's question and SQL to the connection's verified query
+ * library, where it is used as an example for similar questions
+ */
+export function MarkVerifiedButton({ response, connectionId, question }: MarkVerifiedButtonProps) {
+  const [saving, setSaving] = useState(false);
+  const [verified, setVerified] = useState(false);
+  const [error, setError] = useState(false);
+
+  if (!response.sql || response.verifiedQuery) return null;
+  const sql = response.sql.sourceSql ?? response.sql.sql;
+
+  const handleClick = async () => {
+    setSaving(true);
+    setError(false);
+    const res = await fetch(`/api/connections/${connectionId}/verified-queries`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ question, sql, intent: response.intent }),
+    });
+    setSaving(false);
+    if (res.ok) setVerified(true);
+    else setError(true);
+  };
+
+  if (verified) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-emerald-700 dark:text-emerald-400">
+        <ShieldCheckIcon className="h-3 w-3" />
+        Added to verified queries
+      </span>
+    );
+  }
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={saving}
+      title="Use this question and SQL as a trusted example for similar questions"
+      className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:underline disabled:opacity-50"
+    >
+      <ShieldCheckIcon className="h-3 w-3" />
+      {error ? "Could not verify, retry" : saving ? "Verifying…" : "Mark as verified"}
+    </button>
+  );
+}
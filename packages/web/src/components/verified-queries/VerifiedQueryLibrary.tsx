@@ -0,0 +1,180 @@
+"use client";
+
+import { MessageSquareIcon, PencilIcon, PlusIcon, TrashIcon } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useVerifiedQueries, type VerifiedQueryRow } from "@/hooks/use-verified-queries";
+
+/**
+ * The verified query library of a connection: question and SQL pairs used as
+ * examples for similar questions. Queries are added from chat answers or by hand.
+ */
+export function VerifiedQueryLibrary({ connectionId }: { connectionId: string }) {
+  const { queries, isLoading, saveQuery, deleteQuery } = useVerifiedQueries(connectionId);
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="mx-auto max-w-3xl">
+        <p className="mb-6 text-sm text-muted-foreground">
+          Verified queries are questions with SQL you have checked. The most similar ones are given to
+          the AI as examples when answering, and answers that run a verified query unchanged are
+          badged. Use &ldquo;Mark as verified&rdquo; on a chat answer or add one here.
+        </p>
+
+        {adding ? (
+          <VerifiedQueryForm
+            onCancel={() => setAdding(false)}
+            onSave={async (values) => {
+              const failure = await saveQuery(values);
+              if (!failure) setAdding(false);
+              return failure;
+            }}
+          />
+        ) : (
+          <button
+            onClick={() => setAdding(true)}
+            className="mb-4 flex w-full items-center justify-center gap-2 rounded-lg border border-dashed py-3 text-sm text-muted-foreground transition-colors hover:border-foreground/30 hover:text-foreground"
+          >
+            <PlusIcon className="size-4" />
+            Add verified query
+          </button>
+        )}
+
+        {isLoading ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Loading…</p>
+        ) : queries.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No verified queries yet.</p>
+        ) : (
+          <div className="flex flex-col gap-4">
+            {queries.map((query) =>
+              editingId === query.id ? (
+                <VerifiedQueryForm
+                  key={query.id}
+                  initial={query}
+                  onCancel={() => setEditingId(null)}
+                  onSave={async (values) => {
+                    const failure = await saveQuery(values, query.id);
+                    if (!failure) setEditingId(null);
+                    return failure;
+                  }}
+                />
+              ) : (
+                <VerifiedQueryCard
+                  key={query.id}
+                  query={query}
+                  onEdit={() => setEditingId(query.id)}
+                  onDelete={() => deleteQuery(query.id)}
+                />
+              ),
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function VerifiedQueryCard({
+  query,
+  onEdit,
+  onDelete,
+}: {
+  query: VerifiedQueryRow;
+  onEdit: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="rounded-lg border bg-card p-4 shadow-sm">
+      <div className="mb-2 flex items-start gap-2">
+        <p className="flex-1 text-sm font-medium">{query.question}</p>
+        {query.intent && (
+          <span
+            title="Verified from a chat answer; its intent is used as an example too"
+            className="inline-flex items-center gap-1 text-xs text-muted-foreground"
+          >
+            <MessageSquareIcon className="size-3" />
+            from chat
+          </span>
+        )}
+        <button
+          onClick={onEdit}
+          className="flex size-7 items-center justify-center rounded-md text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+          aria-label="Edit verified query"
+        >
+          <PencilIcon className="size-3.5" />
+        </button>
+        <button
+          onClick={onDelete}
+          className="flex size-7 items-center justify-center rounded-md text-muted-foreground transition-colors hover:bg-destructive/10 hover:text-destructive"
+          aria-label="Delete verified query"
+        >
+          <TrashIcon className="size-3.5" />
+        </button>
+      </div>
+      <pre className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs">{query.sql}</pre>
+    </div>
+  );
+}
+
+function VerifiedQueryForm({
+  initial,
+  onSave,
+  onCancel,
+}: {
+  initial?: VerifiedQueryRow;
+  onSave: (values: { question?: string; sql?: string }) => Promise<string | null>;
+  onCancel: () => void;
+}) {
+  const [question, setQuestion] = useState(initial?.question ?? "");
+  const [sql, setSql] = useState(initial?.sql ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    // Leave unchanged SQL out, so an edit to the question keeps the saved intent
+    const failure = await onSave({
+      question: question.trim(),
+      ...(sql.trim() !== initial?.sql ? { sql: sql.trim() } : {}),
+    });
+    setSaving(false);
+    if (failure) setError(failure);
+  };
+
+  return (
+    <div className="mb-4 space-y-2 rounded-lg border bg-card p-4 shadow-sm">
+      <Input
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        placeholder="Question, e.g. What was MRR last month?"
+        autoFocus
+      />
+      <textarea
+        value={sql}
+        onChange={(e) => setSql(e.target.value)}
+        placeholder="SELECT … (PostgreSQL)"
+        rows={6}
+        spellCheck={false}
+        className="w-full resize-y rounded-md border bg-background px-3 py-2 font-mono text-sm outline-none focus:ring-2 focus:ring-ring"
+      />
+      {initial?.intent && sql.trim() !== initial.sql && (
+        <p className="text-xs text-muted-foreground">
+          Editing the SQL drops the intent saved from the chat answer.
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving || !question.trim() || !sql.trim()}>
+          {saving ? "Saving…" : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+}
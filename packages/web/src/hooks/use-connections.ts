@@ -1,5 +1,6 @@
 "use client";
 
+import type { QueryBudget } from "@heydata/shared";
 import { useCallback, useEffect, useState } from "react";
 
 export interface Connection {
@@ -7,6 +8,7 @@ export interface Connection {
   name: string;
   db_type: string;
   ssl_enabled: boolean | null;
+  query_budget: QueryBudget | null;
   status: string | null;
   last_tested_at: string | null;
   created_at: string | null;
@@ -0,0 +1,174 @@
+"use client";
+
+import type { VisualizationSpec } from "@heydata/shared";
+import { useCallback, useEffect, useState } from "react";
+
+export interface Dashboard {
+  id: string;
+  name: string;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface SavedQuestion {
+  id: string;
+  connection_id: string;
+  title: string;
+  question: string;
+  sql: string;
+  visualization: VisualizationSpec;
+  /** Order in the grid */
+  position: number;
+  /** Grid columns spanned, of 12 */
+  width: number;
+  /** Grid rows spanned */
+  height: number;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface DashboardWithQuestions extends Dashboard {
+  questions: SavedQuestion[];
+}
+
+export function useDashboards() {
+  const [dashboards, setDashboards] = useState<Dashboard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refetch = useCallback(() => {
+    return fetch("/api/dashboards")
+      .then((res) => {
+        if (!res.ok) throw new Error(res.statusText);
+        return res.json();
+      })
+      .then((data: Dashboard[]) => setDashboards(Array.isArray(data) ? data : []))
+      .catch(() => setDashboards([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  const createDashboard = async (name: string) => {
+    const res = await fetch("/api/dashboards", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    if (!res.ok) return null;
+    const dashboard = (await res.json()) as Dashboard;
+    setDashboards((prev) => [dashboard, ...prev]);
+    return dashboard;
+  };
+
+  const deleteDashboard = async (id: string) => {
+    const res = await fetch(`/api/dashboards/${id}`, { method: "DELETE" });
+    if (!res.ok) return;
+    setDashboards((prev) => prev.filter((d) => d.id !== id));
+  };
+
+  const pinQuestion = async (
+    dashboardId: string,
+    question: {
+      connectionId: string;
+      question: string;
+      sql: string;
+      visualization: VisualizationSpec;
+      title?: string;
+    },
+  ) => {
+    const res = await fetch(`/api/dashboards/${dashboardId}/questions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(question),
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as SavedQuestion;
+  };
+
+  return {
+    dashboards,
+    isLoading,
+    createDashboard,
+    deleteDashboard,
+    pinQuestion,
+    refetch,
+  };
+}
+
+export function useDashboard(id: string) {
+  const [dashboard, setDashboard] = useState<DashboardWithQuestions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetch(`/api/dashboards/${id}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(res.status === 404 ? "Dashboard not found" : res.statusText);
+        return res.json();
+      })
+      .then((data: DashboardWithQuestions) => {
+        if (!cancelled) {
+          setDashboard(data);
+          setError(null);
+        }
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  /** Apply a new grid layout locally, then persist it */
+  const saveLayout = async (questions: SavedQuestion[]) => {
+    const ordered = questions.map((q, position) => ({ ...q, position }));
+    setDashboard((prev) => (prev ? { ...prev, questions: ordered } : prev));
+    await fetch(`/api/dashboards/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        layout: ordered.map(({ id: questionId, position, width, height }) => ({
+          id: questionId,
+          position,
+          width,
+          height,
+        })),
+      }),
+    });
+  };
+
+  const renameDashboard = async (name: string) => {
+    const res = await fetch(`/api/dashboards/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    if (!res.ok) return;
+    setDashboard((prev) => (prev ? { ...prev, name } : prev));
+  };
+
+  const unpinQuestion = async (questionId: string) => {
+    const res = await fetch(`/api/dashboards/${id}/questions/${questionId}`, { method: "DELETE" });
+    if (!res.ok) return;
+    setDashboard((prev) =>
+      prev ? { ...prev, questions: prev.questions.filter((q) => q.id !== questionId) } : prev,
+    );
+  };
+
+  return {
+    dashboard,
+    isLoading,
+    error,
+    saveLayout,
+    renameDashboard,
+    unpinQuestion,
+  };
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import type { OrchestratorResponse, QueryFeedbackStatus, SemanticEdit } from "@heydata/shared";
+import { useCallback, useEffect, useState } from "react";
+
+export interface QueryFeedback {
+  id: string;
+  connection_id: string;
+  session_id: string | null;
+  question: string;
+  response: OrchestratorResponse;
+  correction: string;
+  status: QueryFeedbackStatus;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface SemanticSuggestion {
+  summary: string;
+  edits: SemanticEdit[];
+  rejectedEdits: SemanticEdit[];
+  proposedMarkdown: string;
+  /** The flagged answers the suggestion was drafted from */
+  feedbackIds: string[];
+}
+
+async function errorMessage(res: Response): Promise<string> {
+  const body = (await res.json().catch(() => ({}))) as { error?: { message?: string } | string };
+  return typeof body.error === "string" ? body.error : body.error?.message ?? res.statusText;
+}
+
+/**
+ * Flagged answers for one connection, filtered by status
+ */
+export function useFeedback(connectionId: string, status: QueryFeedbackStatus) {
+  const [feedback, setFeedback] = useState<QueryFeedback[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refetch = useCallback(() => {
+    setIsLoading(true);
+    return fetch(`/api/connections/${connectionId}/feedback?status=${status}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(res.statusText);
+        return res.json();
+      })
+      .then((data: QueryFeedback[]) => setFeedback(Array.isArray(data) ? data : []))
+      .catch(() => setFeedback([]))
+      .finally(() => setIsLoading(false));
+  }, [connectionId, status]);
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  /** Move flagged answers to another status; they leave the current list */
+  const setStatus = async (ids: string[], next: QueryFeedbackStatus) => {
+    const results = await Promise.all(
+      ids.map((id) =>
+        fetch(`/api/connections/${connectionId}/feedback/${id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: next }),
+        }),
+      ),
+    );
+    const updated = new Set(ids.filter((_, i) => results[i]!.ok));
+    setFeedback((prev) => prev.filter((f) => !updated.has(f.id)));
+  };
+
+  /** Draft semantic layer edits from flagged answers (all open ones when none are given) */
+  const suggestEdits = async (feedbackIds?: string[]): Promise<SemanticSuggestion> => {
+    const res = await fetch(`/api/connections/${connectionId}/feedback/suggest`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(feedbackIds ? { feedbackIds } : {}),
+    });
+    if (!res.ok) throw new Error(await errorMessage(res));
+    return (await res.json()) as SemanticSuggestion;
+  };
+
+  return {
+    feedback,
+    isLoading,
+    setStatus,
+    suggestEdits,
+    refetch,
+  };
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+async function errorMessage(res: Response): Promise<string> {
+  const body = (await res.json().catch(() => ({}))) as { error?: { message?: string } | string };
+  return typeof body.error === "string" ? body.error : body.error?.message ?? res.statusText;
+}
+
+/**
+ * The governed metric definitions YAML of one connection
+ */
+export function useMetricDefinitions(connectionId: string) {
+  const [yaml, setYaml] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refetch = useCallback(() => {
+    return fetch(`/api/connections/${connectionId}/semantic/definitions`)
+      .then((res) => {
+        if (!res.ok) throw new Error(res.statusText);
+        return res.json();
+      })
+      .then((data: { definitions_yaml?: string }) => setYaml(data.definitions_yaml ?? ""))
+      .catch(() => setYaml(""))
+      .finally(() => setIsLoading(false));
+  }, [connectionId]);
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  /**
+   * Replace the definitions. Resolves to an error message when they do not
+   * parse or reference undefined names.
+   */
+  const saveDefinitions = async (definitionsYaml: string): Promise<string | null> => {
+    const res = await fetch(`/api/connections/${connectionId}/semantic/definitions`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ definitions_yaml: definitionsYaml }),
+    });
+    if (!res.ok) return errorMessage(res);
+    setYaml(definitionsYaml);
+    return null;
+  };
+
+  return {
+    yaml,
+    isLoading,
+    saveDefinitions,
+    refetch,
+  };
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import type { AlertRule, NotificationTarget, ScheduledQueryConfig } from "@heydata/shared";
+import { useCallback, useEffect, useState } from "react";
+
+export interface Schedule {
+  id: string;
+  saved_question_id: string;
+  cron: string;
+  alert_rule: AlertRule | null;
+  targets: NotificationTarget[];
+  enabled: boolean;
+  next_run_at: string;
+  last_run_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface ScheduleRun {
+  id: string;
+  started_at: string;
+  finished_at: string;
+  status: "success" | "failed";
+  row_count: number | null;
+  value: number | null;
+  triggered: boolean;
+  notified: boolean;
+  error: string | null;
+  notification_error: string | null;
+}
+
+async function errorMessage(res: Response): Promise<string> {
+  const body = (await res.json().catch(() => ({}))) as { error?: { message?: string } | string };
+  return typeof body.error === "string" ? body.error : body.error?.message ?? res.statusText;
+}
+
+/**
+ * Schedules for one saved question, with the latest schedule's run history
+ */
+export function useSchedules(savedQuestionId: string) {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/schedules?savedQuestionId=${savedQuestionId}`);
+      if (!res.ok) throw new Error(res.statusText);
+      const data = (await res.json()) as Schedule[];
+      setSchedules(Array.isArray(data) ? data : []);
+
+      const latest = data.at(-1);
+      if (latest) {
+        const runsRes = await fetch(`/api/schedules/${latest.id}/runs`);
+        setRuns(runsRes.ok ? ((await runsRes.json()) as ScheduleRun[]) : []);
+      } else {
+        setRuns([]);
+      }
+    } catch {
+      setSchedules([]);
+      setRuns([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [savedQuestionId]);
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  /** Create or update a schedule; resolves to an error message on failure */
+  const saveSchedule = async (config: ScheduledQueryConfig, id?: string): Promise<string | null> => {
+    const res = await fetch(id ? `/api/schedules/${id}` : "/api/schedules", {
+      method: id ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(id ? config : { ...config, savedQuestionId }),
+    });
+    if (!res.ok) return errorMessage(res);
+    await refetch();
+    return null;
+  };
+
+  const deleteSchedule = async (id: string) => {
+    const res = await fetch(`/api/schedules/${id}`, { method: "DELETE" });
+    if (!res.ok) return;
+    await refetch();
+  };
+
+  return {
+    schedules,
+    runs,
+    isLoading,
+    saveSchedule,
+    deleteSchedule,
+    refetch,
+  };
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import type { SchemaDriftReport } from "@heydata/shared";
+import { useCallback, useEffect, useState } from "react";
+
+async function errorMessage(res: Response): Promise<string> {
+  const body = (await res.json().catch(() => ({}))) as { error?: { message?: string } | string };
+  return typeof body.error === "string" ? body.error : body.error?.message ?? res.statusText;
+}
+
+/**
+ * The connection's status and latest schema drift report
+ */
+export function useSchemaDrift(connectionId: string) {
+  const [status, setStatus] = useState<string | null>(null);
+  const [report, setReport] = useState<SchemaDriftReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refetch = useCallback(() => {
+    return fetch(`/api/connections/${connectionId}/drift`)
+      .then((res) => {
+        if (!res.ok) throw new Error(res.statusText);
+        return res.json();
+      })
+      .then((data: { status: string | null; drift_report: SchemaDriftReport | null }) => {
+        setStatus(data.status);
+        setReport(data.drift_report);
+      })
+      .catch(() => {
+        setStatus(null);
+        setReport(null);
+      })
+      .finally(() => setIsLoading(false));
+  }, [connectionId]);
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  /**
+   * Re-introspect the database and replace the report. Resolves to an error
+   * message when the database cannot be read.
+   */
+  const checkNow = async (): Promise<string | null> => {
+    const res = await fetch(`/api/connections/${connectionId}/drift`, { method: "POST" });
+    if (!res.ok) {
+      await refetch();
+      return errorMessage(res);
+    }
+    const data = (await res.json()) as { status: string; drift_report: SchemaDriftReport };
+    setStatus(data.status);
+    setReport(data.drift_report);
+    return null;
+  };
+
+  return {
+    status,
+    report,
+    isLoading,
+    checkNow,
+    refetch,
+  };
+}
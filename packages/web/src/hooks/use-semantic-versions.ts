@@ -0,0 +1,87 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+export type SemanticVersionSource = "manual" | "generated" | "rollback";
+
+export interface SemanticVersionRow {
+  id: string;
+  source: SemanticVersionSource;
+  author_email: string | null;
+  restored_from: string | null;
+  created_at: string | null;
+}
+
+export interface SemanticVersionContent extends SemanticVersionRow {
+  semantic_md: string;
+  definitions_yaml: string;
+}
+
+async function errorMessage(res: Response): Promise<string> {
+  const body = (await res.json().catch(() => ({}))) as { error?: { message?: string } | string };
+  return typeof body.error === "string" ? body.error : body.error?.message ?? res.statusText;
+}
+
+/**
+ * The saved versions of one connection's semantic layer, newest first
+ */
+export function useSemanticVersions(connectionId: string) {
+  const [versions, setVersions] = useState<SemanticVersionRow[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refetch = useCallback(() => {
+    return fetch(`/api/connections/${connectionId}/semantic/versions`)
+      .then((res) => {
+        if (!res.ok) throw new Error(res.statusText);
+        return res.json();
+      })
+      .then((data: { current_version_id: string | null; versions: SemanticVersionRow[] }) => {
+        setVersions(Array.isArray(data.versions) ? data.versions : []);
+        setCurrentVersionId(data.current_version_id);
+      })
+      .catch(() => {
+        setVersions([]);
+        setCurrentVersionId(null);
+      })
+      .finally(() => setIsLoading(false));
+  }, [connectionId]);
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  /** Load a version's Markdown and metric definitions */
+  const getVersion = useCallback(
+    async (versionId: string): Promise<SemanticVersionContent> => {
+      const res = await fetch(`/api/connections/${connectionId}/semantic/versions/${versionId}`);
+      if (!res.ok) throw new Error(await errorMessage(res));
+      return res.json();
+    },
+    [connectionId],
+  );
+
+  /**
+   * Roll the semantic layer back to a version. Resolves to the restored
+   * Markdown, or throws with the error message.
+   */
+  const restoreVersion = async (versionId: string): Promise<string> => {
+    const res = await fetch(
+      `/api/connections/${connectionId}/semantic/versions/${versionId}/restore`,
+      { method: "POST" },
+    );
+    if (!res.ok) throw new Error(await errorMessage(res));
+    const layer = (await res.json()) as { semantic_md: string };
+    await refetch();
+    return layer.semantic_md;
+  };
+
+  return {
+    versions,
+    currentVersionId,
+    isLoading,
+    getVersion,
+    restoreVersion,
+    refetch,
+  };
+}
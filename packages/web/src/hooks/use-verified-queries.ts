@@ -0,0 +1,81 @@
+"use client";
+
+import type { IntentObject } from "@heydata/shared";
+import { useCallback, useEffect, useState } from "react";
+
+export interface VerifiedQueryRow {
+  id: string;
+  connection_id: string;
+  question: string;
+  sql: string;
+  intent: IntentObject | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+async function errorMessage(res: Response): Promise<string> {
+  const body = (await res.json().catch(() => ({}))) as { error?: { message?: string } | string };
+  return typeof body.error === "string" ? body.error : body.error?.message ?? res.statusText;
+}
+
+/**
+ * The verified query library of one connection
+ */
+export function useVerifiedQueries(connectionId: string) {
+  const [queries, setQueries] = useState<VerifiedQueryRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refetch = useCallback(() => {
+    return fetch(`/api/connections/${connectionId}/verified-queries`)
+      .then((res) => {
+        if (!res.ok) throw new Error(res.statusText);
+        return res.json();
+      })
+      .then((data: VerifiedQueryRow[]) => setQueries(Array.isArray(data) ? data : []))
+      .catch(() => setQueries([]))
+      .finally(() => setIsLoading(false));
+  }, [connectionId]);
+
+  useEffect(() => {
+    void refetch();
+  }, [refetch]);
+
+  /**
+   * Add a verified query, or edit one (only the fields given change).
+   * Resolves to an error message on failure.
+   */
+  const saveQuery = async (
+    values: { question?: string; sql?: string },
+    id?: string,
+  ): Promise<string | null> => {
+    const res = await fetch(
+      id
+        ? `/api/connections/${connectionId}/verified-queries/${id}`
+        : `/api/connections/${connectionId}/verified-queries`,
+      {
+        method: id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      },
+    );
+    if (!res.ok) return errorMessage(res);
+    await refetch();
+    return null;
+  };
+
+  const deleteQuery = async (id: string) => {
+    const res = await fetch(`/api/connections/${connectionId}/verified-queries/${id}`, {
+      method: "DELETE",
+    });
+    if (!res.ok) return;
+    setQueries((prev) => prev.filter((q) => q.id !== id));
+  };
+
+  return {
+    queries,
+    isLoading,
+    saveQuery,
+    deleteQuery,
+    refetch,
+  };
+}
@@ -0,0 +1,22 @@
+import path from "path";
+import { isInUploadRoot } from "@/lib/uploads";
+
+/**
+ * Why a connection string may not be saved for a connection type, or null.
+ * File connections open server-side paths, so they are limited to the
+ * directory the operator sets aside in LOCAL_FILES_DIR, and upload
+ * connections only point at directories the server created.
+ */
+export function fileConnectionError(dbType: string, connectionString: string): string | null {
+  if (dbType === "upload") {
+    return "Create upload connections with POST /api/connections/upload";
+  }
+  if (dbType !== "sqlite" && dbType !== "duckdb") return null;
+
+  const fileRoot = process.env.LOCAL_FILES_DIR;
+  if (!fileRoot) return "SQLite and DuckDB file connections are disabled on this server";
+  if (isInUploadRoot(path.resolve(fileRoot, connectionString.trim()))) {
+    return "Uploaded files cannot be opened as a file connection";
+  }
+  return null;
+}
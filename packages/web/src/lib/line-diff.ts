@@ -0,0 +1,41 @@
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Line-by-line diff of two texts from their longest common subsequence.
+ * Semantic layers are a few hundred lines, so the quadratic table is fine.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+
+  // lcs[i][j]: length of the common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      lines.push({ type: "removed", text: a[i]! });
+      i++;
+    } else {
+      lines.push({ type: "added", text: b[j]! });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) lines.push({ type: "removed", text: a[i]! });
+  for (; j < b.length; j++) lines.push({ type: "added", text: b[j]! });
+  return lines;
+}
@@ -0,0 +1,115 @@
+import type { PipelineProgressEvent, PipelineStep } from "@heydata/shared";
+
+export type PipelineStepStatus = "pending" | "active" | "done" | "failed";
+
+/**
+ * Snapshot of orchestrator progress, streamed to the chat as a preliminary
+ * query_data tool output while the pipeline runs.
+ */
+export interface PipelineProgress {
+  status: "running";
+  steps: Record<PipelineStep, PipelineStepStatus>;
+  /** SQL attempt currently being generated/validated (1-based) */
+  sqlAttempt?: number;
+  sql?: string;
+  rowCount?: number;
+  truncated?: boolean;
+  /** Narrative text streamed so far */
+  narrative: string;
+}
+
+export function createPipelineProgress(): PipelineProgress {
+  return {
+    status: "running",
+    steps: {
+      intent: "pending",
+      sql: "pending",
+      execution: "pending",
+      data_validation: "pending",
+      analysis: "pending",
+      visualization: "pending",
+      narrative: "pending",
+    },
+    narrative: "",
+  };
+}
+
+/**
+ * Fold a progress event into the snapshot (returns a new object).
+ */
+export function applyProgressEvent(
+  progress: PipelineProgress,
+  event: PipelineProgressEvent,
+): PipelineProgress {
+  switch (event.type) {
+    case "step_started":
+      return {
+        ...progress,
+        steps: { ...progress.steps, [event.step]: "active" },
+        sqlAttempt: event.step === "sql" ? event.attempt : progress.sqlAttempt,
+      };
+    case "step_finished":
+      return {
+        ...progress,
+        steps: { ...progress.steps, [event.step]: event.success ? "done" : "failed" },
+      };
+    case "sql_generated":
+      return { ...progress, sql: event.sql, sqlAttempt: event.attempt };
+    case "rows_fetched":
+      return { ...progress, rowCount: event.rowCount, truncated: event.truncated };
+    case "narrative_delta":
+      return { ...progress, narrative: progress.narrative + event.text };
+  }
+}
+
+export function isPipelineProgress(value: unknown): value is PipelineProgress {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { status?: unknown }).status === "running" &&
+    typeof (value as { steps?: unknown }).steps === "object"
+  );
+}
+
+/**
+ * Run a progress-reporting task and yield a progress snapshot whenever new
+ * events arrive, followed by the task's result as the final value.
+ *
+ * Events that arrive while the consumer is busy are coalesced into the next
+ * snapshot, so a slow stream never queues up stale updates.
+ */
+export async function* streamWithProgress<T>(
+  run: (onProgress: (event: PipelineProgressEvent) => void) => Promise<T>,
+): AsyncGenerator<PipelineProgress | T> {
+  let progress = createPipelineProgress();
+  let dirty = false;
+  let settled = false;
+  let wake: (() => void) | undefined;
+
+  const task = run((event) => {
+    progress = applyProgressEvent(progress, event);
+    dirty = true;
+    wake?.();
+  });
+  const onSettled = () => {
+    settled = true;
+    wake?.();
+  };
+  task.then(onSettled, onSettled);
+
+  yield progress;
+
+  while (!settled || dirty) {
+    if (dirty) {
+      dirty = false;
+      yield progress;
+      continue;
+    }
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+    });
+    wake = undefined;
+  }
+
+  yield await task;
+}
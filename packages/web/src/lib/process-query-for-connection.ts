@@ -1,44 +1,58 @@
 import { decryptConnectionString } from "@/lib/crypto";
-import { getPoolManager } from "@heydata/bridge";
-import { createOrchestrator } from "@heydata/core";
+import { createSupabaseCacheStore } from "@/lib/query-cache-store";
+import { getPoolManager, queryRoleFromEnv } from "@heydata/bridge";
+import { buildSessionContext, createOrchestrator } from "@heydata/core";
+import { parseDefinitions } from "@heydata/semantic";
 import type {
   OrchestratorResponse,
+  PipelineProgressEvent,
+  QueryCostEstimate,
   ResultSet,
   SemanticMetadata,
   SessionContext,
+  VerifiedQuery,
 } from "@heydata/shared";
 import {
   HeyDataError,
+  IntentObjectSchema,
   IntrospectedSchemaSchema,
-  introspectedSchemaToDDL,
+  MAX_SESSION_HISTORY_MESSAGES,
+  QueryBudgetSchema,
 } from "@heydata/shared";
 import type { Database } from "@heydata/supabase";
 import type { SupabaseClient } from "@supabase/supabase-js";
 
 type ConnectionRow = Database["public"]["Tables"]["connections"]["Row"];
 type SemanticLayerRow = Database["public"]["Tables"]["semantic_layers"]["Row"];
+type ChatMessageRow = Database["public"]["Tables"]["chat_messages"]["Row"];
+type VerifiedQueryRow = Database["public"]["Tables"]["verified_queries"]["Row"];
 
 export interface ProcessQueryForConnectionInput {
   connectionId: string;
   question: string;
   sessionId?: string;
+  /** The user has agreed to run a query over the connection's confirmation threshold */
+  costConfirmed?: boolean;
   signal?: AbortSignal;
+  /** Receives orchestrator progress events while the pipeline runs */
+  onProgress?: (event: PipelineProgressEvent) => void;
 }
 
+/** Guards applied to every query run for a user; PostgreSQL queries switch to QUERY_ROLE when set */
+const QUERY_GUARDS = {
+  maxRows: 10000,
+  timeoutMs: 30000,
+  validateOperations: true,
+  role: queryRoleFromEnv(),
+};
+
 /**
- * Load connection and semantic layer from Supabase, then run the orchestrator.
- * Used when processing queries in a multi-connection, dynamic setup.
+ * Load a connection from Supabase, decrypt its credentials and get its pool
  */
-export async function processQueryForConnection(
-  supabase: SupabaseClient<Database>,
-  input: ProcessQueryForConnectionInput,
-): Promise<OrchestratorResponse> {
-  const { connectionId, question, sessionId, signal } = input;
-
-  // 1. Load connection
+export async function openConnection(supabase: SupabaseClient<Database>, connectionId: string) {
   const { data: connection, error: connError } = await supabase
     .from("connections")
-    .select("id, connection_string, db_type, ssl_enabled")
+    .select("id, connection_string, db_type, ssl_enabled, query_budget")
     .eq("id", connectionId)
     .single();
 
@@ -63,10 +77,44 @@ export async function processQueryForConnection(
     );
   }
 
+  const { pool, adapter } = await getPoolManager().getPool(connectionId, conn.db_type, {
+    connectionString: plainConnectionString,
+    sslEnabled: conn.ssl_enabled ?? true,
+  });
+
+  return { conn, pool, adapter };
+}
+
+/**
+ * Run SQL saved from an earlier answer on its connection, without the agent
+ * pipeline. The same guards apply as for generated queries.
+ */
+export async function executeSavedSql(
+  supabase: SupabaseClient<Database>,
+  connectionId: string,
+  sql: string,
+): Promise<ResultSet> {
+  const { pool, adapter } = await openConnection(supabase, connectionId);
+  return adapter.execute(pool, sql, undefined, QUERY_GUARDS);
+}
+
+/**
+ * Load connection and semantic layer from Supabase, then run the orchestrator.
+ * Used when processing queries in a multi-connection, dynamic setup.
+ */
+export async function processQueryForConnection(
+  supabase: SupabaseClient<Database>,
+  input: ProcessQueryForConnectionInput,
+): Promise<OrchestratorResponse> {
+  const { connectionId, question, sessionId, costConfirmed, signal, onProgress } = input;
+
+  // 1. Load connection
+  const { conn, pool, adapter } = await openConnection(supabase, connectionId);
+
   // 2. Load semantic layer for this connection
   const { data: layer, error: layerError } = await supabase
     .from("semantic_layers")
-    .select("semantic_md, raw_schema")
+    .select("semantic_md, raw_schema, definitions_yaml, current_version_id, updated_at")
     .eq("connection_id", connectionId)
     .limit(1)
     .single();
@@ -84,53 +132,127 @@ export async function processQueryForConnection(
     semanticMarkdown: semanticRow.semantic_md ?? "",
   };
 
-  // Attach compact DDL of raw schema for ad-hoc metric support
+  // Attach the raw schema for ad-hoc metric support; the orchestrator picks
+  // the tables each question needs and renders them as compact DDL
   if (semanticRow.raw_schema) {
     const parsed = IntrospectedSchemaSchema.safeParse(semanticRow.raw_schema);
-    if (parsed.success) {
-      semanticMetadata.rawSchemaDDL = introspectedSchemaToDDL(parsed.data);
-    }
+    if (parsed.success) semanticMetadata.rawSchema = parsed.data;
   }
 
-  // 3. Get pool and create execute function
-  const poolManager = getPoolManager();
-  const { pool, adapter } = await poolManager.getPool(connectionId, conn.db_type, {
-    connectionString: plainConnectionString,
-    sslEnabled: conn.ssl_enabled ?? true,
-  });
+  // Governed metric definitions; the orchestrator compiles intents that only
+  // use them. Definitions are checked on save, so a failure here is logged.
+  if (semanticRow.definitions_yaml) {
+    const { definitions, errors } = parseDefinitions(semanticRow.definitions_yaml, false);
+    if (errors.length > 0) {
+      console.error("[processQuery] Ignoring invalid metric definitions:", errors.map((e) => e.message).join("; "));
+    } else if (definitions.metrics.length > 0) {
+      semanticMetadata.definitions = definitions;
+    }
+  }
 
+  // 3. Create execute function
   const executeQuery = async (sql: string): Promise<ResultSet> => {
-    return adapter.execute(pool, sql, undefined, {
-      maxRows: 10000,
-      timeoutMs: 30000,
-      validateOperations: true,
-    });
+    return adapter.execute(pool, sql, undefined, QUERY_GUARDS);
   };
 
-  // 4. Build session context for follow-ups
+  // Cost estimates come from adapters whose engine can EXPLAIN a query
+  const explainQuery = adapter.explain
+    ? (sql: string): Promise<QueryCostEstimate> => adapter.explain!(pool, sql, QUERY_GUARDS)
+    : undefined;
+  const queryBudget = QueryBudgetSchema.safeParse(conn.query_budget ?? {});
+
+  // 4. Build session context for follow-ups from persisted chat history
   const sessionContext: SessionContext | undefined = sessionId
-    ? {
-      sessionId,
-      turns: [],
-      activeMetrics: [],
-      activeDimensions: [],
-      activeFilters: [],
-    }
+    ? await loadSessionContext(supabase, sessionId)
     : undefined;
 
-  // 5. Run orchestrator
+  // 5. Load verified queries; the orchestrator picks the closest as examples
+  const verifiedQueries = await loadVerifiedQueries(supabase, connectionId);
+
+  // 6. Run orchestrator
   const orchestrator = createOrchestrator({
     apiKey: process.env.ANTHROPIC_API_KEY ?? "",
     model: "claude-haiku-4-5-20251001",
-    dialect: "postgresql",
+    dialect: adapter.dialect,
     enableCache: true,
+    cacheStore: createSupabaseCacheStore(supabase),
+    queryBudget: queryBudget.success ? queryBudget.data : undefined,
   });
 
   return orchestrator.process({
     question,
     semanticMetadata,
     executeQuery,
+    explainQuery,
+    costConfirmed,
+    verifiedQueries,
+    // Entries cached under an earlier save of the semantic layer no longer match
+    cacheScope: { connectionId, semanticVersion: semanticRow.current_version_id ?? semanticRow.updated_at ?? undefined },
     sessionContext,
     signal,
+    onProgress,
   });
 }
+
+/**
+ * Load a connection's verified queries. Like history, the library is
+ * best-effort: a failed lookup means answering without examples.
+ */
+async function loadVerifiedQueries(
+  supabase: SupabaseClient<Database>,
+  connectionId: string,
+): Promise<VerifiedQuery[]> {
+  const { data, error } = await supabase
+    .from("verified_queries")
+    .select("id, question, sql, intent")
+    .eq("connection_id", connectionId);
+
+  if (error) {
+    console.error("[processQuery] Failed to load verified queries:", error.message);
+  }
+
+  return ((data ?? []) as Pick<VerifiedQueryRow, "id" | "question" | "sql" | "intent">[]).map((row) => {
+    const intent = IntentObjectSchema.safeParse(row.intent);
+    return {
+      id: row.id,
+      question: row.question,
+      sql: row.sql,
+      intent: intent.success ? intent.data : undefined,
+    };
+  });
+}
+
+/**
+ * Rebuild the session context from the most recent persisted chat messages
+ * (user text plus the intent stored in each assistant message's tool results).
+ * History is best-effort: a failed lookup degrades to a cold-start context.
+ */
+async function loadSessionContext(
+  supabase: SupabaseClient<Database>,
+  sessionId: string,
+): Promise<SessionContext> {
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .select("role, content, tool_results, created_at")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: false })
+    .limit(MAX_SESSION_HISTORY_MESSAGES);
+
+  if (error) {
+    console.error("[processQuery] Failed to load session history:", error.message);
+  }
+
+  const rows = ((data ?? []) as Pick<ChatMessageRow, "role" | "content" | "tool_results" | "created_at">[])
+    .reverse();
+
+  return buildSessionContext(
+    sessionId,
+    rows.map((r) => ({
+      role: r.role,
+      content: r.content,
+      createdAt: r.created_at,
+      toolResults: r.tool_results,
+    })),
+    { excludePendingQuestion: true },
+  );
+}
@@ -0,0 +1,73 @@
+import type { CacheStore } from "@heydata/core";
+import type { Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type QueryCacheRow = Database["public"]["Tables"]["query_cache"]["Row"];
+
+/**
+ * Query cache entries kept in the query_cache table, so they are shared by
+ * every server instance and survive restarts. Row access follows the
+ * connection's RLS policies.
+ */
+export function createSupabaseCacheStore(supabase: SupabaseClient<Database>): CacheStore {
+  return {
+    async get(key) {
+      const { data, error } = await supabase
+        .from("query_cache")
+        .select("value")
+        .eq("cache_key", key)
+        .gt("expires_at", new Date().toISOString())
+        .maybeSingle();
+      if (error) throw new Error(`Failed to read query cache: ${error.message}`);
+      return (data as Pick<QueryCacheRow, "value"> | null)?.value ?? undefined;
+    },
+
+    async set(key, value, { connectionId, ttlMs }) {
+      const now = new Date();
+      const { error } = await supabase.from("query_cache").upsert(
+        {
+          cache_key: key,
+          connection_id: connectionId,
+          value,
+          expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+        } as never,
+        { onConflict: "connection_id,cache_key" },
+      );
+      if (error) throw new Error(`Failed to write query cache: ${error.message}`);
+
+      // Expired entries are only ever skipped by reads; drop the connection's here
+      await supabase
+        .from("query_cache")
+        .delete()
+        .eq("connection_id", connectionId)
+        .lte("expires_at", now.toISOString());
+    },
+
+    async invalidateConnection(connectionId) {
+      const { error } = await supabase.from("query_cache").delete().eq("connection_id", connectionId);
+      if (error) throw new Error(`Failed to invalidate query cache: ${error.message}`);
+    },
+
+    async clear() {
+      // RLS limits this to the user's own connections
+      const { error } = await supabase.from("query_cache").delete().not("cache_key", "is", null);
+      if (error) throw new Error(`Failed to clear query cache: ${error.message}`);
+    },
+  };
+}
+
+/**
+ * Drop a connection's cached query results and responses, e.g. after its
+ * semantic layer or credentials change. Failures are logged, never thrown:
+ * stale entries also stop matching once the semantic layer version changes.
+ */
+export async function invalidateQueryCache(
+  supabase: SupabaseClient<Database>,
+  connectionId: string,
+): Promise<void> {
+  try {
+    await createSupabaseCacheStore(supabase).invalidateConnection(connectionId);
+  } catch (err) {
+    console.error("[query-cache] Failed to invalidate cache for connection:", connectionId, err);
+  }
+}
@@ -0,0 +1,173 @@
+import { executeSavedSql } from "@/lib/process-query-for-connection";
+import {
+  CronParseError,
+  createSmtpChannel,
+  createWebhookChannel,
+  nextCronRun,
+  runDueSchedules,
+  smtpOptionsFromUrl,
+  type DueSchedule,
+  type NotificationChannels,
+  type ScheduleRun,
+  type ScheduleStore,
+} from "@heydata/scheduler";
+import { AlertRuleSchema, NotificationTargetSchema } from "@heydata/shared";
+import { createServiceClient, type Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+
+type ScheduledQueryRow = Database["public"]["Tables"]["scheduled_queries"]["Row"];
+type SavedQuestionRow = Database["public"]["Tables"]["saved_questions"]["Row"];
+
+type DueRow = Pick<ScheduledQueryRow, "id" | "user_id" | "cron" | "alert_rule" | "targets" | "next_run_at"> & {
+  saved_questions:
+    | (Pick<SavedQuestionRow, "connection_id" | "title" | "question" | "sql"> & {
+        dashboards: { user_id: string } | null;
+        connections: { user_id: string } | null;
+      })
+    | null;
+};
+
+/** Columns returned by the schedule API routes */
+export const SCHEDULE_COLUMNS =
+  "id, saved_question_id, cron, alert_rule, targets, enabled, next_run_at, last_run_at, created_at, updated_at";
+
+/** Most schedules one worker call claims; the rest wait for the next call */
+const CLAIM_BATCH_SIZE = 25;
+
+/**
+ * Schedules and run history in Supabase. Used by the worker with the service
+ * role, so it sees every user's schedules.
+ */
+export function createSupabaseScheduleStore(supabase: SupabaseClient<Database>): ScheduleStore {
+  return {
+    async claimDue(now, nextRunAt) {
+      const { data, error } = await supabase
+        .from("scheduled_queries")
+        .select(
+          "id, user_id, cron, alert_rule, targets, next_run_at, saved_questions(connection_id, title, question, sql, dashboards(user_id), connections(user_id))",
+        )
+        .eq("enabled", true)
+        .lte("next_run_at", now.toISOString())
+        .order("next_run_at", { ascending: true })
+        .limit(CLAIM_BATCH_SIZE);
+      if (error) throw new Error(`Failed to load due schedules: ${error.message}`);
+
+      const claimed: DueSchedule[] = [];
+      for (const row of (data ?? []) as unknown as DueRow[]) {
+        const question = row.saved_questions;
+        if (!question) continue;
+
+        // The service role bypasses RLS, so check the question's dashboard and
+        // connection belong to the schedule's owner before running its SQL
+        if (question.dashboards?.user_id !== row.user_id || question.connections?.user_id !== row.user_id) {
+          console.error("[scheduler] Disabling schedule for a question its owner does not own:", row.id);
+          await supabase.from("scheduled_queries").update({ enabled: false } as never).eq("id", row.id);
+          continue;
+        }
+
+        let next: Date;
+        try {
+          next = nextRunAt(row.cron);
+        } catch (err) {
+          // Only possible for rows written before validation; stop retrying them
+          console.error("[scheduler] Disabling schedule with an invalid cron:", row.id, err);
+          await supabase.from("scheduled_queries").update({ enabled: false } as never).eq("id", row.id);
+          continue;
+        }
+
+        // Claim by moving next_run_at, only if no other worker already has
+        const { data: updated, error: claimError } = await supabase
+          .from("scheduled_queries")
+          .update({ next_run_at: next.toISOString(), last_run_at: now.toISOString() } as never)
+          .eq("id", row.id)
+          .eq("next_run_at", row.next_run_at)
+          .select("id");
+        if (claimError) throw new Error(`Failed to claim schedule ${row.id}: ${claimError.message}`);
+        if (!updated || updated.length === 0) continue;
+
+        claimed.push({
+          id: row.id,
+          connectionId: question.connection_id,
+          title: question.title,
+          question: question.question,
+          sql: question.sql,
+          cron: row.cron,
+          alertRule: row.alert_rule ? AlertRuleSchema.parse(row.alert_rule) : null,
+          targets: z.array(NotificationTargetSchema).parse(row.targets),
+        });
+      }
+      return claimed;
+    },
+
+    async recordRun(run) {
+      const { error } = await supabase.from("scheduled_query_runs").insert({
+        schedule_id: run.scheduleId,
+        started_at: run.startedAt.toISOString(),
+        finished_at: run.finishedAt.toISOString(),
+        status: run.status,
+        row_count: run.rowCount,
+        value: run.value,
+        triggered: run.triggered,
+        notified: run.notified,
+        error: run.error,
+        notification_error: run.notificationError,
+      } as never);
+      if (error) throw new Error(`Failed to record run for schedule ${run.scheduleId}: ${error.message}`);
+    },
+  };
+}
+
+/**
+ * Channels configured on this server: webhooks always, email when SMTP_URL
+ * and SMTP_FROM are set
+ */
+function notificationChannelsFromEnv(): NotificationChannels {
+  const channels: NotificationChannels = { webhook: createWebhookChannel() };
+  const smtpUrl = process.env.SMTP_URL;
+  const smtpFrom = process.env.SMTP_FROM;
+  if (smtpUrl && smtpFrom) {
+    channels.email = createSmtpChannel(smtpOptionsFromUrl(smtpUrl, smtpFrom));
+  }
+  return channels;
+}
+
+/**
+ * Whether the server can email notifications
+ */
+export function isEmailConfigured(): boolean {
+  return Boolean(process.env.SMTP_URL && process.env.SMTP_FROM);
+}
+
+/**
+ * Check a new or changed schedule's cron and targets. Returns the next run
+ * time for the cron (null when it is unchanged) or what is wrong.
+ */
+export function checkScheduleConfig(config: {
+  cron?: string;
+  targets?: { type: string }[];
+}): { nextRunAt: Date | null } | { error: string } {
+  if (config.targets?.some((t) => t.type === "email") && !isEmailConfigured()) {
+    return { error: "Email notifications are not configured on this server" };
+  }
+  if (config.cron === undefined) return { nextRunAt: null };
+  try {
+    return { nextRunAt: nextCronRun(config.cron, new Date()) };
+  } catch (err) {
+    if (err instanceof CronParseError) return { error: err.message };
+    throw err;
+  }
+}
+
+/**
+ * Run every due schedule. Called by the cron route.
+ */
+export async function runScheduledQueries(now?: Date): Promise<ScheduleRun[]> {
+  const supabase = createServiceClient();
+  return runDueSchedules({
+    store: createSupabaseScheduleStore(supabase),
+    executeQuery: (connectionId, sql) => executeSavedSql(supabase, connectionId, sql),
+    channels: notificationChannelsFromEnv(),
+    now,
+  });
+}
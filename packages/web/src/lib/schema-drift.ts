@@ -0,0 +1,101 @@
+import { openConnection } from "@/lib/process-query-for-connection";
+import { checkSchemaDrift } from "@heydata/core";
+import { IntrospectedSchemaSchema, type SchemaDriftReport } from "@heydata/shared";
+import { createServiceClient, type Database } from "@heydata/supabase";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type SemanticLayerRow = Database["public"]["Tables"]["semantic_layers"]["Row"];
+type CommandRow = Database["public"]["Tables"]["connection_commands"]["Row"];
+type VerifiedQueryRow = Database["public"]["Tables"]["verified_queries"]["Row"];
+
+/**
+ * Re-introspect a connection, compare it with the schema stored with its
+ * semantic layer and look for references to tables or columns that are gone.
+ * The report is saved on the connection, whose status becomes "drifted" when
+ * anything is broken, "active" when not, and "failed" when the database
+ * cannot be read.
+ */
+export async function checkConnectionDrift(
+  supabase: SupabaseClient<Database>,
+  connectionId: string,
+): Promise<SchemaDriftReport> {
+  let currentSchema;
+  try {
+    const { pool, adapter } = await openConnection(supabase, connectionId);
+    currentSchema = await adapter.introspect(pool);
+  } catch (err) {
+    await supabase
+      .from("connections")
+      .update({ status: "failed", last_tested_at: new Date().toISOString() } as never)
+      .eq("id", connectionId);
+    throw err;
+  }
+
+  const [layerResult, commandsResult, verifiedResult] = await Promise.all([
+    supabase
+      .from("semantic_layers")
+      .select("semantic_md, raw_schema")
+      .eq("connection_id", connectionId)
+      .maybeSingle(),
+    supabase
+      .from("connection_commands")
+      .select("id, slash_command, prompt")
+      .eq("connection_id", connectionId),
+    supabase
+      .from("verified_queries")
+      .select("id, question, sql")
+      .eq("connection_id", connectionId),
+  ]);
+
+  for (const { error } of [layerResult, commandsResult, verifiedResult]) {
+    if (error) throw new Error(`Failed to load references for drift check: ${error.message}`);
+  }
+
+  const layer = layerResult.data as Pick<SemanticLayerRow, "semantic_md" | "raw_schema"> | null;
+  const previousSchema = IntrospectedSchemaSchema.safeParse(layer?.raw_schema);
+  const commands = (commandsResult.data ?? []) as Pick<CommandRow, "id" | "slash_command" | "prompt">[];
+  const verifiedQueries = (verifiedResult.data ?? []) as Pick<VerifiedQueryRow, "id" | "question" | "sql">[];
+
+  const report = checkSchemaDrift({
+    previousSchema: previousSchema.success ? previousSchema.data : undefined,
+    currentSchema,
+    semanticMarkdown: layer?.semantic_md ?? "",
+    commands: commands.map((c) => ({ id: c.id, slashCommand: c.slash_command, prompt: c.prompt })),
+    verifiedQueries,
+  });
+
+  const { error } = await supabase
+    .from("connections")
+    .update({
+      status: report.brokenReferences.length > 0 ? "drifted" : "active",
+      drift_report: report,
+      last_tested_at: report.checkedAt,
+    } as never)
+    .eq("id", connectionId);
+  if (error) throw new Error(`Failed to save drift report for ${connectionId}: ${error.message}`);
+
+  return report;
+}
+
+/**
+ * Check every connection with a semantic layer, one at a time. Called by the
+ * cron route with the service role; a failing connection does not stop the rest.
+ */
+export async function runDriftChecks(): Promise<{ checked: number; drifted: number; failed: number }> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase.from("semantic_layers").select("connection_id");
+  if (error) throw new Error(`Failed to list connections for drift checks: ${error.message}`);
+
+  const summary = { checked: 0, drifted: 0, failed: 0 };
+  for (const { connection_id: connectionId } of (data ?? []) as Pick<SemanticLayerRow, "connection_id">[]) {
+    try {
+      const report = await checkConnectionDrift(supabase, connectionId);
+      summary.checked++;
+      if (report.brokenReferences.length > 0) summary.drifted++;
+    } catch (err) {
+      console.error("[drift] Check failed for connection:", connectionId, err);
+      summary.failed++;
+    }
+  }
+  return summary;
+}
@@ -41,7 +41,9 @@ export async function updateSession(request: NextRequest) {
   // Redirect unauthenticated users to login (except auth and public routes)
   const isAuthRoute = request.nextUrl.pathname.startsWith("/auth");
   const isPublicRoute = request.nextUrl.pathname === "/";
-  if (!user && !isAuthRoute && !isPublicRoute) {
+  // Cron triggers authenticate with CRON_SECRET instead of a session
+  const isCronRoute = request.nextUrl.pathname.startsWith("/api/cron/");
+  if (!user && !isAuthRoute && !isPublicRoute && !isCronRoute) {
     const url = request.nextUrl.clone();
     url.pathname = "/auth/login";
     return NextResponse.redirect(url);
@@ -0,0 +1,96 @@
+import { mkdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { UPLOAD_FILE_EXTENSIONS, uploadRoot } from "@heydata/bridge";
+
+/** Largest accepted file, per file */
+export const MAX_UPLOAD_FILE_BYTES = 50 * 1024 * 1024;
+
+/** Most files accepted for one connection */
+export const MAX_UPLOAD_FILES = 20;
+
+export class UploadValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadValidationError";
+  }
+}
+
+/**
+ * Safe on-disk name for an uploaded file: the original base name with
+ * anything outside [A-Za-z0-9_.-] replaced, keeping the extension.
+ */
+function safeFileName(name: string): string {
+  return path.basename(name).replace(/[^A-Za-z0-9_.-]+/g, "_");
+}
+
+/**
+ * Check uploaded files before anything is written: count, extension and size.
+ * Throws UploadValidationError with a message fit for the user.
+ */
+export function validateUploadedFiles(files: File[]): void {
+  if (files.length === 0) {
+    throw new UploadValidationError("Select at least one CSV or XLSX file.");
+  }
+  if (files.length > MAX_UPLOAD_FILES) {
+    throw new UploadValidationError(`Upload at most ${MAX_UPLOAD_FILES} files.`);
+  }
+  for (const file of files) {
+    const ext = path.extname(file.name).toLowerCase();
+    if (!(UPLOAD_FILE_EXTENSIONS as readonly string[]).includes(ext)) {
+      throw new UploadValidationError(`${file.name}: only CSV and XLSX files are supported.`);
+    }
+    if (file.size > MAX_UPLOAD_FILE_BYTES) {
+      throw new UploadValidationError(
+        `${file.name}: files must be under ${MAX_UPLOAD_FILE_BYTES / 1024 / 1024} MB.`,
+      );
+    }
+  }
+}
+
+/**
+ * Write uploaded files to a fresh directory owned by the user and return
+ * its path, which becomes the connection string of the upload connection.
+ */
+export async function saveUploadedFiles(userId: string, files: File[]): Promise<string> {
+  validateUploadedFiles(files);
+
+  const dir = path.join(uploadRoot(), safeFileName(userId), crypto.randomUUID());
+  await mkdir(dir, { recursive: true });
+  try {
+    const used = new Set<string>();
+    for (const file of files) {
+      let name = safeFileName(file.name);
+      const ext = path.extname(name);
+      for (let n = 2; used.has(name.toLowerCase()); n++) {
+        name = `${path.basename(safeFileName(file.name), ext)}_${n}${ext}`;
+      }
+      used.add(name.toLowerCase());
+      await writeFile(path.join(dir, name), Buffer.from(await file.arrayBuffer()));
+    }
+  } catch (error) {
+    await removeUploadedFiles(dir);
+    throw error;
+  }
+  return dir;
+}
+
+/**
+ * Delete the directory of an upload connection. Paths outside the upload
+ * root are never touched.
+ */
+export async function removeUploadedFiles(dir: string): Promise<void> {
+  const root = path.resolve(uploadRoot());
+  const target = path.resolve(dir);
+  if (!target.startsWith(root + path.sep)) return;
+  await rm(target, { recursive: true, force: true });
+}
+
+/**
+ * Whether a path lies in the upload root, where only upload connections,
+ * created by the server, may point
+ */
+export function isInUploadRoot(target: string): boolean {
+  const root = path.resolve(uploadRoot());
+  const resolved = path.resolve(target);
+  return resolved === root || resolved.startsWith(root + path.sep);
+}
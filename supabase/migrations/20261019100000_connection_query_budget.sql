@@ -0,0 +1,6 @@
+-- Per-connection limits on the planner's estimated cost of generated queries.
+-- Shape: { "confirmAboveCost"?: number, "maxCost"?: number } (see QueryBudgetSchema).
+-- Null means no limits.
+
+alter table public.connections
+  add column if not exists query_budget jsonb;
@@ -0,0 +1,65 @@
+-- Create query_cache table
+-- Shared cache for the query pipeline, so cached results survive restarts and
+-- are shared between server instances. Two kinds of entry, told apart by the
+-- cache_key prefix:
+--   result:<connection>:<semantic version>:<sha256 of normalised SQL>    → ResultSet
+--   response:<connection>:<semantic version>:<dialect>:<intent hash>     → OrchestratorResponse
+-- Entries are removed when the connection's semantic layer is saved.
+-- Keys are unique per connection, so one tenant's entry can never collide
+-- with (or be overwritten through) another's.
+
+create table if not exists public.query_cache (
+  cache_key text not null,
+  connection_id uuid references public.connections(id) on delete cascade not null,
+  value jsonb not null,
+  expires_at timestamptz not null,
+  created_at timestamptz default now(),
+  primary key (connection_id, cache_key)
+);
+
+-- Enable RLS
+alter table public.query_cache enable row level security;
+
+-- RLS policies: access scoped via connection ownership (same pattern as semantic_layers)
+create policy "Users can view cache entries for own connections"
+  on public.query_cache for select
+  using (
+    connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+create policy "Users can insert cache entries for own connections"
+  on public.query_cache for insert
+  with check (
+    connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+-- The check repeats the insert policy, so an update cannot move an entry
+-- onto another user's connection
+create policy "Users can update cache entries for own connections"
+  on public.query_cache for update
+  using (
+    connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  )
+  with check (
+    connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete cache entries for own connections"
+  on public.query_cache for delete
+  using (
+    connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+-- Index for invalidating a connection's entries and pruning expired ones
+create index if not exists idx_query_cache_connection_id_expires_at
+  on public.query_cache(connection_id, expires_at);
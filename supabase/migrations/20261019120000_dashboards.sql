@@ -0,0 +1,115 @@
+-- Create dashboards and saved_questions tables
+-- A saved question is a pinned query result: the question, the SQL that
+-- answered it and its VisualizationSpec. Opening a dashboard re-runs the SQL
+-- directly, without the agent pipeline.
+
+create table if not exists public.dashboards (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Enable RLS
+alter table public.dashboards enable row level security;
+
+-- RLS policies: users can only access their own dashboards
+create policy "Users can view own dashboards"
+  on public.dashboards for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own dashboards"
+  on public.dashboards for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own dashboards"
+  on public.dashboards for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete own dashboards"
+  on public.dashboards for delete
+  using (auth.uid() = user_id);
+
+-- Indexes
+create index if not exists idx_dashboards_user_id on public.dashboards(user_id);
+
+-- Auto-update updated_at
+create trigger update_dashboards_updated_at
+  before update on public.dashboards
+  for each row
+  execute function public.update_updated_at_column();
+
+create table if not exists public.saved_questions (
+  id uuid default gen_random_uuid() primary key,
+  dashboard_id uuid references public.dashboards(id) on delete cascade not null,
+  connection_id uuid references public.connections(id) on delete cascade not null,
+  title text not null,
+  question text not null,
+  sql text not null,              -- the SQL as executed, in the connection's dialect
+  visualization jsonb not null,   -- VisualizationSpec
+  position integer not null default 0,  -- order in the dashboard grid
+  width integer not null default 6,     -- grid columns spanned (of 12)
+  height integer not null default 2,    -- grid rows spanned
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Enable RLS
+alter table public.saved_questions enable row level security;
+
+-- RLS policies: access scoped via dashboard ownership
+create policy "Users can view questions for own dashboards"
+  on public.saved_questions for select
+  using (
+    dashboard_id in (
+      select id from public.dashboards where user_id = auth.uid()
+    )
+  );
+
+create policy "Users can insert questions for own dashboards"
+  on public.saved_questions for insert
+  with check (
+    dashboard_id in (
+      select id from public.dashboards where user_id = auth.uid()
+    )
+    and connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+-- The check repeats the insert policy, so an update cannot move a question
+-- onto another user's connection
+create policy "Users can update questions for own dashboards"
+  on public.saved_questions for update
+  using (
+    dashboard_id in (
+      select id from public.dashboards where user_id = auth.uid()
+    )
+  )
+  with check (
+    dashboard_id in (
+      select id from public.dashboards where user_id = auth.uid()
+    )
+    and connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete questions for own dashboards"
+  on public.saved_questions for delete
+  using (
+    dashboard_id in (
+      select id from public.dashboards where user_id = auth.uid()
+    )
+  );
+
+-- Index for fast dashboard lookups (in grid order)
+create index if not exists idx_saved_questions_dashboard_id on public.saved_questions(dashboard_id, position);
+create index if not exists idx_saved_questions_connection_id on public.saved_questions(connection_id);
+
+-- Auto-update updated_at
+create trigger update_saved_questions_updated_at
+  before update on public.saved_questions
+  for each row
+  execute function public.update_updated_at_column();
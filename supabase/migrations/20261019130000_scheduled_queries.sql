@@ -0,0 +1,100 @@
+-- Create scheduled_queries and scheduled_query_runs tables
+-- A scheduled query re-runs a saved question's SQL on a cron schedule,
+-- optionally checks an alert rule on the result and notifies its targets.
+-- The worker (/api/cron/schedules) uses the service role and claims a due
+-- schedule by moving next_run_at forward only if it has not changed.
+
+create table if not exists public.scheduled_queries (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  saved_question_id uuid references public.saved_questions(id) on delete cascade not null,
+  cron text not null,                      -- five-field cron expression, UTC
+  alert_rule jsonb,                        -- AlertRule; null notifies on every run
+  targets jsonb not null default '[]',     -- NotificationTarget[]
+  enabled boolean not null default true,
+  next_run_at timestamptz not null,
+  last_run_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Enable RLS
+alter table public.scheduled_queries enable row level security;
+
+-- RLS policies: users can only access their own schedules
+create policy "Users can view own scheduled queries"
+  on public.scheduled_queries for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own scheduled queries"
+  on public.scheduled_queries for insert
+  with check (
+    auth.uid() = user_id
+    and saved_question_id in (
+      select q.id from public.saved_questions q
+      join public.dashboards d on d.id = q.dashboard_id
+      where d.user_id = auth.uid()
+    )
+  );
+
+-- The check repeats the insert policy, so an update cannot point a schedule
+-- at another user's saved question
+create policy "Users can update own scheduled queries"
+  on public.scheduled_queries for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and saved_question_id in (
+      select q.id from public.saved_questions q
+      join public.dashboards d on d.id = q.dashboard_id
+      where d.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete own scheduled queries"
+  on public.scheduled_queries for delete
+  using (auth.uid() = user_id);
+
+-- Indexes
+create index if not exists idx_scheduled_queries_user_id on public.scheduled_queries(user_id);
+create index if not exists idx_scheduled_queries_saved_question_id on public.scheduled_queries(saved_question_id);
+-- The worker's due lookup
+create index if not exists idx_scheduled_queries_due on public.scheduled_queries(next_run_at) where enabled;
+
+-- Auto-update updated_at
+create trigger update_scheduled_queries_updated_at
+  before update on public.scheduled_queries
+  for each row
+  execute function public.update_updated_at_column();
+
+create table if not exists public.scheduled_query_runs (
+  id uuid default gen_random_uuid() primary key,
+  schedule_id uuid references public.scheduled_queries(id) on delete cascade not null,
+  started_at timestamptz not null,
+  finished_at timestamptz not null,
+  status text not null check (status in ('success', 'failed')),
+  row_count integer,
+  value double precision,                 -- the alert rule's metric value
+  triggered boolean not null default false,
+  notified boolean not null default false,
+  error text,                             -- query or alert rule failure
+  notification_error text,                -- delivery failures, one per line
+  created_at timestamptz default now()
+);
+
+-- Enable RLS
+alter table public.scheduled_query_runs enable row level security;
+
+-- RLS policies: read-only for users, scoped via schedule ownership; runs are
+-- written by the worker with the service role
+create policy "Users can view runs for own scheduled queries"
+  on public.scheduled_query_runs for select
+  using (
+    schedule_id in (
+      select id from public.scheduled_queries where user_id = auth.uid()
+    )
+  );
+
+-- Index for run history (newest first)
+create index if not exists idx_scheduled_query_runs_schedule_id
+  on public.scheduled_query_runs(schedule_id, started_at desc);
@@ -0,0 +1,61 @@
+-- Create query_feedback table
+-- Answers users flagged as incorrect, with the full OrchestratorResponse
+-- (intent, SQL, trace) and the user's correction. Reviewers work through
+-- them per connection and can turn them into semantic layer edits.
+
+create table if not exists public.query_feedback (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  connection_id uuid references public.connections(id) on delete cascade not null,
+  session_id uuid references public.chat_sessions(id) on delete set null,
+  question text not null,
+  response jsonb not null,          -- OrchestratorResponse as shown to the user
+  correction text not null,         -- what the user says is wrong / expected
+  status text not null default 'open' check (status in ('open', 'resolved', 'dismissed')),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Enable RLS
+alter table public.query_feedback enable row level security;
+
+-- RLS policies: users can only access their own feedback, on their own connections
+create policy "Users can view own feedback"
+  on public.query_feedback for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own feedback"
+  on public.query_feedback for insert
+  with check (
+    auth.uid() = user_id
+    and connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+-- The check repeats the insert policy, so an update cannot move a row onto
+-- another user's connection
+create policy "Users can update own feedback"
+  on public.query_feedback for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete own feedback"
+  on public.query_feedback for delete
+  using (auth.uid() = user_id);
+
+-- Index for the review queue (per connection, newest first)
+create index if not exists idx_query_feedback_connection_id
+  on public.query_feedback(connection_id, status, created_at desc);
+create index if not exists idx_query_feedback_user_id on public.query_feedback(user_id);
+
+-- Auto-update updated_at
+create trigger update_query_feedback_updated_at
+  before update on public.query_feedback
+  for each row
+  execute function public.update_updated_at_column();
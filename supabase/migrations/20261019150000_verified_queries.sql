@@ -0,0 +1,59 @@
+-- Create verified_queries table
+-- Question and SQL pairs an analytics engineer has checked, per connection.
+-- The most similar are given to the intent resolver and SQL generator as
+-- few-shot examples, and answers that run one unchanged are badged.
+
+create table if not exists public.verified_queries (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  connection_id uuid references public.connections(id) on delete cascade not null,
+  question text not null,
+  sql text not null,                -- PostgreSQL, as the SQL generator writes it
+  intent jsonb,                     -- IntentObject, when verified from a chat answer
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Enable RLS
+alter table public.verified_queries enable row level security;
+
+-- RLS policies: users can only access their own verified queries, on their own connections
+create policy "Users can view own verified queries"
+  on public.verified_queries for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert own verified queries"
+  on public.verified_queries for insert
+  with check (
+    auth.uid() = user_id
+    and connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+-- The check repeats the insert policy, so an update cannot move a row onto
+-- another user's connection
+create policy "Users can update own verified queries"
+  on public.verified_queries for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete own verified queries"
+  on public.verified_queries for delete
+  using (auth.uid() = user_id);
+
+-- Index for loading a connection's library
+create index if not exists idx_verified_queries_connection_id
+  on public.verified_queries(connection_id, created_at desc);
+create index if not exists idx_verified_queries_user_id on public.verified_queries(user_id);
+
+-- Auto-update updated_at
+create trigger update_verified_queries_updated_at
+  before update on public.verified_queries
+  for each row
+  execute function public.update_updated_at_column();
@@ -0,0 +1,7 @@
+-- Governed metric definitions, authored as YAML next to the semantic layer
+-- Markdown: one document with metrics, dimensions and entities lists (see
+-- parseDefinitions in @heydata/semantic). Intents that only use defined
+-- metrics are compiled to SQL without the LLM. Empty means no definitions.
+
+alter table public.semantic_layers
+  add column if not exists definitions_yaml text not null default '';
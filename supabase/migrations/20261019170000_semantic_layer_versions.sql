@@ -0,0 +1,98 @@
+-- Create semantic_layer_versions table
+-- Every save of a semantic layer's Markdown or metric definitions is kept as an
+-- immutable version: a trigger on semantic_layers snapshots the new content and
+-- points current_version_id at it, so no write path can skip the history.
+-- Answers record the version they were produced with.
+
+create table if not exists public.semantic_layer_versions (
+  id uuid default gen_random_uuid() primary key,
+  connection_id uuid references public.connections(id) on delete cascade not null,
+  author_id uuid references auth.users(id) on delete set null,
+  author_email text,
+  source text not null check (source in ('manual', 'generated', 'rollback')),
+  restored_from uuid references public.semantic_layer_versions(id) on delete set null,
+  semantic_md text not null,
+  definitions_yaml text not null default '',
+  created_at timestamptz default now()
+);
+
+-- Enable RLS
+alter table public.semantic_layer_versions enable row level security;
+
+-- RLS policies: readable through connection ownership. There are no insert,
+-- update or delete policies; only the trigger below writes versions.
+create policy "Users can view semantic layer versions for own connections"
+  on public.semantic_layer_versions for select
+  using (
+    connection_id in (
+      select id from public.connections where user_id = auth.uid()
+    )
+  );
+
+-- Index for listing a connection's history
+create index if not exists idx_semantic_layer_versions_connection_id
+  on public.semantic_layer_versions(connection_id, created_at desc);
+
+-- The current version, and how the next write should be recorded. Writers set
+-- next_version_source ('generated' or 'rollback', default 'manual') and
+-- next_version_restored_from in the same update; the trigger clears them.
+alter table public.semantic_layers
+  add column if not exists current_version_id uuid references public.semantic_layer_versions(id) on delete set null,
+  add column if not exists next_version_source text check (next_version_source in ('manual', 'generated', 'rollback')),
+  add column if not exists next_version_restored_from uuid;
+
+create or replace function public.record_semantic_layer_version()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  version_id uuid;
+begin
+  if tg_op = 'UPDATE'
+    and new.semantic_md is not distinct from old.semantic_md
+    and new.definitions_yaml is not distinct from old.definitions_yaml then
+    new.next_version_source := null;
+    new.next_version_restored_from := null;
+    return new;
+  end if;
+
+  insert into public.semantic_layer_versions
+    (connection_id, author_id, author_email, source, restored_from, semantic_md, definitions_yaml)
+  values (
+    new.connection_id,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    coalesce(new.next_version_source, 'manual'),
+    new.next_version_restored_from,
+    new.semantic_md,
+    new.definitions_yaml
+  )
+  returning id into version_id;
+
+  new.current_version_id := version_id;
+  new.next_version_source := null;
+  new.next_version_restored_from := null;
+  return new;
+end;
+$$;
+
+create trigger trg_record_semantic_layer_version
+  before insert or update of semantic_md, definitions_yaml on public.semantic_layers
+  for each row
+  execute function public.record_semantic_layer_version();
+
+-- Existing layers start with their current content as the first version
+with snapshots as (
+  insert into public.semantic_layer_versions
+    (connection_id, author_id, source, semantic_md, definitions_yaml, created_at)
+  select l.connection_id, c.user_id, 'manual', l.semantic_md, l.definitions_yaml, coalesce(l.updated_at, now())
+  from public.semantic_layers l
+  join public.connections c on c.id = l.connection_id
+  where l.current_version_id is null
+  returning id, connection_id
+)
+update public.semantic_layers l
+  set current_version_id = s.id
+  from snapshots s
+  where l.connection_id = s.connection_id;
@@ -0,0 +1,7 @@
+-- Schema drift: the latest comparison of a connection's live schema with the
+-- raw_schema stored with its semantic layer (a SchemaDriftReport from
+-- @heydata/shared). Connections whose semantic layer, commands or verified
+-- queries refer to tables or columns that are gone get status 'drifted'.
+
+alter table public.connections
+  add column if not exists drift_report jsonb;